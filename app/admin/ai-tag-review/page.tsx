@@ -0,0 +1,409 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  aiTagReviewService,
+  AI_TAG_FIELDS,
+  type AiTagDecision,
+  type AiTagDecisionEntry,
+  type AiTagFieldProposal,
+  type AiTagProposal,
+} from "@/lib/firestore/aiTagReviewService"
+import type { AiTagField } from "@/lib/types"
+import { useAuth } from "@/hooks/use-auth"
+import { toast } from "@/hooks/use-toast"
+import { Check, ClipboardCheck, Loader2, Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+const FIELD_LABELS: Record<AiTagField, string> = {
+  color: "Color",
+  cuisine: "Cuisine",
+  primaryIngredient: "Ingredient",
+  flavorProfile: "Flavor",
+  submealCategory: "Sub-Category",
+  heavyLight: "Heavy/Light",
+}
+
+const CONFIDENCE_FILTERS = [
+  { value: "all", label: "All confidence" },
+  { value: "high", label: "High (≥ 0.8)" },
+  { value: "medium", label: "Medium (0.5 – 0.8)" },
+  { value: "low", label: "Low (< 0.5 or unknown)" },
+]
+
+function matchesConfidence(confidence: number | undefined | null, filter: string) {
+  if (filter === "all") return true
+  if (confidence === undefined || confidence === null) return filter === "low"
+  if (filter === "high") return confidence >= 0.8
+  if (filter === "medium") return confidence >= 0.5 && confidence < 0.8
+  return confidence < 0.5
+}
+
+function ConfidenceBadge({ confidence }: { confidence?: number | null }) {
+  if (confidence === undefined || confidence === null) {
+    return <Badge variant="outline" className="text-[10px] text-gray-400">n/a</Badge>
+  }
+  const color =
+    confidence >= 0.8
+      ? "bg-emerald-50 text-emerald-700 border-emerald-200"
+      : confidence >= 0.5
+      ? "bg-amber-50 text-amber-700 border-amber-200"
+      : "bg-red-50 text-red-700 border-red-200"
+  return <Badge variant="outline" className={`text-[10px] ${color}`}>{Math.round(confidence * 100)}%</Badge>
+}
+
+function formatTimestamp(value: any) {
+  const date = value?.toDate ? value.toDate() : value ? new Date(value) : null
+  return date ? date.toLocaleString() : "—"
+}
+
+export default function AiTagReviewPage() {
+  const { userProfile } = useAuth()
+  const [pending, setPending] = useState<AiTagProposal[]>([])
+  const [resolved, setResolved] = useState<AiTagProposal[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [confidenceFilter, setConfidenceFilter] = useState("all")
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [pendingData, resolvedData] = await Promise.all([
+        aiTagReviewService.getPending(),
+        aiTagReviewService.getResolved(),
+      ])
+      setPending(pendingData)
+      setResolved(resolvedData)
+      setSelectedIds(new Set())
+    } catch (error) {
+      console.error("Error loading AI tag proposals:", error)
+      toast({ title: "Error", description: "Failed to load the review queue", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const visible = useMemo(
+    () =>
+      pending.filter(
+        (p) =>
+          p.itemName.toLowerCase().includes(searchTerm.toLowerCase()) &&
+          matchesConfidence(p.confidence, confidenceFilter),
+      ),
+    [pending, searchTerm, confidenceFilter],
+  )
+
+  // Bulk actions apply to the selected rows, or to every visible row when nothing is selected
+  const bulkTargets = selectedIds.size > 0 ? visible.filter((p) => selectedIds.has(p.id)) : visible
+
+  const pendingCountByField = useMemo(() => {
+    const counts = {} as Record<AiTagField, number>
+    AI_TAG_FIELDS.forEach((field) => {
+      counts[field] = bulkTargets.filter((p) => p.fields[field]?.status === "pending").length
+    })
+    return counts
+  }, [bulkTargets])
+
+  const auditRows = useMemo(
+    () =>
+      resolved.flatMap((proposal) =>
+        AI_TAG_FIELDS.filter((field) => proposal.fields[field]).map((field) => ({
+          proposal,
+          field,
+          change: proposal.fields[field] as AiTagFieldProposal,
+        })),
+      ),
+    [resolved],
+  )
+
+  const applyDecisions = async (entries: AiTagDecisionEntry[]) => {
+    if (!userProfile) {
+      toast({ title: "Error", description: "Sign in again to review tags", variant: "destructive" })
+      return
+    }
+    if (entries.length === 0) return
+    try {
+      setSaving(true)
+      const { applied, rejected, skipped } = await aiTagReviewService.decide(entries, {
+        id: userProfile.id,
+        name: userProfile.name,
+      })
+      toast({
+        title: "Review saved",
+        description:
+          `${applied} tag${applied === 1 ? "" : "s"} applied, ${rejected} rejected` +
+          (skipped > 0 ? `, ${skipped} skipped (already decided or superseded)` : ""),
+      })
+      await loadData()
+    } catch (error) {
+      console.error("Error saving AI tag review:", error)
+      toast({ title: "Error", description: "Failed to save review decisions", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const decideField = (field: AiTagField, decision: AiTagDecision) =>
+    applyDecisions(
+      bulkTargets
+        .filter((p) => p.fields[field]?.status === "pending")
+        .map((proposal) => ({ proposal, field, decision })),
+    )
+
+  const decideRow = (proposal: AiTagProposal, decision: AiTagDecision) =>
+    applyDecisions(
+      AI_TAG_FIELDS.filter((field) => proposal.fields[field]?.status === "pending").map((field) => ({
+        proposal,
+        field,
+        decision,
+      })),
+    )
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds)
+    if (checked) next.add(id)
+    else next.delete(id)
+    setSelectedIds(next)
+  }
+
+  const allVisibleSelected = visible.length > 0 && visible.every((p) => selectedIds.has(p.id))
+
+  if (loading && pending.length === 0 && resolved.length === 0) {
+    return <div className="flex items-center justify-center h-64 font-medium">Loading review queue...</div>
+  }
+
+  return (
+    <div className="space-y-4 p-6 max-w-[1600px] mx-auto">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <ClipboardCheck className="h-6 w-6 text-violet-600" />
+          AI Tag Review
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          AI categorisation proposes tag changes here instead of writing them to menu items. Accepted values are
+          applied to the item; tags corrected by hand on the Menu Items page are locked and never proposed.
+        </p>
+      </div>
+
+      <Tabs defaultValue="queue">
+        <TabsList>
+          <TabsTrigger value="queue">Queue ({pending.length})</TabsTrigger>
+          <TabsTrigger value="audit">Audit</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="queue" className="space-y-4">
+          <Card>
+            <CardContent className="pt-6 flex flex-wrap items-center gap-3">
+              <div className="relative w-64">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search items..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+              <Select value={confidenceFilter} onValueChange={setConfidenceFilter}>
+                <SelectTrigger className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONFIDENCE_FILTERS.map((f) => (
+                    <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-gray-500">
+                Bulk actions apply to {selectedIds.size > 0 ? `${bulkTargets.length} selected` : `all ${visible.length} shown`}
+              </span>
+              {saving && <Loader2 className="h-4 w-4 animate-spin text-violet-600" />}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-0 overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allVisibleSelected}
+                        onCheckedChange={(checked) =>
+                          setSelectedIds(checked ? new Set(visible.map((p) => p.id)) : new Set())
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Confidence</TableHead>
+                    {AI_TAG_FIELDS.map((field) => (
+                      <TableHead key={field} className="min-w-[150px]">
+                        <div className="flex items-center gap-1">
+                          <span>{FIELD_LABELS[field]}</span>
+                          <button
+                            className="text-green-600 hover:text-green-700 disabled:opacity-30"
+                            title={`Accept ${pendingCountByField[field]} ${FIELD_LABELS[field]} change(s)`}
+                            disabled={saving || pendingCountByField[field] === 0}
+                            onClick={() => decideField(field, "accepted")}
+                          >
+                            <Check className="h-3.5 w-3.5" />
+                          </button>
+                          <button
+                            className="text-red-500 hover:text-red-600 disabled:opacity-30"
+                            title={`Reject ${pendingCountByField[field]} ${FIELD_LABELS[field]} change(s)`}
+                            disabled={saving || pendingCountByField[field] === 0}
+                            onClick={() => decideField(field, "rejected")}
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">Row</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={AI_TAG_FIELDS.length + 4} className="text-center text-gray-500 py-10">
+                        No tag changes waiting for review
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visible.map((proposal) => (
+                      <TableRow key={proposal.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(proposal.id)}
+                            onCheckedChange={(checked) => toggleSelected(proposal.id, !!checked)}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">{proposal.itemName}</TableCell>
+                        <TableCell>
+                          <ConfidenceBadge confidence={proposal.confidence} />
+                        </TableCell>
+                        {AI_TAG_FIELDS.map((field) => {
+                          const change = proposal.fields[field]
+                          if (!change) {
+                            return <TableCell key={field} className="text-gray-300">—</TableCell>
+                          }
+                          return (
+                            <TableCell key={field}>
+                              <div className="flex items-center gap-1 text-xs">
+                                {change.current && <span className="line-through text-gray-400">{change.current}</span>}
+                                <span className={change.status === "rejected" ? "line-through text-gray-400" : "text-violet-700 font-medium"}>
+                                  {change.proposed}
+                                </span>
+                                {change.status === "pending" ? (
+                                  <>
+                                    <button
+                                      className="text-green-600 hover:text-green-700"
+                                      disabled={saving}
+                                      onClick={() => applyDecisions([{ proposal, field, decision: "accepted" }])}
+                                    >
+                                      <Check className="h-3 w-3" />
+                                    </button>
+                                    <button
+                                      className="text-red-500 hover:text-red-600"
+                                      disabled={saving}
+                                      onClick={() => applyDecisions([{ proposal, field, decision: "rejected" }])}
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </>
+                                ) : (
+                                  <Badge variant="outline" className="text-[9px] capitalize">{change.status}</Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                          )
+                        })}
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button size="sm" variant="ghost" className="h-7 text-green-700" disabled={saving} onClick={() => decideRow(proposal, "accepted")}>
+                            Accept
+                          </Button>
+                          <Button size="sm" variant="ghost" className="h-7 text-red-600" disabled={saving} onClick={() => decideRow(proposal, "rejected")}>
+                            Reject
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="audit">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Recent decisions</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Confidence</TableHead>
+                    <TableHead>Decision</TableHead>
+                    <TableHead>Reviewed by</TableHead>
+                    <TableHead>When</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {auditRows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-gray-500 py-10">No decisions yet</TableCell>
+                    </TableRow>
+                  ) : (
+                    auditRows.map(({ proposal, field, change }) => (
+                      <TableRow key={`${proposal.id}-${field}`}>
+                        <TableCell className="font-medium">{proposal.itemName}</TableCell>
+                        <TableCell>{FIELD_LABELS[field]}</TableCell>
+                        <TableCell className="text-xs">
+                          <span className="text-gray-400">{change.current || "—"}</span> → {change.proposed}
+                        </TableCell>
+                        <TableCell>
+                          <ConfidenceBadge confidence={proposal.confidence} />
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={`capitalize ${
+                              change.status === "accepted"
+                                ? "bg-emerald-50 text-emerald-700 border-emerald-200"
+                                : "bg-red-50 text-red-700 border-red-200"
+                            }`}
+                          >
+                            {change.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{change.decidedByName || "—"}</TableCell>
+                        <TableCell className="text-xs text-gray-500">{formatTimestamp(change.decidedAt)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
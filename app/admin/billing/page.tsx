@@ -0,0 +1,440 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import {
+  companiesService,
+  buildingsService,
+  structureAssignmentsService,
+  vendorContractsService,
+  vendorsService,
+  holidaysService,
+  taxTemplatesService,
+  employeesService,
+  invoicesService,
+  type Company,
+  type Building,
+  type StructureAssignment,
+  type VendorContract,
+  type Vendor,
+  type Holiday,
+  type TaxTemplate,
+  type Employee,
+  type Invoice,
+} from "@/lib/firestore"
+import { cafeteriasService, type Cafeteria } from "@/lib/firestore/cafeteriasService"
+import { calculateMonthlyBilling, findContractsForBuilding, type BillingResult } from "@/lib/billing"
+import { generateInvoicePdf } from "@/lib/invoice-pdf"
+import { toast } from "@/hooks/use-toast"
+import { Receipt, Download, Save, Loader2, AlertCircle, MoreHorizontal, IndianRupee } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+
+const statusColors: Record<Invoice["status"], string> = {
+  draft: "bg-gray-100 text-gray-700",
+  issued: "bg-blue-100 text-blue-700",
+  paid: "bg-green-100 text-green-700",
+  cancelled: "bg-red-100 text-red-700",
+}
+
+const formatAmount = (value: number) =>
+  `₹${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+export default function BillingPage() {
+  const [companies, setCompanies] = useState<Company[]>([])
+  const [buildings, setBuildings] = useState<Building[]>([])
+  const [structures, setStructures] = useState<StructureAssignment[]>([])
+  const [contracts, setContracts] = useState<VendorContract[]>([])
+  const [vendors, setVendors] = useState<Vendor[]>([])
+  const [holidays, setHolidays] = useState<Holiday[]>([])
+  const [taxTemplates, setTaxTemplates] = useState<TaxTemplate[]>([])
+  const [cafeterias, setCafeterias] = useState<Cafeteria[]>([])
+  const [employees, setEmployees] = useState<Employee[]>([])
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [companyId, setCompanyId] = useState("")
+  const [buildingId, setBuildingId] = useState("")
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7))
+  const [taxTemplateId, setTaxTemplateId] = useState("")
+  const [interState, setInterState] = useState(false)
+  const [preview, setPreview] = useState<BillingResult | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [comp, bldg, struct, contr, vend, hol, tax, caf, emp, inv] = await Promise.all([
+        companiesService.getAll(),
+        buildingsService.getAll(),
+        structureAssignmentsService.getAll(),
+        vendorContractsService.getAll(),
+        vendorsService.getAll(),
+        holidaysService.getAll(),
+        taxTemplatesService.getAll(),
+        cafeteriasService.getAll(),
+        employeesService.getAll(),
+        invoicesService.getAll(),
+      ])
+      setCompanies(comp)
+      setBuildings(bldg)
+      setStructures(struct)
+      setContracts(contr)
+      setVendors(vend)
+      setHolidays(hol)
+      setTaxTemplates(tax)
+      setCafeterias(caf)
+      setEmployees(emp)
+      setInvoices(inv)
+    } catch (error) {
+      console.error("Error loading billing data:", error)
+      toast({ title: "Error", description: "Failed to load billing data", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const companyBuildings = useMemo(() => buildings.filter((b) => b.companyId === companyId), [buildings, companyId])
+
+  const handleGenerate = () => {
+    const company = companies.find((c) => c.id === companyId)
+    const building = buildings.find((b) => b.id === buildingId)
+    if (!company || !building || !month) {
+      toast({ title: "Error", description: "Select company, building and month", variant: "destructive" })
+      return
+    }
+
+    const structure = structures.find(
+      (s) => s.companyId === companyId && s.buildingId === buildingId && s.status === "active",
+    )
+    if (!structure) {
+      toast({ title: "Error", description: "No active structure assignment for this building", variant: "destructive" })
+      return
+    }
+
+    const monthContracts = findContractsForBuilding(contracts, companyId, buildingId, month)
+    if (monthContracts.length === 0) {
+      toast({ title: "Error", description: "No active vendor contract covers this building", variant: "destructive" })
+      return
+    }
+
+    setPreview(
+      calculateMonthlyBilling({
+        month,
+        company,
+        building,
+        structure,
+        contracts: monthContracts,
+        vendor: vendors.find((v) => v.id === monthContracts[monthContracts.length - 1].vendorId),
+        holidays,
+        headcountSources: { cafeterias, employees },
+        taxTemplate: taxTemplates.find((t) => t.id === taxTemplateId),
+        interState,
+      }),
+    )
+  }
+
+  const handleSaveDraft = async () => {
+    if (!preview) return
+    const duplicate = invoices.find(
+      (inv) => inv.invoiceNumber === preview.invoice.invoiceNumber && inv.status !== "cancelled",
+    )
+    if (duplicate) {
+      toast({
+        title: "Error",
+        description: `Invoice ${duplicate.invoiceNumber} already exists (${duplicate.status})`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+      await invoicesService.add(preview.invoice)
+      toast({ title: "Success", description: "Draft invoice saved" })
+      setPreview(null)
+      setInvoices(await invoicesService.getAll())
+    } catch (error) {
+      console.error("Error saving invoice:", error)
+      toast({ title: "Error", description: "Failed to save invoice", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleStatusChange = async (invoice: Invoice, status: Invoice["status"]) => {
+    try {
+      await invoicesService.update(invoice.id, { status })
+      setInvoices((prev) => prev.map((inv) => (inv.id === invoice.id ? { ...inv, status } : inv)))
+      toast({ title: "Success", description: `Invoice marked as ${status}` })
+    } catch (error) {
+      console.error("Error updating invoice:", error)
+      toast({ title: "Error", description: "Failed to update invoice", variant: "destructive" })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Receipt className="h-6 w-6" /> Client Billing
+        </h1>
+        <p className="text-gray-500">
+          Monthly invoices from structure rates, contract base rates, headcounts and the corporate calendar.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Company</Label>
+            <Select
+              value={companyId}
+              onValueChange={(value) => {
+                setCompanyId(value)
+                setBuildingId("")
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select company" />
+              </SelectTrigger>
+              <SelectContent>
+                {companies.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Building</Label>
+            <Select value={buildingId} onValueChange={setBuildingId} disabled={!companyId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select building" />
+              </SelectTrigger>
+              <SelectContent>
+                {companyBuildings.map((b) => (
+                  <SelectItem key={b.id} value={b.id}>
+                    {b.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Month</Label>
+            <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>GST Template</Label>
+            <Select value={taxTemplateId} onValueChange={setTaxTemplateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select tax" />
+              </SelectTrigger>
+              <SelectContent>
+                {taxTemplates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name} ({t.rate}%)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 h-10">
+            <Checkbox id="interState" checked={interState} onCheckedChange={(checked) => setInterState(!!checked)} />
+            <Label htmlFor="interState">Inter-state (IGST)</Label>
+          </div>
+          <Button onClick={handleGenerate}>
+            <IndianRupee className="h-4 w-4 mr-2" /> Calculate
+          </Button>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>{preview.invoice.invoiceNumber}</CardTitle>
+              <p className="text-sm text-gray-500">
+                {preview.invoice.vendorName} → {preview.invoice.companyName} / {preview.invoice.buildingName}
+                {!preview.invoice.vendorGstNumber && " · vendor not GST registered, no tax applied"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => generateInvoicePdf(preview.invoice, vendors.find((v) => v.id === preview.invoice.vendorId))}>
+                <Download className="h-4 w-4 mr-2" /> PDF
+              </Button>
+              <Button onClick={handleSaveDraft} disabled={saving || preview.invoice.lines.length === 0}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Draft
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {preview.issues.length > 0 && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <div className="flex items-center gap-2 font-medium mb-1">
+                  <AlertCircle className="h-4 w-4" /> {preview.issues.length} day(s) could not be billed
+                </div>
+                <ul className="list-disc pl-5 max-h-32 overflow-y-auto">
+                  {preview.issues.map((issue, idx) => (
+                    <li key={idx}>
+                      {issue.date} · {issue.subServiceName}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Service</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead className="text-right">Portions</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.invoice.lines.map((line) => (
+                  <TableRow key={`${line.serviceId}-${line.subServiceId}-${line.rate}`}>
+                    <TableCell>
+                      {line.serviceName} - {line.subServiceName}
+                      {line.rateSource === "contract" && (
+                        <Badge variant="outline" className="ml-2 text-xs">
+                          contract rate
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{line.servedDays}</TableCell>
+                    <TableCell className="text-right">{line.portions}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.rate)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.amount)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell colSpan={4} className="text-right font-medium">
+                    Subtotal
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(preview.invoice.subtotal)}</TableCell>
+                </TableRow>
+                {preview.invoice.taxRate > 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-right font-medium">
+                      {preview.invoice.interState
+                        ? `IGST @ ${preview.invoice.taxRate}%`
+                        : `CGST + SGST @ ${preview.invoice.taxRate / 2}% + ${preview.invoice.taxRate / 2}%`}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(preview.invoice.totalTax)}</TableCell>
+                  </TableRow>
+                )}
+                <TableRow>
+                  <TableCell colSpan={4} className="text-right font-bold">
+                    Total
+                  </TableCell>
+                  <TableCell className="text-right font-bold">{formatAmount(preview.invoice.total)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            {preview.invoice.skippedHolidays.length > 0 && (
+              <p className="text-xs text-gray-500">Holidays not billed: {preview.invoice.skippedHolidays.join(", ")}</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Invoices</CardTitle>
+        </CardHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invoice #</TableHead>
+              <TableHead>Month</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-12"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoices.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                  No invoices yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              invoices.map((invoice) => (
+                <TableRow key={invoice.id}>
+                  <TableCell className="font-mono text-xs">{invoice.invoiceNumber}</TableCell>
+                  <TableCell>{invoice.month}</TableCell>
+                  <TableCell>
+                    {invoice.companyName} / {invoice.buildingName}
+                  </TableCell>
+                  <TableCell>{invoice.vendorName}</TableCell>
+                  <TableCell className="text-right">{formatAmount(invoice.total)}</TableCell>
+                  <TableCell>
+                    <Badge className={statusColors[invoice.status]}>{invoice.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => generateInvoicePdf(invoice, vendors.find((v) => v.id === invoice.vendorId))}
+                        >
+                          Download PDF
+                        </DropdownMenuItem>
+                        {invoice.status === "draft" && (
+                          <DropdownMenuItem onClick={() => handleStatusChange(invoice, "issued")}>
+                            Mark Issued
+                          </DropdownMenuItem>
+                        )}
+                        {invoice.status === "issued" && (
+                          <DropdownMenuItem onClick={() => handleStatusChange(invoice, "paid")}>Mark Paid</DropdownMenuItem>
+                        )}
+                        {invoice.status !== "cancelled" && invoice.status !== "paid" && (
+                          <DropdownMenuItem className="text-red-600" onClick={() => handleStatusChange(invoice, "cancelled")}>
+                            Cancel
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  )
+}
@@ -2,12 +2,21 @@
 
 import { useState, useEffect } from "react"
 import { CrudTable } from "@/components/admin/crud-table"
-import { buildingsService, companiesService, type Building, type Company } from "@/lib/firestore"
+import {
+  buildingsService,
+  companiesService,
+  servicesService,
+  type Building,
+  type Company,
+  type Service,
+} from "@/lib/firestore"
+import type { NutritionTarget } from "@/lib/types"
 import { toast } from "@/hooks/use-toast"
 
 export default function BuildingsPage() {
   const [buildings, setBuildings] = useState<Building[]>([])
   const [companies, setCompanies] = useState<Company[]>([])
+  const [services, setServices] = useState<Service[]>([])
   const [loading, setLoading] = useState(true)
 
   const columns = [
@@ -33,6 +42,8 @@ export default function BuildingsPage() {
     { name: "address", label: "Address", type: "textarea" as const },
     { name: "floor", label: "Floor", type: "text" as const },
     { name: "capacity", label: "Capacity", type: "number" as const },
+    { name: "contactName", label: "Contact Name", type: "text" as const },
+    { name: "contactEmail", label: "Contact Email", type: "text" as const },
     {
       name: "status",
       label: "Status",
@@ -134,6 +145,85 @@ export default function BuildingsPage() {
           </div>
         )
       }
+    },
+    {
+      name: "nutritionTargets",
+      label: "Nutrition Targets",
+      type: "custom" as const,
+      renderCustom: (value: NutritionTarget[], onChange: (val: NutritionTarget[]) => void) => {
+        const targets = Array.isArray(value) ? value : []
+        const updateTarget = (i: number, patch: Partial<NutritionTarget>) => {
+          const next = [...targets]
+          const merged = { ...next[i], ...patch }
+          // Firestore rejects undefined fields, so cleared limits are dropped
+          ;(Object.keys(merged) as (keyof NutritionTarget)[]).forEach((key) => {
+            if (merged[key] === undefined) delete merged[key]
+          })
+          next[i] = merged
+          onChange(next)
+        }
+        const numberInput = (i: number, key: "maxCalories" | "minProtein" | "maxCarbs" | "maxFat", placeholder: string) => (
+          <input
+            type="number"
+            placeholder={placeholder}
+            className="flex h-8 w-24 rounded-md border border-input bg-background px-2 py-1 text-sm"
+            value={targets[i][key] ?? ""}
+            onChange={(e) => updateTarget(i, { [key]: e.target.value === "" ? undefined : Number(e.target.value) })}
+          />
+        )
+        return (
+          <div className="space-y-2 p-4 border rounded bg-gray-50/50">
+            {targets.map((t, i) => (
+              <div key={i} className="flex flex-wrap items-center gap-2">
+                <select
+                  className="flex h-8 w-36 rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  value={t.serviceId || ""}
+                  onChange={(e) => updateTarget(i, { serviceId: e.target.value || undefined })}
+                >
+                  <option value="">Whole day</option>
+                  {services.map((service) => (
+                    <option key={service.id} value={service.id}>
+                      {service.name}
+                    </option>
+                  ))}
+                </select>
+                {numberInput(i, "maxCalories", "Max kcal")}
+                {numberInput(i, "minProtein", "Min protein")}
+                {numberInput(i, "maxCarbs", "Max carbs")}
+                {numberInput(i, "maxFat", "Max fat")}
+                <input
+                  type="text"
+                  placeholder="Excluded allergens (comma separated)"
+                  className="flex h-8 flex-1 min-w-[180px] rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  defaultValue={(t.excludedAllergens || []).join(", ")}
+                  onBlur={(e) =>
+                    updateTarget(i, {
+                      excludedAllergens: e.target.value
+                        .split(",")
+                        .map((a) => a.trim())
+                        .filter(Boolean),
+                    })
+                  }
+                />
+                <button
+                  type="button"
+                  onClick={() => onChange(targets.filter((_, idx) => idx !== i))}
+                  className="text-red-500 hover:text-red-700 font-bold"
+                >
+                  X
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="text-sm text-blue-600 hover:underline mt-2"
+              onClick={() => onChange([...targets, {}])}
+            >
+              + Add Target
+            </button>
+          </div>
+        )
+      }
     }
   ]
 
@@ -144,7 +234,11 @@ export default function BuildingsPage() {
   const fetchData = async () => {
     try {
       setLoading(true)
-      const [buildingsData, companiesData] = await Promise.all([buildingsService.getAll(), companiesService.getAll()])
+      const [buildingsData, companiesData, servicesData] = await Promise.all([
+        buildingsService.getAll(),
+        companiesService.getAll(),
+        servicesService.getAll(),
+      ])
 
       // Add company names to buildings
       const buildingsWithCompanyNames = buildingsData.map((building) => ({
@@ -154,6 +248,7 @@ export default function BuildingsPage() {
 
       setBuildings(buildingsWithCompanyNames)
       setCompanies(companiesData)
+      setServices(servicesData)
     } catch (error) {
       console.error("Error fetching data:", error)
       toast({
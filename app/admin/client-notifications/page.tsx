@@ -0,0 +1,226 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { companiesService, buildingsService, type Company, type Building } from "@/lib/firestore"
+import {
+  clientNotificationRulesService,
+  DEFAULT_NOTIFICATION_RULE,
+  type ClientNotificationRule,
+} from "@/lib/firestore/clientNotificationsService"
+import { toast } from "@/hooks/use-toast"
+import { BellRing, Loader2, Settings2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+type RuleDraft = Omit<ClientNotificationRule, "id" | "updatedAt">
+
+export default function ClientNotificationsPage() {
+  const [companies, setCompanies] = useState<Company[]>([])
+  const [buildings, setBuildings] = useState<Building[]>([])
+  const [rules, setRules] = useState<Map<string, RuleDraft>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [editing, setEditing] = useState<RuleDraft | null>(null)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    setLoading(true)
+    try {
+      const [companyList, buildingList, ruleList] = await Promise.all([
+        companiesService.getAll(),
+        buildingsService.getAll(),
+        clientNotificationRulesService.getAll(),
+      ])
+      setCompanies(companyList.filter((c) => c.status === "active"))
+      setBuildings(buildingList)
+      setRules(new Map(ruleList.map(({ id, updatedAt, ...rule }) => [rule.companyId, rule])))
+    } catch (error) {
+      console.error("Error loading notification rules:", error)
+      toast({ title: "Error", description: "Failed to load notification rules", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getRule = (company: Company): RuleDraft =>
+    rules.get(company.id) || { ...DEFAULT_NOTIFICATION_RULE, companyId: company.id, companyName: company.name }
+
+  const saveRule = async (rule: RuleDraft) => {
+    setSavingId(rule.companyId)
+    try {
+      await clientNotificationRulesService.save(rule)
+      setRules((prev) => new Map(prev).set(rule.companyId, rule))
+      toast({ title: "Saved", description: `Notification rule updated for ${rule.companyName || "company"}` })
+    } catch (error) {
+      console.error("Error saving notification rule:", error)
+      toast({ title: "Error", description: "Failed to save notification rule", variant: "destructive" })
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const toggle = (company: Company, key: "enabled" | "emailEnabled" | "inAppEnabled" | "notifyCompanyUsers" | "notifyBuildingContacts") => {
+    const rule = getRule(company)
+    saveRule({ ...rule, [key]: !rule[key] })
+  }
+
+  const editingBuildings = editing ? buildings.filter((b) => b.companyId === editing.companyId) : []
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <BellRing className="h-8 w-8" />
+          Client Notifications
+        </h1>
+        <p className="text-gray-600 mt-1">
+          Companies that opt in get a digest of menu changes (date, service, old → new item) by email and in-app
+          whenever an updation affects one of their buildings.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Opt-in Rules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Opted In</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>In-App</TableHead>
+                  <TableHead>Company Users</TableHead>
+                  <TableHead>Building Contacts</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {companies.map((company) => {
+                  const rule = getRule(company)
+                  const disabled = savingId === company.id
+                  return (
+                    <TableRow key={company.id}>
+                      <TableCell className="font-medium">{company.name}</TableCell>
+                      <TableCell>
+                        <Switch checked={rule.enabled} disabled={disabled} onCheckedChange={() => toggle(company, "enabled")} />
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox checked={rule.emailEnabled} disabled={disabled || !rule.enabled} onCheckedChange={() => toggle(company, "emailEnabled")} />
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox checked={rule.inAppEnabled} disabled={disabled || !rule.enabled} onCheckedChange={() => toggle(company, "inAppEnabled")} />
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox checked={rule.notifyCompanyUsers} disabled={disabled || !rule.enabled} onCheckedChange={() => toggle(company, "notifyCompanyUsers")} />
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox checked={rule.notifyBuildingContacts} disabled={disabled || !rule.enabled} onCheckedChange={() => toggle(company, "notifyBuildingContacts")} />
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {rule.buildingIds.length === 0 ? "All buildings" : `${rule.buildingIds.length} building(s)`}
+                        {rule.minChanges > 1 && ` · ≥${rule.minChanges} changes`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" disabled={disabled} onClick={() => setEditing({ ...rule })}>
+                          <Settings2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Notification Scope - {editing?.companyName}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Buildings (none selected = all)</Label>
+                <div className="max-h-48 overflow-y-auto border rounded p-2 space-y-2">
+                  {editingBuildings.map((building) => (
+                    <label key={building.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={editing.buildingIds.includes(building.id)}
+                        onCheckedChange={(checked) =>
+                          setEditing({
+                            ...editing,
+                            buildingIds: checked
+                              ? [...editing.buildingIds, building.id]
+                              : editing.buildingIds.filter((id) => id !== building.id),
+                          })
+                        }
+                      />
+                      {building.name}
+                      {building.contactEmail && <span className="text-xs text-gray-500">({building.contactEmail})</span>}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Minimum changes per digest</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={editing.minChanges}
+                  onChange={(e) => setEditing({ ...editing, minChanges: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Additional emails (comma separated)</Label>
+                <Input
+                  defaultValue={editing.extraEmails.join(", ")}
+                  placeholder="facilities@client.com"
+                  onBlur={(e) =>
+                    setEditing({
+                      ...editing,
+                      extraEmails: e.target.value.split(",").map((v) => v.trim()).filter(Boolean),
+                    })
+                  }
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!editing || savingId === editing.companyId}
+              onClick={async () => {
+                if (!editing) return
+                await saveRule(editing)
+                setEditing(null)
+              }}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -2942,7 +2942,7 @@ export default function CombinedMenuCreationPage() {
             )
             // Only save if the companyMenu actually contains items (i.e., menuData is not empty)
             if (Object.keys(companyMenu.menuData).length > 0) {
-                await companyMenusService.add({ ...companyMenu, combinedMenuId, status: "active" })
+                await companyMenusService.add({ ...companyMenu, combinedMenuId, status: "active", approvalStatus: "draft", approvalCycle: 1 })
             }
           }
         }
@@ -6,7 +6,8 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { 
-  Eye, Search, Loader2, ArrowLeft, Edit, Trash2, ChevronRight, X, Building2, MousePointer2, Database 
+  Eye, Search, Loader2, ArrowLeft, Edit, Trash2, ChevronRight, X, Building2, MousePointer2, Database, Apple,
+  ClipboardCheck, Send, Lock, RotateCcw
 } from 'lucide-react'
 import { ScrollArea } from "@/components/ui/scroll-area"
 import {
@@ -15,16 +16,26 @@ import {
 import {
   AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-import { collection, getDocs, query, where, writeBatch, doc } from "firebase/firestore"
+import { collection, getDocs, getDoc, query, where, writeBatch, doc } from "firebase/firestore"
 import { db } from "@/lib/firebase"
 import Link from "next/link"
 import { useSearchParams, useRouter, usePathname } from 'next/navigation'
 import { MenuViewModal } from "@/components/menu-view-modal"
 import { MenuEditModal } from "@/components/menu-edit-modal"
-import type { MenuItem, Service, SubService } from "@/lib/types"
-import { menuItemsService, servicesService, subServicesService } from "@/lib/services"
+import { MenuApprovalReview } from "@/components/menu-approval-review"
+import type { MenuItem, Service, SubService, CompanyMenu as CompanyMenuDoc } from "@/lib/types"
+import { menuItemsService, servicesService, subServicesService, buildingsService } from "@/lib/services"
+import { exportNutritionSheet } from "@/lib/export-nutrition-sheet"
+import { toast } from "@/hooks/use-toast"
 import React from "react" 
 import { useEntityScope } from "@/hooks/use-entity-scope"
+import { useAuth } from "@/hooks/use-auth"
+import { menuApprovalService } from "@/lib/firestore/menuApprovalService"
+import {
+  APPROVAL_STATUS_COLORS, APPROVAL_STATUS_LABELS, TRANSITION_LABELS,
+  getApprovalActor, getApprovalStatus, getAvailableTransitions, isMenuLocked, opensNewCycle,
+  type MenuApprovalStatus,
+} from "@/lib/menu-approval"
 interface CompanyMenu {
   id: string
   companyId: string
@@ -35,6 +46,9 @@ interface CompanyMenu {
   endDate: string
   status: string
   combinedMenuId: string
+  approvalStatus?: CompanyMenuDoc["approvalStatus"]
+  approvalCycle?: number
+  approvalHistory?: CompanyMenuDoc["approvalHistory"]
 }
 
 interface MenuGroup {
@@ -52,7 +66,7 @@ export default function CompanyMenusPage() {
   // URL se states nikalna (TL ki back navigation requirement ke liye)
   const combinedMenuIdParam = searchParams.get("combinedMenuId")
   const selectedMenuId = searchParams.get("mid") || ""
-  const rightView = (searchParams.get("v") as 'preview' | 'view' | 'edit' | 'debug') || 'preview'
+  const rightView = (searchParams.get("v") as 'preview' | 'view' | 'edit' | 'debug' | 'review') || 'preview'
 
   const [menus, setMenus] = useState<CompanyMenu[]>([])
   const [loading, setLoading] = useState(true)
@@ -68,6 +82,9 @@ export default function CompanyMenusPage() {
   const [isDeleting, setIsDeleting] = useState(false)
 
   const { isSuperAdmin, entityId, entityType, assignedCompanyIds, filterByScope } = useEntityScope()
+  const { userProfile } = useAuth()
+  const isClient = entityType === "company_user"
+  const [transitioning, setTransitioning] = useState(false)
   const [menuItems, setMenuItems] = useState<MenuItem[]>([])
   const [menuItemsLoading, setMenuItemsLoading] = useState(false)
 
@@ -78,7 +95,7 @@ export default function CompanyMenusPage() {
   useEffect(() => { preloadMenuItems() }, [])
 
   // Navigation update function (Browser history stack maintain karne ke liye)
-  const navigateTo = (view: 'preview' | 'view' | 'edit' | 'debug', mid?: string) => {
+  const navigateTo = (view: 'preview' | 'view' | 'edit' | 'debug' | 'review', mid?: string) => {
     const params = new URLSearchParams(searchParams.toString())
     params.set("v", view)
     if (mid) params.set("mid", mid)
@@ -100,6 +117,36 @@ export default function CompanyMenusPage() {
     } catch (error) { console.error(error) } finally { setMenuItemsLoading(false) }
   }, [menuItems.length, menuItemsLoading])
 
+  const handleExportNutrition = async (menuId: string) => {
+    try {
+      const [menuSnap, buildings] = await Promise.all([
+        getDoc(doc(db, "companyMenus", menuId)),
+        buildingsService.getAll(),
+      ])
+      if (!menuSnap.exists()) return
+      const menuDoc = { id: menuSnap.id, ...menuSnap.data() } as CompanyMenuDoc
+      const items = menuItems.length > 0 ? menuItems : await menuItemsService.getAll()
+      const targets = buildings.find((b) => b.id === menuDoc.buildingId)?.nutritionTargets || []
+      await exportNutritionSheet(menuDoc, items, services, targets)
+    } catch (error) {
+      console.error("Nutrition export failed:", error)
+      toast({ title: "Error", description: "Failed to export nutrition sheet", variant: "destructive" })
+    }
+  }
+
+  const handleApprovalTransition = async (menuId: string, to: MenuApprovalStatus) => {
+    if (!userProfile) return
+    try {
+      setTransitioning(true)
+      await menuApprovalService.transition(menuId, to, { id: userProfile.id, name: userProfile.name, type: getApprovalActor(userProfile.userType) })
+      toast({ title: APPROVAL_STATUS_LABELS[to], description: "Menu status updated" })
+      await loadCompanyMenus()
+    } catch (error: any) {
+      console.error("Approval transition failed:", error)
+      toast({ title: "Error", description: error?.message || "Failed to update status", variant: "destructive" })
+    } finally { setTransitioning(false) }
+  }
+
   const loadCompanyMenus = async () => {
     try {
       setLoading(true)
@@ -292,7 +339,10 @@ export default function CompanyMenusPage() {
                       <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{group.companyName}</span>
                     </div>
                     
-                    {group.menus.map((menu) => (
+                    {group.menus.map((groupMenu) => {
+                      const menu = menus.find(m => m.id === groupMenu.id) || groupMenu
+                      const approvalStatus = getApprovalStatus(menu)
+                      return (
                       <div 
                         key={menu.id} 
                         className={`group relative flex items-center justify-between p-3 rounded-xl border transition-all cursor-pointer 
@@ -309,19 +359,29 @@ export default function CompanyMenusPage() {
                           <span className={`text-sm font-bold truncate ${selectedMenuId === menu.id ? 'text-blue-700' : 'text-slate-700'}`}>
                             {menu.buildingName}
                           </span>
-                          <span className="text-[9px] text-slate-400 font-medium">Click to manage items</span>
+                          <span className={`self-start text-[9px] font-bold px-1.5 py-0.5 rounded border ${APPROVAL_STATUS_COLORS[approvalStatus]}`}>
+                            {APPROVAL_STATUS_LABELS[approvalStatus]}
+                          </span>
                         </div>
                         
                         <div className={`flex items-center gap-0.5 shrink-0 transition-opacity ${selectedMenuId === menu.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
                            <Button variant="ghost" size="icon" className="h-7 w-7 text-blue-600 hover:bg-blue-50 rounded-md" onClick={(e) => { e.stopPropagation(); navigateTo('view', menu.id); }}>
                              <Eye className="h-3.5 w-3.5" />
                            </Button>
+                          <Button variant="ghost" size="icon" title="Review & comments" className="h-7 w-7 text-emerald-600 hover:bg-emerald-50 rounded-md" onClick={(e) => { e.stopPropagation(); navigateTo('review', menu.id); }}>
+                            <ClipboardCheck className="h-3.5 w-3.5" />
+                          </Button>
+                          {!isClient && (
                           <Button variant="ghost" size="icon" className="h-7 w-7 text-slate-400 hover:bg-slate-50 rounded-md" onClick={(e) => { e.stopPropagation(); navigateTo('edit', menu.id); }}>
-                            <Edit className="h-3.5 w-3.5" />
+                            {isMenuLocked(menu) ? <Lock className="h-3.5 w-3.5" /> : <Edit className="h-3.5 w-3.5" />}
+                          </Button>
+                          )}
+                          <Button variant="ghost" size="icon" title="Nutrition sheet" className="h-7 w-7 text-green-600 hover:bg-green-50 rounded-md" onClick={(e) => { e.stopPropagation(); handleExportNutrition(menu.id); }}>
+                            <Apple className="h-3.5 w-3.5" />
                           </Button>
                         </div>
                       </div>
-                    ))}
+                    )})}
                   </div>
                 ))}
               </div>
@@ -359,6 +419,59 @@ export default function CompanyMenusPage() {
                             </p>
                           </div>
 
+                          {(() => {
+                            const selectedMenu = menus.find(m => m.id === selectedMenuId)
+                            if (!selectedMenu) return null
+                            const approvalStatus = getApprovalStatus(selectedMenu)
+                            const transitions = getAvailableTransitions(approvalStatus, getApprovalActor(entityType))
+                            const lastEvent = selectedMenu.approvalHistory?.[selectedMenu.approvalHistory.length - 1]
+                            return (
+                              <div className="rounded-2xl border border-slate-200 p-5 space-y-3">
+                                <div className="flex items-center justify-between">
+                                  <div className="flex items-center gap-2">
+                                    <span className={`text-xs font-bold px-2 py-1 rounded border ${APPROVAL_STATUS_COLORS[approvalStatus]}`}>
+                                      {APPROVAL_STATUS_LABELS[approvalStatus]}
+                                    </span>
+                                    {selectedMenu.approvalStatus && <span className="text-xs text-slate-400 font-medium">Cycle {selectedMenu.approvalCycle || 1}</span>}
+                                    {isMenuLocked(selectedMenu) && <span className="text-xs text-slate-500 flex items-center gap-1"><Lock className="h-3 w-3" /> Locked for editing</span>}
+                                  </div>
+                                  <Button size="sm" variant="outline" onClick={() => navigateTo('review')}>
+                                    <ClipboardCheck className="h-4 w-4 mr-2" /> {isClient ? "Review Menu" : "Comments"}
+                                  </Button>
+                                </div>
+                                {lastEvent && (
+                                  <p className="text-xs text-slate-500">
+                                    {APPROVAL_STATUS_LABELS[lastEvent.to as MenuApprovalStatus] || lastEvent.to} by {lastEvent.actorName} on {new Date(lastEvent.at).toLocaleString()}
+                                    {lastEvent.note && <span className="block italic text-slate-600 mt-1">“{lastEvent.note}”</span>}
+                                  </p>
+                                )}
+                                {!isClient && transitions.length > 0 && (
+                                  <div className="flex gap-2 pt-1">
+                                    {transitions.map(to => (
+                                      <Button key={to} size="sm" disabled={transitioning} variant={to === "draft" ? "outline" : "default"} onClick={() => handleApprovalTransition(selectedMenu.id, to)}>
+                                        {to === "draft" ? <RotateCcw className="h-4 w-4 mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+                                        {to === "draft"
+                                          ? !selectedMenu.approvalStatus ? "Start Approval Workflow" : opensNewCycle(approvalStatus, to) ? "Open New Updation Cycle" : "Withdraw Submission"
+                                          : TRANSITION_LABELS[to]}
+                                      </Button>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            )
+                          })()}
+
+                          {isClient ? (
+                          <div className="grid grid-cols-1 gap-6">
+                            <button onClick={() => navigateTo('view')} className="group flex flex-col items-center justify-center p-10 bg-white border-2 border-slate-100 rounded-[2rem] hover:border-blue-600 hover:shadow-lg transition-all">
+                                <div className="h-16 w-16 bg-blue-50 rounded-2xl flex items-center justify-center mb-4 group-hover:bg-blue-600 transition-colors">
+                                  <Eye className="h-8 w-8 text-blue-600 group-hover:text-white transition-colors" />
+                                </div>
+                                <span className="text-xl font-bold text-slate-800">View Menu</span>
+                                <span className="text-slate-400 text-[10px] mt-1">Verify items</span>
+                            </button>
+                          </div>
+                          ) : (
                           <div className="grid grid-cols-3 gap-6">
                             <button onClick={() => navigateTo('view')} className="group flex flex-col items-center justify-center p-10 bg-white border-2 border-slate-100 rounded-[2rem] hover:border-blue-600 hover:shadow-lg transition-all">
                                 <div className="h-16 w-16 bg-blue-50 rounded-2xl flex items-center justify-center mb-4 group-hover:bg-blue-600 transition-colors">
@@ -384,6 +497,7 @@ export default function CompanyMenusPage() {
                                 <span className="text-slate-400 text-[10px] mt-1">Debug DB State</span>
                             </button>
                           </div>
+                          )}
                         </div>
                       </div>
                     )}
@@ -396,7 +510,13 @@ export default function CompanyMenusPage() {
                                <ArrowLeft className="h-3.5 w-3.5 mr-2" /> Back
                             </Button>
                          </div>
-                         <MenuViewModal isOpen={true} onClose={() => router.back()} menuId={selectedMenuId} menuType="company" preloadedMenuItems={menuItems} />
+                         <MenuViewModal isOpen={true} onClose={() => router.back()} menuId={selectedMenuId} menuType="company" preloadedMenuItems={menuItems} readOnly={isClient} />
+                      </div>
+                    )}
+
+                    {rightView === 'review' && menus.some(m => m.id === selectedMenuId) && (
+                      <div className="flex-1 overflow-auto p-8 animate-in fade-in zoom-in-95 duration-200">
+                         <MenuApprovalReview isOpen={true} onClose={() => router.back()} menu={menus.find(m => m.id === selectedMenuId)!} preloadedMenuItems={menuItems} onStatusChange={loadCompanyMenus} />
                       </div>
                     )}
 
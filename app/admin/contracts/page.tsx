@@ -1,6 +1,6 @@
 "use client"
 
-import React, { useState, useEffect, useMemo } from "react"
+import React, { useState, useEffect, useMemo, useRef } from "react"
 import { 
   vendorContractsService, 
   vendorsService, 
@@ -15,12 +15,24 @@ import {
   type Service,
   type SubService
 } from "@/lib/firestore"
+import {
+  contractRateRevisionsService,
+  type ContractRateRevision
+} from "@/lib/firestore/contractRateRevisionsService"
+import {
+  getContractAlerts,
+  runContractLifecycle,
+  buildRateRevisions,
+  toDateString
+} from "@/lib/contract-lifecycle"
+import { useAuth } from "@/hooks/use-auth"
 import { toast } from "@/hooks/use-toast"
 
 // Icons
 import { 
   Plus, MoreHorizontal, Pencil, Trash2, ChevronDown, ChevronRight, 
-  FileText, Calendar, Building2, IndianRupee, Info, CheckCircle2, XCircle
+  FileText, Calendar, Building2, IndianRupee, Info, CheckCircle2, XCircle,
+  AlertTriangle, History, RefreshCw
 } from "lucide-react"
 
 // UI Components
@@ -56,7 +68,8 @@ const initialContractState: Omit<VendorContract, "id"> = {
     qualityStandards: "",
     penaltyClause: ""
   },
-  autoRenewal: false
+  autoRenewal: false,
+  escalationPercent: 0
 }
 
 export default function VendorContractsPage() {
@@ -72,6 +85,9 @@ export default function VendorContractsPage() {
   const [formData, setFormData] = useState(initialContractState)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [revisions, setRevisions] = useState<Record<string, ContractRateRevision[]>>({})
+  const lifecycleChecked = useRef(false)
+  const { userProfile } = useAuth()
 
   useEffect(() => {
     loadAllData()
@@ -80,6 +96,25 @@ export default function VendorContractsPage() {
   const loadAllData = async () => {
     setLoading(true)
     try {
+      // Expire / auto-renew lapsed contracts once per visit before showing the list
+      if (!lifecycleChecked.current) {
+        lifecycleChecked.current = true
+        const result = await runContractLifecycle(await vendorContractsService.getAll(), toDateString(new Date()), userProfile?.id)
+        if (result.renewed.length > 0 || result.expired.length > 0) {
+          toast({
+            title: "Contracts updated",
+            description: `${result.renewed.length} auto-renewed, ${result.expired.length} expired`
+          })
+        }
+        if (result.invalid.length > 0) {
+          toast({
+            title: "Auto-renewal skipped",
+            description: `End date must be after start date: ${result.invalid.join(", ")}`,
+            variant: "destructive"
+          })
+        }
+      }
+
       const [cont, vend, comp, build, serv, subServ] = await Promise.all([
         vendorContractsService.getAll(),
         vendorsService.getAll(),
@@ -101,6 +136,21 @@ export default function VendorContractsPage() {
     }
   }
 
+  const expiryAlerts = useMemo(() => getContractAlerts(contracts), [contracts])
+
+  const toggleExpanded = async (contractId: string) => {
+    const next = expandedId === contractId ? null : contractId
+    setExpandedId(next)
+    if (next && !revisions[next]) {
+      try {
+        const history = await contractRateRevisionsService.getByContract(next)
+        setRevisions(prev => ({ ...prev, [next]: history }))
+      } catch (e) {
+        console.error("Failed to load rate history", e)
+      }
+    }
+  }
+
   // --- FORM HELPERS ---
   const availableBuildings = useMemo(() => {
     return buildings.filter(b => b.companyId === formData.companyId)
@@ -142,11 +192,39 @@ export default function VendorContractsPage() {
   }
 
   const handleSave = async () => {
+    if (formData.startDate && formData.endDate && formData.endDate <= formData.startDate) {
+      toast({ title: "Error", description: "End date must be after the start date", variant: "destructive" })
+      return
+    }
     try {
+      const { id: _id, createdAt, updatedAt, ...data } = formData as VendorContract
       if (editingId) {
-        await vendorContractsService.update(editingId, formData as any)
+        const previous = contracts.find(c => c.id === editingId)
+        await vendorContractsService.update(editingId, data)
+        await contractRateRevisionsService.addMany(
+          buildRateRevisions(
+            { id: editingId, contractNumber: data.contractNumber, servicesOffered: data.servicesOffered },
+            previous?.servicesOffered || null,
+            "manual",
+            toDateString(new Date()),
+            { changedBy: userProfile?.id }
+          )
+        )
+        setRevisions(prev => {
+          const { [editingId]: _stale, ...rest } = prev
+          return rest
+        })
       } else {
-        await vendorContractsService.add(formData as any)
+        const newId = await vendorContractsService.add(data)
+        await contractRateRevisionsService.addMany(
+          buildRateRevisions(
+            { id: newId, contractNumber: data.contractNumber, servicesOffered: data.servicesOffered },
+            null,
+            "initial",
+            data.startDate,
+            { changedBy: userProfile?.id }
+          )
+        )
       }
       setIsModalOpen(false)
       loadAllData()
@@ -168,6 +246,34 @@ export default function VendorContractsPage() {
         </Button>
       </div>
 
+      {expiryAlerts.length > 0 && (
+        <Card className="border-amber-200 bg-amber-50">
+          <CardContent className="p-4 space-y-2">
+            <div className="flex items-center gap-2 font-semibold text-amber-800 text-sm">
+              <AlertTriangle className="h-4 w-4" /> {expiryAlerts.length} contract(s) expiring soon
+            </div>
+            {expiryAlerts.map(({ contract, daysLeft, severity }) => (
+              <div key={contract.id} className="flex items-center justify-between text-sm bg-white border rounded px-3 py-2">
+                <div>
+                  <span className="font-mono font-bold text-blue-600 mr-2">{contract.contractNumber}</span>
+                  {contract.vendorName} for {contract.companyName}
+                </div>
+                <div className="flex items-center gap-2">
+                  {contract.autoRenewal && (
+                    <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                      <RefreshCw className="h-3 w-3 mr-1" /> Auto-renews +{contract.escalationPercent || 0}%
+                    </Badge>
+                  )}
+                  <Badge className={severity === "warning" ? "bg-amber-100 text-amber-800" : "bg-red-100 text-red-700"}>
+                    {daysLeft < 0 ? `Ended ${-daysLeft}d ago` : daysLeft === 0 ? "Ends today" : `${daysLeft}d left`}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <Table>
           <TableHeader>
@@ -183,7 +289,7 @@ export default function VendorContractsPage() {
           <TableBody>
             {contracts.map(contract => (
               <React.Fragment key={contract.id}>
-                <TableRow className="cursor-pointer" onClick={() => setExpandedId(expandedId === contract.id ? null : contract.id)}>
+                <TableRow className="cursor-pointer" onClick={() => toggleExpanded(contract.id)}>
                   <TableCell>{expandedId === contract.id ? <ChevronDown /> : <ChevronRight />}</TableCell>
                   <TableCell className="font-mono font-bold text-blue-600">{contract.contractNumber}</TableCell>
                   <TableCell>
@@ -233,7 +339,24 @@ export default function VendorContractsPage() {
                           <div className="text-xs space-y-1 bg-white p-3 border rounded">
                             <p><strong>Payment:</strong> {contract.terms.paymentTerms}</p>
                             <p><strong>Min Order:</strong> {contract.terms.minimumOrder} units</p>
-                            <p><strong>Renewal:</strong> {contract.autoRenewal ? 'Auto-renew enabled' : 'Manual renewal'}</p>
+                            <p><strong>Renewal:</strong> {contract.autoRenewal ? `Auto-renew enabled (+${contract.escalationPercent || 0}% per term)` : 'Manual renewal'}</p>
+                          </div>
+                          <h4 className="font-bold text-sm flex items-center gap-2 pt-2"><History className="h-4 w-4" /> Rate Revision History</h4>
+                          <div className="text-xs bg-white border rounded max-h-48 overflow-y-auto">
+                            {(revisions[contract.id] || []).length === 0 ? (
+                              <p className="p-3 text-gray-400">No rate revisions recorded</p>
+                            ) : (
+                              revisions[contract.id].map(rev => (
+                                <div key={rev.id} className="flex justify-between px-3 py-1.5 border-b last:border-0 border-gray-100">
+                                  <span>{rev.effectiveDate} · {rev.subServiceName}</span>
+                                  <span>
+                                    {rev.previousRate !== null && <span className="text-gray-400 line-through mr-1">₹{rev.previousRate}</span>}
+                                    <span className="font-bold">₹{rev.newRate}</span>
+                                    <Badge variant="outline" className="ml-2 text-[10px]">{rev.reason}</Badge>
+                                  </span>
+                                </div>
+                              ))
+                            )}
                           </div>
                         </div>
                       </div>
@@ -368,6 +491,16 @@ export default function VendorContractsPage() {
                   <Checkbox checked={formData.autoRenewal} onCheckedChange={(val) => setFormData({...formData, autoRenewal: !!val})} />
                   <Label>Enable Auto-Renewal</Label>
                 </div>
+                <div className="space-y-2">
+                  <Label>Renewal Escalation (%)</Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    disabled={!formData.autoRenewal}
+                    value={formData.escalationPercent ?? 0}
+                    onChange={e => setFormData({...formData, escalationPercent: parseFloat(e.target.value) || 0})}
+                  />
+                </div>
               </div>
             </TabsContent>
           </Tabs>
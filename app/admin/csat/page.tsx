@@ -0,0 +1,202 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Timestamp } from "firebase/firestore"
+import { ticketCsatService, type TicketCsatResponse } from "@/lib/firestore/ticketCsatService"
+import { CSAT_LOW_SCORE, isLowCsat, summarizeCsat, type CsatTrendRow } from "@/lib/ticket-csat"
+import { toast } from "@/hooks/use-toast"
+import { Loader2, Smile } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+const TREND_WEEKS = 8
+const RANGE_OPTIONS = [4, 8, 12, 26]
+
+const ratingColor = (average: number | null) => {
+  if (average === null) return "text-gray-300"
+  if (average <= CSAT_LOW_SCORE) return "text-red-600 font-semibold"
+  if (average < 4) return "text-amber-600"
+  return "text-emerald-600"
+}
+
+function TrendTable({ title, rows, emptyLabel }: { title: string; rows: CsatTrendRow[]; emptyLabel: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {rows.length === 0 ? (
+          <div className="text-center text-sm text-gray-500 py-8">{emptyLabel}</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Responses</TableHead>
+                <TableHead className="text-right">Average</TableHead>
+                <TableHead className="text-right">Low</TableHead>
+                {rows[0].weeks.map((w) => (
+                  <TableHead key={w.weekStart} className="text-center text-xs whitespace-nowrap">
+                    {new Date(w.weekStart).toLocaleDateString(undefined, { day: "numeric", month: "short" })}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key || "none"}>
+                  <TableCell className="font-medium whitespace-nowrap">{row.label}</TableCell>
+                  <TableCell className="text-right">{row.count}</TableCell>
+                  <TableCell className={`text-right ${ratingColor(row.average)}`}>{row.average.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    {row.lowCount > 0 ? <Badge variant="destructive">{row.lowCount}</Badge> : "0"}
+                  </TableCell>
+                  {row.weeks.map((w) => (
+                    <TableCell
+                      key={w.weekStart}
+                      className={`text-center text-sm ${ratingColor(w.average)}`}
+                      title={w.count ? `${w.count} response${w.count === 1 ? "" : "s"}` : "No responses"}
+                    >
+                      {w.average === null ? "·" : w.average.toFixed(1)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function CsatTrendsPage() {
+  const [responses, setResponses] = useState<TicketCsatResponse[]>([])
+  const [weeks, setWeeks] = useState(TREND_WEEKS)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadData()
+  }, [weeks])
+
+  const loadData = async () => {
+    setLoading(true)
+    try {
+      const since = Timestamp.fromMillis(Date.now() - weeks * 7 * 24 * 60 * 60 * 1000)
+      setResponses(await ticketCsatService.getSince(since))
+    } catch (error) {
+      console.error("Error loading CSAT responses:", error)
+      toast({ title: "Error", description: "Failed to load CSAT responses", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const trendInput = useMemo(
+    () => responses.map((r) => ({ ...r, submittedAtMs: r.submittedAt.toMillis() })),
+    [responses],
+  )
+  const byAssignee = useMemo(() => summarizeCsat(trendInput, "assignee", weeks), [trendInput, weeks])
+  const byBuilding = useMemo(() => summarizeCsat(trendInput, "building", weeks), [trendInput, weeks])
+
+  const average = responses.length ? responses.reduce((sum, r) => sum + r.rating, 0) / responses.length : null
+  const lowResponses = responses.filter((r) => isLowCsat(r.rating))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Smile className="h-8 w-8" />
+            CSAT Trends
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Reporters rate each resolved ticket from 1 to 5 on the tracking page. Ratings of {CSAT_LOW_SCORE} or lower count
+            as low and trigger the configured follow-up.
+          </p>
+        </div>
+        <Select value={String(weeks)} onValueChange={(v) => setWeeks(Number(v))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map((n) => (
+              <SelectItem key={n} value={String(n)}>Last {n} weeks</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-gray-500">Responses</div>
+                <div className="text-3xl font-bold">{responses.length}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-gray-500">Average rating</div>
+                <div className={`text-3xl font-bold ${ratingColor(average)}`}>{average === null ? "—" : average.toFixed(2)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="text-sm text-gray-500">Low ratings</div>
+                <div className="text-3xl font-bold text-red-600">{lowResponses.length}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <TrendTable title="By Key Account Manager / Assignee" rows={byAssignee} emptyLabel="No ratings in this period." />
+          <TrendTable title="By Building" rows={byBuilding} emptyLabel="No ratings in this period." />
+
+          {lowResponses.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Low Ratings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Submitted</TableHead>
+                      <TableHead>Ticket</TableHead>
+                      <TableHead>Rating</TableHead>
+                      <TableHead>Assignee</TableHead>
+                      <TableHead>Building</TableHead>
+                      <TableHead>Comment</TableHead>
+                      <TableHead>Follow-up</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lowResponses.slice(0, 50).map((r) => (
+                      <TableRow key={r.id}>
+                        <TableCell className="text-xs whitespace-nowrap">{r.submittedAt.toDate().toLocaleString()}</TableCell>
+                        <TableCell className="font-mono text-xs">{r.ticketId}</TableCell>
+                        <TableCell className="text-red-600 font-semibold">{r.rating}/5</TableCell>
+                        <TableCell>{r.assigneeName || "Unassigned"}</TableCell>
+                        <TableCell>{r.buildingName || "—"}</TableCell>
+                        <TableCell className="text-sm text-gray-700 max-w-xs">{r.comment || "—"}</TableCell>
+                        <TableCell className="text-xs">{r.lowScoreAction || "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
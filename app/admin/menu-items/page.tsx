@@ -29,8 +29,11 @@ import {
   Loader2,
   Tags,
   ChevronsLeft,
-  ChevronsRight
+  ChevronsRight,
+  Lock,
+  ClipboardCheck
 } from "lucide-react"
+import Link from "next/link"
 import {
   Dialog,
   DialogContent,
@@ -52,7 +55,9 @@ import {
   getDocs, 
   query, 
   serverTimestamp,
-  writeBatch
+  writeBatch,
+  arrayUnion,
+  arrayRemove
 } from "firebase/firestore"
 import { db } from "@/lib/firebase"
 import { vendorsService, type Vendor } from "@/lib/firestore"
@@ -65,6 +70,7 @@ interface AiTags {
   flavorProfile?: string
   submealCategory?: string
   heavyLight?: "Heavy" | "Light" | "Medium"
+  locked?: string[]
   updatedAt?: any
 }
 
@@ -170,13 +176,23 @@ const menuItemsService = {
     await deleteDoc(docRef)
   },
 
+  // Manual corrections lock the field so AI categorisation stops proposing changes to it
   async updateAiTag(id: string, tagKey: string, value: string) {
     const docRef = doc(db, "menuItems", id)
     await updateDoc(docRef, {
       [`aiTags.${tagKey}`]: value,
+      [`aiTags.locked`]: arrayUnion(tagKey),
       [`aiTags.updatedAt`]: serverTimestamp(),
       updatedAt: serverTimestamp()
     })
+  },
+
+  async unlockAiTag(id: string, tagKey: string) {
+    const docRef = doc(db, "menuItems", id)
+    await updateDoc(docRef, {
+      [`aiTags.locked`]: arrayRemove(tagKey),
+      updatedAt: serverTimestamp()
+    })
   }
 }
 
@@ -186,13 +202,17 @@ function InlineTagEditor({
   tagKey, 
   itemId, 
   colorClass,
-  onSave 
+  locked,
+  onSave,
+  onUnlock
 }: { 
   value: string
   tagKey: string
   itemId: string
   colorClass: string
+  locked?: boolean
   onSave: (itemId: string, tagKey: string, newVal: string) => void
+  onUnlock: (itemId: string, tagKey: string) => void
 }) {
   const [isEditing, setIsEditing] = useState(false)
   const [editValue, setEditValue] = useState(value)
@@ -252,14 +272,25 @@ function InlineTagEditor({
   }
 
   return (
-    <Badge 
-      variant="outline" 
-      className={`${colorClass} text-[10px] cursor-pointer hover:opacity-80 transition-opacity group relative pr-5`}
-      onClick={() => { setEditValue(value); setIsEditing(true) }}
-    >
-      {value}
-      <Pencil className="h-2.5 w-2.5 absolute right-1 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-60 transition-opacity" />
-    </Badge>
+    <div className="flex items-center gap-1">
+      <Badge 
+        variant="outline" 
+        className={`${colorClass} text-[10px] cursor-pointer hover:opacity-80 transition-opacity group relative pr-5`}
+        onClick={() => { setEditValue(value); setIsEditing(true) }}
+      >
+        {value}
+        <Pencil className="h-2.5 w-2.5 absolute right-1 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-60 transition-opacity" />
+      </Badge>
+      {locked && (
+        <button
+          onClick={() => onUnlock(itemId, tagKey)}
+          className="text-gray-400 hover:text-gray-600"
+          title="Corrected by hand, AI won't change it. Click to unlock."
+        >
+          <Lock className="h-2.5 w-2.5" />
+        </button>
+      )}
+    </div>
   )
 }
 
@@ -445,6 +476,7 @@ export default function MenuItemsPage() {
     const batches = chunk(targetItems, BATCH_SIZE)
     let totalProcessed = 0
     let totalSuccessful = 0
+    let totalQueued = 0
     let hasError = false
 
     for (let i = 0; i < batches.length; i++) {
@@ -464,6 +496,7 @@ export default function MenuItemsPage() {
         }
 
         totalSuccessful += data.processed || 0
+        totalQueued += data.queued || 0
       } catch (error: any) {
         console.error(`Error processing batch ${i + 1}:`, error)
         hasError = true
@@ -474,7 +507,7 @@ export default function MenuItemsPage() {
       setCategorizeProgress(Math.round((totalProcessed / targetItems.length) * 100))
     }
 
-    setCategorizeMessage(`Finished! Reloading tags...`)
+    setCategorizeMessage(`Finished! Reloading...`)
     
     // Reload data to show new tags
     await loadData()
@@ -484,13 +517,13 @@ export default function MenuItemsPage() {
     if (hasError) {
       toast({
         title: "Categorization Partially Complete",
-        description: `Categorized ${totalSuccessful} items. Some batches failed.`,
+        description: `Categorized ${totalSuccessful} items, ${totalQueued} sent to the review queue. Some batches failed.`,
         variant: "destructive",
       })
     } else {
       toast({
         title: "AI Categorization Complete",
-        description: `Successfully categorized ${totalSuccessful} menu items.`,
+        description: `Categorized ${totalSuccessful} menu items; ${totalQueued} have tag changes waiting in the review queue.`,
       })
     }
 
@@ -509,16 +542,39 @@ export default function MenuItemsPage() {
       setMenuItems((prev) =>
         prev.map((item) =>
           item.id === itemId
-            ? { ...item, aiTags: { ...(item.aiTags || {}), [tagKey]: newValue } as AiTags }
+            ? {
+                ...item,
+                aiTags: {
+                  ...(item.aiTags || {}),
+                  [tagKey]: newValue,
+                  locked: Array.from(new Set([...(item.aiTags?.locked || []), tagKey])),
+                } as AiTags,
+              }
             : item
         )
       )
-      toast({ title: "Tag Updated", description: `${tagKey} updated to "${newValue}"` })
+      toast({ title: "Tag Updated", description: `${tagKey} updated to "${newValue}" and locked against AI changes` })
     } catch {
       toast({ title: "Error", description: "Failed to update tag", variant: "destructive" })
     }
   }, [])
 
+  const handleTagUnlock = useCallback(async (itemId: string, tagKey: string) => {
+    try {
+      await menuItemsService.unlockAiTag(itemId, tagKey)
+      setMenuItems((prev) =>
+        prev.map((item) =>
+          item.id === itemId && item.aiTags
+            ? { ...item, aiTags: { ...item.aiTags, locked: (item.aiTags.locked || []).filter((k) => k !== tagKey) } }
+            : item
+        )
+      )
+      toast({ title: "Tag Unlocked", description: `AI categorisation may propose changes to ${tagKey} again` })
+    } catch {
+      toast({ title: "Error", description: "Failed to unlock tag", variant: "destructive" })
+    }
+  }, [])
+
   // --- VENDOR ASSIGNMENT ---
   const handleOpenAssignVendor = () => {
     setSelectedVendorIds([])
@@ -716,6 +772,9 @@ export default function MenuItemsPage() {
               ? `AI Categorize (${selectedIds.size})`
               : `AI Categorize${untaggedCount > 0 ? ` (${untaggedCount} untagged)` : ""}`}
           </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/ai-tag-review"><ClipboardCheck className="h-4 w-4 mr-2" />Review Queue</Link>
+          </Button>
           <Button variant="outline" className="border-emerald-200 text-emerald-700 bg-emerald-50 hover:bg-emerald-100" onClick={handleExportXlsx}>
             <FileSpreadsheet className="h-4 w-4 mr-2" />Export XLSX
           </Button>
@@ -883,7 +942,9 @@ export default function MenuItemsPage() {
                               tagKey={tag.key}
                               itemId={item.id}
                               colorClass={tag.colorClass}
+                              locked={item.aiTags?.locked?.includes(tag.key)}
                               onSave={handleTagSave}
+                              onUnlock={handleTagUnlock}
                             />
                           </td>
                         ))}
@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { Settings, Save, Loader2, Info, ChevronRight, X, Check, ChevronsUpDown, Plus, Sparkles } from "lucide-react"
+import { Settings, Save, Loader2, Info, ChevronRight, X, Check, ChevronsUpDown, Plus, Sparkles, BarChart3, History } from "lucide-react"
 import { toast } from "@/hooks/use-toast"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog"
 import {
@@ -21,6 +21,10 @@ import {
 } from "@/lib/services"
 import type { Service, SubService, MealPlan, SubMealPlan, Company, MenuPlanningRule } from "@/lib/types"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { parseDayRule } from "@/lib/menu-constraints"
+import { RuleEvaluationDialog } from "@/components/rule-evaluation-dialog"
+import { RuleHistoryDialog } from "@/components/rule-history-dialog"
+import { getUpcomingMondays, todayKey, type MenuPlanningRuleVersion } from "@/lib/rule-versions"
 
 const DAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]
 
@@ -45,6 +49,11 @@ export default function MenuPlanningRulesPage() {
   const [selectedCompanyId, setSelectedCompanyId] = useState<string>("base") // "base" means Global Base Rule
 
   // Rules State
+  const [savedRule, setSavedRule] = useState<MenuPlanningRule | null>(null)
+  const [evaluationOpen, setEvaluationOpen] = useState(false)
+  const [ruleVersions, setRuleVersions] = useState<MenuPlanningRuleVersion[]>([])
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [effectiveFrom, setEffectiveFrom] = useState<string>("now") // "now" = current week, otherwise a future Monday
   const [currentRule, setCurrentRule] = useState<MenuPlanningRule>({
     serviceId: "",
     subServiceId: "",
@@ -139,7 +148,15 @@ export default function MenuPlanningRulesPage() {
       } else {
         rule = await menuPlanningRulesService.getCompanyRule(selectedServiceId, selectedSubServiceId, selectedCompanyId)
       }
+      const versions = await menuPlanningRulesService.getVersions(
+        selectedServiceId,
+        selectedSubServiceId,
+        selectedCompanyId === "base" ? null : selectedCompanyId
+      )
       
+      setRuleVersions(versions)
+      setEffectiveFrom("now")
+      setSavedRule(rule)
       setCurrentRule(rule || {
         serviceId: selectedServiceId,
         subServiceId: selectedSubServiceId,
@@ -195,8 +212,13 @@ export default function MenuPlanningRulesPage() {
         serviceId: selectedServiceId,
         subServiceId: selectedSubServiceId,
         companyId: selectedCompanyId === "base" ? undefined : selectedCompanyId,
+      }, effectiveFrom === "now" ? undefined : effectiveFrom)
+      toast({
+        title: "Success",
+        description: effectiveFrom === "now"
+          ? "Rules saved successfully."
+          : `Rules scheduled to take effect from ${effectiveFrom}.`
       })
-      toast({ title: "Success", description: "Rules saved successfully." })
       await loadRule()
     } catch (error) {
       console.error(error)
@@ -206,6 +228,30 @@ export default function MenuPlanningRulesPage() {
     }
   }
 
+  const handleLoadVersion = (version: MenuPlanningRuleVersion) => {
+    setCurrentRule(version)
+    setEffectiveFrom(version.effectiveFrom > todayKey() ? version.effectiveFrom : "now")
+    setHistoryOpen(false)
+    toast({ title: "Version loaded", description: `v${version.version} is in the editor. Saving creates a new version.` })
+  }
+
+  const handleCancelScheduled = async (version: MenuPlanningRuleVersion) => {
+    if (!confirm(`Cancel the rule version scheduled for ${version.effectiveFrom}?`)) return
+    try {
+      await menuPlanningRulesService.deleteScheduledVersion(
+        selectedServiceId,
+        selectedSubServiceId,
+        selectedCompanyId === "base" ? null : selectedCompanyId,
+        version.id
+      )
+      toast({ title: "Cancelled", description: `Scheduled version v${version.version} removed.` })
+      await loadRule()
+    } catch (error: any) {
+      console.error(error)
+      toast({ title: "Error", description: error.message || "Failed to cancel version", variant: "destructive" })
+    }
+  }
+
   const handleAutoGenerateRules = async () => {
     if (!selectedServiceId || !selectedSubServiceId) return
     setGenerating(true)
@@ -227,7 +273,7 @@ export default function MenuPlanningRulesPage() {
         dayRules: newRules.dayRules || prev.dayRules || {}
       }))
       
-      toast({ title: "Success", description: "AI generated rules from past menus. Please review and save." })
+      toast({ title: "Success", description: "AI generated rules from past menus. Evaluate them against past menus, then review and save." })
     } catch (error: any) {
       console.error(error)
       toast({ title: "AI Error", description: error.message, variant: "destructive" })
@@ -405,9 +451,31 @@ export default function MenuPlanningRulesPage() {
               </SelectContent>
             </Select>
           </div>
+          <Select value={effectiveFrom} onValueChange={setEffectiveFrom}>
+            <SelectTrigger className="w-[200px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="now">Effective this week</SelectItem>
+              {getUpcomingMondays(todayKey(), 8).map(monday => (
+                <SelectItem key={monday} value={monday}>From Monday {monday}</SelectItem>
+              ))}
+              {effectiveFrom !== "now" && !getUpcomingMondays(todayKey(), 8).includes(effectiveFrom) && (
+                <SelectItem value={effectiveFrom}>From Monday {effectiveFrom}</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setHistoryOpen(true)} disabled={!selectedServiceId || !selectedSubServiceId} className="h-9">
+            <History className="h-4 w-4 mr-2" />
+            History ({ruleVersions.length})
+          </Button>
+          <Button variant="outline" onClick={() => setEvaluationOpen(true)} disabled={!selectedServiceId || !selectedSubServiceId} className="h-9">
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Evaluate
+          </Button>
           <Button onClick={handleSaveAll} disabled={saving} className="bg-blue-600 hover:bg-blue-700 h-9">
             {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
-            Save Rules
+            {effectiveFrom === "now" ? "Save Rules" : "Schedule Rules"}
           </Button>
         </div>
       </div>
@@ -460,13 +528,31 @@ export default function MenuPlanningRulesPage() {
               <Button onClick={addGrandRule} className="h-9 w-9 p-0" variant="secondary">
                 <Plus className="h-4 w-4" />
               </Button>
+              <div className="flex items-center gap-2 ml-4">
+                <span className="text-sm text-gray-600 whitespace-nowrap">Item cooldown (days)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={currentRule.cooldownDays || ""}
+                  placeholder="Off"
+                  onChange={e => setCurrentRule(prev => ({ ...prev, cooldownDays: Math.max(0, Number(e.target.value) || 0) }))}
+                  className="w-20 h-9"
+                />
+              </div>
             </div>
 
             <div className="flex flex-col gap-2">
               {currentRule.grandRules && currentRule.grandRules.length > 0 ? (
                 currentRule.grandRules.map((gr, idx) => (
                   <div key={idx} className="flex items-center justify-between bg-gray-50 px-3 py-2 rounded border text-sm text-gray-700 max-w-2xl">
-                    <span>{gr}</span>
+                    <span className="flex items-center gap-2">
+                      {gr}
+                      {parseDayRule(gr) ? (
+                        <Badge variant="outline" className="text-[10px] text-green-700 border-green-200 bg-green-50">Machine-checked</Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-[10px] text-gray-500">AI prompt only</Badge>
+                      )}
+                    </span>
                     <button onClick={() => removeGrandRule(idx)} className="text-gray-400 hover:text-red-500">
                       <X className="h-4 w-4" />
                     </button>
@@ -628,6 +714,28 @@ export default function MenuPlanningRulesPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RuleEvaluationDialog
+        open={evaluationOpen}
+        onOpenChange={setEvaluationOpen}
+        savedRule={savedRule}
+        draftRule={{
+          ...currentRule,
+          serviceId: selectedServiceId,
+          subServiceId: selectedSubServiceId,
+          companyId: selectedCompanyId === "base" ? undefined : selectedCompanyId,
+        }}
+        mealPlans={mealPlans}
+        subMealPlans={subMealPlans}
+      />
+
+      <RuleHistoryDialog
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        versions={ruleVersions}
+        onLoad={handleLoadVersion}
+        onCancelScheduled={handleCancelScheduled}
+      />
     </div>
   )
 }
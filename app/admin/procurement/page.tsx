@@ -0,0 +1,228 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import {
+  recipesService,
+  ingredientsService,
+  suppliersService,
+  employeesService,
+} from "@/lib/firestore"
+import { cafeteriasService } from "@/lib/firestore/cafeteriasService"
+import { companyMenusService, menuItemsService, clearCacheKey } from "@/lib/services"
+import { isMenuServed } from "@/lib/menu-approval"
+import { buildProcurementPlan, type ProcurementPlan } from "@/lib/procurement-planner"
+import { exportProcurementPlan } from "@/lib/export-procurement-plan"
+import { toast } from "@/hooks/use-toast"
+import { ShoppingCart, Download, Loader2, AlertCircle, Truck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+export default function ProcurementPage() {
+  const [startDate, setStartDate] = useState("")
+  const [endDate, setEndDate] = useState("")
+  const [generating, setGenerating] = useState(false)
+  const [plan, setPlan] = useState<ProcurementPlan | null>(null)
+  const [menuCount, setMenuCount] = useState(0)
+  const [unapprovedCount, setUnapprovedCount] = useState(0)
+
+  const handleGenerate = async () => {
+    if (!startDate || !endDate || startDate > endDate) {
+      toast({ title: "Error", description: "Select a valid date range", variant: "destructive" })
+      return
+    }
+    setGenerating(true)
+    try {
+      clearCacheKey("companyMenus-")
+      const [menus, recipes, ingredients, suppliers, cafeterias, employees, menuItems] = await Promise.all([
+        companyMenusService.getInDateRange(startDate, endDate),
+        recipesService.getAll(),
+        ingredientsService.getAll(),
+        suppliersService.getAll(),
+        cafeteriasService.getAll(),
+        employeesService.getAll(),
+        menuItemsService.getAll(),
+      ])
+      // Menus still in review or sent back for changes may change before they're served
+      const activeMenus = menus.filter(isMenuServed)
+      const menuItemNames = new Map(menuItems.map((i) => [i.id, i.name]))
+
+      setMenuCount(activeMenus.length)
+      setUnapprovedCount(menus.filter((m) => m.status === "active").length - activeMenus.length)
+      setPlan(
+        buildProcurementPlan(
+          activeMenus,
+          startDate,
+          endDate,
+          recipes,
+          ingredients,
+          suppliers,
+          { cafeterias, employees },
+          menuItemNames,
+        ),
+      )
+    } catch (error) {
+      console.error("Error generating procurement plan:", error)
+      toast({ title: "Error", description: "Failed to generate procurement plan", variant: "destructive" })
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const linesBySupplier = useMemo(() => {
+    const groups = new Map<string, ProcurementPlan["lines"]>()
+    plan?.lines.forEach((line) => {
+      const list = groups.get(line.supplierId) || []
+      list.push(line)
+      groups.set(line.supplierId, list)
+    })
+    return Array.from(groups.entries())
+  }, [plan])
+
+  // Unplanned items collapsed to one row per item/reason
+  const unplannedSummary = useMemo(() => {
+    const summary = new Map<string, { name: string; reason: string; count: number }>()
+    plan?.unplannedItems.forEach((item) => {
+      const key = `${item.menuItemId}|${item.reason}`
+      const existing = summary.get(key)
+      if (existing) existing.count++
+      else summary.set(key, { name: item.menuItemName, reason: item.reason, count: 1 })
+    })
+    return Array.from(summary.values()).sort((a, b) => b.count - a.count)
+  }, [plan])
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <ShoppingCart className="h-6 w-6" /> Procurement Planner
+          </h1>
+          <p className="text-gray-500">
+            Purchase lists per supplier and day, generated from published company menus, recipes and headcounts.
+          </p>
+        </div>
+        {plan && plan.lines.length > 0 && (
+          <Button variant="outline" onClick={() => exportProcurementPlan(plan)}>
+            <Download className="h-4 w-4 mr-2" /> Export XLSX
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 flex items-end gap-4">
+          <div className="space-y-2">
+            <Label>Start Date</Label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>End Date</Label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <Button onClick={handleGenerate} disabled={generating}>
+            {generating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShoppingCart className="h-4 w-4 mr-2" />}
+            Generate Plan
+          </Button>
+        </CardContent>
+      </Card>
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-600">Company Menus</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{menuCount}</div>
+                {unapprovedCount > 0 && (
+                  <p className="text-xs text-amber-600 mt-1">{unapprovedCount} not yet approved by the client, excluded</p>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-600">Suppliers</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-blue-600">{plan.supplierIds.length}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium text-gray-600">Purchase Lines</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-purple-600">{plan.lines.length}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {unplannedSummary.length > 0 && (
+            <Card className="border-amber-200 bg-amber-50">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2 text-amber-800">
+                  <AlertCircle className="h-4 w-4" /> {unplannedSummary.length} item(s) could not be planned
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {unplannedSummary.map((item, idx) => (
+                  <Badge key={idx} variant="outline" className="bg-white text-amber-800 border-amber-300">
+                    {item.name} · {item.reason === "no-recipe" ? "no recipe" : "no headcount"} ×{item.count}
+                  </Badge>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {linesBySupplier.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center text-gray-500">No purchase lines for this period</CardContent>
+            </Card>
+          ) : (
+            linesBySupplier.map(([supplierId, lines]) => (
+              <Card key={supplierId || "unassigned"}>
+                <CardHeader className="py-3 bg-blue-50">
+                  <CardTitle className="text-sm flex items-center gap-2 text-blue-700">
+                    <Truck className="h-4 w-4" /> {lines[0].supplierName}
+                  </CardTitle>
+                </CardHeader>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Delivery Date</TableHead>
+                      <TableHead>Ingredient</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead>Frequency</TableHead>
+                      <TableHead>Buildings</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line) => (
+                      <TableRow key={`${line.deliveryDate}-${line.ingredientId}-${line.unit}`}>
+                        <TableCell className="font-mono text-xs">{line.deliveryDate}</TableCell>
+                        <TableCell className="font-medium">{line.ingredientName}</TableCell>
+                        <TableCell className="text-right">
+                          {line.quantity.toFixed(2)} {line.unit}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={line.frequency === "weekly" ? "secondary" : "outline"}>
+                            {line.frequency === "weekly" ? "Weekly batch" : "Daily"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-gray-500">{line.buildings.join(", ")}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+            ))
+          )}
+        </>
+      )}
+    </div>
+  )
+}
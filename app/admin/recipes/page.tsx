@@ -0,0 +1,520 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import {
+  menuItemsService,
+  recipesService,
+  ingredientsService,
+  taxTemplatesService,
+  suppliersService,
+  ingredientPricesService,
+  type MenuItem,
+  type Recipe,
+  type RecipeLine,
+  type Ingredient,
+  type TaxTemplate,
+  type Supplier,
+  type IngredientPrice,
+} from "@/lib/firestore"
+import {
+  buildCostingContext,
+  calculateItemCosting,
+  calculateMenuCostings,
+  costRecipeLine,
+  type CostingIssue,
+} from "@/lib/recipe-costing"
+import { toast } from "@/hooks/use-toast"
+import { Plus, Trash2, Search, ChefHat, IndianRupee, AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+const ISSUE_LABELS: Record<CostingIssue, string> = {
+  "missing-ingredient": "Ingredient not found",
+  "no-price": "No supplier price",
+  "unit-mismatch": "Unit cannot be converted",
+}
+
+const emptyLine: RecipeLine = { ingredientId: "", quantity: 0, unit: "g", wastagePercent: 0 }
+
+const initialPriceState: Omit<IngredientPrice, "id"> = {
+  ingredientId: "",
+  supplierId: "",
+  price: 0,
+  quantity: 1,
+  unit: "kg",
+}
+
+function formatMoney(value: number) {
+  return `₹${value.toFixed(2)}`
+}
+
+function marginClass(percent: number | null) {
+  if (percent === null) return "bg-gray-100 text-gray-600 border-gray-200"
+  if (percent < 0) return "bg-red-100 text-red-700 border-red-200"
+  if (percent < 30) return "bg-amber-100 text-amber-700 border-amber-200"
+  return "bg-green-100 text-green-700 border-green-200"
+}
+
+export default function RecipesPage() {
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([])
+  const [recipes, setRecipes] = useState<Recipe[]>([])
+  const [ingredients, setIngredients] = useState<Ingredient[]>([])
+  const [taxTemplates, setTaxTemplates] = useState<TaxTemplate[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [prices, setPrices] = useState<IngredientPrice[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState("")
+
+  const [editingItem, setEditingItem] = useState<MenuItem | null>(null)
+  const [lines, setLines] = useState<RecipeLine[]>([])
+  const [sellingPrice, setSellingPrice] = useState(0)
+  const [saving, setSaving] = useState(false)
+
+  const [isPriceModalOpen, setIsPriceModalOpen] = useState(false)
+  const [priceForm, setPriceForm] = useState(initialPriceState)
+
+  useEffect(() => {
+    loadAllData()
+  }, [])
+
+  const loadAllData = async () => {
+    setLoading(true)
+    try {
+      const [items, rec, ing, tax, sup, pr] = await Promise.all([
+        menuItemsService.getAll(),
+        recipesService.getAll(),
+        ingredientsService.getAll(),
+        taxTemplatesService.getAll(),
+        suppliersService.getAll(),
+        ingredientPricesService.getAll(),
+      ])
+      setMenuItems(items)
+      setRecipes(rec)
+      setIngredients(ing)
+      setTaxTemplates(tax)
+      setSuppliers(sup)
+      setPrices(pr)
+    } catch (e) {
+      console.error("Error loading recipe data:", e)
+      toast({ title: "Error", description: "Failed to load data" })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const context = useMemo(
+    () => buildCostingContext(ingredients, taxTemplates, suppliers, prices),
+    [ingredients, taxTemplates, suppliers, prices],
+  )
+
+  const costings = useMemo(() => calculateMenuCostings(menuItems, recipes, context), [menuItems, recipes, context])
+
+  const filteredItems = useMemo(() => {
+    const lower = searchTerm.toLowerCase().trim()
+    if (!lower) return menuItems
+    return menuItems.filter(
+      (item) => item.name.toLowerCase().includes(lower) || (item.category || "").toLowerCase().includes(lower),
+    )
+  }, [menuItems, searchTerm])
+
+  // Live preview of the recipe being edited
+  const draftCosting = useMemo(() => {
+    if (!editingItem) return null
+    const validLines = lines.filter((l) => l.ingredientId && l.quantity > 0)
+    return calculateItemCosting(
+      { id: editingItem.id, price: sellingPrice },
+      { id: "draft", menuItemId: editingItem.id, lines: validLines },
+      context,
+    )
+  }, [editingItem, lines, sellingPrice, context])
+
+  const openRecipe = (item: MenuItem) => {
+    const recipe = recipes.find((r) => r.menuItemId === item.id)
+    setEditingItem(item)
+    setLines(recipe?.lines?.length ? recipe.lines.map((l) => ({ ...l })) : [{ ...emptyLine }])
+    setSellingPrice(item.price || 0)
+  }
+
+  const updateLine = (index: number, patch: Partial<RecipeLine>) => {
+    setLines((prev) => prev.map((l, i) => (i === index ? { ...l, ...patch } : l)))
+  }
+
+  const handleSaveRecipe = async () => {
+    if (!editingItem) return
+    setSaving(true)
+    try {
+      const validLines = lines.filter((l) => l.ingredientId && l.quantity > 0)
+      const existing = recipes.find((r) => r.menuItemId === editingItem.id)
+      const payload = { menuItemId: editingItem.id, menuItemName: editingItem.name, lines: validLines }
+
+      if (existing) {
+        await recipesService.update(existing.id, payload)
+      } else {
+        await recipesService.add(payload)
+      }
+      if (sellingPrice !== (editingItem.price || 0)) {
+        await menuItemsService.update(editingItem.id, { price: sellingPrice })
+      }
+
+      setEditingItem(null)
+      await loadAllData()
+      toast({ title: "Success", description: "Recipe saved" })
+    } catch (e) {
+      console.error("Error saving recipe:", e)
+      toast({ title: "Error", description: "Failed to save recipe", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSavePrice = async () => {
+    if (!priceForm.ingredientId || !priceForm.supplierId || priceForm.quantity <= 0) {
+      toast({ title: "Error", description: "Ingredient, supplier and quantity are required", variant: "destructive" })
+      return
+    }
+    try {
+      await ingredientPricesService.add(priceForm)
+      setIsPriceModalOpen(false)
+      setPriceForm(initialPriceState)
+      await loadAllData()
+      toast({ title: "Success", description: "Supplier price added" })
+    } catch (e) {
+      toast({ title: "Error", description: "Failed to save price", variant: "destructive" })
+    }
+  }
+
+  const ingredientName = (id: string) => {
+    const ing = ingredients.find((i) => i.id === id)
+    return ing?.variantName || ing?.name || "Unknown"
+  }
+
+  const priceIngredient = ingredients.find((i) => i.id === priceForm.ingredientId)
+  const priceSupplierOptions = priceIngredient
+    ? suppliers.filter((s) =>
+        [priceIngredient.supplier1Id, priceIngredient.supplier2Id, priceIngredient.supplier3Id].includes(s.id),
+      )
+    : []
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <ChefHat className="h-6 w-6" /> Recipes & Food Cost
+          </h1>
+          <p className="text-gray-500">Per-portion ingredient lines, supplier pricing and margin for every menu item.</p>
+        </div>
+      </div>
+
+      <Tabs defaultValue="recipes">
+        <TabsList>
+          <TabsTrigger value="recipes">Recipes</TabsTrigger>
+          <TabsTrigger value="prices">Supplier Prices</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="recipes" className="space-y-4">
+          <div className="relative max-w-md">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search menu items..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Menu Item</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Selling Price</TableHead>
+                  <TableHead className="text-right">Food Cost</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500 py-8">Loading recipes...</TableCell>
+                  </TableRow>
+                ) : (
+                  filteredItems.map((item) => {
+                    const costing = costings.get(item.id)
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell className="font-medium">{item.name}</TableCell>
+                        <TableCell className="text-gray-500">{item.category || "-"}</TableCell>
+                        <TableCell className="text-right">{item.price ? formatMoney(item.price) : "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {costing ? (
+                            <span className="inline-flex items-center gap-1">
+                              {formatMoney(costing.foodCost)}
+                              {!costing.isComplete && (
+                                <span title="Some recipe lines could not be costed">
+                                  <AlertCircle className="h-3 w-3 text-amber-500" />
+                                </span>
+                              )}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400 text-xs">No recipe</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {costing && (
+                            <Badge variant="outline" className={marginClass(costing.marginPercent)}>
+                              {costing.marginPercent === null ? "No price" : `${costing.marginPercent.toFixed(1)}%`}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => openRecipe(item)}>
+                            {costing ? "Edit Recipe" : "Add Recipe"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="prices" className="space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={() => setIsPriceModalOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" /> Add Supplier Price
+            </Button>
+          </div>
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ingredient</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">Price (excl. tax)</TableHead>
+                  <TableHead>Per</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {prices.map((price) => (
+                  <TableRow key={price.id}>
+                    <TableCell className="font-medium">{ingredientName(price.ingredientId)}</TableCell>
+                    <TableCell>{suppliers.find((s) => s.id === price.supplierId)?.name || "Unknown"}</TableCell>
+                    <TableCell className="text-right">{formatMoney(price.price)}</TableCell>
+                    <TableCell>
+                      {price.quantity} {price.unit}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => ingredientPricesService.delete(price.id).then(loadAllData)}
+                      >
+                        <Trash2 className="h-3 w-3 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Recipe Editor */}
+      <Dialog open={!!editingItem} onOpenChange={(open) => !open && setEditingItem(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Recipe: {editingItem?.name}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Label className="w-40">Selling Price / Portion (₹)</Label>
+              <Input
+                type="number"
+                className="w-32"
+                value={sellingPrice}
+                onChange={(e) => setSellingPrice(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              {lines.map((line, index) => {
+                const lineCost = line.ingredientId && line.quantity > 0 ? costRecipeLine(line, context) : null
+                return (
+                  <div key={index} className="flex items-center gap-2 bg-gray-50 p-2 rounded">
+                    <Select value={line.ingredientId} onValueChange={(val) => updateLine(index, { ingredientId: val })}>
+                      <SelectTrigger className="h-8 text-xs flex-1">
+                        <SelectValue placeholder="Select ingredient" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ingredients.map((ing) => (
+                          <SelectItem key={ing.id} value={ing.id}>
+                            {ing.variantName || ing.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      className="w-24 h-8 text-sm"
+                      placeholder="Qty"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                    />
+                    <Input
+                      className="w-20 h-8 text-sm"
+                      placeholder="Unit"
+                      value={line.unit}
+                      onChange={(e) => updateLine(index, { unit: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      className="w-20 h-8 text-sm"
+                      placeholder="Waste %"
+                      title="Wastage %"
+                      value={line.wastagePercent || 0}
+                      onChange={(e) => updateLine(index, { wastagePercent: parseFloat(e.target.value) || 0 })}
+                    />
+                    <div className="w-32 text-right text-xs">
+                      {lineCost?.issue ? (
+                        <span className="text-amber-600">{ISSUE_LABELS[lineCost.issue]}</span>
+                      ) : lineCost ? (
+                        <span className="font-semibold">{formatMoney(lineCost.totalCost)}</span>
+                      ) : null}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-3 w-3 text-red-500" />
+                    </Button>
+                  </div>
+                )
+              })}
+              <Button variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, { ...emptyLine }])}>
+                <Plus className="h-3 w-3 mr-1" /> Add Ingredient
+              </Button>
+            </div>
+
+            {draftCosting && (
+              <Card>
+                <CardHeader className="py-3">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <IndianRupee className="h-4 w-4" /> Cost per Portion
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="grid grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <div className="text-xs text-gray-500">Net Cost</div>
+                    <div className="font-bold">{formatMoney(draftCosting.netCost)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Tax</div>
+                    <div className="font-bold">{formatMoney(draftCosting.taxAmount)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Food Cost</div>
+                    <div className="font-bold">{formatMoney(draftCosting.foodCost)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-gray-500">Margin</div>
+                    <Badge variant="outline" className={marginClass(draftCosting.marginPercent)}>
+                      {draftCosting.marginPercent === null
+                        ? "No price"
+                        : `${formatMoney(draftCosting.margin)} (${draftCosting.marginPercent.toFixed(1)}%)`}
+                    </Badge>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingItem(null)}>Cancel</Button>
+            <Button onClick={handleSaveRecipe} disabled={saving}>{saving ? "Saving..." : "Save Recipe"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Supplier Price Form */}
+      <Dialog open={isPriceModalOpen} onOpenChange={setIsPriceModalOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Supplier Price</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label>Ingredient</Label>
+              <Select
+                value={priceForm.ingredientId}
+                onValueChange={(val) => {
+                  const ing = ingredients.find((i) => i.id === val)
+                  setPriceForm({ ...priceForm, ingredientId: val, supplierId: ing?.supplier1Id || "", unit: ing?.u1 || priceForm.unit })
+                }}
+              >
+                <SelectTrigger><SelectValue placeholder="Select Ingredient" /></SelectTrigger>
+                <SelectContent>
+                  {ingredients.map((ing) => (
+                    <SelectItem key={ing.id} value={ing.id}>{ing.variantName || ing.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Supplier</Label>
+              <Select value={priceForm.supplierId} onValueChange={(val) => setPriceForm({ ...priceForm, supplierId: val })}>
+                <SelectTrigger><SelectValue placeholder="Select Supplier" /></SelectTrigger>
+                <SelectContent>
+                  {priceSupplierOptions.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Price (₹, excl. tax)</Label>
+              <Input
+                type="number"
+                value={priceForm.price}
+                onChange={(e) => setPriceForm({ ...priceForm, price: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label>Per Qty</Label>
+                <Input
+                  type="number"
+                  value={priceForm.quantity}
+                  onChange={(e) => setPriceForm({ ...priceForm, quantity: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Unit</Label>
+                <Input value={priceForm.unit} onChange={(e) => setPriceForm({ ...priceForm, unit: e.target.value })} />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPriceModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSavePrice}>Save Price</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
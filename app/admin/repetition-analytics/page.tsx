@@ -0,0 +1,289 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  companiesService,
+  buildingsService,
+  companyMenusService,
+  menuItemsService,
+  type Company,
+  type Building,
+} from "@/lib/services"
+import {
+  ROLLING_WINDOWS,
+  addDays,
+  buildServedDatesIndex,
+  computeItemFrequency,
+  countInWindow,
+  suggestUnderusedItems,
+  type ServedDatesIndex,
+} from "@/lib/repetition-analytics"
+import { isMenuServed } from "@/lib/menu-approval"
+import type { CompanyMenu, MenuItem } from "@/lib/types"
+import { toast } from "@/hooks/use-toast"
+import { AlertTriangle, Loader2, Repeat, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+const LONGEST_WINDOW = Math.max(...ROLLING_WINDOWS)
+
+export default function RepetitionAnalyticsPage() {
+  const [companies, setCompanies] = useState<Company[]>([])
+  const [buildings, setBuildings] = useState<Building[]>([])
+  const [menus, setMenus] = useState<CompanyMenu[]>([])
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [buildingId, setBuildingId] = useState("")
+  const [endDate, setEndDate] = useState(new Date().toISOString().split("T")[0])
+  const [flagWindow, setFlagWindow] = useState<number>(28)
+  const [threshold, setThreshold] = useState(4)
+  const [flaggedOnly, setFlaggedOnly] = useState(false)
+  const [cooldownDrafts, setCooldownDrafts] = useState<Record<string, string>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadStatic = async () => {
+      try {
+        const [companyList, buildingList, itemList] = await Promise.all([
+          companiesService.getAll(),
+          buildingsService.getAll(),
+          menuItemsService.getAll(),
+        ])
+        setCompanies(companyList.filter((c) => c.status === "active"))
+        setBuildings(buildingList.filter((b) => b.status !== "inactive"))
+        setMenuItems(itemList)
+      } catch (error) {
+        console.error("Error loading repetition analytics:", error)
+        toast({ title: "Error", description: "Failed to load companies and items", variant: "destructive" })
+      }
+    }
+    loadStatic()
+  }, [])
+
+  useEffect(() => {
+    if (!endDate) return
+    setLoading(true)
+    companyMenusService
+      .getInDateRange(addDays(endDate, -(LONGEST_WINDOW - 1)), endDate)
+      .then((list) => setMenus(list.filter(isMenuServed)))
+      .catch((error) => {
+        console.error("Error loading company menus:", error)
+        toast({ title: "Error", description: "Failed to load company menus", variant: "destructive" })
+      })
+      .finally(() => setLoading(false))
+  }, [endDate])
+
+  const servedIndex = useMemo(() => buildServedDatesIndex(menus), [menus])
+  const served = useMemo<ServedDatesIndex>(() => servedIndex.get(buildingId) || new Map(), [servedIndex, buildingId])
+
+  const rows = useMemo(
+    () => computeItemFrequency(served, menuItems, { endDate, flagWindow, threshold }),
+    [served, menuItems, endDate, flagWindow, threshold],
+  )
+
+  const countsByItem = useMemo(() => {
+    const counts = new Map<string, number>()
+    served.forEach((dates, itemId) => counts.set(itemId, countInWindow(dates, endDate, flagWindow)))
+    return counts
+  }, [served, endDate, flagWindow])
+
+  const companyNames = useMemo(() => new Map(companies.map((c) => [c.id, c.name])), [companies])
+  const flaggedCount = rows.filter((row) => row.overThreshold).length
+  const visibleRows = flaggedOnly ? rows.filter((row) => row.overThreshold) : rows
+
+  const saveCooldown = async (itemId: string) => {
+    const raw = cooldownDrafts[itemId]
+    const days = raw?.trim() ? parseInt(raw, 10) : null
+    if (days !== null && (isNaN(days) || days < 0)) {
+      toast({ title: "Invalid cooldown", description: "Enter a number of days, or leave empty to clear", variant: "destructive" })
+      return
+    }
+    setSavingId(itemId)
+    try {
+      await menuItemsService.setCooldownDays(itemId, days)
+      setMenuItems((prev) => prev.map((item) => (item.id === itemId ? { ...item, cooldownDays: days || undefined } : item)))
+      setCooldownDrafts(({ [itemId]: _, ...rest }) => rest)
+      toast({ title: "Cooldown saved", description: days ? `Editor blocks repeats within ${days} days` : "Item cooldown cleared" })
+    } catch (error) {
+      console.error("Error saving cooldown:", error)
+      toast({ title: "Error", description: "Failed to save cooldown", variant: "destructive" })
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Repeat className="h-8 w-8" />
+          Repetition Analytics
+        </h1>
+        <p className="text-gray-600 mt-1">
+          How often each item was served at a building over rolling windows. Items above the threshold are flagged
+          with under-used alternatives from the same sub-meal category; item cooldowns are enforced in the menu editor.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="space-y-1 md:col-span-2">
+            <Label>Building</Label>
+            <Select value={buildingId} onValueChange={setBuildingId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a building" />
+              </SelectTrigger>
+              <SelectContent>
+                {buildings.map((b) => (
+                  <SelectItem key={b.id} value={b.id}>
+                    {companyNames.get(b.companyId) || "Company"} - {b.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>As of</Label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Flag more than</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                value={threshold}
+                onChange={(e) => setThreshold(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                className="w-20"
+              />
+              <span className="text-sm text-gray-500 whitespace-nowrap">days in</span>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Window</Label>
+            <Select value={String(flagWindow)} onValueChange={(value) => setFlagWindow(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLLING_WINDOWS.map((w) => (
+                  <SelectItem key={w} value={String(w)}>
+                    Last {w} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            Item Frequency
+            {flaggedCount > 0 && (
+              <span className="text-xs font-bold px-2 py-1 rounded bg-red-100 text-red-700 flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" /> {flaggedCount} over threshold
+              </span>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Switch id="flagged-only" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+            <Label htmlFor="flagged-only">Flagged only</Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : !buildingId ? (
+            <p className="text-sm text-gray-500 text-center p-8">Select a building to see item frequency.</p>
+          ) : visibleRows.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center p-8">No items served in the last {LONGEST_WINDOW} days.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Category</TableHead>
+                  {ROLLING_WINDOWS.map((w) => (
+                    <TableHead key={w} className="text-center">
+                      {w}d
+                    </TableHead>
+                  ))}
+                  <TableHead>Last Served</TableHead>
+                  <TableHead>Suggested Alternatives</TableHead>
+                  <TableHead>Cooldown (days)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map((row) => {
+                  const suggestions = row.overThreshold ? suggestUnderusedItems(row, menuItems, countsByItem) : []
+                  const draft = cooldownDrafts[row.itemId] ?? (row.cooldownDays ? String(row.cooldownDays) : "")
+                  const dirty = row.itemId in cooldownDrafts
+                  return (
+                    <TableRow key={row.itemId} className={row.overThreshold ? "bg-red-50" : ""}>
+                      <TableCell className="font-medium">
+                        {row.overThreshold && <AlertTriangle className="h-4 w-4 text-red-600 inline mr-1" />}
+                        {row.itemName}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{row.submealCategory || "—"}</TableCell>
+                      {ROLLING_WINDOWS.map((w) => (
+                        <TableCell
+                          key={w}
+                          className={`text-center ${w === flagWindow ? "font-bold" : ""} ${w === flagWindow && row.overThreshold ? "text-red-700" : ""}`}
+                        >
+                          {row.counts[w]}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-sm text-gray-600">
+                        {row.lastServed &&
+                          new Date(row.lastServed).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {suggestions.length > 0
+                          ? suggestions.map(({ item, count }) => (
+                              <span key={item.id} className="inline-block mr-2 mb-1 px-2 py-0.5 rounded bg-emerald-50 text-emerald-800 border border-emerald-200">
+                                {item.name} <span className="text-emerald-600">({count})</span>
+                              </span>
+                            ))
+                          : row.overThreshold && <span className="text-gray-400 italic">{row.submealCategory ? "None less used" : "Untagged"}</span>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            min={0}
+                            value={draft}
+                            placeholder="Rule"
+                            onChange={(e) => setCooldownDrafts((prev) => ({ ...prev, [row.itemId]: e.target.value }))}
+                            className="w-20 h-8"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={!dirty || savingId === row.itemId}
+                            onClick={() => saveCooldown(row.itemId)}
+                          >
+                            {savingId === row.itemId ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,377 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { companiesService, type Company } from "@/lib/firestore"
+import { slaPoliciesService, type SlaPolicy } from "@/lib/firestore/slaPoliciesService"
+import type { TicketPriority } from "@/lib/firestore/ticketService"
+import { DEFAULT_SLA_POLICY } from "@/lib/sla-engine"
+import { toast } from "@/hooks/use-toast"
+import { Loader2, Pencil, Plus, Timer, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+type PolicyDraft = Omit<SlaPolicy, "id" | "createdAt" | "updatedAt"> & { id?: string }
+
+const PRIORITIES: TicketPriority[] = ["Critical", "High", "Medium", "Low"]
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+const COMPLAINT_CATEGORIES = [
+  "Cleaning and Hygiene",
+  "Food Quality",
+  "Food Shortage",
+  "Staff"
+]
+
+const newDraft = (): PolicyDraft => {
+  const { id, ...defaults } = DEFAULT_SLA_POLICY
+  return { ...defaults, name: "", resolutionHours: { ...defaults.resolutionHours }, businessHours: { ...defaults.businessHours } }
+}
+
+export default function SlaPoliciesPage() {
+  const [companies, setCompanies] = useState<Company[]>([])
+  const [policies, setPolicies] = useState<SlaPolicy[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editing, setEditing] = useState<PolicyDraft | null>(null)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    setLoading(true)
+    try {
+      const [companyList, policyList] = await Promise.all([companiesService.getAll(), slaPoliciesService.getAll()])
+      setCompanies(companyList.filter((c) => c.status === "active"))
+      setPolicies(policyList.sort((a, b) => (a.companyName || "").localeCompare(b.companyName || "") || a.category.localeCompare(b.category)))
+    } catch (error) {
+      console.error("Error loading SLA policies:", error)
+      toast({ title: "Error", description: "Failed to load SLA policies", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!editing || !editing.name.trim()) return
+    const duplicate = policies.find(
+      (p) => p.id !== editing.id && p.companyId === editing.companyId && p.category === editing.category,
+    )
+    if (duplicate) {
+      toast({ title: "Duplicate scope", description: `"${duplicate.name}" already covers this company and category.`, variant: "destructive" })
+      return
+    }
+    setSaving(true)
+    try {
+      const { id, ...data } = editing
+      const payload = {
+        ...data,
+        name: data.name.trim(),
+        companyName: companies.find((c) => c.id === data.companyId)?.name || "",
+        escalationAfterHours: [...data.escalationAfterHours].sort((a, b) => a - b),
+      }
+      if (id) await slaPoliciesService.update(id, payload)
+      else await slaPoliciesService.create(payload)
+      toast({ title: "Saved", description: `SLA policy "${payload.name}" saved. New deadlines apply to tickets raised from now on.` })
+      setEditing(null)
+      await loadData()
+    } catch (error) {
+      console.error("Error saving SLA policy:", error)
+      toast({ title: "Error", description: "Failed to save SLA policy", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (policy: SlaPolicy) => {
+    if (!confirm(`Delete SLA policy "${policy.name}"?`)) return
+    try {
+      await slaPoliciesService.delete(policy.id)
+      setPolicies((prev) => prev.filter((p) => p.id !== policy.id))
+    } catch (error) {
+      console.error("Error deleting SLA policy:", error)
+      toast({ title: "Error", description: "Failed to delete SLA policy", variant: "destructive" })
+    }
+  }
+
+  const handleToggleActive = async (policy: SlaPolicy) => {
+    try {
+      await slaPoliciesService.update(policy.id, { active: !policy.active })
+      setPolicies((prev) => prev.map((p) => (p.id === policy.id ? { ...p, active: !p.active } : p)))
+    } catch (error) {
+      console.error("Error updating SLA policy:", error)
+      toast({ title: "Error", description: "Failed to update SLA policy", variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Timer className="h-8 w-8" />
+            SLA Policies
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Resolution targets per company and ticket category. The most specific active policy applies; tickets without
+            one use the default ({DEFAULT_SLA_POLICY.resolutionHours.Critical}h critical · {DEFAULT_SLA_POLICY.resolutionHours.High}h high ·{" "}
+            {DEFAULT_SLA_POLICY.resolutionHours.Medium}h medium · {DEFAULT_SLA_POLICY.resolutionHours.Low}h low, around the clock).
+            Breached tickets are escalated up the assignee's manager chain every 15 minutes.
+          </p>
+        </div>
+        <Button onClick={() => setEditing(newDraft())}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Policy
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Policies</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : policies.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 py-8">No policies yet. Every ticket uses the default SLA.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Targets (C / H / M / L)</TableHead>
+                  <TableHead>Clock</TableHead>
+                  <TableHead>Escalation</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map((policy) => (
+                  <TableRow key={policy.id}>
+                    <TableCell className="font-medium">{policy.name}</TableCell>
+                    <TableCell className="text-sm">
+                      {policy.companyName || (policy.companyId ? policy.companyId : "All companies")}
+                      <span className="text-gray-500"> · {policy.category || "All categories"}</span>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {PRIORITIES.map((p) => `${policy.resolutionHours?.[p] ?? "-"}h`).join(" / ")}
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600 space-x-1">
+                      {policy.businessHours?.enabled ? (
+                        <span>
+                          {policy.businessHours.start}–{policy.businessHours.end},{" "}
+                          {policy.businessHours.workDays.map((d) => WEEKDAYS[d]).join(" ")}
+                        </span>
+                      ) : (
+                        <span>24×7</span>
+                      )}
+                      {policy.excludeHolidays && <Badge variant="outline" className="text-[10px]">Holidays off</Badge>}
+                      {policy.pauseWhileAwaitingClient && <Badge variant="outline" className="text-[10px]">Pauses</Badge>}
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600">
+                      {(policy.escalationAfterHours || []).length === 0
+                        ? "None"
+                        : policy.escalationAfterHours.map((h, i) => `L${i + 1} +${h}h`).join(" · ")}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={policy.active} onCheckedChange={() => handleToggleActive(policy)} />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => {
+                          const { createdAt, updatedAt, ...rest } = policy
+                          setEditing({ ...rest, businessHours: { ...rest.businessHours }, resolutionHours: { ...rest.resolutionHours } })
+                        }}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(policy)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit SLA Policy" : "New SLA Policy"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} placeholder="e.g. Acme food quality" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Company</Label>
+                  <Select value={editing.companyId || "all"} onValueChange={(v) => setEditing({ ...editing, companyId: v === "all" ? "" : v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All companies</SelectItem>
+                      {companies.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Category (blank = all)</Label>
+                  <Input
+                    list="sla-categories"
+                    value={editing.category}
+                    onChange={(e) => setEditing({ ...editing, category: e.target.value.trim() })}
+                  />
+                  <datalist id="sla-categories">
+                    {COMPLAINT_CATEGORIES.map((c) => <option key={c} value={c} />)}
+                  </datalist>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Resolution target (hours of SLA time)</Label>
+                <div className="grid grid-cols-4 gap-2">
+                  {PRIORITIES.map((priority) => (
+                    <div key={priority} className="space-y-1">
+                      <span className="text-xs text-gray-500">{priority}</span>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={editing.resolutionHours[priority]}
+                        onChange={(e) =>
+                          setEditing({
+                            ...editing,
+                            resolutionHours: { ...editing.resolutionHours, [priority]: Math.max(1, Number(e.target.value) || 1) },
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border rounded-md p-3 space-y-3">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <Switch
+                    checked={editing.businessHours.enabled}
+                    onCheckedChange={(checked) => setEditing({ ...editing, businessHours: { ...editing.businessHours, enabled: checked } })}
+                  />
+                  Count business hours only
+                </label>
+                {editing.businessHours.enabled && (
+                  <>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="space-y-1">
+                        <span className="text-xs text-gray-500">From</span>
+                        <Input
+                          type="time"
+                          value={editing.businessHours.start}
+                          onChange={(e) => setEditing({ ...editing, businessHours: { ...editing.businessHours, start: e.target.value } })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <span className="text-xs text-gray-500">To</span>
+                        <Input
+                          type="time"
+                          value={editing.businessHours.end}
+                          onChange={(e) => setEditing({ ...editing, businessHours: { ...editing.businessHours, end: e.target.value } })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <span className="text-xs text-gray-500">UTC offset (minutes)</span>
+                        <Input
+                          type="number"
+                          value={editing.utcOffsetMinutes}
+                          onChange={(e) => setEditing({ ...editing, utcOffsetMinutes: Number(e.target.value) || 0 })}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex gap-3 flex-wrap">
+                      {WEEKDAYS.map((label, day) => (
+                        <label key={label} className="flex items-center gap-1 text-sm">
+                          <Checkbox
+                            checked={editing.businessHours.workDays.includes(day)}
+                            onCheckedChange={(checked) =>
+                              setEditing({
+                                ...editing,
+                                businessHours: {
+                                  ...editing.businessHours,
+                                  workDays: checked
+                                    ? [...editing.businessHours.workDays, day].sort()
+                                    : editing.businessHours.workDays.filter((d) => d !== day),
+                                },
+                              })
+                            }
+                          />
+                          {label}
+                        </label>
+                      ))}
+                    </div>
+                  </>
+                )}
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={editing.excludeHolidays}
+                    onCheckedChange={(checked) => setEditing({ ...editing, excludeHolidays: !!checked })}
+                  />
+                  Stop the clock on corporate-calendar holidays
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={editing.pauseWhileAwaitingClient}
+                    onCheckedChange={(checked) => setEditing({ ...editing, pauseWhileAwaitingClient: !!checked })}
+                  />
+                  Pause while a ticket is "Awaiting Client"
+                </label>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Escalation levels (SLA hours after breach, comma separated)</Label>
+                <Input
+                  defaultValue={editing.escalationAfterHours.join(", ")}
+                  placeholder="0, 4, 24"
+                  onBlur={(e) =>
+                    setEditing({
+                      ...editing,
+                      escalationAfterHours: e.target.value
+                        .split(",")
+                        .map((v) => Number(v.trim()))
+                        .filter((n) => Number.isFinite(n) && n >= 0),
+                    })
+                  }
+                />
+                <p className="text-xs text-gray-500">
+                  Level 1 goes to the assignee's manager, level 2 to their manager, and so on.
+                </p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button disabled={!editing?.name.trim() || saving} onClick={handleSave}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -58,6 +58,7 @@ function getRouteGroup(routePath: string): string {
     "/admin/ingredients": "ingredients",
     "/admin/gp": "ingredients",
     "/admin/subgp": "ingredients",
+    "/admin/procurement": "ingredients",
     "/admin/templates": "master",
     "/admin/brands": "master",
     "/admin/sub-brands": "master",
@@ -69,21 +70,29 @@ function getRouteGroup(routePath: string): string {
     "/admin/meal-plans": "meals",
     "/admin/sub-meal-plans": "meals",
     "/admin/menu-items": "meals",
+    "/admin/ai-tag-review": "meals",
+    "/admin/recipes": "meals",
     "/admin/services": "services",
     "/admin/sub-services": "services",
     "/admin/companies": "organization",
     "/admin/buildings": "organization",
     "/admin/corporate-calendar": "organization",
+    "/admin/sla-policies": "organization",
+    "/admin/ticket-routing": "organization",
+    "/admin/csat": "organization",
     "/admin/structure-assignment": "organization",
     "/admin/structure-management": "organization",
     "/admin/meal-plan-structure": "organization",
     "/admin/combined-menu": "menu-management",
     "/admin/combined-menu-management": "menu-management",
     "/admin/updations": "menu-management",
+    "/admin/client-notifications": "menu-management",
+    "/admin/repetition-analytics": "menu-management",
     "/admin/company-menus": "menu-management",
     "/admin/presentation": "menu-management",
     "/admin/corporate-deck": "menu-management",
     "/admin/vendors": "vendors",
+    "/admin/billing": "vendors",
     "/admin/access-management": "system-admin",
     "/admin/roles": "system-admin",
     "/admin/permissions": "system-admin",
@@ -0,0 +1,338 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { companiesService, type Company } from "@/lib/firestore"
+import { rolesService, type Role } from "@/lib/firestore/rolesService"
+import { ticketRoutingService, type TicketRoutingRule } from "@/lib/firestore/ticketRoutingService"
+import { ROUTING_WEIGHTS } from "@/lib/ticket-routing"
+import { toast } from "@/hooks/use-toast"
+import { ArrowDown, ArrowUp, Loader2, Pencil, Plus, Route, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+type RuleDraft = Omit<TicketRoutingRule, "id" | "createdAt" | "updatedAt"> & { id?: string }
+
+const COMPLAINT_CATEGORIES = [
+  "Cleaning and Hygiene",
+  "Food Quality",
+  "Food Shortage",
+  "Staff"
+]
+
+const newDraft = (order: number): RuleDraft => ({
+  name: "",
+  order,
+  companyId: "",
+  category: "",
+  roleKeys: [],
+  requireSkillMatch: false,
+  requireOnShift: false,
+  maxOpenTickets: 0,
+  active: true,
+})
+
+export default function TicketRoutingPage() {
+  const [companies, setCompanies] = useState<Company[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
+  const [rules, setRules] = useState<TicketRoutingRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editing, setEditing] = useState<RuleDraft | null>(null)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    setLoading(true)
+    try {
+      const [companyList, roleList, ruleList] = await Promise.all([
+        companiesService.getAll(),
+        rolesService.getAll(),
+        ticketRoutingService.getAll(),
+      ])
+      setCompanies(companyList.filter((c) => c.status === "active"))
+      setRoles(roleList.filter((r) => r.userType === "vendor_staff" && r.status !== "inactive"))
+      setRules(ruleList)
+    } catch (error) {
+      console.error("Error loading routing rules:", error)
+      toast({ title: "Error", description: "Failed to load routing rules", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!editing || !editing.name.trim()) return
+    setSaving(true)
+    try {
+      const { id, ...data } = editing
+      const payload = {
+        ...data,
+        name: data.name.trim(),
+        companyName: companies.find((c) => c.id === data.companyId)?.name || "",
+      }
+      if (id) await ticketRoutingService.update(id, payload)
+      else await ticketRoutingService.create(payload)
+      toast({ title: "Saved", description: `Routing rule "${payload.name}" saved.` })
+      setEditing(null)
+      await loadData()
+    } catch (error) {
+      console.error("Error saving routing rule:", error)
+      toast({ title: "Error", description: "Failed to save routing rule", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: TicketRoutingRule) => {
+    if (!confirm(`Delete routing rule "${rule.name}"?`)) return
+    try {
+      await ticketRoutingService.delete(rule.id)
+      setRules((prev) => prev.filter((r) => r.id !== rule.id))
+    } catch (error) {
+      console.error("Error deleting routing rule:", error)
+      toast({ title: "Error", description: "Failed to delete routing rule", variant: "destructive" })
+    }
+  }
+
+  const handleToggleActive = async (rule: TicketRoutingRule) => {
+    try {
+      await ticketRoutingService.update(rule.id, { active: !rule.active })
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, active: !r.active } : r)))
+    } catch (error) {
+      console.error("Error updating routing rule:", error)
+      toast({ title: "Error", description: "Failed to update routing rule", variant: "destructive" })
+    }
+  }
+
+  // Swap with the neighbour and renumber so orders stay contiguous
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= rules.length) return
+    const reordered = [...rules]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setRules(reordered.map((r, i) => ({ ...r, order: i })))
+    try {
+      await Promise.all(
+        reordered.map((r, i) => (r.order === i ? Promise.resolve() : ticketRoutingService.update(r.id, { order: i }))),
+      )
+    } catch (error) {
+      console.error("Error reordering routing rules:", error)
+      toast({ title: "Error", description: "Failed to reorder routing rules", variant: "destructive" })
+      loadData()
+    }
+  }
+
+  const roleName = (key: string) => roles.find((r) => r.key === key)?.name || key
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Route className="h-8 w-8" />
+            Ticket Routing
+          </h1>
+          <p className="text-gray-600 mt-1">
+            New tickets are assigned automatically. The first matching rule decides who is eligible; eligible vendor staff are
+            scored on location (cafeteria +{ROUTING_WEIGHTS.cafeteria}, building +{ROUTING_WEIGHTS.building}, company +
+            {ROUTING_WEIGHTS.company}), a matching skill tag (+{ROUTING_WEIGHTS.skill}), being on shift (+{ROUTING_WEIGHTS.onShift})
+            and open tickets ({ROUTING_WEIGHTS.perOpenTicket} each). When nobody meets a rule's requirements, tickets go
+            round-robin.
+          </p>
+        </div>
+        <Button onClick={() => setEditing(newDraft(rules.length))}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 py-8">
+              No rules yet. Tickets go to the best-scoring vendor staff member on the ticket's company.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Order</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Roles</TableHead>
+                  <TableHead>Requirements</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule, index) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="whitespace-nowrap">
+                      <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" disabled={index === rules.length - 1} onClick={() => handleMove(index, 1)}>
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell className="text-sm">
+                      {rule.companyName || (rule.companyId ? rule.companyId : "All companies")}
+                      <span className="text-gray-500"> · {rule.category || "All categories"}</span>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {rule.roleKeys?.length ? rule.roleKeys.map(roleName).join(", ") : <span className="text-gray-400">Any</span>}
+                    </TableCell>
+                    <TableCell className="space-x-1">
+                      {rule.requireSkillMatch && <Badge variant="outline" className="text-[10px]">Skill</Badge>}
+                      {rule.requireOnShift && <Badge variant="outline" className="text-[10px]">On shift</Badge>}
+                      {rule.maxOpenTickets > 0 && <Badge variant="outline" className="text-[10px]">Max {rule.maxOpenTickets} open</Badge>}
+                      {!rule.requireSkillMatch && !rule.requireOnShift && !rule.maxOpenTickets && (
+                        <span className="text-xs text-gray-400">Score only</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={rule.active} onCheckedChange={() => handleToggleActive(rule)} />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          const { createdAt, updatedAt, ...rest } = rule
+                          setEditing({ ...rest, roleKeys: [...(rest.roleKeys || [])] })
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(rule)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit Routing Rule" : "New Routing Rule"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} placeholder="e.g. Hygiene to on-site supervisors" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Company</Label>
+                  <Select value={editing.companyId || "all"} onValueChange={(v) => setEditing({ ...editing, companyId: v === "all" ? "" : v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All companies</SelectItem>
+                      {companies.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Category (blank = all)</Label>
+                  <Input
+                    list="routing-categories"
+                    value={editing.category}
+                    onChange={(e) => setEditing({ ...editing, category: e.target.value.trim() })}
+                  />
+                  <datalist id="routing-categories">
+                    {COMPLAINT_CATEGORIES.map((c) => <option key={c} value={c} />)}
+                  </datalist>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Eligible roles (none selected = any vendor staff)</Label>
+                <div className="border rounded-md p-3 grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                  {roles.length === 0 && <p className="text-sm text-gray-500">No vendor staff roles found.</p>}
+                  {roles.map((role) => (
+                    <label key={role.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={editing.roleKeys.includes(role.key)}
+                        onCheckedChange={(checked) =>
+                          setEditing({
+                            ...editing,
+                            roleKeys: checked ? [...editing.roleKeys, role.key] : editing.roleKeys.filter((k) => k !== role.key),
+                          })
+                        }
+                      />
+                      {role.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border rounded-md p-3 space-y-3">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={editing.requireSkillMatch}
+                    onCheckedChange={(checked) => setEditing({ ...editing, requireSkillMatch: !!checked })}
+                  />
+                  Only people whose ticket skills include the category
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={editing.requireOnShift}
+                    onCheckedChange={(checked) => setEditing({ ...editing, requireOnShift: !!checked })}
+                  />
+                  Only people on shift when the ticket arrives
+                </label>
+                <div className="flex items-center gap-2 text-sm">
+                  <span>Skip people holding</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-20 h-8"
+                    value={editing.maxOpenTickets}
+                    onChange={(e) => setEditing({ ...editing, maxOpenTickets: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                  <span>or more open tickets (0 = no cap)</span>
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button disabled={!editing?.name.trim() || saving} onClick={handleSave}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
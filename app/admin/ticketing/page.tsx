@@ -1,10 +1,15 @@
 "use client"
 
 import React, { useState, useEffect, useMemo } from "react"
-import { ticketService, type Ticket, type TicketComment } from "@/lib/firestore/ticketService"
+import { ticketService, type Ticket, type TicketComment, type TicketEvent, type TicketPriority } from "@/lib/firestore/ticketService"
+import { usersService, type User } from "@/lib/firestore/usersService"
 import { rewardService, type UserStats } from "@/lib/firestore/rewardService"
+import { isSlaBreached } from "@/lib/sla-engine"
+import { isLowCsat } from "@/lib/ticket-csat"
 import { useAuth } from "@/hooks/use-auth"
+import { toast } from "@/hooks/use-toast"
 import * as xlsx from "xlsx"
+import Link from "next/link"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -15,9 +20,31 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { 
   Ticket as TicketIcon, Award, MessageSquare, ShieldAlert, Star, 
   UserCircle2, ArrowRightCircle, CheckCircle2, Search, Filter, 
-  Download, AlertTriangle, Activity 
+  Download, AlertTriangle, Activity, PauseCircle, Timer, Route, History 
 } from "lucide-react"
 
+const formatDuration = (ms?: number) => {
+  if (ms === undefined || ms === null) return "-"
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return `${hours}h ${minutes % 60}m`
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
+
+const describeEvent = (e: TicketEvent) => {
+  switch (e.type) {
+    case 'created': return "Ticket created"
+    case 'reopened': return `Reopened (was ${e.from})`
+    case 'status': return `Status ${e.from} → ${e.to}`
+    case 'assignee': return `Assigned ${e.from ? `from ${e.from} ` : ""}to ${e.to || "nobody"}`
+    case 'priority': return `Priority ${e.from} → ${e.to}`
+    case 'category': return `Category ${e.from || "none"} → ${e.to || "none"}`
+    case 'csat': return `Rated ${e.to} by reporter`
+    default: return e.type
+  }
+}
+
 export default function TicketingDashboard() {
   const { userProfile, userType } = useAuth()
   
@@ -51,6 +78,8 @@ export default function TicketingDashboard() {
   const [newComment, setNewComment] = useState("")
   const [loadingComments, setLoadingComments] = useState(false)
   const [commentRole, setCommentRole] = useState("Super Admin")
+  const [events, setEvents] = useState<TicketEvent[]>([])
+  const [companyStaff, setCompanyStaff] = useState<User[]>([])
 
   const isCompanyAdmin = userType === "company_user"
   const isSuperAdmin = userType === "super_admin"
@@ -120,7 +149,7 @@ export default function TicketingDashboard() {
         resolved++
       } else {
         opened++
-        if (t.slaBreachAt.toMillis() < now) {
+        if (isSlaBreached(t, now)) {
           breached++
         }
       }
@@ -196,7 +225,12 @@ export default function TicketingDashboard() {
         "Priority": t.priority,
         "Status": t.status,
         "Submitted At": t.createdAt.toDate().toLocaleString(),
-        "Is Breached": (t.slaBreachAt.toMillis() < Date.now() && t.status !== 'Resolved' && t.status !== 'Closed') ? "Yes" : "No",
+        "Is Breached": isSlaBreached(t) ? "Yes" : "No",
+        "Escalation Level": t.escalationLevel || 0,
+        "First Response (min)": t.firstResponseMs !== undefined ? Math.round(t.firstResponseMs / 60000) : "",
+        "Resolution Time (h)": t.resolutionMs !== undefined ? Math.round(t.resolutionMs / 360000) / 10 : "",
+        "Reopen Count": t.reopenCount || 0,
+        "CSAT": t.csat ? t.csat.rating : "",
         "General Description": generalDesc,
         "Attached Images": Array.isArray(t.photos) && t.photos.length > 0 ? t.photos.join(", ") : "None",
       }
@@ -289,9 +323,16 @@ export default function TicketingDashboard() {
     setActiveTicket(ticket)
     setCommentsModalOpen(true)
     setLoadingComments(true)
+    setEvents([])
     try {
-      const fetchedComments = await ticketService.getTicketComments(ticket.id)
+      const [fetchedComments, fetchedEvents, staff] = await Promise.all([
+        ticketService.getTicketComments(ticket.id),
+        ticketService.getTicketEvents(ticket.id),
+        isCompanyAdmin ? Promise.resolve([]) : usersService.getByCompany(ticket.companyId)
+      ])
       setComments(fetchedComments)
+      setEvents(fetchedEvents)
+      setCompanyStaff(staff.filter(u => u.userType === "vendor_staff" && u.status !== "inactive"))
     } catch (e) {
       console.error(e)
     } finally {
@@ -323,12 +364,51 @@ export default function TicketingDashboard() {
     }
   }
 
+  // Re-read the ticket and its history after a change made from the modal
+  const refreshActiveTicket = async (ticketId: string) => {
+    fetchData()
+    const [updated, fetchedEvents] = await Promise.all([
+      ticketService.getTicketById(ticketId),
+      ticketService.getTicketEvents(ticketId)
+    ])
+    if (updated) setActiveTicket(updated)
+    setEvents(fetchedEvents)
+  }
+
+  const getActor = () => ({ id: userProfile?.id || "admin", name: userProfile?.name || "Admin", role: commentRole })
+
+  const handleUpdateDetails = async (changes: Partial<Pick<Ticket, 'priority' | 'category' | 'assigneeId' | 'assigneeName'>>) => {
+    if (!activeTicket || isCompanyAdmin) return
+    try {
+      await ticketService.updateTicketDetails(activeTicket.id, changes, getActor())
+      await refreshActiveTicket(activeTicket.id)
+    } catch (e) {
+      console.error(e)
+      toast({ title: "Error", description: "Failed to update ticket", variant: "destructive" })
+    }
+  }
+
+  const handleReroute = async () => {
+    if (!activeTicket || isCompanyAdmin) return
+    try {
+      const decision = await ticketService.autoRouteTicket(activeTicket.id)
+      await refreshActiveTicket(activeTicket.id)
+      toast({
+        title: decision?.assigneeName ? "Ticket re-routed" : "No assignee found",
+        description: decision?.reasons[decision.reasons.length - 1],
+      })
+    } catch (e) {
+      console.error(e)
+      toast({ title: "Error", description: "Failed to re-route ticket", variant: "destructive" })
+    }
+  }
+
   const handleUpdateStatus = async (status: any) => {
     if (!activeTicket || isCompanyAdmin) return
     try {
-      await ticketService.updateTicketStatus(activeTicket.id, status)
-      fetchData()
-      setActiveTicket({ ...activeTicket, status })
+      await ticketService.updateTicketStatus(activeTicket.id, status, undefined, undefined, getActor())
+      // Re-read so the SLA pause/resume, new deadline and history show up in the modal
+      await refreshActiveTicket(activeTicket.id)
     } catch (e) {
       console.error(e)
     }
@@ -347,9 +427,25 @@ export default function TicketingDashboard() {
             {isCompanyAdmin ? "View and track your company's complaints." : "Manage SLA-based tickets and rewards."}
           </p>
         </div>
-        <Button variant="outline" className="gap-2" onClick={() => setExportModalOpen(true)}>
-          <Download className="w-4 h-4" /> Export XLSX
-        </Button>
+        <div className="flex gap-2">
+          {!isCompanyAdmin && (
+            <Button variant="outline" className="gap-2" asChild>
+              <Link href="/admin/sla-policies">
+                <Timer className="w-4 h-4" /> SLA Policies
+              </Link>
+            </Button>
+          )}
+          {!isCompanyAdmin && (
+            <Button variant="outline" className="gap-2" asChild>
+              <Link href="/admin/csat">
+                <Star className="w-4 h-4" /> CSAT Trends
+              </Link>
+            </Button>
+          )}
+          <Button variant="outline" className="gap-2" onClick={() => setExportModalOpen(true)}>
+            <Download className="w-4 h-4" /> Export XLSX
+          </Button>
+        </div>
       </div>
 
       {/* Stats Board */}
@@ -415,6 +511,7 @@ export default function TicketingDashboard() {
                   <SelectItem value="All">All Statuses</SelectItem>
                   <SelectItem value="Open">Open</SelectItem>
                   <SelectItem value="In Progress">In Progress</SelectItem>
+                  <SelectItem value="Awaiting Client">Awaiting Client</SelectItem>
                   <SelectItem value="Resolved">Resolved</SelectItem>
                   <SelectItem value="Closed">Closed</SelectItem>
                 </SelectContent>
@@ -483,7 +580,7 @@ export default function TicketingDashboard() {
                   </TableHeader>
                   <TableBody>
                     {filteredTickets.map(ticket => {
-                      const isBreached = ticket.slaBreachAt.toMillis() < Date.now() && ticket.status !== 'Resolved' && ticket.status !== 'Closed'
+                      const isBreached = isSlaBreached(ticket)
                       
                       return (
                         <TableRow key={ticket.id} className={isBreached ? 'bg-red-50/50 hover:bg-red-50' : ''}>
@@ -505,6 +602,15 @@ export default function TicketingDashboard() {
                             <Badge variant={ticket.status === 'Resolved' ? 'secondary' : 'default'} className="whitespace-nowrap">
                               {ticket.status}
                             </Badge>
+                            <div className="text-xs text-gray-500 mt-1 whitespace-nowrap">{ticket.assigneeName || "Unassigned"}</div>
+                            {!!ticket.reopenCount && (
+                              <div className="text-[10px] font-bold text-orange-600">REOPENED {ticket.reopenCount}×</div>
+                            )}
+                            {ticket.csat && (
+                              <div className={`text-[10px] font-bold ${isLowCsat(ticket.csat.rating) ? "text-red-600" : "text-emerald-600"}`}>
+                                CSAT {ticket.csat.rating}/5
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             <div className="flex flex-col">
@@ -512,6 +618,10 @@ export default function TicketingDashboard() {
                                 {ticket.slaBreachAt.toDate().toLocaleString()}
                               </span>
                               {isBreached && <span className="text-[10px] font-bold text-red-600">BREACHED</span>}
+                              {ticket.slaPausedAt && <span className="text-[10px] font-bold text-amber-600">PAUSED</span>}
+                              {!!ticket.escalationLevel && (
+                                <span className="text-[10px] font-bold text-orange-600">ESCALATED L{ticket.escalationLevel}</span>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell className="text-right whitespace-nowrap">
@@ -651,6 +761,14 @@ export default function TicketingDashboard() {
                   <Button size="sm" variant="outline" onClick={() => handleUpdateStatus('In Progress')} className="h-7 text-xs">
                     Mark In Progress
                   </Button>
+                  <Button size="sm" variant="outline" onClick={handleReroute} className="h-7 text-xs">
+                    <Route className="w-3 h-3 mr-1"/> Re-route
+                  </Button>
+                  {activeTicket?.status !== 'Awaiting Client' && (
+                    <Button size="sm" variant="outline" onClick={() => handleUpdateStatus('Awaiting Client')} className="h-7 text-xs">
+                      <PauseCircle className="w-3 h-3 mr-1"/> Awaiting Client
+                    </Button>
+                  )}
                   <Button size="sm" variant="default" onClick={() => handleUpdateStatus('Resolved')} className="h-7 text-xs bg-green-600 hover:bg-green-700">
                     <CheckCircle2 className="w-3 h-3 mr-1"/> Resolve
                   </Button>
@@ -665,6 +783,160 @@ export default function TicketingDashboard() {
               <p className="text-gray-700 whitespace-pre-wrap">{activeTicket?.description}</p>
             </div>
 
+            {activeTicket && (
+              <div className="bg-white p-4 rounded-xl border shadow-sm space-y-4">
+                {!isCompanyAdmin && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <span className="text-xs text-gray-500">Priority</span>
+                      <Select value={activeTicket.priority} onValueChange={(v) => handleUpdateDetails({ priority: v as TicketPriority })}>
+                        <SelectTrigger className="h-8 text-sm"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {(["Critical", "High", "Medium", "Low"] as TicketPriority[]).map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-xs text-gray-500">Category</span>
+                      <Select value={activeTicket.category || "Uncategorized"} onValueChange={(v) => handleUpdateDetails({ category: v === "Uncategorized" ? "" : v })}>
+                        <SelectTrigger className="h-8 text-sm"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {Array.from(new Set([...uniqueCategories, activeTicket.category || "Uncategorized"])).map(c => (
+                            <SelectItem key={c} value={c}>{c}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-xs text-gray-500">Assignee</span>
+                      <Select
+                        value={activeTicket.assigneeId || "none"}
+                        onValueChange={(v) => {
+                          const staff = companyStaff.find(u => u.id === v)
+                          if (staff) handleUpdateDetails({ assigneeId: staff.id, assigneeName: staff.name })
+                        }}
+                      >
+                        <SelectTrigger className="h-8 text-sm"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none" disabled>Unassigned</SelectItem>
+                          {activeTicket.assigneeId && !companyStaff.some(u => u.id === activeTicket.assigneeId) && (
+                            <SelectItem value={activeTicket.assigneeId} disabled>{activeTicket.assigneeName}</SelectItem>
+                          )}
+                          {companyStaff.map(u => <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-4 gap-3 text-center">
+                  <div className="rounded-lg bg-gray-50 p-2">
+                    <div className="text-xs text-gray-500">First response</div>
+                    <div className="font-semibold text-gray-900">{formatDuration(activeTicket.firstResponseMs)}</div>
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-2">
+                    <div className="text-xs text-gray-500">Resolution time</div>
+                    <div className="font-semibold text-gray-900">{formatDuration(activeTicket.resolutionMs)}</div>
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-2">
+                    <div className="text-xs text-gray-500">Reopened</div>
+                    <div className={`font-semibold ${activeTicket.reopenCount ? "text-orange-600" : "text-gray-900"}`}>
+                      {activeTicket.reopenCount || 0}×
+                    </div>
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-2" title={activeTicket.csat?.comment || undefined}>
+                    <div className="text-xs text-gray-500">CSAT</div>
+                    <div className={`font-semibold ${activeTicket.csat && isLowCsat(activeTicket.csat.rating) ? "text-red-600" : "text-gray-900"}`}>
+                      {activeTicket.csat ? `${activeTicket.csat.rating}/5` : "—"}
+                    </div>
+                  </div>
+                </div>
+
+                {events.length > 0 && (
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+                      <History className="w-4 h-4 text-indigo-600" /> History
+                    </h4>
+                    <ul className="space-y-1 text-xs text-gray-600">
+                      {events.map(e => (
+                        <li key={e.id} className="flex gap-2">
+                          <span className="text-gray-400 whitespace-nowrap">{e.timestamp.toDate().toLocaleString()}</span>
+                          <span className="font-medium text-gray-800">{describeEvent(e)}</span>
+                          <span>by {e.actorName}{e.actorRole && e.actorRole !== "System" ? ` (${e.actorRole})` : ""}</span>
+                          {e.reason && <span className="text-gray-500 italic">“{e.reason}”</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {activeTicket && (
+              <div className="bg-white p-4 rounded-xl border shadow-sm">
+                <h4 className="font-semibold text-gray-900 mb-2 flex items-center gap-2">
+                  <Timer className="w-4 h-4 text-indigo-600" /> SLA
+                </h4>
+                <div className="text-sm text-gray-600">
+                  Due {activeTicket.slaBreachAt.toDate().toLocaleString()}
+                  {activeTicket.slaPausedAt && <span className="text-amber-600 font-medium"> · paused since {activeTicket.slaPausedAt.toDate().toLocaleString()}</span>}
+                  {!!activeTicket.escalationLevel && <span className="text-orange-600 font-medium"> · escalation level {activeTicket.escalationLevel}</span>}
+                </div>
+                {activeTicket.routing && !isCompanyAdmin && (
+                  <div className="mt-3 border-t pt-3">
+                    <div className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                      <Route className="w-4 h-4 text-indigo-600" />
+                      {activeTicket.routing.assigneeName
+                        ? `Auto-assigned to ${activeTicket.routing.assigneeName}`
+                        : "Auto-routing found nobody"}
+                      <Badge variant="outline" className="text-[10px]">{activeTicket.routing.method}</Badge>
+                    </div>
+                    <ul className="mt-1 space-y-0.5 text-xs text-gray-600 list-disc pl-5">
+                      {activeTicket.routing.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                    </ul>
+                    {activeTicket.routing.candidates.length > 0 && (
+                      <table className="mt-2 w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-400">
+                            <th className="font-normal">Candidate</th>
+                            <th className="font-normal">Location</th>
+                            <th className="font-normal">Skill</th>
+                            <th className="font-normal">Shift</th>
+                            <th className="font-normal">Open</th>
+                            <th className="font-normal">Score</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {activeTicket.routing.candidates.map(c => (
+                            <tr key={c.userId} className={c.excludedReason ? "text-gray-400" : "text-gray-700"} title={c.excludedReason}>
+                              <td>{c.userName}{c.excludedReason && ` (${c.excludedReason})`}</td>
+                              <td className="capitalize">{c.location}</td>
+                              <td>{c.skillMatch ? "Yes" : "-"}</td>
+                              <td>{c.onShift ? "On" : "Off"}</td>
+                              <td>{c.openTickets}</td>
+                              <td>{c.score}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+                {(activeTicket.slaTimeline || []).length > 0 && (
+                  <ul className="mt-3 space-y-1 text-xs text-gray-600">
+                    {activeTicket.slaTimeline!.map((event, i) => (
+                      <li key={i} className="flex gap-2">
+                        <span className="text-gray-400 whitespace-nowrap">{event.at.toDate().toLocaleString()}</span>
+                        <span className="font-medium capitalize">{event.type}{event.level ? ` L${event.level}` : ""}</span>
+                        {event.toUserName && <span>→ {event.toUserName}</span>}
+                        {event.note && <span className="text-gray-500">{event.note}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             <div className="space-y-4">
               {loadingComments ? (
                 <div className="text-center text-gray-500 py-10 flex items-center justify-center gap-2">
@@ -211,7 +211,7 @@ export default function UpdatesReportPage() {
 
               <CardContent className="space-y-4">
                 {/* Change Summary */}
-                <div className="grid grid-cols-3 gap-4">
+                <div className="grid grid-cols-4 gap-4">
                   <div className="p-3 bg-blue-50 rounded border border-blue-200">
                     <div className="text-xs text-blue-600 font-semibold">Total Changes</div>
                     <div className="text-2xl font-bold text-blue-700">{updation.totalChanges}</div>
@@ -234,6 +234,15 @@ export default function UpdatesReportPage() {
                       )}
                     </div>
                   </div>
+                  <div className="p-3 bg-amber-50 rounded border border-amber-200">
+                    <div className="text-xs text-amber-600 font-semibold">Replaced Items</div>
+                    <div className="text-2xl font-bold text-amber-700">
+                      {updation.changedCells.reduce(
+                        (sum, cell) => sum + cell.changes.filter((c) => c.action === "replaced").length,
+                        0,
+                      )}
+                    </div>
+                  </div>
                 </div>
 
                 {/* Changed Cells */}
@@ -251,6 +260,19 @@ export default function UpdatesReportPage() {
                               <div key={changeIdx} className="ml-2 text-yellow-700">
                                 {change.action === "added" && <span>✓ Added: {change.itemName}</span>}
                                 {change.action === "removed" && <span>✗ Removed: {change.itemName}</span>}
+                                {change.action === "replaced" && (
+                                  <span>⇄ Replaced: {change.itemName} → {change.replacedWithName}</span>
+                                )}
+                                {change.action === "reordered" && (
+                                  <span>
+                                    ↕ Moved: {change.itemName} (position {(change.fromPosition ?? 0) + 1} → {(change.toPosition ?? 0) + 1})
+                                  </span>
+                                )}
+                                {change.action === "description-changed" && (
+                                  <span>
+                                    ✎ Description: {change.itemName} ({change.previousDescription || "none"} → {change.newDescription || "none"})
+                                  </span>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -46,6 +46,7 @@ const initialUserState: Omit<User, "id" | "createdAt" | "updatedAt"> = {
   buildingIds: [],
   cafeteriaIds: [],
   assignedShifts: [],
+  skillTags: [],
   managerId: "",
   status: 'active',
 }
@@ -387,6 +388,7 @@ export default function UserManagementPage() {
       cafeteriaIds: user.cafeteriaIds || [],
       officeLocation: user.officeLocation || undefined,
       assignedShifts: user.assignedShifts || [],
+      skillTags: user.skillTags || [],
       managerId: user.managerId || "none",
       status: user.status || 'active',
     })
@@ -678,6 +680,18 @@ export default function UserManagementPage() {
               </Select>
             </div>
 
+            {formData.userType === 'vendor_staff' && (
+              <div className="col-span-2 space-y-2">
+                <Label>Ticket Skills</Label>
+                <Input
+                  defaultValue={(formData.skillTags || []).join(", ")}
+                  onBlur={e => setFormData({...formData, skillTags: e.target.value.split(",").map(t => t.trim()).filter(Boolean)})}
+                  placeholder="Food Quality, Cleaning and Hygiene"
+                />
+                <p className="text-xs text-gray-500">Comma separated ticket categories. Used to route new tickets to this person.</p>
+              </div>
+            )}
+
             {/* --- NESTED LOCATIONS ASSIGNMENT --- */}
             {formData.userType !== 'employee' && formData.userType !== 'company_user' ? (
             <div className="col-span-2 space-y-3 mt-4 border rounded-lg p-4 bg-gray-50/50">
@@ -1,43 +1,37 @@
-import OpenAI from "openai"
+import { generateText, getAiProvider } from "@/lib/ai/provider"
 
 export const runtime = "nodejs"
 
-function getEnv(name: string): string | undefined {
-  const v = process.env[name]
-  if (!v) return undefined
-  const trimmed = v.trim()
-  return trimmed.length ? trimmed : undefined
-}
-
 export async function GET() {
-  const apiKey = getEnv("AWS_BEARER_TOKEN_BEDROCK") ?? getEnv("OPENAI_API_KEY")
-  const baseURL = getEnv("OPENAI_BASE_URL") ?? "https://bedrock-mantle.ap-south-1.api.aws/v1"
-  const model = getEnv("BEDROCK_MANTLE_MODEL") ?? "openai.gpt-oss-120b"
+  const provider = getAiProvider()
 
-  if (!apiKey) {
+  if (!provider) {
     return Response.json(
       {
         ok: false,
         error: "Missing AWS_BEARER_TOKEN_BEDROCK (or OPENAI_API_KEY).",
-        required: ["AWS_BEARER_TOKEN_BEDROCK", "OPENAI_BASE_URL (optional)", "BEDROCK_MANTLE_MODEL (optional)"],
+        required: ["AWS_BEARER_TOKEN_BEDROCK", "OPENAI_BASE_URL (optional)", "BEDROCK_MANTLE_MODEL (optional)", "AI_PROVIDER=mock (offline)"],
       },
       { status: 400 },
     )
   }
 
-  const client = new OpenAI({ apiKey, baseURL })
+  const { model, baseURL } = provider
 
   try {
-    const response = await client.chat.completions.create({
-      model,
-      messages: [{ role: "user", content: "Say OK" }],
-    })
+    const response = await generateText(
+      { task: "smoke", messages: [{ role: "user", content: "Say OK" }] },
+      { provider, maxRetries: 0 },
+    )
 
     return Response.json({
       ok: true,
+      provider: provider.name,
       model,
       baseURL,
-      output_text: response.choices?.[0]?.message?.content ?? "",
+      output_text: response.data,
+      usage: response.usage,
+      costUsd: response.costUsd,
     })
   } catch (err: any) {
     return Response.json(
@@ -1,18 +1,18 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
 import { techCandidatesService, techRoundsService } from "@/lib/services"
+import { generateText, getAiProvider } from "@/lib/ai/provider"
+import { gradeExamRequestSchema } from "@/lib/ai/schemas"
 
 export const runtime = "nodejs"
 export const maxDuration = 300 // allow up to 5 minutes
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json()
-    const { candidateId, roundId, answers } = body
-
-    if (!candidateId || !roundId || !answers) {
+    const request = gradeExamRequestSchema.safeParse(await req.json().catch(() => null))
+    if (!request.success) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
     }
+    const { candidateId, roundId, answers } = request.data
 
     const [candidate, round] = await Promise.all([
       techCandidatesService.getById(candidateId),
@@ -23,17 +23,12 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Candidate or Round not found" }, { status: 404 })
     }
 
-    const apiKey = process.env.AWS_BEARER_TOKEN_BEDROCK || process.env.OPENAI_API_KEY
-    if (!apiKey) {
+    const provider = getAiProvider()
+    if (!provider) {
       console.warn("No OPENAI_API_KEY found, skipping grading")
       return NextResponse.json({ success: true, warning: "No API key" })
     }
 
-    const baseURL = process.env.OPENAI_BASE_URL || "https://bedrock-mantle.ap-south-1.api.aws/v1"
-    const model = process.env.BEDROCK_MANTLE_MODEL || "openai.gpt-oss-120b"
-
-    const openai = new OpenAI({ apiKey, baseURL })
-
     // Build the prompt for the AI
     let prompt = `You are a strict, senior technical recruiter.
 Please evaluate the following candidate's answers against the provided ideal answers.
@@ -56,16 +51,17 @@ Do NOT output Markdown. Just output plain text with the score clearly stated.
       prompt += `Candidate's Answer: ${answers[q.id] || "NO ANSWER"}\n`
     })
 
-    const response = await openai.chat.completions.create({
-      model: model,
-      messages: [
-        { role: "system", content: "You are a technical grading assistant." },
-        { role: "user", content: prompt }
-      ],
-      temperature: 0.2
-    })
-
-    const feedback = response.choices[0]?.message?.content?.trim() || "No feedback generated."
+    const { data: feedback } = await generateText(
+      {
+        task: "grade-exam",
+        messages: [
+          { role: "system", content: "You are a technical grading assistant." },
+          { role: "user", content: prompt }
+        ],
+        temperature: 0.2
+      },
+      { provider, timeoutMs: 120000 }
+    )
     
     // Attempt to extract the numeric score using regex
     // Looks for patterns like "90 / 100", "Score: 90", "90/100"
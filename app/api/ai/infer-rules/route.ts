@@ -1,5 +1,4 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
 import { collection, getDocs, query, limit, orderBy } from "firebase/firestore"
 import { db } from "@/lib/firebase"
 import {
@@ -8,36 +7,29 @@ import {
   mealPlansService,
   subMealPlansService,
   menuItemsService,
+  companyMenusService,
+  menuPlanningRulesService,
 } from "@/lib/services"
+import { generateJson, getAiProvider } from "@/lib/ai/provider"
+import { inferRulesRequestSchema, inferRulesResponseSchema } from "@/lib/ai/schemas"
+import { evaluateRule, filterMenusForRule, getEvaluationWindow } from "@/lib/rule-evaluation"
+import type { MenuPlanningRule } from "@/lib/types"
 
 export const runtime = "nodejs"
 
-function getEnv(name: string): string | undefined {
-  const v = process.env[name]
-  if (!v) return undefined
-  const t = v.trim()
-  return t.length ? t : undefined
-}
-
 export async function POST(req: Request) {
   try {
-    const body = await req.json()
-    const { serviceId, subServiceId } = body
-
-    if (!serviceId || !subServiceId) {
+    const request = inferRulesRequestSchema.safeParse(await req.json().catch(() => null))
+    if (!request.success) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
     }
+    const { serviceId, subServiceId, companyId, evaluateWeeks } = request.data
 
-    const apiKey = getEnv("AWS_BEARER_TOKEN_BEDROCK") ?? getEnv("OPENAI_API_KEY")
-    const baseURL = getEnv("OPENAI_BASE_URL") ?? "https://bedrock-mantle.ap-south-1.api.aws/v1"
-    const model = getEnv("BEDROCK_MANTLE_MODEL") ?? "openai.gpt-oss-120b"
-
-    if (!apiKey) {
+    const provider = getAiProvider()
+    if (!provider) {
       return NextResponse.json({ error: "No API key configured" }, { status: 500 })
     }
 
-    const openai = new OpenAI({ apiKey, baseURL })
-
     // 1. Fetch metadata to resolve IDs to names
     const [svcs, ssvcs, mps, smps, menuItems] = await Promise.all([
       servicesService.getAll(),
@@ -143,28 +135,46 @@ Use the exact same IDs for the cell keys (mpId|smpId) provided in the data.`
 
     const userPrompt = `Historical Data:\n${JSON.stringify(historicalData, null, 2)}\n\nInfer the rules and output JSON.`
 
-    const completion = await openai.chat.completions.create({
-      model: model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.2,
-    })
-
-    const rawResponse = completion.choices[0].message.content
-    if (!rawResponse) throw new Error("Empty response from AI")
-
-    let inferredRules
-    try {
-      inferredRules = JSON.parse(rawResponse)
-    } catch (e) {
-      console.error("JSON Parse Error on AI response", rawResponse)
-      throw new Error("AI returned invalid JSON")
+    const { data: inferredRules } = await generateJson(
+      {
+        task: "infer-rules",
+        schema: inferRulesResponseSchema,
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt }
+        ],
+        jsonObject: true,
+        temperature: 0.2,
+      },
+      { provider }
+    )
+
+    if (!evaluateWeeks) {
+      return NextResponse.json({ rules: inferredRules })
     }
 
-    return NextResponse.json({ rules: inferredRules })
+    // 5. Optionally replay recent company menus against the inferred rule and the saved one
+    const window = getEvaluationWindow(evaluateWeeks, new Date().toISOString().split("T")[0])
+    const savedRule = companyId
+      ? await menuPlanningRulesService.getCompanyRule(serviceId, subServiceId, companyId)
+      : await menuPlanningRulesService.getBaseRule(serviceId, subServiceId)
+    const candidate: MenuPlanningRule = {
+      serviceId,
+      subServiceId,
+      ...(companyId && { companyId }),
+      grandRules: inferredRules.grandRules,
+      cooldownDays: savedRule?.cooldownDays,
+      dayRules: inferredRules.dayRules,
+    }
+    const menus = filterMenusForRule(await companyMenusService.getInDateRange(window.from, window.to), candidate)
+
+    return NextResponse.json({
+      rules: inferredRules,
+      evaluation: {
+        candidate: evaluateRule(candidate, menus, menuItemsMap, window),
+        saved: savedRule ? evaluateRule(savedRule, menus, menuItemsMap, window) : null,
+      },
+    })
 
   } catch (error: any) {
     console.error("Error inferring rules:", error)
@@ -1,13 +1,18 @@
-import OpenAI from "openai"
-import { doc, updateDoc, serverTimestamp, writeBatch } from "firebase/firestore"
+import { doc, getDoc } from "firebase/firestore"
 import { db } from "@/lib/firebase"
-import { menuItemsService } from "@/lib/services"
+import { generateJson, getAiProvider, type AiProvider } from "@/lib/ai/provider"
+import { menuCategorizeRequestSchema, menuCategorizeResponseSchema } from "@/lib/ai/schemas"
+import { aiTagReviewService, diffAiTags, type AiTagProposal } from "@/lib/firestore/aiTagReviewService"
+import type { AiTags } from "@/lib/types"
 
 export const runtime = "nodejs"
 
+const CATEGORIZE_BASE_URL = "https://bedrock-mantle.us-east-1.api.aws/v1"
+
 interface AiTagResult {
   menuItemId: string
   name: string
+  confidence?: number
   tags: {
     color: string
     cuisine: string
@@ -18,13 +23,6 @@ interface AiTagResult {
   }
 }
 
-function getEnv(name: string): string | undefined {
-  const v = process.env[name]
-  if (!v) return undefined
-  const t = v.trim()
-  return t.length ? t : undefined
-}
-
 function chunk<T>(arr: T[], size: number): T[][] {
   const out: T[][] = []
   for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size))
@@ -40,6 +38,7 @@ Given a list of recipe/dish names, classify each one across these 6 dimensions:
 4. **flavorProfile**: The dominant taste (e.g., Spicy, Mild, Sweet, Tangy, Savory, Bitter, Umami, Sweet-Spicy, Tangy-Spicy, Rich, Creamy)
 5. **submealCategory**: The meal category (e.g., Main Course, Starter, Dessert, Beverage, Snack, Bread/Roti, Rice, Salad, Soup, Accompaniment, Chutney/Pickle, Grams/Balls, Raita, Papad, Dal, Dry Sabzi, Gravy Sabzi, Breakfast, Street Food)
 6. **heavyLight**: Whether the dish is Heavy, Light, or Medium in terms of portion/caloric density
+7. **confidence**: How sure you are of this dish's classification overall, from 0 (guess) to 1 (certain)
 
 IMPORTANT: 
 - "Grams/Balls" category is for small ball/grain-shaped items like peas curry, chana masala, matra, rajma, lobiya, chole, kala chana, moong, etc.
@@ -47,64 +46,49 @@ IMPORTANT:
 - Use your knowledge of Indian and international cuisine to classify accurately.
 
 Return ONLY valid JSON array. No markdown. No extra text.
-Output format: [{"name":"<dish name>","color":"...","cuisine":"...","primaryIngredient":"...","flavorProfile":"...","submealCategory":"...","heavyLight":"..."},...]`
+Output format: [{"name":"<dish name>","color":"...","cuisine":"...","primaryIngredient":"...","flavorProfile":"...","submealCategory":"...","heavyLight":"...","confidence":0.8},...]`
 
 async function classifyBatch(
-  client: OpenAI,
-  model: string,
+  provider: AiProvider,
   items: { id: string; name: string }[]
 ): Promise<AiTagResult[]> {
   const names = items.map((i) => i.name)
 
-  const resp = await client.chat.completions.create({
-    model,
-    messages: [
-      { role: "system", content: SYSTEM_PROMPT },
-      {
-        role: "user",
-        content: `Classify these ${names.length} dishes:\n${JSON.stringify(names)}`,
-      },
-    ],
-    temperature: 0.2,
-  })
-
-  const text = resp.choices?.[0]?.message?.content ?? ""
-  // Try to extract JSON array from response
-  let parsed: any[]
-  try {
-    parsed = JSON.parse(text)
-  } catch {
-    // Try to find JSON array in the text
-    const match = text.match(/\[[\s\S]*\]/)
-    if (match) {
-      parsed = JSON.parse(match[0])
-    } else {
-      throw new Error(`Failed to parse AI response: ${text.substring(0, 200)}`)
-    }
-  }
-
-  if (!Array.isArray(parsed)) {
-    throw new Error("AI response is not an array")
-  }
+  const { data: parsed } = await generateJson(
+    {
+      task: "menu-categorize",
+      schema: menuCategorizeResponseSchema,
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: `Classify these ${names.length} dishes:\n${JSON.stringify(names)}`,
+        },
+      ],
+      temperature: 0.2,
+    },
+    { provider }
+  )
 
   // Map results back to item IDs by matching names
   const results: AiTagResult[] = []
   for (const item of items) {
     const match = parsed.find(
-      (p: any) =>
+      (p) =>
         p.name?.toLowerCase().trim() === item.name.toLowerCase().trim()
     )
     if (match) {
       results.push({
         menuItemId: item.id,
         name: item.name,
+        confidence: match.confidence,
         tags: {
           color: match.color || "Unknown",
           cuisine: match.cuisine || "Unknown",
           primaryIngredient: match.primaryIngredient || "Unknown",
           flavorProfile: match.flavorProfile || "Unknown",
           submealCategory: match.submealCategory || "Unknown",
-          heavyLight: match.heavyLight || "Medium",
+          heavyLight: toHeavyLight(match.heavyLight),
         },
       })
     } else {
@@ -114,13 +98,14 @@ async function classifyBatch(
       results.push({
         menuItemId: item.id,
         name: item.name,
+        confidence: fallback?.confidence,
         tags: {
           color: fallback?.color || "Unknown",
           cuisine: fallback?.cuisine || "Unknown",
           primaryIngredient: fallback?.primaryIngredient || "Unknown",
           flavorProfile: fallback?.flavorProfile || "Unknown",
           submealCategory: fallback?.submealCategory || "Unknown",
-          heavyLight: fallback?.heavyLight || "Medium",
+          heavyLight: toHeavyLight(fallback?.heavyLight),
         },
       })
     }
@@ -129,48 +114,58 @@ async function classifyBatch(
   return results
 }
 
-async function saveTags(results: AiTagResult[]): Promise<number> {
-  const chunks = chunk(results, 400) // Firestore batch limit is 500
-  let saved = 0
-
-  for (const batch_items of chunks) {
-    const batch = writeBatch(db)
-    for (const result of batch_items) {
-      const docRef = doc(db, "menuItems", result.menuItemId)
-      batch.update(docRef, {
-        aiTags: {
-          ...result.tags,
-          updatedAt: serverTimestamp(),
-        },
-        updatedAt: serverTimestamp(),
-      })
+function toHeavyLight(value?: string): AiTagResult["tags"]["heavyLight"] {
+  const normalized = (value || "").trim().toLowerCase()
+  if (normalized === "heavy") return "Heavy"
+  if (normalized === "light") return "Light"
+  return "Medium"
+}
+
+/**
+ * Queues the AI tags for human review instead of writing them to the items.
+ * Locked (hand-corrected) fields and values that match the current tags are left out.
+ */
+async function queueProposals(results: AiTagResult[], model: string): Promise<{ queued: number; unchanged: number }> {
+  const proposals: Omit<AiTagProposal, "id" | "status" | "createdAt" | "resolvedAt">[] = []
+  let unchanged = 0
+
+  for (const result of results) {
+    const snapshot = await getDoc(doc(db, "menuItems", result.menuItemId))
+    if (!snapshot.exists()) continue
+    const fields = diffAiTags(snapshot.data().aiTags as AiTags | undefined, result.tags)
+    if (!fields) {
+      unchanged++
+      continue
     }
-    await batch.commit()
-    saved += batch_items.length
+    proposals.push({
+      menuItemId: result.menuItemId,
+      itemName: result.name,
+      ...(result.confidence !== undefined && { confidence: result.confidence }),
+      model,
+      fields,
+    })
   }
 
-  return saved
+  const queued = await aiTagReviewService.submit(proposals)
+  return { queued, unchanged }
 }
 
 export async function POST(req: Request) {
   const body = await req.json().catch(() => null)
 
-  const apiKey =
-    getEnv("AWS_BEARER_TOKEN_BEDROCK") ?? getEnv("OPENAI_API_KEY")
-  const baseURL =
-    getEnv("OPENAI_BASE_URL") ?? "https://bedrock-mantle.us-east-1.api.aws/v1"
-  const model = getEnv("BEDROCK_MANTLE_MODEL") ?? "openai.gpt-oss-120b"
-
-  if (!apiKey) {
+  // This route has always called the us-east-1 endpoint, unlike the ap-south-1 default of the others
+  const provider = getAiProvider({ baseURL: CATEGORIZE_BASE_URL })
+  if (!provider) {
     return Response.json(
       { ok: false, error: "Missing AI API key configuration." },
       { status: 400 }
     )
   }
 
-  const items: { id: string; name: string }[] | undefined = body?.items
+  const request = menuCategorizeRequestSchema.safeParse(body)
+  const items = request.success ? request.data.items : undefined
 
-  if (!items || !Array.isArray(items) || items.length === 0) {
+  if (!items || items.length === 0) {
     return Response.json({
       ok: true,
       message: "No items to categorize.",
@@ -180,14 +175,13 @@ export async function POST(req: Request) {
   }
 
   try {
-    const client = new OpenAI({ apiKey, baseURL })
     // We still chunk just in case the client sends a massive list
     const batches = chunk(items, 40)
     const allResults: AiTagResult[] = []
 
     for (const batch of batches) {
       try {
-        const results = await classifyBatch(client, model, batch)
+        const results = await classifyBatch(provider, batch)
         allResults.push(...results)
       } catch (batchError: any) {
         console.error(
@@ -198,13 +192,14 @@ export async function POST(req: Request) {
       }
     }
 
-    // Save to Firestore
-    const savedCount = await saveTags(allResults)
+    const { queued, unchanged } = await queueProposals(allResults, provider.model)
 
     return Response.json({
       ok: true,
-      message: `Categorized ${savedCount} of ${items.length} items.`,
-      processed: savedCount,
+      message: `Categorized ${allResults.length} of ${items.length} items; ${queued} sent for review.`,
+      processed: allResults.length,
+      queued,
+      unchanged,
       total: items.length,
       results: allResults,
     })
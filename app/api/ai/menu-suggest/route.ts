@@ -1,4 +1,3 @@
-import OpenAI from "openai"
 import { collection, getDocs, query, where, getDoc, doc } from "firebase/firestore"
 import { db } from "@/lib/firebase"
 import {
@@ -10,6 +9,10 @@ import {
   subServicesService,
   menuPlanningRulesService,
 } from "@/lib/services"
+import { validateMenu, getFrequencyLimits } from "@/lib/menu-constraints"
+import { solveMenu, type SolverResult } from "@/lib/menu-solver"
+import { generateJson, getAiProvider } from "@/lib/ai/provider"
+import { menuSuggestResponseSchema } from "@/lib/ai/schemas"
 
 export const runtime = "nodejs"
 
@@ -22,13 +25,6 @@ type MenuData = Record<
   Record<string, Record<string, Record<string, Record<string, MenuCell>>>>
 >
 
-function getEnv(name: string): string | undefined {
-  const v = process.env[name]
-  if (!v) return undefined
-  const t = v.trim()
-  return t.length ? t : undefined
-}
-
 function addDays(yyyyMmDd: string, days: number): string {
   const d = new Date(yyyyMmDd)
   d.setDate(d.getDate() + days)
@@ -479,6 +475,30 @@ function pickHighQualityHistoryMenus(params: {
     .map((x) => x.m)
 }
 
+// Deep-merges sparse menu grids down to the cell level (later grids win)
+function mergeMenuData(...grids: any[]): any {
+  const out: any = {}
+  for (const grid of grids) {
+    for (const date of Object.keys(grid || {})) {
+      for (const serviceId of Object.keys(grid[date] || {})) {
+        for (const subServiceId of Object.keys(grid[date][serviceId] || {})) {
+          for (const mealPlanId of Object.keys(grid[date][serviceId][subServiceId] || {})) {
+            const smpObj = grid[date][serviceId][subServiceId][mealPlanId] || {}
+            out[date] ??= {}
+            out[date][serviceId] ??= {}
+            out[date][serviceId][subServiceId] ??= {}
+            out[date][serviceId][subServiceId][mealPlanId] = {
+              ...(out[date][serviceId][subServiceId][mealPlanId] || {}),
+              ...smpObj,
+            }
+          }
+        }
+      }
+    }
+  }
+  return out
+}
+
 function indexById<T extends { id: string }>(items: T[]): Map<string, T> {
   return new Map(items.map((i) => [i.id, i]))
 }
@@ -504,12 +524,20 @@ type EnrichedMenu = Record<
   }>
 >
 
-async function handleSuggest(startDate: string, endDate: string, scope?: { serviceId?: string | null; subServiceId?: string | null; companyId?: string | null }) {
-  const apiKey = getEnv("AWS_BEARER_TOKEN_BEDROCK") ?? getEnv("OPENAI_API_KEY")
-  const baseURL = getEnv("OPENAI_BASE_URL") ?? "https://bedrock-mantle.ap-south-1.api.aws/v1"
-  const model = getEnv("BEDROCK_MANTLE_MODEL") ?? "openai.gpt-oss-120b"
+// "ai" asks the remote model; "solver" runs the local constraint solver (no model, reproducible by seed)
+type SuggestEngine = "ai" | "solver"
 
-  if (!apiKey) {
+async function handleSuggest(
+  startDate: string,
+  endDate: string,
+  scope?: { serviceId?: string | null; subServiceId?: string | null; companyId?: string | null },
+  options: { engine?: SuggestEngine; seed?: number } = {},
+) {
+  const engine: SuggestEngine = options.engine === "solver" ? "solver" : "ai"
+  const seed = Number.isFinite(options.seed) ? Math.floor(options.seed!) : Math.floor(Math.random() * 2 ** 31)
+  const provider = engine === "ai" ? getAiProvider() : null
+
+  if (!provider && engine === "ai") {
     return Response.json(
       { ok: false, error: "Missing AWS_BEARER_TOKEN_BEDROCK (or OPENAI_API_KEY)." },
       { status: 400 },
@@ -540,9 +568,17 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
   const mealPlansById = indexById(mealPlans)
   const subMealPlansById = indexById(subMealPlans)
   const menuItemsById = indexById(menuItems)
+  const itemCooldowns: Record<string, number> = Object.fromEntries(
+    menuItems.filter((item) => item.cooldownDays).map((item) => [item.id, item.cooldownDays!]),
+  )
 
-  // Fetch last 2 weeks of combined menus (by endDate)
-  const historyStart = addDays(startDate, -14)
+  // Rule versions in force for the week being planned
+  const rules = await menuPlanningRulesService.getMergedRule(scope.serviceId, scope.subServiceId, scope.companyId, startDate)
+
+  // Fetch last 2 weeks of combined menus (by endDate); the solver looks back as far as the longest cooldown
+  const historyWindowDays =
+    engine === "solver" ? Math.max(14, rules?.cooldownDays || 0, ...Object.values(itemCooldowns)) : 14
+  const historyStart = addDays(startDate, -historyWindowDays)
   const q = query(
     collection(db, "combinedMenus"),
     where("endDate", ">=", historyStart),
@@ -566,7 +602,7 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
       ok: true,
       startDate,
       endDate,
-      historyWindowDays: 14,
+      historyWindowDays,
       result: { menuData: {} },
       menuData: {},
       enrichedMenu: {},
@@ -623,7 +659,7 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
       ok: true,
       startDate,
       endDate,
-      historyWindowDays: 14,
+      historyWindowDays,
       result: { menuData: {} },
       menuData: {},
       enrichedMenu: {},
@@ -650,10 +686,6 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
     candidateMenuItems.push(...extra)
   }
 
-  const rules = scope.serviceId && scope.subServiceId 
-    ? await menuPlanningRulesService.getMergedRule(scope.serviceId, scope.subServiceId, scope.companyId) 
-    : null
-
   let aiTrainingProfileText = ""
   if (scope.serviceId && scope.subServiceId) {
     const docId = `${scope.serviceId}_${scope.subServiceId}`
@@ -663,7 +695,6 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
     }
   }
 
-  const client = new OpenAI({ apiKey, baseURL })
 
   const system = [
     "You are a menu planning assistant for a corporate catering admin system.",
@@ -682,6 +713,10 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
     rules.grandRules.forEach(gr => system.push(`- ${gr}`))
   }
 
+  if (rules?.cooldownDays) {
+    system.push(`- Do not serve the same menuItemId again within ${rules.cooldownDays} days (including the history dates).`)
+  }
+
   if (aiTrainingProfileText) {
     system.push("\n### AI TRAINING PROFILE (Historical Patterns to follow):")
     system.push(aiTrainingProfileText)
@@ -690,8 +725,32 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
   const systemString = system.join("\n")
 
   try {
+    let solverResult: SolverResult | null = null
+    if (engine === "solver") {
+      const frequencyLimits: Record<string, number> = {}
+      const prefix = `${scope.serviceId}|${scope.subServiceId}|`
+      Object.entries(getFrequencyLimits(mealPlanStructureAssignments || [])).forEach(([key, max]) => {
+        if (key.startsWith(prefix)) frequencyLimits[key.slice(prefix.length)] = max
+      })
+      solverResult = solveMenu({
+        dates: targetDates,
+        cellsByDate: missingCellsByDate,
+        serviceId: scope.serviceId,
+        subServiceId: scope.subServiceId,
+        menuItems,
+        currentMenuData: currentMenuDataScoped,
+        historyMenuData: mergeMenuData(...historyMenus.map((m) => m.menuData)),
+        rule: rules,
+        itemCooldowns,
+        frequencyLimits,
+        repeatSubMealPlanIds: new Set(subMealPlans.filter((smp) => !!(smp as any).isRepeatPlan).map((smp) => smp.id)),
+        subMealPlanNames: new Map(subMealPlans.map((smp) => [smp.id, smp.name])),
+        seed,
+      })
+    }
+
     // For large ranges, chunk by week to stay under context limits.
-    const dateChunks = chunk(targetDates, 7)
+    const dateChunks = engine === "ai" ? chunk(targetDates, 7) : []
     const mergedMenuData: any = {}
 
     for (const dates of dateChunks) {
@@ -726,26 +785,27 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
         },
       }
 
-      const resp = await client.chat.completions.create({
-        model,
-        messages: [
-          { role: "system", content: systemString },
-          { role: "user", content: JSON.stringify(user) },
-        ],
-        temperature: 0.3,
-      })
-
-      const text = resp.choices?.[0]?.message?.content ?? ""
-      const parsed = JSON.parse(text)
-      const chunkMenuData: any = parsed?.menuData || parsed || {}
+      const { data: parsed } = await generateJson(
+        {
+          task: "menu-suggest",
+          schema: menuSuggestResponseSchema,
+          messages: [
+            { role: "system", content: systemString },
+            { role: "user", content: JSON.stringify(user) },
+          ],
+          temperature: 0.3,
+        },
+        { provider: provider! },
+      )
+      const chunkMenuData: any = parsed.menuData || {}
 
       for (const d of Object.keys(chunkMenuData || {})) mergedMenuData[d] = chunkMenuData[d]
     }
 
-    let rawMenuData: MenuData = mergedMenuData
+    let rawMenuData: MenuData = solverResult ? (solverResult.menuData as MenuData) : mergedMenuData
 
     const empty = !rawMenuData || Object.keys(rawMenuData).length === 0
-    if (empty) {
+    if (empty && !solverResult) {
       const repeatAllowed = new Set(
         subMealPlans.filter((smp) => !!(smp as any).isRepeatPlan).map((smp) => smp.id),
       )
@@ -792,6 +852,18 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
       rawMenuData = filtered
     }
 
+    // Machine-check the draft + suggestions with the same engine the menu editor uses
+    const constraintReport = validateMenu({
+      menuData: mergeMenuData(currentMenuDataScoped, rawMenuData),
+      menuItems: menuItemsById,
+      rules: rules ? [rules] : [],
+      frequencyLimits: getFrequencyLimits(mealPlanStructureAssignments || []),
+      historyMenuData: mergeMenuData(...historyMenus.map((m) => m.menuData)),
+      itemCooldowns,
+      repeatSubMealPlanIds: new Set(subMealPlans.filter((smp) => !!(smp as any).isRepeatPlan).map((smp) => smp.id)),
+      scope: { serviceId: scope.serviceId, subServiceId: scope.subServiceId },
+    })
+
     const enriched: EnrichedMenu = {}
     for (const date of Object.keys(rawMenuData || {})) {
       const day = rawMenuData[date] || {}
@@ -863,15 +935,19 @@ async function handleSuggest(startDate: string, endDate: string, scope?: { servi
       ok: true,
       startDate,
       endDate,
-      historyWindowDays: 14,
+      historyWindowDays,
       result: { menuData: rawMenuData },
       menuData: rawMenuData,
       enrichedMenu: enriched,
+      constraintReport,
+      engine,
+      ...(solverResult && { seed: solverResult.seed, unfilled: solverResult.unfilled }),
       debug: {
         historyMenus: historyMenus.length,
         bestHistoryMenus: bestHistoryMenus.length,
         candidateMenuItems: candidateMenuItems.length,
         anyMissing: hasAnyMissing,
+        ...(solverResult && { solverNodes: solverResult.nodes }),
       },
     })
   } catch (err: any) {
@@ -894,6 +970,8 @@ export async function POST(req: Request) {
   const companyId: string | undefined = body?.companyId
   const currentMenuData: any = body?.currentMenuData
   const fillMode: "missing_only" | "all" = body?.fillMode === "all" ? "all" : "missing_only"
+  const engine: SuggestEngine = body?.engine === "solver" ? "solver" : "ai"
+  const seed = body?.seed === undefined || body?.seed === null || body?.seed === "" ? undefined : Number(body.seed)
 
   if (!startDate || !endDate) {
     return Response.json({ ok: false, error: "startDate and endDate are required (YYYY-MM-DD)." }, { status: 400 })
@@ -903,7 +981,7 @@ export async function POST(req: Request) {
   ;(handleSuggest as any).__currentMenuData = currentMenuData
   ;(handleSuggest as any).__fillMode = fillMode
 
-  return handleSuggest(startDate, endDate, { serviceId, subServiceId, companyId })
+  return handleSuggest(startDate, endDate, { serviceId, subServiceId, companyId }, { engine, seed })
 }
 
 export async function GET(req: Request) {
@@ -913,6 +991,8 @@ export async function GET(req: Request) {
   const serviceId = url.searchParams.get("serviceId")
   const subServiceId = url.searchParams.get("subServiceId")
   const companyId = url.searchParams.get("companyId")
+  const engine = url.searchParams.get("engine") === "solver" ? "solver" : "ai"
+  const seed = url.searchParams.get("seed")
 
   if (!startDate || !endDate) {
     return Response.json(
@@ -928,5 +1008,5 @@ export async function GET(req: Request) {
     )
   }
 
-  return handleSuggest(startDate, endDate, { serviceId, subServiceId, companyId })
+  return handleSuggest(startDate, endDate, { serviceId, subServiceId, companyId }, { engine, seed: seed ? Number(seed) : undefined })
 }
@@ -1,26 +1,22 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
+import { generateJson, getAiProvider } from "@/lib/ai/provider"
+import { suggestQuestionsRequestSchema, suggestQuestionsResponseSchema } from "@/lib/ai/schemas"
 
 export const runtime = "nodejs"
 
 export async function POST(req: Request) {
   try {
-    const { topic } = await req.json()
-
-    if (!topic) {
+    const request = suggestQuestionsRequestSchema.safeParse(await req.json().catch(() => null))
+    if (!request.success) {
       return NextResponse.json({ error: "Missing topic" }, { status: 400 })
     }
+    const { topic } = request.data
 
-    const apiKey = process.env.AWS_BEARER_TOKEN_BEDROCK || process.env.OPENAI_API_KEY
-    if (!apiKey) {
+    const provider = getAiProvider()
+    if (!provider) {
       return NextResponse.json({ error: "No API key configured" }, { status: 500 })
     }
 
-    const baseURL = process.env.OPENAI_BASE_URL || "https://bedrock-mantle.ap-south-1.api.aws/v1"
-    const model = process.env.BEDROCK_MANTLE_MODEL || "openai.gpt-oss-120b"
-
-    const openai = new OpenAI({ apiKey, baseURL })
-
     const prompt = `You are a Senior Technical Recruiter hiring for a specific role.
 Please generate 10 technical interview questions based on this prompt: "${topic}"
 
@@ -40,20 +36,18 @@ Generate the output EXACTLY in this JSON array format (no markdown, no extra tex
 ]
 `
 
-    const response = await openai.chat.completions.create({
-      model: model,
-      messages: [
-        { role: "system", content: "You output only raw JSON." },
-        { role: "user", content: prompt }
-      ],
-      temperature: 0.7
-    })
-
-    const content = response.choices[0]?.message?.content?.trim() || "[]"
-    
-    // Strip possible markdown formatting if the AI ignores instructions
-    const jsonStr = content.replace(/^```json/g, "").replace(/```$/g, "").trim()
-    const questions = JSON.parse(jsonStr)
+    const { data: questions } = await generateJson(
+      {
+        task: "suggest-questions",
+        schema: suggestQuestionsResponseSchema,
+        messages: [
+          { role: "system", content: "You output only raw JSON." },
+          { role: "user", content: prompt }
+        ],
+        temperature: 0.7
+      },
+      { provider }
+    )
 
     return NextResponse.json({ questions })
   } catch (error: any) {
@@ -1,17 +1,10 @@
 import { NextResponse } from "next/server"
-import OpenAI from "openai"
 import { doc, setDoc, serverTimestamp } from "firebase/firestore"
 import { db } from "@/lib/firebase"
+import { generateText, getAiProvider } from "@/lib/ai/provider"
 
 export const runtime = "nodejs"
 
-function getEnv(name: string): string | undefined {
-  const v = process.env[name]
-  if (!v) return undefined
-  const t = v.trim()
-  return t.length ? t : undefined
-}
-
 export async function POST(req: Request) {
   try {
     const body = await req.json()
@@ -21,16 +14,11 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
     }
 
-    const apiKey = getEnv("AWS_BEARER_TOKEN_BEDROCK") ?? getEnv("OPENAI_API_KEY")
-    const baseURL = getEnv("OPENAI_BASE_URL") ?? "https://bedrock-mantle.ap-south-1.api.aws/v1"
-    const model = getEnv("BEDROCK_MANTLE_MODEL") ?? "openai.gpt-oss-120b"
-
-    if (!apiKey) {
+    const provider = getAiProvider()
+    if (!provider) {
       return NextResponse.json({ error: "No API key configured" }, { status: 500 })
     }
 
-    const openai = new OpenAI({ apiKey, baseURL })
-
     // Truncate training data if it's too large to prevent hitting token limits
     // Convert to string and slice if necessary
     let dataString = JSON.stringify(trainingData)
@@ -55,17 +43,18 @@ Output ONLY a detailed text summary (the "Training Profile") that can be injecte
 
     const userPrompt = `Historical Data:\n\n${dataString}`
 
-    const completion = await openai.chat.completions.create({
-      model: model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      temperature: 0.3,
-    })
-
-    const profileText = completion.choices[0].message.content
-    if (!profileText) throw new Error("Empty response from AI")
+    const { data: profileText } = await generateText(
+      {
+        task: "train",
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt }
+        ],
+        temperature: 0.3,
+      },
+      // Large uploads take a while to summarise
+      { provider, timeoutMs: 180000 }
+    )
 
     // Save to Firestore
     const docId = `${serviceId}_${subServiceId}`
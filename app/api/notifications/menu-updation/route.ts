@@ -0,0 +1,238 @@
+import { arrayUnion, doc, runTransaction, updateDoc } from "firebase/firestore"
+import { db } from "@/lib/firebase"
+import { buildingsService, companiesService } from "@/lib/firestore"
+import { usersService } from "@/lib/firestore/usersService"
+import { servicesService, mealPlanStructureAssignmentsService } from "@/lib/services"
+import {
+  clientNotificationRulesService,
+  clientNotificationsService,
+  type ClientNotificationRule,
+} from "@/lib/firestore/clientNotificationsService"
+import {
+  buildChangeDigest,
+  isCellServedToBuilding,
+  renderDigestEmail,
+  resolveEmailRecipients,
+  ruleAppliesTo,
+} from "@/lib/change-digest"
+import { getSmtpConfig, sendMail } from "@/lib/smtp-transport"
+import type { CellChange, MenuUpdation } from "@/lib/types"
+
+export const runtime = "nodejs"
+
+// A claim older than this is treated as abandoned (crashed or timed-out run) and can be taken over
+const CLAIM_TTL_MS = 10 * 60 * 1000
+
+interface DispatchResult {
+  companyId: string
+  buildingId: string
+  changes: number
+  inApp: number
+  emails: string[]
+  skipped?: string
+  error?: string
+}
+
+/**
+ * Accepts CRON_SECRET as a Bearer token (server callers) or a Firebase ID token of a
+ * signed-in user, checked against the Identity Toolkit lookup endpoint.
+ */
+async function isAuthorized(req: Request): Promise<boolean> {
+  const header = req.headers.get("authorization") || ""
+  if (!header.startsWith("Bearer ")) return false
+  const token = header.slice("Bearer ".length)
+
+  const secret = process.env.CRON_SECRET
+  if (secret && token === secret) return true
+
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY
+  if (!apiKey) return false
+  const res = await fetch(`https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=${apiKey}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idToken: token }),
+  }).catch(() => null)
+  if (!res?.ok) return false
+  const data = await res.json().catch(() => null)
+  return Array.isArray(data?.users) && data.users.length > 0
+}
+
+const targetKey = (companyId: string, buildingId: string) => `${companyId}/${buildingId}`
+
+/**
+ * Sends the change digest of one updation to every opted-in affected company building.
+ * The updation is claimed in a transaction before anything is sent, so concurrent calls
+ * can't both dispatch it. Each building's in-app and email deliveries are recorded in
+ * `clientNotifiedTargets` as they succeed; failed ones stay unrecorded and are retried by
+ * the next call. `clientNotifiedAt` is only set once every target has been handled.
+ */
+export async function POST(req: Request) {
+  if (!(await isAuthorized(req))) {
+    return Response.json({ ok: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => null)
+  const updationId: string | undefined = body?.updationId
+
+  if (!updationId) {
+    return Response.json({ ok: false, error: "updationId is required." }, { status: 400 })
+  }
+
+  const updationRef = doc(db, "updations", updationId)
+  let claimed = false
+
+  try {
+    const claim = await runTransaction(db, async (tx) => {
+      const snapshot = await tx.get(updationRef)
+      if (!snapshot.exists()) return { status: "missing" as const }
+      const data = snapshot.data()
+      if (data.clientNotifiedAt) return { status: "done" as const }
+      const claimedAt: number | undefined = data.clientNotificationClaimedAt?.toMillis?.()
+      if (claimedAt && Date.now() - claimedAt < CLAIM_TTL_MS) return { status: "busy" as const }
+      tx.update(updationRef, { clientNotificationClaimedAt: new Date() })
+      return {
+        status: "claimed" as const,
+        updation: { id: snapshot.id, ...data } as MenuUpdation & { clientNotifiedTargets?: string[] },
+      }
+    })
+
+    if (claim.status === "missing") {
+      return Response.json({ ok: false, error: "Updation not found." }, { status: 404 })
+    }
+    if (claim.status === "done") {
+      return Response.json({ ok: true, message: "Already notified.", results: [] })
+    }
+    if (claim.status === "busy") {
+      return Response.json({ ok: true, message: "Notification already in progress.", results: [] })
+    }
+    claimed = true
+    const updation = claim.updation
+    const delivered = new Set(updation.clientNotifiedTargets || [])
+
+    // Company menu updations name their own building; combined ones list affectedCompanies
+    const targets = (updation.affectedCompanies || [])
+      .filter((c) => c.companyId && c.buildingId)
+      .map((c) => ({ companyId: c.companyId!, buildingId: c.buildingId! }))
+    if (targets.length === 0 && updation.companyId && updation.buildingId) {
+      targets.push({ companyId: updation.companyId, buildingId: updation.buildingId })
+    }
+    if (targets.length === 0) {
+      await updateDoc(updationRef, { clientNotifiedAt: new Date(), clientNotificationClaimedAt: null })
+      claimed = false
+      return Response.json({ ok: true, message: "No affected companies.", results: [] })
+    }
+
+    const [services, assignments, buildings, companies] = await Promise.all([
+      servicesService.getAll(),
+      mealPlanStructureAssignmentsService.getAll(),
+      buildingsService.getAll(),
+      companiesService.getAll(),
+    ])
+    const serviceNames = new Map(services.map((s) => [s.id, s.name]))
+    const smtpConfig = getSmtpConfig()
+
+    const rules = new Map<string, ClientNotificationRule | null>()
+    const results: DispatchResult[] = []
+    const newlyDelivered: string[] = []
+
+    for (const { companyId, buildingId } of targets) {
+      if (!rules.has(companyId)) rules.set(companyId, await clientNotificationRulesService.getByCompany(companyId))
+      const rule = rules.get(companyId) || null
+
+      let cells: CellChange[] = updation.changedCells || []
+      if (updation.menuType === "combined") {
+        const assignment = assignments.find(
+          (a) => a.companyId === companyId && a.buildingId === buildingId && a.status === "active",
+        )
+        cells = assignment ? cells.filter((cell) => isCellServedToBuilding(assignment, cell)) : []
+      }
+      const rows = buildChangeDigest(cells, serviceNames)
+      const result: DispatchResult = { companyId, buildingId, changes: rows.length, inApp: 0, emails: [] }
+      results.push(result)
+      const key = targetKey(companyId, buildingId)
+      if (delivered.has(key)) {
+        result.skipped = "already notified"
+        continue
+      }
+
+      if (!ruleAppliesTo(rule, buildingId, rows.length)) {
+        result.skipped = rule?.enabled ? "outside rule scope" : "not opted in"
+        newlyDelivered.push(key)
+        continue
+      }
+
+      const building = buildings.find((b) => b.id === buildingId)
+      const companyName = companies.find((c) => c.id === companyId)?.name || "Company"
+      const buildingName = building?.name || "Building"
+
+      const companyUsers = (await usersService.getByCompany(companyId)).filter(
+        (u) =>
+          u.userType === "company_user" &&
+          u.status === "active" &&
+          (!u.buildingIds?.length || u.buildingIds.includes(buildingId)),
+      )
+
+      try {
+        // In-app and email are recorded separately so a retry after a failed email doesn't repeat the in-app rows
+        if (rule!.inAppEnabled && rule!.notifyCompanyUsers && !delivered.has(`${key}#inApp`)) {
+          await clientNotificationsService.addMany(
+            companyUsers.map((u) => ({
+              userId: u.id,
+              companyId,
+              buildingId,
+              buildingName,
+              updationId: updation.id,
+              updationNumber: updation.updationNumber,
+              title: `Menu updated for ${buildingName}`,
+              rows,
+            })),
+          )
+          result.inApp = companyUsers.length
+          newlyDelivered.push(`${key}#inApp`)
+        }
+
+        if (rule!.emailEnabled) {
+          const recipients = resolveEmailRecipients(
+            rule!,
+            companyUsers.map((u) => u.email).filter(Boolean),
+            building?.contactEmail ? [building.contactEmail] : [],
+          )
+          if (recipients.length > 0) {
+            if (!smtpConfig) throw new Error("SMTP_HOST is not configured")
+            const email = renderDigestEmail(
+              companyName,
+              buildingName,
+              { startDate: updation.menuStartDate, endDate: updation.menuEndDate },
+              rows,
+            )
+            await sendMail(smtpConfig, { to: recipients, ...email })
+            result.emails = recipients
+          }
+        }
+        newlyDelivered.push(key)
+      } catch (error: any) {
+        // Keep going so one bad mailbox doesn't block the other buildings
+        console.error(`Client notification failed for ${companyId}/${buildingId}:`, error)
+        result.error = error?.message ?? String(error)
+      }
+    }
+
+    const failed = results.some((r) => r.error)
+    await updateDoc(updationRef, {
+      ...(newlyDelivered.length > 0 && { clientNotifiedTargets: arrayUnion(...newlyDelivered) }),
+      ...(!failed && { clientNotifiedAt: new Date() }),
+      clientNotificationClaimedAt: null,
+      clientNotificationResults: JSON.parse(JSON.stringify(results)),
+    })
+    claimed = false
+
+    return Response.json({ ok: !failed, results })
+  } catch (err: any) {
+    console.error("Menu updation notification error:", err)
+    if (claimed) {
+      // Release the claim so the next call can retry straight away
+      await updateDoc(updationRef, { clientNotificationClaimedAt: null }).catch(() => {})
+    }
+    return Response.json({ ok: false, error: err?.message ?? String(err) }, { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+import { ticketService } from "@/lib/firestore/ticketService"
+import type { TicketCsatResponse } from "@/lib/firestore/ticketCsatService"
+import { usersService } from "@/lib/firestore/usersService"
+import { getManagerChain, type EscalationContact } from "@/lib/sla-engine"
+import { hashReporterToken, isCsatDue, isLowCsat } from "@/lib/ticket-csat"
+import { getSmtpConfig, sendMail } from "@/lib/smtp-transport"
+
+export const runtime = "nodejs"
+
+const MAX_COMMENT_LENGTH = 1000
+
+// CSAT_LOW_SCORE_ACTION: "reopen" (default), "notify" the assignee's manager, or "both"
+const lowScoreActions = () => {
+  const setting = (process.env.CSAT_LOW_SCORE_ACTION || "reopen").trim().toLowerCase()
+  return { reopen: setting === "reopen" || setting === "both", notify: setting === "notify" || setting === "both" }
+}
+
+/**
+ * Reporter's satisfaction rating for a resolved ticket, authorised by the survey token from
+ * the report page. Low ratings reopen the ticket and/or alert the assignee's manager.
+ */
+export async function POST(req: Request) {
+  try {
+    const { ticketId, token, rating, comment } = await req.json()
+    const score = Number(rating)
+    const text = typeof comment === "string" ? comment.trim().slice(0, MAX_COMMENT_LENGTH) : ""
+    if (!ticketId || !token || !Number.isInteger(score) || score < 1 || score > 5) {
+      return Response.json({ ok: false, error: "A ticket, survey token and a rating from 1 to 5 are required" }, { status: 400 })
+    }
+
+    const ticket = await ticketService.getTicketById(String(ticketId))
+    if (!ticket) return Response.json({ ok: false, error: "Ticket not found" }, { status: 404 })
+    if (!ticket.reporterTokenHash || (await hashReporterToken(String(token))) !== ticket.reporterTokenHash) {
+      return Response.json({ ok: false, error: "This survey link is not valid for this ticket" }, { status: 403 })
+    }
+    if (!isCsatDue(ticket)) {
+      return Response.json({ ok: false, error: "This ticket is not awaiting a rating" }, { status: 409 })
+    }
+
+    const low = isLowCsat(score)
+    const actions = low ? lowScoreActions() : { reopen: false, notify: false }
+    let lowScoreAction: TicketCsatResponse["lowScoreAction"] = null
+    if (actions.reopen && actions.notify) lowScoreAction = "reopened+notified"
+    else if (actions.reopen) lowScoreAction = "reopened"
+    else if (actions.notify) lowScoreAction = "notified"
+
+    await ticketService.recordCsat(ticket, score, text, lowScoreAction)
+
+    let notified: string | undefined
+    if (actions.notify) {
+      const users = await usersService.getAll()
+      const contacts = new Map<string, EscalationContact>(
+        users.map((u) => [u.id, { id: u.id, name: u.name, email: u.email, managerId: u.managerId }]),
+      )
+      const manager = getManagerChain(ticket.assigneeId, contacts)[0]
+      await ticketService.addTicketComment(
+        ticket.id,
+        "csat-survey",
+        "CSAT Survey",
+        `LOW SATISFACTION ${score}/5${text ? `: "${text}"` : ""}. ${manager ? `${manager.name} notified.` : "No manager on file to notify."}`,
+        [],
+        "System",
+      )
+      const smtpConfig = getSmtpConfig()
+      if (manager?.email && smtpConfig) {
+        try {
+          await sendMail(smtpConfig, {
+            to: [manager.email],
+            subject: `[CSAT ${score}/5] ${ticket.title}`,
+            text: [
+              `The reporter rated the resolution of "${ticket.title}" ${score}/5.`,
+              text ? `Comment: ${text}` : null,
+              `Company: ${ticket.companyName}${ticket.buildingName ? ` (${ticket.buildingName})` : ""}`,
+              `Assignee: ${ticket.assigneeName || "Unassigned"}`,
+              actions.reopen ? "The ticket has been reopened." : null,
+            ]
+              .filter(Boolean)
+              .join("\n"),
+          })
+          notified = manager.email
+        } catch (error) {
+          // The rating and the comment on the ticket still stand
+          console.error(`CSAT notification failed for ticket ${ticket.id}:`, error)
+        }
+      }
+    }
+
+    if (actions.reopen) {
+      await ticketService.reopenTicket(
+        ticket.id,
+        `Low satisfaction rating (${score}/5)${text ? `: ${text}` : ""}`,
+        { id: ticket.creatorId, name: ticket.creatorName, role: "Client" },
+      )
+    }
+
+    return Response.json({ ok: true, rating: score, reopened: actions.reopen, notified })
+  } catch (err: any) {
+    console.error("CSAT submission error:", err)
+    return Response.json({ ok: false, error: err?.message ?? String(err) }, { status: 500 })
+  }
+}
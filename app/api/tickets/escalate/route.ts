@@ -0,0 +1,125 @@
+import { Timestamp } from "firebase/firestore"
+import { holidaysService } from "@/lib/firestore"
+import { slaPoliciesService } from "@/lib/firestore/slaPoliciesService"
+import { ticketService, type TicketSlaEvent } from "@/lib/firestore/ticketService"
+import { usersService } from "@/lib/firestore/usersService"
+import {
+  buildSlaCalendar,
+  getDueEscalationLevel,
+  getManagerChain,
+  isSlaBreached,
+  resolveSlaPolicy,
+  type EscalationContact,
+} from "@/lib/sla-engine"
+import { getSmtpConfig, sendMail } from "@/lib/smtp-transport"
+
+export const runtime = "nodejs"
+
+interface EscalationResult {
+  ticketId: string
+  breached?: boolean
+  levels: number[]
+  notified: string[]
+  error?: string
+}
+
+/**
+ * Scheduled SLA escalation run (see vercel.json). Records breaches and escalates every
+ * open ticket whose next escalation level is due to the next manager up the assignee's
+ * managerId chain, with a timeline entry on the ticket, a system comment and an email.
+ * The caller must send CRON_SECRET as a Bearer token; without it configured the route refuses to run.
+ */
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return Response.json({ ok: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const [tickets, policies, holidays, users] = await Promise.all([
+      ticketService.getOpenTickets(),
+      slaPoliciesService.getAll(),
+      holidaysService.getAll(),
+      usersService.getAll(),
+    ])
+    const contacts = new Map<string, EscalationContact>(
+      users.map((u) => [u.id, { id: u.id, name: u.name, email: u.email, managerId: u.managerId }]),
+    )
+    const smtpConfig = getSmtpConfig()
+    const now = Date.now()
+    const results: EscalationResult[] = []
+
+    for (const ticket of tickets) {
+      const policy = resolveSlaPolicy(policies, ticket.companyId, ticket.category)
+      const calendar = buildSlaCalendar(policy, holidays, ticket.companyId, ticket.buildingId)
+      const breached = isSlaBreached(ticket, now)
+      const currentLevel = ticket.escalationLevel || 0
+      const dueLevel = getDueEscalationLevel(ticket, policy, calendar, now)
+      if (!breached || (ticket.slaBreachedAt && dueLevel <= currentLevel)) continue
+
+      const at = Timestamp.fromMillis(now)
+      const events: TicketSlaEvent[] = []
+      const result: EscalationResult = { ticketId: ticket.id, levels: [], notified: [] }
+      results.push(result)
+
+      if (!ticket.slaBreachedAt) {
+        events.push({ type: "breached", at, note: `SLA deadline ${ticket.slaBreachAt.toDate().toISOString()} passed` })
+        result.breached = true
+      }
+
+      const chain = getManagerChain(ticket.assigneeId, contacts)
+      for (let level = currentLevel + 1; level <= dueLevel; level++) {
+        // Past the top of the chain, keep notifying the most senior manager
+        const target = chain[Math.min(level, chain.length) - 1]
+        events.push({
+          type: "escalated",
+          at,
+          level,
+          ...(target
+            ? { toUserId: target.id, toUserName: target.name }
+            : { note: ticket.assigneeId ? "Assignee has no manager on file" : "Ticket has no assignee" }),
+        })
+        result.levels.push(level)
+
+        try {
+          await ticketService.addTicketComment(
+            ticket.id,
+            "sla-engine",
+            "SLA Engine",
+            `SLA ESCALATION L${level}: ${target ? `escalated to ${target.name}` : "no manager to escalate to"}.`,
+            [],
+            "System",
+          )
+          if (target?.email && smtpConfig) {
+            await sendMail(smtpConfig, {
+              to: [target.email],
+              subject: `[SLA L${level}] ${ticket.title}`,
+              text: [
+                `Ticket "${ticket.title}" for ${ticket.companyName}${ticket.buildingName ? ` (${ticket.buildingName})` : ""} breached its SLA.`,
+                `Priority: ${ticket.priority}`,
+                `Status: ${ticket.status}`,
+                `Assignee: ${ticket.assigneeName || "Unassigned"}`,
+                `Deadline was: ${ticket.slaBreachAt.toDate().toLocaleString()}`,
+              ].join("\n"),
+            })
+            result.notified.push(target.email)
+          }
+        } catch (error: any) {
+          // The escalation is still recorded so the next run doesn't repeat it
+          console.error(`SLA notification failed for ticket ${ticket.id}:`, error)
+          result.error = error?.message ?? String(error)
+        }
+      }
+
+      await ticketService.recordSlaEvents(ticket.id, events, {
+        escalationLevel: Math.max(currentLevel, dueLevel),
+        ...(!ticket.slaBreachedAt && { slaBreachedAt: at }),
+      })
+    }
+
+    return Response.json({ ok: true, checked: tickets.length, results })
+  } catch (err: any) {
+    console.error("SLA escalation run error:", err)
+    return Response.json({ ok: false, error: err?.message ?? String(err) }, { status: 500 })
+  }
+}
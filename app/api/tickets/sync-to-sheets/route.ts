@@ -1,72 +1,156 @@
 import { NextResponse } from 'next/server';
-import { google } from 'googleapis';
+import { ticketService, type TicketActor, type TicketPriority, type TicketStatus } from '@/lib/firestore/ticketService';
+import { sheetSyncOutboxService, type SheetSyncOutboxEntry } from '@/lib/firestore/sheetSyncOutboxService';
+import { createSheetBackend } from '@/lib/google-sheet-backend';
+import {
+  findSheetEdits,
+  pushedValuesOf,
+  ticketToSheetRow,
+  upsertSheetRows,
+  type SheetBackend,
+  type SheetEdit,
+} from '@/lib/ticket-sheet-sync';
+
+export const runtime = 'nodejs';
+
+const SHEETS_ACTOR: TicketActor = { id: 'google-sheets', name: 'Google Sheets', role: 'Sheet' };
+
+/**
+ * Upserts the given tickets into the sheet in one pass and settles their outbox entries:
+ * synced entries are dropped, failed ones are rescheduled with backoff. Without
+ * `allowAppend`, tickets that have no row yet stay queued for the scheduled flush.
+ */
+async function pushTickets(
+  backend: SheetBackend,
+  ticketIds: string[],
+  entries: Map<string, SheetSyncOutboxEntry>,
+  allowAppend: boolean,
+) {
+  const tickets = await ticketService.getTicketsByIds(ticketIds);
+  const found = new Set(tickets.map((t) => t.id));
 
-export async function POST(req: Request) {
   try {
-    const data = await req.json();
-    const { 
-      ticketId, 
-      date, 
-      priority, 
-      category, 
-      status, 
-      companyName, 
-      buildingName,
-      creatorName, 
-      title, 
-      description, 
-      photos 
-    } = data;
+    const rows = await Promise.all(
+      tickets.map(async (t) => ticketToSheetRow(t, await ticketService.getTicketComments(t.id)))
+    );
+    const plan = await upsertSheetRows(backend, rows, { allowAppend });
+    const deferred = new Set(plan.deferred);
+
+    await Promise.all(
+      rows.filter((row) => !deferred.has(row[0])).map(async (row) => {
+        const ticketId = row[0];
+        await ticketService.recordSheetSync(ticketId, pushedValuesOf(row));
+        await sheetSyncOutboxService.markSynced(ticketId, entries.get(ticketId)?.queuedAt);
+      })
+    );
+    // Tickets that no longer exist have nothing to push
+    await Promise.all(
+      ticketIds.filter((id) => !found.has(id)).map((id) => sheetSyncOutboxService.markSynced(id))
+    );
+    return {
+      updated: plan.updates.length,
+      appended: plan.appends.filter((r) => found.has(r[0])).length,
+      unchanged: plan.unchanged.length,
+      deferred: plan.deferred.length,
+    };
+  } catch (error: any) {
+    console.error('Error syncing tickets to Google Sheets:', error);
+    const message = error?.message ?? String(error);
+    await Promise.all(
+      ticketIds.map((id) => sheetSyncOutboxService.markFailed(id, (entries.get(id)?.attempts || 0) + 1, message))
+    );
+    throw error;
+  }
+}
 
-    const credentialsEmail = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
-    const privateKey = process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, '\n');
-    const spreadsheetId = process.env.GOOGLE_SHEET_ID;
+/**
+ * Applies Status / Priority edits made in the sheet. Conflicting or invalid cells are
+ * overwritten with the app's value on the next push.
+ */
+async function pullSheetEdits(backend: SheetBackend) {
+  const [rows, tickets] = await Promise.all([backend.readRows(), ticketService.getTickets()]);
+  const edits = findSheetEdits(
+    rows,
+    new Map(tickets.map((t) => [t.id, { status: t.status, priority: t.priority, pushed: t.sheetSync?.pushed }]))
+  );
+
+  const applied: SheetEdit[] = [];
+  for (const edit of edits) {
+    if (edit.outcome !== 'apply') continue;
+    try {
+      if (edit.field === 'status') {
+        await ticketService.updateTicketStatus(edit.ticketId, edit.value as TicketStatus, undefined, undefined, SHEETS_ACTOR);
+      } else {
+        await ticketService.updateTicketDetails(edit.ticketId, { priority: edit.value as TicketPriority }, SHEETS_ACTOR);
+      }
+      applied.push(edit);
+    } catch (error) {
+      console.error(`Failed to apply sheet edit for ticket ${edit.ticketId}:`, error);
+    }
+  }
+  return { edits, applied, touched: Array.from(new Set(edits.map((e) => e.ticketId))) };
+}
+
+/**
+ * Pushes one ticket right after it changed in the app. The outbox entry written before
+ * this call keeps it queued if the push fails, and a ticket that has no row yet is left
+ * for the scheduled flush to append, so this call and the cron never both append it.
+ */
+export async function POST(req: Request) {
+  try {
+    const { ticketId } = await req.json();
+    if (!ticketId) {
+      return NextResponse.json({ error: 'ticketId is required' }, { status: 400 });
+    }
 
-    if (!credentialsEmail || !privateKey || !spreadsheetId) {
+    const backend = createSheetBackend();
+    if (!backend) {
       console.error('Missing Google Sheets credentials');
       return NextResponse.json({ error: 'Missing credentials' }, { status: 500 });
     }
 
-    const auth = new google.auth.GoogleAuth({
-      credentials: {
-        client_email: credentialsEmail,
-        private_key: privateKey,
-      },
-      scopes: [
-        'https://www.googleapis.com/auth/spreadsheets',
-      ],
-    });
+    const entry = await sheetSyncOutboxService.get(ticketId);
+    const result = await pushTickets(backend, [ticketId], new Map(entry ? [[ticketId, entry]] : []), false);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error syncing to Google Sheets:', error);
+    return NextResponse.json({ error: 'Failed to sync to Google Sheets' }, { status: 500 });
+  }
+}
 
-    const sheets = google.sheets({ version: 'v4', auth });
+/**
+ * Scheduled run (see vercel.json): pulls sheet edits into tickets, then flushes every due
+ * outbox entry plus the tickets the pull touched. Requires CRON_SECRET as a Bearer token
+ * and refuses to run when it is not configured.
+ */
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
 
-    const photoUrls = Array.isArray(photos) ? photos.join(', ') : '';
+  const backend = createSheetBackend();
+  if (!backend) {
+    console.error('Missing Google Sheets credentials');
+    return NextResponse.json({ error: 'Missing credentials' }, { status: 500 });
+  }
 
-    const rowData = [
-      ticketId || '',
-      date || new Date().toISOString(),
-      priority || '',
-      category || '',
-      status || '',
-      companyName || '',
-      buildingName || '',
-      creatorName || '',
-      title || '',
-      description || '',
-      photoUrls || ''
-    ];
+  try {
+    const pull = await pullSheetEdits(backend);
+    const due = await sheetSyncOutboxService.getDue();
+    const entries = new Map(due.map((e) => [e.ticketId, e]));
+    const ticketIds = Array.from(new Set([...due.map((e) => e.ticketId), ...pull.touched]));
+    const push = ticketIds.length > 0 ? await pushTickets(backend, ticketIds, entries, true) : null;
 
-    await sheets.spreadsheets.values.append({
-      spreadsheetId,
-      range: 'A1', // Appends to the first sheet starting from column A
-      valueInputOption: 'USER_ENTERED',
-      requestBody: {
-        values: [rowData],
-      },
+    return NextResponse.json({
+      success: true,
+      pulled: pull.applied.length,
+      skippedEdits: pull.edits.filter((e) => e.outcome !== 'apply'),
+      pushed: ticketIds.length,
+      ...push,
     });
-
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Error syncing to Google Sheets:', error);
-    return NextResponse.json({ error: 'Failed to sync to Google Sheets' }, { status: 500 });
+  } catch (error: any) {
+    console.error('Error running Google Sheets sync:', error);
+    return NextResponse.json({ error: error?.message ?? 'Failed to sync to Google Sheets' }, { status: 500 });
   }
 }
@@ -3,6 +3,8 @@ import { useState, useEffect } from "react"
 import { qrLinksService, QRLink } from "@/lib/firestore/qrLinksService"
 import { ticketService, TicketPriority } from "@/lib/firestore/ticketService"
 import { usersService, type User } from "@/lib/firestore/usersService"
+import { CSAT_TOKEN_STORAGE_KEY, createReporterToken } from "@/lib/ticket-csat"
+import { isMenuServed } from "@/lib/menu-approval"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
@@ -29,6 +31,7 @@ export default function PublicReportPage({ params }: { params: { id: string } })
   const [error, setError] = useState(false)
   const [submitting, setSubmitting] = useState(false)
   const [successTicketId, setSuccessTicketId] = useState<string | null>(null)
+  const [successToken, setSuccessToken] = useState<string | null>(null)
 
   // Form State
   const activeCategories = linkInfo?.customization?.issueCategories || COMPLAINT_CATEGORIES
@@ -185,11 +188,14 @@ export default function PublicReportPage({ params }: { params: { id: string } })
         )
         
         const snap = await getDocs(q)
-        if (!snap.empty) {
-          const menuDoc = snap.docs[0].data()
+        const todayDate = new Date().toISOString().split("T")[0]
+        // Only the week the client signed off is being served; drafts under review aren't
+        const menuDoc = snap.docs
+          .map((d) => d.data())
+          .find((m) => isMenuServed({ status: m.status, approvalStatus: m.approvalStatus }) && m.menuData?.[todayDate])
+        if (menuDoc) {
           const menuData = menuDoc.menuData || {}
           
-          const todayDate = new Date().toISOString().split("T")[0]
           const todayData = menuData[todayDate] || null
           
           setTodayMenuData(todayData)
@@ -384,6 +390,8 @@ ${description}
       }
       setUploadingPhotos(false)
 
+      // Proves on /report/track that this device raised the ticket, for the rating survey
+      const reporterToken = createReporterToken()
       const ticketId = await ticketService.createTicket({
         title: `${category} Issue at ${linkInfo?.cafeName}`,
         description: finalDescription,
@@ -391,17 +399,26 @@ ${description}
         creatorName: name || "Public Guest",
         companyId: linkInfo!.companyId,
         companyName: linkInfo!.companyName,
+        buildingId: linkInfo!.buildingId || '',
         buildingName: linkInfo!.buildingName || '',
+        cafeId: linkInfo!.cafeId || '',
         priority: priority,
         photos: photoUrls,
         category: category
-      })
+      }, { reporterToken })
 
       // Save to local storage so they don't lose it
       if (typeof window !== "undefined") {
         localStorage.setItem("cookhouse_last_ticket_id", ticketId)
+        try {
+          const tokens = JSON.parse(localStorage.getItem(CSAT_TOKEN_STORAGE_KEY) || "{}")
+          localStorage.setItem(CSAT_TOKEN_STORAGE_KEY, JSON.stringify({ ...tokens, [ticketId]: reporterToken }))
+        } catch (storageError) {
+          console.error("Failed to store survey token:", storageError)
+        }
       }
 
+      setSuccessToken(reporterToken)
       setSuccessTicketId(ticketId)
     } catch (err) {
       console.error(err)
@@ -443,6 +460,15 @@ ${description}
         </div>
         <h2 className="text-2xl font-bold text-gray-900 mb-3">Feedback Received</h2>
         <p className="text-gray-600 mb-6">Thank you for your feedback. Our team has been notified.</p>
+        <p className="text-xs text-gray-500 mb-1">Ticket ID</p>
+        <p className="font-mono font-bold text-gray-800 mb-6">{successTicketId}</p>
+        <Link
+          href={`/report/track?id=${successTicketId}${successToken ? `&token=${successToken}` : ""}`}
+          className="inline-flex items-center gap-2 text-sm font-semibold text-blue-600 hover:underline"
+        >
+          <Ticket className="w-4 h-4" /> Track this ticket and rate the fix
+        </Link>
+        <p className="text-[11px] text-gray-400 mt-2">Bookmark this link to rate the resolution from another device.</p>
       </div>
       </div>
     )
@@ -1,19 +1,40 @@
 "use client"
 import { useState, useEffect, Suspense } from "react"
 import { useSearchParams } from "next/navigation"
-import { ticketService, Ticket, TicketComment } from "@/lib/firestore/ticketService"
+import { ticketService, Ticket, TicketComment, TicketEvent } from "@/lib/firestore/ticketService"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
-import { Loader2, Search, AlertCircle, CheckCircle2, MessageSquare } from "lucide-react"
+import { toast } from "@/hooks/use-toast"
+import { CSAT_TOKEN_STORAGE_KEY, isCsatDue } from "@/lib/ticket-csat"
+import { Loader2, Search, AlertCircle, CheckCircle2, MessageSquare, RotateCcw, History, Star } from "lucide-react"
+
+// Survey tokens of tickets raised from this device, keyed by ticket id
+const readStoredTokens = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(CSAT_TOKEN_STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
 
 function TrackTicketContent() {
   const searchParams = useSearchParams()
   const urlId = searchParams.get('id')
+  const urlToken = searchParams.get('token')
 
   const [ticketId, setTicketId] = useState(urlId || "")
   const [ticket, setTicket] = useState<Ticket | null>(null)
   const [comments, setComments] = useState<TicketComment[]>([])
+  const [events, setEvents] = useState<TicketEvent[]>([])
+  const [reopenOpen, setReopenOpen] = useState(false)
+  const [reopenReason, setReopenReason] = useState("")
+  const [reopening, setReopening] = useState(false)
+  const [surveyToken, setSurveyToken] = useState<string | null>(null)
+  const [rating, setRating] = useState(0)
+  const [ratingComment, setRatingComment] = useState("")
+  const [submittingRating, setSubmittingRating] = useState(false)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
 
@@ -26,10 +47,15 @@ function TrackTicketContent() {
       }
     }
     
+    // Remember a token from a survey link so the rating also works after searching again
+    if (urlId && urlToken && typeof window !== "undefined") {
+      localStorage.setItem(CSAT_TOKEN_STORAGE_KEY, JSON.stringify({ ...readStoredTokens(), [urlId]: urlToken }))
+    }
+
     if (idToSearch) {
       handleSearch(idToSearch)
     }
-  }, [urlId])
+  }, [urlId, urlToken])
 
   const handleSearch = async (idToSearch: string) => {
     if (!idToSearch.trim()) return
@@ -37,9 +63,11 @@ function TrackTicketContent() {
     setError("")
     setTicket(null)
     try {
-      const [data, commentsData] = await Promise.all([
+      const [data, commentsData, eventsData] = await Promise.all([
         ticketService.getTicketById(idToSearch.trim()),
-        ticketService.getTicketComments(idToSearch.trim())
+        ticketService.getTicketComments(idToSearch.trim()),
+        // History is secondary; don't fail the lookup if it can't be read
+        ticketService.getTicketEvents(idToSearch.trim()).catch(() => [] as TicketEvent[])
       ])
       
       if (!data) {
@@ -47,6 +75,11 @@ function TrackTicketContent() {
       } else {
         setTicket(data)
         setComments(commentsData)
+        setSurveyToken(typeof window !== "undefined" ? readStoredTokens()[data.id] || null : null)
+        setRating(0)
+        setRatingComment("")
+        // Reporters only see the status trail, not internal assignment/priority changes
+        setEvents(eventsData.filter(e => e.type === 'created' || e.type === 'status' || e.type === 'reopened' || e.type === 'csat'))
       }
     } catch (e: any) {
       console.error("Firestore Error:", e)
@@ -56,10 +89,52 @@ function TrackTicketContent() {
     }
   }
 
+  const handleReopen = async () => {
+    if (!ticket || !reopenReason.trim()) return
+    setReopening(true)
+    try {
+      await ticketService.reopenTicket(ticket.id, reopenReason, { id: ticket.creatorId, name: ticket.creatorName, role: "Client" })
+      setReopenOpen(false)
+      setReopenReason("")
+      toast({ title: "Ticket reopened", description: "The facility team has been notified." })
+      await handleSearch(ticket.id)
+    } catch (e: any) {
+      console.error(e)
+      toast({ title: "Could not reopen", description: e.message || "Please try again.", variant: "destructive" })
+    } finally {
+      setReopening(false)
+    }
+  }
+
+  const handleRate = async () => {
+    if (!ticket || !surveyToken || rating < 1) return
+    setSubmittingRating(true)
+    try {
+      const res = await fetch("/api/tickets/csat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ticketId: ticket.id, token: surveyToken, rating, comment: ratingComment }),
+      })
+      const result = await res.json()
+      if (!res.ok || !result.ok) throw new Error(result.error || "Failed to submit rating")
+      toast({
+        title: "Thanks for your rating",
+        description: result.reopened ? "We're sorry it wasn't fixed properly. The ticket has been reopened." : "Your feedback helps us improve.",
+      })
+      await handleSearch(ticket.id)
+    } catch (e: any) {
+      console.error(e)
+      toast({ title: "Could not submit rating", description: e.message || "Please try again.", variant: "destructive" })
+    } finally {
+      setSubmittingRating(false)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Open': return 'bg-yellow-100 text-yellow-800 border-yellow-200'
       case 'In Progress': return 'bg-blue-100 text-blue-800 border-blue-200'
+      case 'Awaiting Client': return 'bg-amber-100 text-amber-800 border-amber-200'
       case 'Resolved': return 'bg-green-100 text-green-800 border-green-200'
       case 'Closed': return 'bg-gray-100 text-gray-800 border-gray-200'
       default: return 'bg-gray-100 text-gray-800'
@@ -121,6 +196,26 @@ function TrackTicketContent() {
             {ticket.description}
           </div>
 
+          {events.length > 0 && (
+            <div className="pt-4 border-t space-y-2">
+              <h4 className="font-bold text-gray-900 flex items-center gap-2">
+                <History className="w-4 h-4 text-gray-500" />
+                Status History
+              </h4>
+              <ul className="space-y-1 text-sm text-gray-700">
+                {events.map(e => (
+                  <li key={e.id} className="flex gap-2 flex-wrap">
+                    <span className="text-xs text-gray-500 w-36 shrink-0">{e.timestamp.toDate().toLocaleString()}</span>
+                    <span>
+                      {e.type === 'created' ? "Submitted" : e.type === 'reopened' ? "Reopened" : e.type === 'csat' ? `Rated ${e.to}` : e.to}
+                      {e.reason && <span className="text-gray-500 italic"> — {e.reason}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Comments Section */}
           {comments.length > 0 && (
             <div className="pt-6 mt-6 border-t space-y-4">
@@ -163,6 +258,69 @@ function TrackTicketContent() {
               <p className="text-sm font-medium">This issue has been resolved by our facility team!</p>
             </div>
           )}
+
+          {surveyToken && isCsatDue(ticket) && (
+            <div className="bg-white p-4 rounded-lg border space-y-3">
+              <p className="text-sm font-medium text-gray-900">How satisfied are you with how this was resolved?</p>
+              <div className="flex gap-1">
+                {[1, 2, 3, 4, 5].map(value => (
+                  <button
+                    key={value}
+                    type="button"
+                    aria-label={`${value} out of 5`}
+                    onClick={() => setRating(value)}
+                    className="p-1"
+                  >
+                    <Star className={`w-7 h-7 ${value <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+                  </button>
+                ))}
+              </div>
+              <Textarea
+                value={ratingComment}
+                onChange={e => setRatingComment(e.target.value)}
+                placeholder="Anything you'd like to add? (optional)"
+                rows={2}
+              />
+              <div className="flex justify-end">
+                <Button onClick={handleRate} disabled={rating < 1 || submittingRating}>
+                  {submittingRating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Submit Rating
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {ticket.csat && !isCsatDue(ticket) && (
+            <div className="bg-white p-3 rounded-lg border flex items-center gap-2 text-sm text-gray-700">
+              <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+              You rated this resolution {ticket.csat.rating}/5. Thank you!
+            </div>
+          )}
+
+          {(ticket.status === 'Resolved' || ticket.status === 'Closed') && (
+            reopenOpen ? (
+              <div className="bg-white p-4 rounded-lg border space-y-3">
+                <p className="text-sm font-medium text-gray-900">Still having this issue? Tell us what's wrong.</p>
+                <Textarea
+                  value={reopenReason}
+                  onChange={e => setReopenReason(e.target.value)}
+                  placeholder="Why are you reopening this ticket?"
+                  rows={3}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setReopenOpen(false)} disabled={reopening}>Cancel</Button>
+                  <Button onClick={handleReopen} disabled={!reopenReason.trim() || reopening}>
+                    {reopening && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Reopen Ticket
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" className="w-full gap-2" onClick={() => setReopenOpen(true)}>
+                <RotateCcw className="w-4 h-4" /> Not fixed? Reopen this ticket
+              </Button>
+            )
+          )}
         </div>
       )}
     </div>
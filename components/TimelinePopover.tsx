@@ -1,15 +1,25 @@
 "use client"
 
 import { memo } from 'react'
-import { ChevronDown, Clock, Plus, Trash2, ArrowRightLeft } from 'lucide-react'
+import { ChevronDown, Clock, Plus, Trash2, ArrowRightLeft, ArrowUpDown, Pencil } from 'lucide-react'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 
 export interface TimelineEntry {
   timestamp: string
   company: string
+  // Item names; for 'reordered' the old / new position, for 'description-changed' the descriptions
   oldValue: string | null
   newValue: string | null
-  action: 'added' | 'removed' | 'replaced'
+  action: 'added' | 'removed' | 'replaced' | 'reordered' | 'description-changed'
+  itemName?: string // the item a reorder or description change applies to
+}
+
+const ACTION_LABELS: Record<TimelineEntry['action'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  replaced: 'Replaced',
+  reordered: 'Moved',
+  'description-changed': 'Description',
 }
 
 export const TimelinePopover = memo(function TimelinePopover({
@@ -29,6 +39,10 @@ export const TimelinePopover = memo(function TimelinePopover({
         return 'bg-red-50 text-red-700 border-red-200'
       case 'replaced':
         return 'bg-blue-50 text-blue-700 border-blue-200'
+      case 'reordered':
+        return 'bg-sky-50 text-sky-700 border-sky-200'
+      case 'description-changed':
+        return 'bg-purple-50 text-purple-700 border-purple-200'
       default:
         return 'bg-gray-50 text-gray-700 border-gray-200'
     }
@@ -42,6 +56,10 @@ export const TimelinePopover = memo(function TimelinePopover({
         return <Trash2 className="h-3.5 w-3.5" />
       case 'replaced':
         return <ArrowRightLeft className="h-3.5 w-3.5" />
+      case 'reordered':
+        return <ArrowUpDown className="h-3.5 w-3.5" />
+      case 'description-changed':
+        return <Pencil className="h-3.5 w-3.5" />
       default:
         return <Clock className="h-3.5 w-3.5" />
     }
@@ -78,7 +96,7 @@ export const TimelinePopover = memo(function TimelinePopover({
                   <div className="flex items-center gap-2 font-semibold">
                     <div className="flex items-center gap-1.5">
                       {getActionIcon(entry.action)}
-                      <span className="capitalize">{entry.action}</span>
+                      <span>{ACTION_LABELS[entry.action] || entry.action}</span>
                     </div>
                   </div>
 
@@ -86,7 +104,20 @@ export const TimelinePopover = memo(function TimelinePopover({
                     <span className="font-medium">{entry.company}</span>
                   </div>
 
-                  {entry.action === 'replaced' ? (
+                  {(entry.action === 'reordered' || entry.action === 'description-changed') ? (
+                    <div className="pt-1 text-[10px] font-mono space-y-0.5">
+                      {entry.itemName && <div className="font-semibold">{entry.itemName}</div>}
+                      <div className="flex items-center gap-1">
+                        <span className="bg-white bg-opacity-60 px-1.5 py-0.5 rounded line-through">
+                          {entry.oldValue || 'none'}
+                        </span>
+                        <span className="text-gray-500">→</span>
+                        <span className="bg-white bg-opacity-60 px-1.5 py-0.5 rounded">
+                          {entry.newValue || 'none'}
+                        </span>
+                      </div>
+                    </div>
+                  ) : entry.action === 'replaced' ? (
                     <div className="flex items-center gap-1 pt-1 text-[10px] font-mono">
                       <span className="bg-white bg-opacity-60 px-1.5 py-0.5 rounded line-through">
                         {entry.oldValue || 'empty'}
@@ -31,6 +31,14 @@ import {
   Ticket,
   Code,
   Activity,
+  ShoppingCart,
+  Receipt,
+  BellRing,
+  Repeat,
+  ClipboardCheck,
+  Timer,
+  Route,
+  Smile,
 } from "lucide-react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
@@ -48,6 +56,7 @@ const navigation = [
   { name: "Ingredients", href: "/admin/ingredients", icon: Package, category: "ingredients" },
   { name: "GP", href: "/admin/gp", icon: Layers, category: "ingredients" },
   { name: "SubGp", href: "/admin/subgp", icon: Grid3X3, category: "ingredients" },
+  { name: "Procurement Planner", href: "/admin/procurement", icon: ShoppingCart, category: "ingredients" },
   { name: "Templates", href: "/admin/templates", icon: Tags, category: "master" },
   { name: "Brands", href: "/admin/brands", icon: Building2, category: "master" },
   { name: "Sub Brands", href: "/admin/sub-brands", icon: Building2, category: "master" },
@@ -59,6 +68,8 @@ const navigation = [
   { name: "Meal Plans", href: "/admin/meal-plans", icon: FileText, category: "meals" },
   { name: "Sub Meal Plans", href: "/admin/sub-meal-plans", icon: Grid3X3, category: "meals" },
   { name: "Menu Items", href: "/admin/menu-items", icon: FileText, category: "meals" },
+  { name: "AI Tag Review", href: "/admin/ai-tag-review", icon: ClipboardCheck, category: "meals" },
+  { name: "Recipes & Costing", href: "/admin/recipes", icon: Package, category: "meals" },
   { name: "Services", href: "/admin/services", icon: Settings, category: "services" },
   { name: "Sub Services", href: "/admin/sub-services", icon: Grid3X3, category: "services" },
   { name: "Companies", href: "/admin/companies", icon: Building2, category: "organization" },
@@ -66,11 +77,16 @@ const navigation = [
   { name: "Compliances", href: "/admin/compliances", icon: FileText, category: "organization" },
   { name: "KAM Notebook", href: "/admin/kam-notebook", icon: FileText, category: "organization" },
   { name: "Tickets & Rewards", href: "/admin/ticketing", icon: Ticket, category: "organization" },
+  { name: "SLA Policies", href: "/admin/sla-policies", icon: Timer, category: "organization" },
+  { name: "Ticket Routing", href: "/admin/ticket-routing", icon: Route, category: "organization" },
+  { name: "CSAT Trends", href: "/admin/csat", icon: Smile, category: "organization" },
   { name: "Public QR Links", href: "/admin/qr-links", icon: Ticket, category: "organization" },
   { name: "Developer Board", href: "/admin/developer-board", icon: Code, category: "organization" },
   { name: "Combined Menu Creation", href: "/admin/combined-menu", icon: Building2, category: "menu-management" },
   { name: "Combined Menu Management", href: "/admin/combined-menu-management", icon: Building2, category: "menu-management" },
   { name: "Menu Tracker", href: "/admin/updations", icon: Building2, category: "menu-management" },
+  { name: "Client Notifications", href: "/admin/client-notifications", icon: BellRing, category: "menu-management" },
+  { name: "Repetition Analytics", href: "/admin/repetition-analytics", icon: Repeat, category: "menu-management" },
   { name: "Company Wise Menu", href: "/admin/company-menus", icon: Building, category: "menu-management" },
   { name: "Presentation", href: "/admin/presentation", icon: MonitorUp, category: "menu-management" },
   { name: "Corporate Deck (PDF)", href: "/admin/corporate-deck", icon: FileText, category: "menu-management" },
@@ -81,6 +97,7 @@ const navigation = [
   { name: "Structure Management", href: "/admin/structure-management", icon: Settings, category: "organization" },
   { name: "Meal Plan Structure", href: "/admin/meal-plan-structure", icon: FileText, category: "organization" },
   { name: "Vendors Management", href: "/admin/vendors", icon: FileText, category: "vendors" },
+  { name: "Client Billing", href: "/admin/billing", icon: Receipt, category: "vendors" },
   { name: "Attendance Management", href: "/admin/attendance", icon: MapPin, category: "attendance" },
   { name: "Admin Activity", href: "/admin/attendance-dashboard", icon: Activity, category: "attendance" },
   { name: "Task Manager", href: "/admin/task-manager", icon: Code, category: "tasks" },
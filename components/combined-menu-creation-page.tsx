@@ -452,6 +452,8 @@ export default function CombinedMenuCreationPage() {
               ...companyMenu,
               combinedMenuId,
               status: "active",
+              approvalStatus: "draft",
+              approvalCycle: 1,
             })
           }
         }
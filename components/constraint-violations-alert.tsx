@@ -0,0 +1,69 @@
+import React, { useState } from "react"
+import { ShieldAlert, ChevronDown, ChevronUp } from "lucide-react"
+import type { ConstraintKind, ConstraintReport } from "@/lib/menu-constraints"
+
+interface ConstraintViolationsAlertProps {
+  report: ConstraintReport
+  serviceNames: Map<string, string>
+  subMealPlanNames: Map<string, string>
+  compact?: boolean
+  defaultExpanded?: boolean
+}
+
+const KIND_LABELS: Record<ConstraintKind, string> = {
+  frequency: "Frequency",
+  "cell-rule": "Cell rule",
+  "day-rule": "Day rule",
+  cooldown: "Cooldown",
+}
+
+export function ConstraintViolationsAlert({ report, serviceNames, subMealPlanNames, compact, defaultExpanded = true }: ConstraintViolationsAlertProps) {
+  const [expanded, setExpanded] = useState(defaultExpanded)
+  const { violations, counts, uncheckedRules } = report
+  if (violations.length === 0) return null
+
+  const summary = (Object.keys(counts) as ConstraintKind[])
+    .filter((kind) => counts[kind] > 0)
+    .map((kind) => `${counts[kind]} ${KIND_LABELS[kind].toLowerCase()}`)
+    .join(" · ")
+
+  return (
+    <div className={compact ? "rounded-md border border-red-200 bg-red-50 p-3" : "px-6 py-3 bg-red-50 border-b border-red-200"}>
+      <div className="flex items-start gap-3">
+        <ShieldAlert className="h-5 w-5 text-red-600 mt-0.5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-2 text-left">
+            <h3 className="font-semibold text-red-900 text-sm">
+              {violations.length === 1 ? "1 Constraint Violation" : `${violations.length} Constraint Violations`}
+              {summary && <span className="font-normal text-red-700"> ({summary})</span>}
+            </h3>
+            {expanded ? <ChevronUp className="h-4 w-4 text-red-700" /> : <ChevronDown className="h-4 w-4 text-red-700" />}
+          </button>
+          {expanded && (
+            <div className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+              {violations.map((violation, idx) => (
+                <p key={`${violation.kind}-${violation.date}-${idx}`} className="text-xs text-red-700">
+                  <span className="font-medium">
+                    {new Date(violation.date).toLocaleDateString("en-US", { month: "short", day: "numeric" })} ·{" "}
+                    {serviceNames.get(violation.serviceId) || "Service"}
+                    {violation.subMealPlanId && ` · ${subMealPlanNames.get(violation.subMealPlanId) || "Sub meal"}`}
+                  </span>{" "}
+                  <span className={`px-1 rounded text-[10px] font-bold ${violation.severity === "error" ? "bg-red-200 text-red-900" : "bg-amber-200 text-amber-900"}`}>
+                    {KIND_LABELS[violation.kind]}
+                  </span>{" "}
+                  {violation.message}
+                  {violation.rule && <span className="italic text-red-500"> — “{violation.rule}”</span>}
+                </p>
+              ))}
+            </div>
+          )}
+          {expanded && uncheckedRules.length > 0 && (
+            <p className="text-[11px] text-red-600 mt-2 font-medium">
+              Not machine-checkable (AI prompt only): {uncheckedRules.map((rule) => `“${rule}”`).join(", ")}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,8 +6,11 @@ import { useAuth } from "@/hooks/use-auth";
 import { db } from "@/lib/firebase";
 import { collection, query, where, getDocs, Timestamp, onSnapshot } from "firebase/firestore";
 import { ticketService } from "@/lib/firestore/ticketService";
+import { vendorContractsService } from "@/lib/firestore";
+import { getContractAlerts } from "@/lib/contract-lifecycle";
+import { clientNotificationsService } from "@/lib/firestore/clientNotificationsService";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { ShieldAlert, ShieldCheck, Clock, Users, AlertTriangle, FileText, CheckCircle2, Ticket } from "lucide-react";
+import { ShieldAlert, ShieldCheck, Clock, Users, AlertTriangle, FileText, CheckCircle2, Ticket, RefreshCw, Bell } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
@@ -25,6 +28,8 @@ export function CompanyAdminDashboard({ companyIdOverride }: { companyIdOverride
   const [isIncreaseModalOpen, setIsIncreaseModalOpen] = useState(false);
   const [increaseAmount, setIncreaseAmount] = useState<number>(0);
   const [increaseReason, setIncreaseReason] = useState("");
+  const [contractAlerts, setContractAlerts] = useState<any[]>([]);
+  const [menuNotifications, setMenuNotifications] = useState<any[]>([]);
 
   useEffect(() => {
     const targetCompanyId = companyIdOverride || userProfile?.companyIds?.[0];
@@ -155,6 +160,19 @@ export function CompanyAdminDashboard({ companyIdOverride }: { companyIdOverride
 
     setupListeners();
 
+    vendorContractsService.getWhere('companyId', '==', targetCompanyId)
+      .then((contracts) => {
+        const visible = userProfile?.vendorId ? contracts.filter(c => c.vendorId === userProfile.vendorId) : contracts;
+        setContractAlerts(getContractAlerts(visible));
+      })
+      .catch((error) => console.error("Contracts fetch error:", error));
+
+    if (userProfile?.id) {
+      clientNotificationsService.getForUser(userProfile.id)
+        .then((notifications) => setMenuNotifications(notifications.filter(n => n.companyId === targetCompanyId).slice(0, 10)))
+        .catch((error) => console.error("Menu notifications fetch error:", error));
+    }
+
     return () => {
       if (unsubscribeCafeterias) unsubscribeCafeterias();
       if (unsubscribeUsers) unsubscribeUsers();
@@ -162,6 +180,16 @@ export function CompanyAdminDashboard({ companyIdOverride }: { companyIdOverride
     };
   }, [userProfile, companyIdOverride]);
 
+  const handleMarkNotificationRead = async (id: string) => {
+    try {
+      await clientNotificationsService.markRead(id);
+      setMenuNotifications(prev => prev.map(n => n.id === id ? { ...n, read: true } : n));
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      toast.error("Failed to update notification");
+    }
+  };
+
   const handleRaiseShortageTicket = async () => {
     const targetCompanyId = companyIdOverride || userProfile?.companyIds?.[0];
     if (!targetCompanyId) return;
@@ -298,8 +326,90 @@ export function CompanyAdminDashboard({ companyIdOverride }: { companyIdOverride
             </div>
           </CardContent>
         </Card>
+
+        {/* Contract Expiry */}
+        <Card className={contractAlerts.length > 0 ? "border-amber-200 shadow-sm" : "shadow-sm"}>
+          <CardHeader className="pb-3 border-b bg-gray-50/50">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FileText className="h-5 w-5 text-amber-600" />
+              Vendor Contracts
+            </CardTitle>
+            <CardDescription>Contracts ending within the next 30 days.</CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-3">
+            {contractAlerts.length === 0 ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-center gap-3">
+                <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0" />
+                <div>
+                  <h4 className="text-sm font-semibold text-green-800">No Upcoming Expiries</h4>
+                  <p className="text-xs text-green-600 mt-0.5">All active vendor contracts run beyond 30 days.</p>
+                </div>
+              </div>
+            ) : (
+              contractAlerts.map(({ contract, daysLeft, severity }) => (
+                <div key={contract.id} className="border rounded-lg p-3 flex items-start justify-between gap-3">
+                  <div>
+                    <div className="text-sm font-semibold text-gray-900">{contract.vendorName}</div>
+                    <div className="text-xs text-gray-500 font-mono">{contract.contractNumber} · ends {contract.endDate}</div>
+                    {contract.autoRenewal && (
+                      <div className="text-xs text-blue-600 mt-1 flex items-center gap-1">
+                        <RefreshCw className="h-3 w-3" /> Auto-renews at +{contract.escalationPercent || 0}%
+                      </div>
+                    )}
+                  </div>
+                  <Badge variant="outline" className={`${severity === 'warning' ? 'bg-orange-100 text-orange-700 border-orange-200' : 'bg-red-100 text-red-700 border-red-200'} font-medium border shrink-0`}>
+                    {daysLeft < 0 ? 'Expired' : daysLeft === 0 ? 'Ends today' : `${daysLeft}d left`}
+                  </Badge>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Menu Change Notifications */}
+      {menuNotifications.length > 0 && (
+        <Card className="shadow-sm">
+          <CardHeader className="pb-3 border-b bg-gray-50/50">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Bell className="h-5 w-5 text-blue-600" />
+              Menu Updates
+              {menuNotifications.some(n => !n.read) && (
+                <Badge className="bg-blue-600 text-white">{menuNotifications.filter(n => !n.read).length} new</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>Changes your caterer made to upcoming menus.</CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-3">
+            {menuNotifications.map((notification) => (
+              <div key={notification.id} className={`border rounded-lg p-3 ${notification.read ? '' : 'border-blue-200 bg-blue-50/40'}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="text-sm font-semibold text-gray-900">{notification.title}</div>
+                    <div className="text-xs text-gray-500">
+                      {notification.createdAt?.toDate ? notification.createdAt.toDate().toLocaleString() : ''}
+                      {notification.updationNumber ? ` · U${notification.updationNumber}` : ''}
+                    </div>
+                  </div>
+                  {!notification.read && (
+                    <Button variant="ghost" size="sm" className="text-xs h-7" onClick={() => handleMarkNotificationRead(notification.id)}>
+                      Mark read
+                    </Button>
+                  )}
+                </div>
+                <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                  {(notification.rows || []).map((row, idx) => (
+                    <li key={idx} className="text-xs text-gray-700">
+                      <span className="font-medium">{row.date} · {row.serviceName}:</span> {row.change}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Compliance Tracker */}
       <Card className="shadow-sm">
         <CardHeader className="pb-3 border-b bg-gray-50/50">
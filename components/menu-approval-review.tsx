@@ -0,0 +1,255 @@
+"use client"
+
+import { useState, useEffect, useMemo, useCallback } from "react"
+import { MenuViewModal } from "@/components/menu-view-modal"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useAuth } from "@/hooks/use-auth"
+import { toast } from "@/hooks/use-toast"
+import { menuApprovalService, type MenuCellComment } from "@/lib/firestore/menuApprovalService"
+import {
+  APPROVAL_STATUS_COLORS,
+  APPROVAL_STATUS_LABELS,
+  TRANSITION_LABELS,
+  getApprovalActor,
+  getAvailableTransitions,
+  getApprovalStatus,
+  type MenuApprovalStatus,
+} from "@/lib/menu-approval"
+import type { CompanyMenu, MenuItem } from "@/lib/types"
+import { CheckCircle2, Loader2, MessageSquare, Send, Undo2 } from "lucide-react"
+
+interface MenuApprovalReviewProps {
+  isOpen: boolean
+  onClose: () => void
+  menu: Pick<CompanyMenu, "id" | "approvalStatus" | "approvalCycle">
+  preloadedMenuItems?: MenuItem[]
+  onStatusChange?: () => void
+}
+
+interface CommentTarget {
+  cellKey: string
+  date: string
+  serviceId: string
+  mealPlanId: string
+  subMealPlanId: string
+  label: string
+}
+
+/**
+ * Read-only week view for client sign-off: reviewers comment on cells and approve or
+ * request changes; the vendor sees the same comments and can resolve them.
+ */
+export function MenuApprovalReview({ isOpen, onClose, menu, preloadedMenuItems, onStatusChange }: MenuApprovalReviewProps) {
+  const { userProfile } = useAuth()
+  const actor = getApprovalActor(userProfile?.userType)
+  const status = getApprovalStatus(menu)
+  const cycle = menu.approvalCycle || 1
+
+  const [comments, setComments] = useState<MenuCellComment[]>([])
+  const [commentTarget, setCommentTarget] = useState<CommentTarget | null>(null)
+  const [commentText, setCommentText] = useState("")
+  const [pendingTransition, setPendingTransition] = useState<MenuApprovalStatus | null>(null)
+  const [transitionNote, setTransitionNote] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const loadComments = useCallback(async () => {
+    try {
+      setComments(await menuApprovalService.getComments(menu.id))
+    } catch (error) {
+      console.error("Error loading menu comments:", error)
+    }
+  }, [menu.id])
+
+  useEffect(() => {
+    if (isOpen) loadComments()
+  }, [isOpen, loadComments])
+
+  // Only open comments of the current cycle are highlighted on the grid
+  const cellCommentCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    comments
+      .filter((c) => !c.resolved && (c.cycle || 1) === cycle)
+      .forEach((c) => (counts[c.cellKey] = (counts[c.cellKey] || 0) + 1))
+    return counts
+  }, [comments, cycle])
+
+  const openCount = Object.values(cellCommentCounts).reduce((sum, n) => sum + n, 0)
+  const transitions = getAvailableTransitions(status, actor).filter((to) => to !== "draft")
+  const targetComments = commentTarget ? comments.filter((c) => c.cellKey === commentTarget.cellKey) : []
+
+  const handleAddComment = async () => {
+    if (!commentTarget || !commentText.trim() || !userProfile) return
+    setSaving(true)
+    try {
+      const { label, ...cell } = commentTarget
+      await menuApprovalService.addComment({
+        ...cell,
+        menuId: menu.id,
+        cycle,
+        text: commentText.trim(),
+        authorId: userProfile.id,
+        authorName: userProfile.name,
+        authorType: actor,
+      })
+      setCommentText("")
+      await loadComments()
+    } catch (error) {
+      console.error("Error adding comment:", error)
+      toast({ title: "Error", description: "Failed to add comment", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleResolve = async (comment: MenuCellComment) => {
+    try {
+      await menuApprovalService.setCommentResolved(comment.id, !comment.resolved)
+      await loadComments()
+    } catch (error) {
+      console.error("Error updating comment:", error)
+      toast({ title: "Error", description: "Failed to update comment", variant: "destructive" })
+    }
+  }
+
+  const handleTransition = async () => {
+    if (!pendingTransition || !userProfile) return
+    if (pendingTransition === "changes-requested" && !transitionNote.trim() && openCount === 0) {
+      toast({ title: "Add a note", description: "Comment on a cell or describe the changes you need.", variant: "destructive" })
+      return
+    }
+    setSaving(true)
+    try {
+      await menuApprovalService.transition(
+        menu.id,
+        pendingTransition,
+        { id: userProfile.id, name: userProfile.name, type: actor },
+        transitionNote.trim() || undefined,
+      )
+      toast({ title: APPROVAL_STATUS_LABELS[pendingTransition], description: "Menu status updated" })
+      setPendingTransition(null)
+      setTransitionNote("")
+      onStatusChange?.()
+    } catch (error: any) {
+      console.error("Error updating approval status:", error)
+      toast({ title: "Error", description: error?.message || "Failed to update status", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const headerActions = (
+    <div className="flex items-center gap-2 mr-2">
+      <span className={`text-xs font-bold px-2 py-1 rounded border ${APPROVAL_STATUS_COLORS[status]}`}>
+        {APPROVAL_STATUS_LABELS[status]}
+      </span>
+      {openCount > 0 && (
+        <span className="text-xs font-bold px-2 py-1 rounded bg-amber-500 text-white flex items-center gap-1">
+          <MessageSquare className="h-3 w-3" /> {openCount} open
+        </span>
+      )}
+      {transitions.map((to) => (
+        <Button
+          key={to}
+          size="sm"
+          variant={to === "changes-requested" ? "outline" : "default"}
+          className={to === "changes-requested" ? "" : "bg-emerald-600 hover:bg-emerald-700 text-white"}
+          onClick={() => setPendingTransition(to)}
+        >
+          {to === "changes-requested" ? <Undo2 className="h-4 w-4 mr-2" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+          {TRANSITION_LABELS[to]}
+        </Button>
+      ))}
+    </div>
+  )
+
+  return (
+    <>
+      <MenuViewModal
+        isOpen={isOpen}
+        onClose={onClose}
+        menuId={menu.id}
+        menuType="company"
+        preloadedMenuItems={preloadedMenuItems}
+        readOnly
+        headerActions={headerActions}
+        cellCommentCounts={cellCommentCounts}
+        onCellComment={(cell) => setCommentTarget(cell)}
+      />
+
+      <Dialog open={!!commentTarget} onOpenChange={(open) => !open && setCommentTarget(null)}>
+        <DialogContent className="max-w-lg z-[80]">
+          <DialogHeader>
+            <DialogTitle className="text-base">{commentTarget?.label}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {targetComments.length === 0 && <p className="text-sm text-gray-400 italic">No comments on this cell yet.</p>}
+            {targetComments.map((comment) => (
+              <div key={comment.id} className={`p-2 rounded border text-sm ${comment.resolved ? "bg-gray-50 opacity-60" : "bg-amber-50 border-amber-200"}`}>
+                <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                  <span className="font-semibold">
+                    {comment.authorName} · {comment.authorType === "client" ? "Client" : "Vendor"}
+                    {(comment.cycle || 1) !== cycle && ` · cycle ${comment.cycle || 1}`}
+                  </span>
+                  {actor === "vendor" && (
+                    <button onClick={() => handleResolve(comment)} className="text-indigo-600 hover:underline">
+                      {comment.resolved ? "Reopen" : "Resolve"}
+                    </button>
+                  )}
+                </div>
+                <p className={comment.resolved ? "line-through" : ""}>{comment.text}</p>
+              </div>
+            ))}
+          </div>
+          <Textarea
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            placeholder="e.g. Please swap this for a non-fried option"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCommentTarget(null)}>
+              Close
+            </Button>
+            <Button onClick={handleAddComment} disabled={saving || !commentText.trim()}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Comment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!pendingTransition} onOpenChange={(open) => !open && setPendingTransition(null)}>
+        <DialogContent className="max-w-md z-[80]">
+          <DialogHeader>
+            <DialogTitle>{pendingTransition && TRANSITION_LABELS[pendingTransition]}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            {pendingTransition === "client-approved" &&
+              "Approving locks the menu; the vendor can only change it by opening a new updation cycle."}
+            {pendingTransition === "changes-requested" &&
+              `${openCount} open cell comment${openCount === 1 ? "" : "s"} will be sent back with this request.`}
+            {pendingTransition === "submitted" && "The client will be able to review the week and approve it or request changes."}
+            {pendingTransition === "published" && "The approved menu becomes the live menu for this building."}
+          </p>
+          <Textarea
+            value={transitionNote}
+            onChange={(e) => setTransitionNote(e.target.value)}
+            placeholder="Note (optional)"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingTransition(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleTransition} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -8,8 +8,10 @@ import { Label } from "@/components/ui/label"
 import { ChevronLeft , Globe2  } from "lucide-react";
 import { createPortal } from 'react-dom' // <--- ADD THIS IMPORT
 import { useAuth } from "@/hooks/use-auth"
-import { useMenuPresence } from "@/hooks/use-menu-presence"
+import { useMenuPresence, getCellLockHolder } from "@/hooks/use-menu-presence"
 import { useLiveMenuEdits } from "@/hooks/use-live-menu-edits"
+import { useOfflineMenuQueue } from "@/hooks/use-offline-menu-queue"
+import { useRecipeCosting } from "@/hooks/use-recipe-costing"
 import {
   Loader2,
   Save,
@@ -28,10 +30,15 @@ import {
   Minus,
   ArrowRightLeft,
   FileArchive,
-  Zap
+  Zap,
+  History,
+  Lock,
+  Cpu,
+  RefreshCw,
+  CalendarRange
 } from 'lucide-react'
 import { toast } from "@/hooks/use-toast"
-import type { Service, MealPlan, SubMealPlan, MenuItem, SubService } from "@/lib/types"
+import type { Service, MealPlan, SubMealPlan, MenuItem, SubService, MenuPlanningRule } from "@/lib/types"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import {
   servicesService,
@@ -42,10 +49,18 @@ import {
   mealPlanStructureAssignmentsService,
   companiesService,
   buildingsService,
+  menuPlanningRulesService,
 } from "@/lib/services"
 import { collection, getDocs, doc, getDoc, updateDoc, addDoc, query, where, writeBatch, serverTimestamp } from "firebase/firestore"
 import { db } from "@/lib/firebase"
 import { detectMenuChanges, createChangeSummary } from "@/lib/change-detector"
+import { calculateCellCosting } from "@/lib/recipe-costing"
+import { rollupMenuNutrition, checkNutritionTargets } from "@/lib/nutrition-rollup"
+import { NutritionViolationsAlert } from "@/components/nutrition-violations-alert"
+import { findDietaryGaps } from "@/lib/dietary-matcher"
+import { forEachMenuCell, getCellKey } from "@/lib/menu-cells"
+import { reconcileQueuedEdits, type QueuedEditConflict } from "@/lib/offline-menu-queue"
+import { employeesService, type Employee } from "@/lib/firestore"
 import { ChoiceSelectionModal, BuildingMenuGrid } from "@/components/choice-selection-modal"
 import { UpdationRecordBadge as ImportedUpdationRecordBadge } from "@/components/menu-edit-modal/updation-record-badge"
 import { RemovedItemsModal as ImportedRemovedItemsModal } from "@/components/menu-edit-modal/removed-items-modal"
@@ -53,6 +68,16 @@ import { TimelineEntry as ImportedTimelineEntry } from "@/components/menu-edit-m
 import { ServiceNavigationPanel as ImportedServiceNavigationPanel } from "@/components/menu-edit-modal/service-navigation-panel"
 import { LoadingProgress as ImportedLoadingProgress } from "@/components/menu-edit-modal/loading-progress"
 import { DetailedDataScreen as ImportedDetailedDataScreen } from "@/components/menu-edit-modal/detailed-data-screen"
+import { MenuVersionsDialog } from "@/components/menu-edit-modal/menu-versions-dialog"
+import { MenuTemplatesDialog } from "@/components/menu-edit-modal/menu-templates-dialog"
+import { OfflineReconcileDialog, type OfflineResolution } from "@/components/menu-edit-modal/offline-reconcile-dialog"
+import { menuVersionsService } from "@/lib/firestore/menuVersionsService"
+import { clientNotificationsService } from "@/lib/firestore/clientNotificationsService"
+import { getAffectedBuildings } from "@/lib/change-digest"
+import { isMenuLocked, APPROVAL_STATUS_LABELS } from "@/lib/menu-approval"
+import { validateMenu, getFrequencyLimits } from "@/lib/menu-constraints"
+import { findCooldownConflict } from "@/lib/repetition-analytics"
+import { ConstraintViolationsAlert } from "@/components/constraint-violations-alert"
 
 // --- Local Services Definition ---
 // --- Types ---
@@ -113,6 +138,7 @@ interface UpdationRecord {
   appliedToAllBuildings?: boolean
   appliedBuildingIds?: string[]
   otherBuildingsCount?: number
+  skippedLockedBuildings?: string[]
 }
 
 // --- Local Services Definition (To prevent import errors) ---
@@ -1647,7 +1673,11 @@ const MenuGridCell = memo(function MenuGridCell({
   originalMenuData,
   menuType = "combined",
   selectedChoiceItems = {},
-  activeEditorNames = [] // <--- ADDED
+  activeEditorNames = [], // <--- ADDED
+  conflictEditorNames = [],
+  onDismissConflict,
+  cellCosting = null,
+  dietaryGap = null
 }: any) {
   const [isOpen, setIsOpen] = useState(false)
 
@@ -2002,11 +2032,58 @@ const MenuGridCell = memo(function MenuGridCell({
           </span>
         </div>
       )}
+      {cellCosting && cellCosting.costedItems > 0 && !isActive && (
+        <div className="absolute bottom-1 right-1 z-10 pointer-events-none">
+          <span
+            className={`text-[9px] font-bold px-1.5 py-0.5 rounded border shadow-sm ${
+              cellCosting.marginPercent === null
+                ? "bg-gray-100 text-gray-600 border-gray-200"
+                : cellCosting.marginPercent < 0
+                  ? "bg-red-100 text-red-700 border-red-200"
+                  : cellCosting.marginPercent < 30
+                    ? "bg-amber-100 text-amber-700 border-amber-200"
+                    : "bg-green-100 text-green-700 border-green-200"
+            }`}
+            title={`Food cost ₹${cellCosting.foodCost.toFixed(2)} / Price ₹${cellCosting.sellingPrice.toFixed(2)}${cellCosting.uncostedItems > 0 ? ` (${cellCosting.uncostedItems} item(s) without recipe)` : ""}`}
+          >
+            {cellCosting.marginPercent === null ? "No price" : `${cellCosting.marginPercent.toFixed(0)}% GM`}
+          </span>
+        </div>
+      )}
+      {dietaryGap && !isActive && (
+        <div className="absolute bottom-1 left-1 z-10">
+          <span
+            className="text-[9px] font-bold px-1.5 py-0.5 rounded border shadow-sm bg-rose-100 text-rose-700 border-rose-200 cursor-help"
+            title={dietaryGap.affected.map((a: any) => `${a.name}: ${a.reasons.join(", ")}`).join("\n")}
+          >
+            {dietaryGap.affected.length}/{dietaryGap.subscribedCount} no safe option
+          </span>
+        </div>
+      )}
       {activeEditorNames.length > 0 && (
         <div className="absolute -top-3 right-2 bg-amber-500 text-white text-[10px] px-1.5 py-0.5 rounded shadow-sm z-50 animate-pulse whitespace-nowrap">
           {activeEditorNames.join(", ")} editing...
         </div>
       )}
+      {conflictEditorNames.length > 0 && (
+        <div
+          className="absolute -top-3 left-2 flex items-center gap-1 bg-red-600 text-white text-[10px] px-1.5 py-0.5 rounded shadow-sm z-50 whitespace-nowrap"
+          title="These editors changed this cell at the same time. Both edits were merged; check the result."
+        >
+          <AlertCircle className="h-3 w-3" />
+          Edited together: {conflictEditorNames.join(", ")}
+          <button
+            type="button"
+            className="ml-1 opacity-80 hover:opacity-100"
+            onClick={(e) => {
+              e.stopPropagation()
+              onDismissConflict?.()
+            }}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
       {isRedState && (
         <div className="absolute inset-0 bg-red-500/5 pointer-events-none flex items-center justify-center">
           <AlertCircle className="h-8 w-8 text-red-100 opacity-50" />
@@ -2309,6 +2386,8 @@ const MenuGridCell = memo(function MenuGridCell({
                   if (relevantCell) {
                     const updationIndex = (upd as any).updationNumber || (idx + 1);
                     relevantCell.changes.forEach((ch: any) => {
+                      // Reorders and description edits don't change which items are in the cell
+                      if (ch.action === "reordered" || ch.action === "description-changed") return;
                       const itemId = ch.action === "removed" || ch.action === "replaced" ? ch.itemId : (ch.replacedWith || ch.itemId);
                       if (itemId) {
                         finalStatePerItem.set(itemId, {
@@ -2770,6 +2849,21 @@ const LoadingProgress = ImportedLoadingProgress
 //   )
 // })
 
+// Writes whole cells (keyed by getCellKey) into the nested menu data without touching other cells
+const mergeCellsIntoMenuData = (prev: any, cells: Record<string, any>) => {
+  const nextData = { ...prev };
+  Object.keys(cells).forEach(key => {
+    const [date, serviceId, subServiceId, mealPlanId, subMealPlanId] = key.split('|');
+    // Copy along the path so `prev` stays intact for change detection
+    nextData[date] = { ...nextData[date] };
+    nextData[date][serviceId] = { ...nextData[date][serviceId] };
+    nextData[date][serviceId][subServiceId] = { ...nextData[date][serviceId][subServiceId] };
+    nextData[date][serviceId][subServiceId][mealPlanId] = { ...nextData[date][serviceId][subServiceId][mealPlanId] };
+    nextData[date][serviceId][subServiceId][mealPlanId][subMealPlanId] = cells[key];
+  });
+  return nextData;
+};
+
 // --- Main Modal Component ---
 export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, preloadedMenuItems, mode = "edit", createStartDate, createEndDate }: MenuEditModalProps) {
   const isCreateMode = mode === "create";
@@ -2779,21 +2873,12 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
   // Collaborative Hooks
   const liveMenuId = isOpen && menuId && !isCreateMode ? menuId : "";
   const { activeEditors, updateActiveCell } = useMenuPresence(liveMenuId, user?.uid, userName);
-  const { broadcastEdit, clearDrafts } = useLiveMenuEdits(liveMenuId, (remoteChanges) => {
-    setRawMenuData((prev: any) => {
-      // Merge remote changes at the deepest cell level to prevent overwriting other cells
-      const nextData = { ...prev };
-      Object.keys(remoteChanges).forEach(key => {
-        const [date, serviceId, subServiceId, mealPlanId, subMealPlanId] = key.split('|');
-        if (!nextData[date]) nextData[date] = {};
-        if (!nextData[date][serviceId]) nextData[date][serviceId] = {};
-        if (!nextData[date][serviceId][subServiceId]) nextData[date][serviceId][subServiceId] = {};
-        if (!nextData[date][serviceId][subServiceId][mealPlanId]) nextData[date][serviceId][subServiceId][mealPlanId] = {};
-        nextData[date][serviceId][subServiceId][mealPlanId][subMealPlanId] = remoteChanges[key];
-      });
-      return nextData;
-    });
+  const { broadcastEdit, clearDrafts, conflicts: draftConflicts, dismissConflict } = useLiveMenuEdits(liveMenuId, userName, (remoteChanges) => {
+    // Merge remote changes at the deepest cell level to prevent overwriting other cells
+    setRawMenuData((prev: any) => mergeCellsIntoMenuData(prev, remoteChanges));
   });
+  // Edits made while offline go to a persisted queue instead of RTDB
+  const { isOnline, queuedCount, queueEdit, getQueuedEdits, clearQueuedEdits } = useOfflineMenuQueue(liveMenuId);
 
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
@@ -2810,10 +2895,16 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
   // Stale-closure prevention for setMenuData proxy
   const liveMenuIdRef = useRef(liveMenuId);
   const broadcastEditRef = useRef(broadcastEdit);
+  const isOnlineRef = useRef(isOnline);
+  const queueEditRef = useRef(queueEdit);
+  // Last loaded server copy; queued offline edits take their conflict base from it, not from local state
+  const originalMenuDataRef = useRef<any>({});
   useEffect(() => {
     liveMenuIdRef.current = liveMenuId;
     broadcastEditRef.current = broadcastEdit;
-  }, [liveMenuId, broadcastEdit]);
+    isOnlineRef.current = isOnline;
+    queueEditRef.current = queueEdit;
+  }, [liveMenuId, broadcastEdit, isOnline, queueEdit]);
 
   const setMenuData = useCallback((valOrFn: any) => {
     setRawMenuData((prev: any) => {
@@ -2825,10 +2916,15 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
       const diffs = detectMenuChanges(prev, nextState, new Map());
       if (diffs.length > 0 && liveMenuIdRef.current) {
         diffs.forEach(change => {
-           const cellKey = `${change.date}|${change.serviceId}|${change.subServiceId || ""}|${change.mealPlanId}|${change.subMealPlanId}`;
+           const cellKey = getCellKey(change);
+           const prevCell = prev[change.date]?.[change.serviceId]?.[change.subServiceId || ""]?.[change.mealPlanId]?.[change.subMealPlanId];
            const cellData = nextState[change.date]?.[change.serviceId]?.[change.subServiceId || ""]?.[change.mealPlanId]?.[change.subMealPlanId];
            if (cellData !== undefined) {
-             broadcastEditRef.current(cellKey, cellData);
+             if (isOnlineRef.current) broadcastEditRef.current(cellKey, prevCell, cellData);
+             else {
+               const serverCell = originalMenuDataRef.current[change.date]?.[change.serviceId]?.[change.subServiceId || ""]?.[change.mealPlanId]?.[change.subMealPlanId];
+               queueEditRef.current(cellKey, serverCell, cellData);
+             }
            }
         });
       }
@@ -2840,6 +2936,9 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
   // Remap rawMenuData to menuData for the rest of the file
   const menuData = rawMenuData;
   const [originalMenuData, setOriginalMenuData] = useState<any>({})
+  useEffect(() => {
+    originalMenuDataRef.current = originalMenuData;
+  }, [originalMenuData]);
   // FIXED: Separate state for the TRUE original (OG) baseline that is locked forever
   // This is set ONCE on initial load and NEVER updated, ensuring OG items always remain the same
   const [ogMenuData, setOgMenuData] = useState<any>({})
@@ -2877,6 +2976,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
   const [mealPlans, setMealPlans] = useState<MealPlan[]>([])
   const [subMealPlans, setSubMealPlans] = useState<SubMealPlan[]>([])
   const [menuItems, setMenuItems] = useState<MenuItem[]>([])
+  const { costings: recipeCostings } = useRecipeCosting(menuItems, isOpen)
 
   const [prevWeekMap, setPrevWeekMap] = useState<Record<string, any>>({})
   const [repetitionLog, setRepetitionLog] = useState<any[]>([])
@@ -2895,6 +2995,96 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
   const [mealPlanAssignments, setMealPlanAssignments] = useState<any[]>([])
   const [allStructureAssignments, setAllStructureAssignments] = useState<any[]>([])
 
+  // Nutrition targets are configured per building, so only company menus are checked
+  const nutritionViolations = useMemo(() => {
+    if (menuType !== "company" || !menu?.buildingId) return []
+    const building = buildings.find((b: any) => b.id === menu.buildingId)
+    if (!building?.nutritionTargets?.length) return []
+    const menuItemsMap = new Map(menuItems.map((item) => [item.id, item]))
+    const serviceNames = new Map(services.map((s) => [s.id, s.name]))
+    return checkNutritionTargets(rollupMenuNutrition(menuData, menuItemsMap), building.nutritionTargets, serviceNames)
+  }, [menuType, menu?.buildingId, buildings, menuItems, menuData, services])
+
+  // Subscribed employees' preferences drive the inline dietary gap badges (company menus only)
+  const [buildingEmployees, setBuildingEmployees] = useState<Employee[]>([])
+  useEffect(() => {
+    if (!isOpen || menuType !== "company" || !menu?.buildingId) return
+    employeesService
+      .getWhere("buildingId", "==", menu.buildingId)
+      .then(setBuildingEmployees)
+      .catch((error) => console.error("Failed to load building employees:", error))
+  }, [isOpen, menuType, menu?.buildingId])
+
+  // Planning rules + the previous two weeks (or the longest cooldown) feed the shared constraint engine
+  const [planningRules, setPlanningRules] = useState<MenuPlanningRule[]>([])
+  const [constraintHistory, setConstraintHistory] = useState<any>({})
+  const itemCooldowns = useMemo(() => {
+    const cooldowns: Record<string, number> = {}
+    menuItems.forEach((item) => {
+      if (item.cooldownDays > 0) cooldowns[item.id] = item.cooldownDays
+    })
+    return cooldowns
+  }, [menuItems])
+  const historyDays = Math.max(
+    14,
+    ...Object.values(itemCooldowns),
+    ...planningRules.map((rule) => rule.cooldownDays || 0),
+  )
+  useEffect(() => {
+    if (!isOpen || services.length === 0 || subServices.size === 0) return
+    const companyId = menuType === "company" ? menu?.companyId : null
+    // Validate against the rule versions in force for the menu's week, not today's
+    const asOf = menu?.startDate || createStartDate
+    const pairs = services.flatMap((s) => (subServices.get(s.id) || []).map((ss) => [s.id, ss.id] as const))
+    Promise.all(pairs.map(([serviceId, subServiceId]) => menuPlanningRulesService.getMergedRule(serviceId, subServiceId, companyId, asOf)))
+      .then((rules) => setPlanningRules(rules.filter((rule): rule is MenuPlanningRule => !!rule)))
+      .catch((error) => console.error("Failed to load planning rules:", error))
+  }, [isOpen, services, subServices, menuType, menu?.companyId, menu?.startDate, createStartDate])
+
+  useEffect(() => {
+    const startDate = menu?.startDate || createStartDate
+    if (!isOpen || !startDate) return
+    const historyStart = new Date(startDate)
+    historyStart.setDate(historyStart.getDate() - historyDays)
+    getDocs(query(
+      collection(db, "combinedMenus"),
+      where("endDate", ">=", historyStart.toISOString().split("T")[0]),
+      where("endDate", "<", startDate),
+    ))
+      .then((snap) => {
+        const merged: any = {}
+        snap.docs.forEach((d) => Object.assign(merged, d.data().menuData || {}))
+        setConstraintHistory(merged)
+      })
+      .catch((error) => console.error("Failed to load menu history:", error))
+  }, [isOpen, menu?.startDate, createStartDate, historyDays])
+
+  const constraintReport = useMemo(() => {
+    const assignments = menuType === "company"
+      ? mealPlanAssignments.filter((a: any) => a.companyId === menu?.companyId && a.buildingId === menu?.buildingId)
+      : mealPlanAssignments
+    return validateMenu({
+      menuData,
+      menuItems: new Map(menuItems.map((item) => [item.id, item])),
+      rules: planningRules,
+      frequencyLimits: getFrequencyLimits(assignments),
+      historyMenuData: constraintHistory,
+      itemCooldowns,
+      repeatSubMealPlanIds: new Set(subMealPlans.filter((smp) => smp.isRepeatPlan).map((smp) => smp.id)),
+    })
+  }, [menuData, menuItems, planningRules, mealPlanAssignments, constraintHistory, itemCooldowns, subMealPlans, menuType, menu?.companyId, menu?.buildingId])
+
+  const constraintNames = useMemo(() => ({
+    services: new Map(services.map((s) => [s.id, s.name])),
+    subMealPlans: new Map(subMealPlans.map((smp) => [smp.id, smp.name])),
+  }), [services, subMealPlans])
+
+  const dietaryGaps = useMemo(() => {
+    if (menuType !== "company" || !menu?.buildingId || buildingEmployees.length === 0) return new Map()
+    const menuItemsMap = new Map(menuItems.map((item) => [item.id, item]))
+    return findDietaryGaps(menuData, menu.buildingId, buildingEmployees, menuItemsMap)
+  }, [menuType, menu?.buildingId, buildingEmployees, menuItems, menuData])
+
   const [internalActiveCell, setInternalActiveCell] = useState<string | null>(null)
   const activeCell = internalActiveCell;
   const setActiveCell = useCallback((cellId: string | null) => {
@@ -2902,6 +3092,14 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
     updateActiveCell(cellId);
   }, [updateActiveCell]);
 
+  // Soft lock: warn before editing a cell another editor selected first
+  const activateCell = useCallback((cellId: string) => {
+    if (cellId === internalActiveCell) return;
+    const holder = getCellLockHolder(activeEditors || {}, cellId);
+    if (holder && !window.confirm(`${holder.name} is editing this cell. Edit it anyway? Their changes and yours will be merged.`)) return;
+    setActiveCell(cellId);
+  }, [activeEditors, internalActiveCell, setActiveCell]);
+
   const [visibleDates, setVisibleDates] = useState(0)
   const CHUNK_SIZE = 7
 
@@ -2914,9 +3112,68 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
 
   // AI MENU SUGGESTION (Preview + Apply)
   const [showAiSuggestModal, setShowAiSuggestModal] = useState(false)
+  const [showVersionsDialog, setShowVersionsDialog] = useState(false)
+  const [showTemplatesDialog, setShowTemplatesDialog] = useState(false)
+
+  // Offline queue: replay edits made offline once the grid is loaded and we're back online
+  const [offlineConflicts, setOfflineConflicts] = useState<QueuedEditConflict[]>([])
+  const syncingOfflineRef = useRef(false)
+  const syncOfflineQueue = useCallback(async () => {
+    if (!liveMenuId || syncingOfflineRef.current) return
+    syncingOfflineRef.current = true
+    try {
+      const edits = await getQueuedEdits()
+      if (edits.length === 0) return
+      const serverSnap = await getDoc(doc(db, menuType === "combined" ? "combinedMenus" : "companyMenus", liveMenuId))
+      const { clean, conflicts } = reconcileQueuedEdits(edits, serverSnap.data()?.menuData)
+
+      if (clean.length > 0) {
+        setRawMenuData((prev: any) =>
+          mergeCellsIntoMenuData(prev, Object.fromEntries(clean.map((edit) => [edit.cellKey, edit.cell || { menuItemIds: [] }]))),
+        )
+        clean.forEach((edit) => broadcastEdit(edit.cellKey, edit.base || undefined, edit.cell || undefined))
+        await clearQueuedEdits(clean.map((edit) => edit.cellKey))
+        toast({ title: "Offline edits synced", description: `${clean.length} cell(s) edited offline were restored. Save to keep them.` })
+      }
+      setOfflineConflicts(conflicts)
+    } catch (error) {
+      console.error("Error syncing offline edits:", error)
+      toast({ title: "Error", description: "Failed to sync offline edits. They are still kept on this device.", variant: "destructive" })
+    } finally {
+      syncingOfflineRef.current = false
+    }
+  }, [liveMenuId, menuType, getQueuedEdits, clearQueuedEdits, broadcastEdit])
+
+  useEffect(() => {
+    if (isOnline && !loading) syncOfflineQueue()
+  }, [isOnline, loading, syncOfflineQueue])
+
+  const handleResolveOfflineConflicts = useCallback(async (choices: Record<string, OfflineResolution>) => {
+    const cells: Record<string, any> = {}
+    offlineConflicts.forEach((conflict) => {
+      if (choices[conflict.cellKey] === "server") {
+        cells[conflict.cellKey] = conflict.server || { menuItemIds: [] }
+      } else {
+        cells[conflict.cellKey] = conflict.cell || { menuItemIds: [] }
+        broadcastEdit(conflict.cellKey, conflict.server || undefined, conflict.cell || undefined)
+      }
+    })
+    setRawMenuData((prev: any) => mergeCellsIntoMenuData(prev, cells))
+    try {
+      await clearQueuedEdits(offlineConflicts.map((conflict) => conflict.cellKey))
+    } catch (error) {
+      console.error("Error clearing offline queue:", error)
+    }
+    setOfflineConflicts([])
+  }, [offlineConflicts, broadcastEdit, clearQueuedEdits])
+  // Client-approved / published company menus can't be edited until a new updation cycle is opened
+  const isApprovalLocked = menuType === "company" && isMenuLocked(menu)
   const [aiSuggestLoading, setAiSuggestLoading] = useState(false)
   const [aiSuggestError, setAiSuggestError] = useState<string | null>(null)
   const [aiSuggestPreview, setAiSuggestPreview] = useState<any | null>(null)
+  // "solver" fills cells locally with the constraint solver; same seed => same menu
+  const [suggestEngine, setSuggestEngine] = useState<"ai" | "solver">("ai")
+  const [solverSeed, setSolverSeed] = useState("")
 
   // CHOICE SELECTION MODAL STATE
   const [showChoiceModal, setShowChoiceModal] = useState(false)
@@ -3068,7 +3325,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
       setProgress(0)
       setVisibleDates(0)
       setMenu(null)
-      setMenuData({})
+      setRawMenuData({})
       setOriginalMenuData({})
       setOgMenuData({})  // FIXED: Reset OG data on close
       setSelectedService(null)
@@ -3347,7 +3604,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
         if (isCreateMode) {
           setOgMenuData({})
           setMenu(menuDoc)
-          setMenuData({})
+          setRawMenuData({})
           setDateRange(dates)
           setServices(filteredServices)
           setSubServices(subServicesMap)
@@ -3446,7 +3703,8 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
         setOgMenuData(ogData)
 
         setMenu(menuDoc)
-        setMenuData(originalData)
+        // Loaded data is the server copy, not an edit: bypass the broadcasting proxy
+        setRawMenuData(originalData)
         setDateRange(dates)
         setServices(filteredServices)
         setSubServices(subServicesMap)
@@ -3790,6 +4048,20 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
       const currentSubMealPlan = subMealPlans.find(smp => smp.id === subMealPlanId)
       const isRepeatAllowed = currentSubMealPlan?.isRepeatPlan || false
 
+      // Per-item cooldowns set in Repetition Analytics are hard limits
+      const cooldownConflict = isValidItem && !isRepeatAllowed
+        ? findCooldownConflict([menuData, constraintHistory], itemId, date, serviceId, subServiceId, itemCooldowns[itemId])
+        : null
+      if (cooldownConflict) {
+        const conflictDateFormatted = new Date(cooldownConflict).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+        toast({
+          title: "Item on cooldown",
+          description: `${itemName} was served on ${conflictDateFormatted}; it can't be repeated within ${itemCooldowns[itemId]} days.`,
+          variant: "destructive",
+        })
+        return
+      }
+
       // --- 1. UPDATION LOGIC: Build the Live Session Trail ---
       const cellKey = `${date}|${serviceId}|${mealPlanId}|${subMealPlanId}`;
       setLiveChanges(prev => {
@@ -3882,7 +4154,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
         return updated
       })
     },
-    [selectedSubService, menuData, dateRange, prevWeekMap, services, subServices, subMealPlans, menuItems, addRepetitionLog]
+    [selectedSubService, menuData, dateRange, prevWeekMap, services, subServices, subMealPlans, menuItems, addRepetitionLog, constraintHistory, itemCooldowns]
   )
 
   const handleRemoveItem = useCallback(
@@ -4109,6 +4381,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
 
       const activeCompanies = companies.filter((c: any) => c.status === "active")
       let count = 0;
+      const lockedBuildings: string[] = [];
 
       for (const company of activeCompanies) {
         const companyBuildings = buildings.filter((b: any) => b.companyId === company.id && b.status === "active")
@@ -4133,10 +4406,16 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
 
             const existing = existingCompanyMenus.find((m: any) => m.companyId === company.id && m.buildingId === building.id);
 
+            if (existing && isMenuLocked(existing)) {
+              // Approved by the client: leave it alone until a new updation cycle is opened
+              lockedBuildings.push(`${company.name} - ${building.name}`);
+              continue;
+            }
+
             if (existing) {
               await companyMenusService.update(existing.id, { ...companyMenuData, combinedMenuId, status: "active" });
             } else {
-              await companyMenusService.add({ ...companyMenuData, combinedMenuId, status: "active" });
+              await companyMenusService.add({ ...companyMenuData, combinedMenuId, status: "active", approvalStatus: "draft", approvalCycle: 1 });
             }
             count++;
           } else {
@@ -4144,6 +4423,12 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
           }
         }
       }
+      if (lockedBuildings.length > 0) {
+        toast({
+          title: `${lockedBuildings.length} approved company menu(s) not updated`,
+          description: `Open a new updation cycle to apply these changes: ${lockedBuildings.join(", ")}`,
+        });
+      }
       return count;
     } catch (error) {
       console.error("Error generating company menus:", error)
@@ -4482,6 +4767,14 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
 
   const handleSave = async (isDraft = false) => {
     if (!menu && !isCreateMode) return
+    if (isApprovalLocked) {
+      toast({ title: "Menu is locked", description: "Open a new updation cycle from Company Menus before editing an approved menu.", variant: "destructive" })
+      return
+    }
+    if (!isOnline) {
+      toast({ title: "You're offline", description: "Your edits are kept on this device and will sync when you reconnect. Save once you're back online.", variant: "destructive" })
+      return
+    }
     console.log("[v0] handleSave called, isDraft:", isDraft)
 
     // For non-draft saves, check for companies with choices
@@ -4901,7 +5194,12 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
       const menuItemsMap = new Map(menuItems.map((item) => [item.id, item.name]))
 
       // Redesign Logic: Detect changes against the Original (OG) baseline
-      const changedCells = detectMenuChanges(originalMenuData, menuDataToSave, menuItemsMap)
+      const changedCells = detectMenuChanges(
+        originalMenuData,
+        menuDataToSave,
+        menuItemsMap,
+        new Map(menuItems.map((item) => [item.id, item])),
+      )
 
       // Attach live trail metadata to the changes so they are saved in the U# record
       const enrichedChangedCells = changedCells.map(cell => {
@@ -5017,6 +5315,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
 
           // 1. FETCH OTHER BUILDINGS EARLY
           let otherBuildingsMenus: any[] = []
+          const lockedBuildings: string[] = []
           if (pushToOtherBuildings && menu.companyId) {
             try {
               const allBuildingsMenus = await getDocs(
@@ -5025,11 +5324,16 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
               otherBuildingsMenus = allBuildingsMenus.docs.filter(
                 (doc) => {
                   const docData = doc.data()
-                  return (
+                  const isSibling =
                     docData.buildingId !== menu.buildingId &&
                     docData.startDate === menu.startDate &&
                     docData.endDate === menu.endDate
-                  )
+                  if (isSibling && isMenuLocked(docData)) {
+                    // Approved by the client: leave it alone until a new updation cycle is opened
+                    lockedBuildings.push(docData.buildingName || docData.buildingId)
+                    return false
+                  }
+                  return isSibling
                 }
               )
               otherBuildingsMenus.forEach(doc => {
@@ -5262,6 +5566,12 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
               console.error("[v0] Error applying changes to other buildings:", error)
             }
           }
+          if (lockedBuildings.length > 0) {
+            toast({
+              title: `${lockedBuildings.length} approved building menu(s) not updated`,
+              description: `Open a new updation cycle to apply these changes: ${lockedBuildings.join(", ")}`,
+            })
+          }
 
           // Create ONE consolidated entry in combined menu's log with ALL affected buildings
           const appliedBuildingInfo = appliedBuildingIds.map((bid, idx) => ({
@@ -5306,6 +5616,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
             appliedBuildingIds: appliedBuildingIds,
             appliedBuildingInfo: appliedBuildingInfo,
             otherBuildingsCount: appliedBuildingIds.length - 1,
+            skippedLockedBuildings: lockedBuildings,
           }
 
           await addDoc(collection(db, "updations"), combinedUpdationRecord)
@@ -5339,8 +5650,16 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
               appliedBuildingIds: appliedBuildingIds,
               appliedBuildingInfo: appliedBuildingInfo,
               otherBuildingsCount: appliedBuildingIds.length - 1,
+              skippedLockedBuildings: lockedBuildings,
+              affectedCompanies: appliedBuildingInfo.map((info) => ({
+                companyId: menu.companyId,
+                companyName: menu.companyName || "Company",
+                buildingId: info.buildingId,
+                buildingName: info.buildingName,
+              })),
             }
-            await addDoc(collection(db, "updations"), companyUpdationRecord)
+            const companyUpdationRef = await addDoc(collection(db, "updations"), companyUpdationRecord)
+            clientNotificationsService.dispatchForUpdation(companyUpdationRef.id)
           }
 
         } else if (menuType === "combined") {
@@ -5500,6 +5819,11 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
             const finalGlobalNumberForCombined = globalLatestBeforeSaveForCombined + 1
 
             // 1. SAVE COMBINED MENU RECORD
+            const affectedCompanies = getAffectedBuildings(changedCells, mealPlanAssignments || []).map((affected) => ({
+              ...affected,
+              companyName: companies.find((c: any) => c.id === affected.companyId)?.name || "Company",
+              buildingName: buildings.find((b: any) => b.id === affected.buildingId)?.name || "Building",
+            }))
             const updationRecord: any = {
               menuId,
               menuType,
@@ -5511,8 +5835,12 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
               menuEndDate: menu.endDate,
               createdAt: new Date(),
               createdBy: "user",
+              affectedCompanies,
+            }
+            const updationRef = await addDoc(collection(db, "updations"), updationRecord)
+            if (affectedCompanies.length > 0) {
+              clientNotificationsService.dispatchForUpdation(updationRef.id)
             }
-            await addDoc(collection(db, "updations"), updationRecord)
 
             // 2. SAVE INDIVIDUAL COMPANY RECORDS
             for (const updateData of Array.from(companySpecificUpdates.values())) {
@@ -5548,8 +5876,31 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
         }
       }
 
+      // 5. Snapshot the saved menu so it can be diffed against / restored later
+      if (!isDraft && changedCells.length > 0) {
+        try {
+          const latestUpdationNumber = await updationService.getLatestUpdationNumber(menuId)
+          await menuVersionsService.recordSnapshot(
+            menuId,
+            sanitizedMenuData,
+            {
+              menuType,
+              startDate: menu.startDate,
+              endDate: menu.endDate,
+            },
+            {
+              baselineMenuData: sanitizeMenuData(JSON.parse(JSON.stringify(originalMenuData || {}))),
+              ...(latestUpdationNumber > 0 && { updationNumber: latestUpdationNumber }),
+            },
+          )
+        } catch (error) {
+          // The menu itself is saved; a missing snapshot should not fail the save
+          console.error("Error recording menu version:", error)
+        }
+      }
+
       if (!isDraft) {
-        /* 
+        /*
            Scenario: "Save & Generate" (Generating a Version)
            The current 'Live' session is now finished. 
         */
@@ -5591,7 +5942,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
     }
   }
 
-  const fetchAiMenuSuggestion = useCallback(async () => {
+  const fetchAiMenuSuggestion = useCallback(async (engine: "ai" | "solver" = suggestEngine) => {
     const startDate = menu?.startDate || createStartDate
     const endDate = menu?.endDate || createEndDate
     if (!startDate || !endDate) {
@@ -5603,6 +5954,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
       return
     }
 
+    setSuggestEngine(engine)
     setAiSuggestError(null)
     setAiSuggestLoading(true)
     setShowAiSuggestModal(true)
@@ -5616,6 +5968,9 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
           serviceId: selectedService.id,
           subServiceId: selectedSubService.id,
           fillMode: "missing_only",
+          engine,
+          seed: engine === "solver" && solverSeed.trim() ? Number(solverSeed) : undefined,
+          companyId: menuType === "company" ? menu?.companyId : undefined,
           // Pass current draft so AI fills only blank cells (matches how you build menus in UI)
           currentMenuData: menuData,
         }),
@@ -5623,13 +5978,14 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
       const data = await res.json().catch(() => null)
       if (!res.ok || !data?.ok) throw new Error(data?.error || "AI suggestion failed")
       setAiSuggestPreview(data)
+      if (engine === "solver" && data.seed !== undefined) setSolverSeed(String(data.seed))
     } catch (e: any) {
       setAiSuggestPreview(null)
       setAiSuggestError(e?.message || "AI suggestion failed")
     } finally {
       setAiSuggestLoading(false)
     }
-  }, [menu?.startDate, menu?.endDate, createStartDate, createEndDate, selectedService?.id, selectedSubService?.id, menuData])
+  }, [menu?.startDate, menu?.endDate, createStartDate, createEndDate, selectedService?.id, selectedSubService?.id, menuData, menuType, menu?.companyId, suggestEngine, solverSeed])
 
   const applyAiMenuToDraft = useCallback(() => {
     const suggestedMenuData = aiSuggestPreview?.menuData
@@ -6108,6 +6464,8 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
                 {new Date(menu?.startDate || createStartDate || '').toLocaleDateString()} to {new Date(menu?.endDate || createEndDate || '').toLocaleDateString()}
                 {isCreateMode && <span className="ml-2 bg-green-100 text-green-700 px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider">New</span>}
                 {!isCreateMode && menu?.status === 'draft' && (<span className="ml-2 bg-purple-100 text-purple-700 px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider">Draft</span>)}
+                {(!isOnline || queuedCount > 0) && (<span className="ml-2 bg-amber-100 text-amber-800 px-2 py-0.5 rounded text-xs font-bold" title="Edits made offline are stored in this browser and synced on reconnect">{isOnline ? `${queuedCount} offline edit(s) to sync` : `Offline · ${queuedCount} edit(s) kept on this device`}</span>)}
+                {dietaryGaps.size > 0 && (<span className="ml-2 bg-rose-100 text-rose-700 px-2 py-0.5 rounded text-xs font-bold" title="Cells where some subscribed employees have no item matching their dietary preferences">{dietaryGaps.size} cell(s) with dietary gaps</span>)}
               </p>
             )}
           </div>
@@ -6118,12 +6476,41 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
                 <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setCopyBuffer(null)}><X className="h-3 w-3" /></Button>
               </div>
             )}
+            {(menu || isCreateMode) && (
+              <Button variant="outline" size="sm" onClick={() => setShowTemplatesDialog(true)} disabled={saving || loading}>
+                <CalendarRange className="h-4 w-4 mr-2" />
+                Templates
+              </Button>
+            )}
+            {!isCreateMode && menu && (
+              <Button variant="outline" size="sm" onClick={() => setShowVersionsDialog(true)} disabled={saving || loading}>
+                <History className="h-4 w-4 mr-2" />
+                Versions
+              </Button>
+            )}
             <button onClick={handleRequestClose} className="text-gray-500 hover:text-gray-700">
               <X className="h-6 w-6" />
             </button>
           </div>
         </div>
 
+        {isApprovalLocked && (
+          <div className="flex items-center gap-2 px-4 py-2 bg-emerald-50 border-b border-emerald-200 text-sm text-emerald-800">
+            <Lock className="h-4 w-4" />
+            This menu is {APPROVAL_STATUS_LABELS[menu.approvalStatus]}. Changes can't be saved until a new updation cycle is opened.
+          </div>
+        )}
+
+        {!loading && <NutritionViolationsAlert violations={nutritionViolations} />}
+        {!loading && (
+          <ConstraintViolationsAlert
+            report={constraintReport}
+            serviceNames={constraintNames.services}
+            subMealPlanNames={constraintNames.subMealPlans}
+            defaultExpanded={false}
+          />
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-y-auto min-h-0 bg-gray-50/50">
           {loading ? (
@@ -6221,7 +6608,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
 
                                 {/* DATE CELLS */}
                                 {dateRange.slice(0, visibleDates).map(({ date, day }) => {
-                                  const cellKey = `${date}-${selectedService.id}-${selectedSubService.id}-${mealPlan.id}-${subMealPlan.id}`
+                                  const cellKey = getCellKey({ date, serviceId: selectedService.id, subServiceId: selectedSubService.id, mealPlanId: mealPlan.id, subMealPlanId: subMealPlan.id })
                                   const activeEditorNames = Object.values(activeEditors || {})
                                         .filter((e: any) => e.activeCell === cellKey && e.name !== userName)
                                         .map((e: any) => e.name);
@@ -6299,7 +6686,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
                                       canPaste={!!copyBuffer?.items.length}
                                       prevItems={prevItems}
                                       isActive={activeCell === cellKey}
-                                      onActivate={() => setActiveCell(cellKey)}
+                                      onActivate={() => activateCell(cellKey)}
                                       onCellMouseEnter={() => {
                                         setHoveredDate(date)
                                         if (dragActive) applyDragToCell(date, mealPlan.id, subMealPlan.id)
@@ -6311,6 +6698,10 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
                                       cellUpdations={cellUpdations}
                                       onShowConflicts={handleAnalyzeConflicts}
                                       activeEditorNames={activeEditorNames}
+                                      conflictEditorNames={draftConflicts[cellKey] || []}
+                                      onDismissConflict={() => dismissConflict(cellKey)}
+                                      cellCosting={recipeCostings.size > 0 ? calculateCellCosting(selectedItems, recipeCostings) : null}
+                                      dietaryGap={dietaryGaps.size > 0 ? dietaryGaps.get(cellKey) || null : null}
                                     />
                                   )
                                 })}
@@ -6588,7 +6979,7 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
             {menuType === "combined" && (
               <Button
                 variant="outline"
-                onClick={fetchAiMenuSuggestion}
+                onClick={() => fetchAiMenuSuggestion()}
                 disabled={saving || loading}
                 className="border-blue-300 text-blue-700 hover:bg-blue-50"
               >
@@ -6596,14 +6987,14 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
                 AI Suggest
               </Button>
             )}
-            <Button variant="outline" onClick={() => handleSave(true)} disabled={saving || loading} className="border-purple-300 text-purple-700 hover:bg-purple-50">
+            <Button variant="outline" onClick={() => handleSave(true)} disabled={saving || loading || isApprovalLocked} className="border-purple-300 text-purple-700 hover:bg-purple-50">
               {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
               Save as Draft
             </Button>
             <Button variant="outline" onClick={handleRequestClose} disabled={saving}>
               Cancel
             </Button>
-            <Button onClick={() => handleSave(false)} disabled={saving || loading}>
+            <Button onClick={() => handleSave(false)} disabled={saving || loading || isApprovalLocked}>
               {saving ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin mr-2" />
@@ -6627,18 +7018,52 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
         <Dialog open={showAiSuggestModal} onOpenChange={setShowAiSuggestModal}>
           <DialogContent className="max-w-4xl max-h-[85vh] overflow-hidden">
             <DialogHeader>
-              <DialogTitle>AI Menu Suggestions (Preview)</DialogTitle>
+              <DialogTitle>{suggestEngine === "solver" ? "Solver Auto-fill (Preview)" : "AI Menu Suggestions (Preview)"}</DialogTitle>
             </DialogHeader>
 
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex rounded-md border overflow-hidden">
+                <button
+                  onClick={() => fetchAiMenuSuggestion("ai")}
+                  disabled={aiSuggestLoading}
+                  className={`px-3 py-1.5 text-sm flex items-center gap-1 ${suggestEngine === "ai" ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-50"}`}
+                >
+                  <Zap className="h-3.5 w-3.5" /> AI model
+                </button>
+                <button
+                  onClick={() => fetchAiMenuSuggestion("solver")}
+                  disabled={aiSuggestLoading}
+                  className={`px-3 py-1.5 text-sm flex items-center gap-1 border-l ${suggestEngine === "solver" ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-50"}`}
+                >
+                  <Cpu className="h-3.5 w-3.5" /> Constraint solver
+                </button>
+              </div>
+              {suggestEngine === "solver" && (
+                <>
+                  <Input
+                    type="number"
+                    value={solverSeed}
+                    onChange={(e) => setSolverSeed(e.target.value)}
+                    placeholder="Random seed"
+                    className="w-36 h-8"
+                  />
+                  <Button variant="outline" size="sm" onClick={() => fetchAiMenuSuggestion("solver")} disabled={aiSuggestLoading}>
+                    <RefreshCw className="h-3.5 w-3.5 mr-1" /> Re-run
+                  </Button>
+                </>
+              )}
+            </div>
+
             <div className="text-sm text-muted-foreground">
               Review first. Click “Apply to Draft” to insert suggestions into the current editing session.
+              {suggestEngine === "solver" && " The solver runs without the AI model; the same seed always gives the same menu."}
             </div>
 
             <div className="mt-3 rounded-md border p-3 bg-muted/20 max-h-[55vh] overflow-auto">
               {aiSuggestLoading && (
                 <div className="flex items-center gap-2 text-sm">
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Generating suggestions...
+                  {suggestEngine === "solver" ? "Solving..." : "Generating suggestions..."}
                 </div>
               )}
 
@@ -6646,6 +7071,40 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
                 <div className="text-sm text-red-600">{aiSuggestError}</div>
               )}
 
+              {!aiSuggestLoading && !aiSuggestError && aiSuggestPreview?.constraintReport && (
+                <div className="mb-4">
+                  {aiSuggestPreview.constraintReport.violations.length === 0 ? (
+                    <div className="text-sm text-green-700">Suggestions pass every machine-checked constraint.</div>
+                  ) : (
+                    <ConstraintViolationsAlert
+                      report={aiSuggestPreview.constraintReport}
+                      serviceNames={constraintNames.services}
+                      subMealPlanNames={constraintNames.subMealPlans}
+                      compact
+                    />
+                  )}
+                </div>
+              )}
+
+              {!aiSuggestLoading && !aiSuggestError && aiSuggestPreview?.unfilled?.length > 0 && (
+                <div className="mb-4 rounded-md border border-amber-200 bg-amber-50 p-3">
+                  <div className="text-sm font-semibold text-amber-900 mb-1">
+                    {aiSuggestPreview.unfilled.length} cell{aiSuggestPreview.unfilled.length === 1 ? "" : "s"} left empty
+                  </div>
+                  <div className="space-y-0.5 max-h-28 overflow-y-auto">
+                    {aiSuggestPreview.unfilled.map((cell: any, idx: number) => (
+                      <p key={`${cell.date}-${cell.subMealPlanId}-${idx}`} className="text-xs text-amber-800">
+                        <span className="font-medium">
+                          {cell.date}
+                          {cell.subMealPlanId && ` · ${constraintNames.subMealPlans.get(cell.subMealPlanId) || "Sub meal"}`}
+                        </span>{" "}
+                        {cell.reason}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {!aiSuggestLoading && !aiSuggestError && aiSuggestPreview?.enrichedMenu && (
                 <div className="space-y-4">
                   {Object.entries(aiSuggestPreview.enrichedMenu).map(([date, servicesForDate]: any) => (
@@ -6771,6 +7230,79 @@ export function MenuEditModal({ isOpen, onClose, menuId, menuType, onSave, prelo
           dateRange={dateRange}
         />
 
+        <MenuTemplatesDialog
+          isOpen={showTemplatesDialog}
+          onClose={() => setShowTemplatesDialog(false)}
+          menuType={menuType === "company" ? "company" : "combined"}
+          menuId={isCreateMode ? undefined : menuId}
+          companyId={menu?.companyId}
+          companyName={menu?.companyName}
+          buildingId={menu?.buildingId}
+          buildingName={menu?.buildingName}
+          menuData={menuData}
+          dates={dateRange.map((d) => d.date)}
+          structureAssignments={menuType === "company"
+            ? mealPlanAssignments.filter((a: any) => a.companyId === menu?.companyId && a.buildingId === menu?.buildingId)
+            : mealPlanAssignments}
+          services={services}
+          mealPlans={mealPlans}
+          subMealPlans={subMealPlans}
+          canApply={!isApprovalLocked}
+          createdBy={userName}
+          onApply={(templateData) => {
+            const cells: Record<string, any> = {}
+            forEachMenuCell(templateData, (ref, cell) => {
+              cells[getCellKey(ref)] = cell
+            })
+            setMenuData((prev: any) => mergeCellsIntoMenuData(prev, cells))
+          }}
+        />
+
+        <OfflineReconcileDialog
+          isOpen={offlineConflicts.length > 0}
+          conflicts={offlineConflicts}
+          menuItems={menuItems}
+          services={services}
+          mealPlans={mealPlans}
+          subMealPlans={subMealPlans}
+          onResolve={handleResolveOfflineConflicts}
+          onDefer={() => setOfflineConflicts([])}
+        />
+
+        {!isCreateMode && menu && (
+          <MenuVersionsDialog
+            isOpen={showVersionsDialog}
+            onClose={() => setShowVersionsDialog(false)}
+            menuId={menuId}
+            meta={{
+              menuType,
+              startDate: menu.startDate,
+              endDate: menu.endDate,
+              menuName: menuType === "combined"
+                ? "Combined Menu"
+                : menu.companyName ? `${menu.companyName} - ${menu.buildingName}` : "Company Menu",
+              ...(menuType === "company" && {
+                companyId: menu.companyId,
+                companyName: menu.companyName,
+                buildingId: menu.buildingId,
+                buildingName: menu.buildingName,
+              }),
+            }}
+            currentMenuData={originalMenuData}
+            menuItems={menuItems}
+            services={services}
+            mealPlans={mealPlans}
+            subMealPlans={subMealPlans}
+            restoreDisabled={isApprovalLocked}
+            onRestored={() => {
+              setShowVersionsDialog(false)
+              clearDrafts()
+              onSave?.()
+              onClose()
+            }}
+          />
+        )}
+
         {/* CONFIRMATION MODAL COMPONENT */}
         <SubServiceConfirmationModal
           isOpen={showConfirmationModal}
@@ -0,0 +1,315 @@
+import { memo, useEffect, useMemo, useState } from "react"
+import { CalendarRange, Loader2, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/hooks/use-toast"
+import { isHolidayFor } from "@/lib/billing"
+import { holidaysService, type Holiday } from "@/lib/firestore"
+import { menuTemplatesService, type MenuTemplate } from "@/lib/firestore/menuTemplatesService"
+import { applyMenuTemplate, extractTemplateWeeks, getStructureCells } from "@/lib/menu-templates"
+import type { MealPlanStructureAssignment } from "@/lib/services"
+import type { MealPlan, MenuGridData, Service, SubMealPlan } from "@/lib/types"
+
+type TemplateTab = "save" | "apply"
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })
+
+export const MenuTemplatesDialog = memo(function MenuTemplatesDialog({
+  isOpen,
+  onClose,
+  menuType,
+  menuId,
+  companyId,
+  companyName,
+  buildingId,
+  buildingName,
+  menuData,
+  dates,
+  structureAssignments,
+  services,
+  mealPlans,
+  subMealPlans,
+  canApply,
+  createdBy,
+  onApply,
+}: {
+  isOpen: boolean
+  onClose: () => void
+  menuType: "combined" | "company"
+  menuId?: string
+  companyId?: string
+  companyName?: string
+  buildingId?: string
+  buildingName?: string
+  menuData: MenuGridData
+  dates: string[]
+  structureAssignments: MealPlanStructureAssignment[] // already limited to the building(s) this menu serves
+  services: Service[]
+  mealPlans: MealPlan[]
+  subMealPlans: SubMealPlan[]
+  canApply: boolean
+  createdBy?: string
+  onApply: (templateData: MenuGridData) => void
+}) {
+  const [tab, setTab] = useState<TemplateTab>("apply")
+  const [templates, setTemplates] = useState<MenuTemplate[]>([])
+  const [holidays, setHolidays] = useState<Holiday[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState("")
+  const [weekStart, setWeekStart] = useState("")
+  const [cycleWeeks, setCycleWeeks] = useState(1)
+  const [selectedId, setSelectedId] = useState("")
+
+  const sortedDates = useMemo(() => [...dates].sort(), [dates])
+  // Weeks are counted from the first date of the menu, whichever weekday that is
+  const weekStarts = useMemo(() => sortedDates.filter((_, i) => i % 7 === 0), [sortedDates])
+
+  useEffect(() => {
+    if (!isOpen) return
+    setTab(canApply ? "apply" : "save")
+    setWeekStart(weekStarts[0] || "")
+    setCycleWeeks(1)
+    setSelectedId("")
+    setLoading(true)
+    Promise.all([menuTemplatesService.getAll(), holidaysService.getAll()])
+      .then(([templateList, holidayList]) => {
+        setTemplates(templateList)
+        setHolidays(holidayList)
+      })
+      .catch((error) => {
+        console.error("Error loading menu templates:", error)
+        toast({ title: "Error", description: "Failed to load menu templates", variant: "destructive" })
+      })
+      .finally(() => setLoading(false))
+  }, [isOpen, canApply, weekStarts])
+
+  const serviceNames = useMemo(() => new Map(services.map((s) => [s.id, s.name])), [services])
+  const mealPlanNames = useMemo(() => new Map(mealPlans.map((mp) => [mp.id, mp.name])), [mealPlans])
+  const subMealPlanNames = useMemo(() => new Map(subMealPlans.map((smp) => [smp.id, smp.name])), [subMealPlans])
+
+  const maxCycle = Math.max(1, weekStarts.length - weekStarts.indexOf(weekStart))
+  const selectedTemplate = templates.find((t) => t.id === selectedId)
+
+  const preview = useMemo(() => {
+    if (!selectedTemplate) return null
+    // Combined menus serve every building, so only national holidays close the whole kitchen
+    const isHoliday = (date: string) =>
+      menuType === "company" && companyId && buildingId
+        ? holidays.some((h) => isHolidayFor(h, date, companyId, buildingId))
+        : holidays.some((h) => h.date === date && h.type === "national")
+    return applyMenuTemplate(selectedTemplate.weeks || [], sortedDates, {
+      isHoliday,
+      structureCells: getStructureCells(structureAssignments),
+    })
+  }, [selectedTemplate, sortedDates, holidays, menuType, companyId, buildingId, structureAssignments])
+
+  const handleSave = async () => {
+    if (!name.trim() || !weekStart) return
+    setSaving(true)
+    try {
+      const cycle = Math.min(cycleWeeks, maxCycle)
+      await menuTemplatesService.create({
+        name: name.trim(),
+        menuType,
+        cycleWeeks: cycle,
+        weeks: extractTemplateWeeks(menuData, weekStart, cycle),
+        sourceMenuId: menuId,
+        sourceWeekStart: weekStart,
+        ...(menuType === "company" && { companyId, companyName, buildingId, buildingName }),
+        createdBy,
+      })
+      toast({ title: "Template saved", description: `"${name.trim()}" (${cycle} week${cycle === 1 ? "" : "s"}) can now be applied to other menus.` })
+      setName("")
+      onClose()
+    } catch (error) {
+      console.error("Error saving menu template:", error)
+      toast({ title: "Error", description: "Failed to save template", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: MenuTemplate) => {
+    if (!confirm(`Delete template "${template.name}"?`)) return
+    try {
+      await menuTemplatesService.delete(template.id)
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id))
+      if (selectedId === template.id) setSelectedId("")
+    } catch (error) {
+      console.error("Error deleting menu template:", error)
+      toast({ title: "Error", description: "Failed to delete template", variant: "destructive" })
+    }
+  }
+
+  const handleApply = () => {
+    if (!preview || preview.report.appliedCells === 0) return
+    onApply(preview.menuData)
+    toast({
+      title: "Template applied",
+      description: `${preview.report.appliedCells} cell(s) filled on ${preview.report.appliedDates.length} day(s). Review and save the menu.`,
+    })
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[150] flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="border-b p-4 flex items-center justify-between bg-gradient-to-r from-slate-50 to-white">
+          <div>
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+              <CalendarRange className="h-5 w-5 text-slate-600" />
+              Menu Templates
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Save a week (or a multi-week cycle) of this menu, or fill this menu's dates from a saved template.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" type="button">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 border-b px-4 py-2">
+          <Button size="sm" variant={tab === "apply" ? "default" : "outline"} onClick={() => setTab("apply")} disabled={!canApply}>
+            Apply Template
+          </Button>
+          <Button size="sm" variant={tab === "save" ? "default" : "outline"} onClick={() => setTab("save")}>
+            Save as Template
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : tab === "save" ? (
+          <div className="p-4 space-y-4">
+            <div className="space-y-1">
+              <Label>Template name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Winter cycle" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>First week</Label>
+                <select
+                  className="w-full border rounded-md h-9 px-2 text-sm"
+                  value={weekStart}
+                  onChange={(e) => setWeekStart(e.target.value)}
+                >
+                  {weekStarts.map((date) => (
+                    <option key={date} value={date}>
+                      Week of {formatDate(date)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label>Cycle length</Label>
+                <select
+                  className="w-full border rounded-md h-9 px-2 text-sm"
+                  value={Math.min(cycleWeeks, maxCycle)}
+                  onChange={(e) => setCycleWeeks(Number(e.target.value))}
+                >
+                  {[1, 2, 3, 4].filter((n) => n <= maxCycle).map((n) => (
+                    <option key={n} value={n}>
+                      {n === 1 ? "Single week" : `${n}-week cycle`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving || !name.trim() || !weekStart}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Template
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            <div className="w-72 border-r overflow-y-auto p-3 space-y-2">
+              {templates.length === 0 && <div className="text-sm text-gray-500 italic">No templates saved yet.</div>}
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  onClick={() => setSelectedId(template.id)}
+                  className={`border rounded-md p-2 text-sm cursor-pointer ${selectedId === template.id ? "border-blue-400 bg-blue-50" : "hover:bg-gray-50"}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="font-medium">{template.name}</div>
+                    <button
+                      type="button"
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleDelete(template)
+                      }}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {template.menuType === "combined" ? "Combined" : `${template.companyName || "Company"} - ${template.buildingName || ""}`} ·{" "}
+                    {template.cycleWeeks === 1 ? "1 week" : `${template.cycleWeeks}-week cycle`}
+                  </div>
+                  <div className="text-xs text-gray-400">From week of {formatDate(template.sourceWeekStart)}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+              {!preview ? (
+                <div className="text-gray-500 text-center py-8">Pick a template to preview how it fills this menu.</div>
+              ) : (
+                <>
+                  <div className="border rounded-md p-3 bg-gray-50 space-y-1">
+                    <div>
+                      <strong>{preview.report.appliedCells}</strong> cell(s) on {preview.report.appliedDates.length} day(s) will be
+                      filled; existing items in those cells are replaced.
+                    </div>
+                    {preview.report.skippedHolidays.length > 0 && (
+                      <div className="text-amber-700">Holidays skipped: {preview.report.skippedHolidays.map(formatDate).join(", ")}</div>
+                    )}
+                    {preview.report.emptyDates.length > 0 && (
+                      <div className="text-gray-500">No template content for: {preview.report.emptyDates.map(formatDate).join(", ")}</div>
+                    )}
+                  </div>
+
+                  {preview.report.droppedCells.length > 0 && (
+                    <div>
+                      <div className="font-medium text-red-700 mb-1">
+                        {preview.report.droppedCells.length} cell(s) dropped — not in the {menuType === "company" ? "building's" : "buildings'"} meal plan structure
+                      </div>
+                      <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+                        {preview.report.droppedCells.map((cell) => (
+                          <div key={`${cell.date}|${cell.serviceId}|${cell.subServiceId}|${cell.mealPlanId}|${cell.subMealPlanId}`} className="px-2 py-1 text-xs flex justify-between">
+                            <span>
+                              {formatDate(cell.date)} · {serviceNames.get(cell.serviceId) || cell.serviceId} ·{" "}
+                              {mealPlanNames.get(cell.mealPlanId) || cell.mealPlanId} / {subMealPlanNames.get(cell.subMealPlanId) || cell.subMealPlanId}
+                            </span>
+                            <span className="text-gray-500">{cell.itemCount} item(s)</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex justify-end">
+                    <Button onClick={handleApply} disabled={preview.report.appliedCells === 0}>
+                      Apply to Menu
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,234 @@
+import { memo, useEffect, useMemo, useState } from "react"
+import { History, Loader2, RotateCcw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/hooks/use-toast"
+import { detectMenuChanges } from "@/lib/change-detector"
+import { menuVersionsService, type MenuVersion, type MenuSnapshotMeta } from "@/lib/firestore/menuVersionsService"
+import type { MealPlan, MenuItem, Service, SubMealPlan } from "@/lib/types"
+
+const REASON_LABELS: Record<MenuVersion["reason"], string> = {
+  baseline: "Baseline",
+  save: "Saved",
+  restore: "Restored",
+}
+
+const getCellItems = (menuData: any, cell: { date: string; serviceId: string; subServiceId?: string; mealPlanId: string; subMealPlanId: string }): string[] =>
+  menuData?.[cell.date]?.[cell.serviceId]?.[cell.subServiceId || ""]?.[cell.mealPlanId]?.[cell.subMealPlanId]?.menuItemIds || []
+
+const formatVersionDate = (value: any) => {
+  const date = value?.toDate ? value.toDate() : value?.seconds ? new Date(value.seconds * 1000) : new Date(value)
+  return isNaN(date.getTime()) ? "" : date.toLocaleString()
+}
+
+export const MenuVersionsDialog = memo(function MenuVersionsDialog({
+  isOpen,
+  onClose,
+  menuId,
+  meta,
+  currentMenuData,
+  menuItems,
+  services,
+  mealPlans,
+  subMealPlans,
+  onRestored,
+  restoreDisabled,
+}: {
+  isOpen: boolean
+  onClose: () => void
+  menuId: string
+  meta: MenuSnapshotMeta
+  currentMenuData: any
+  menuItems: MenuItem[]
+  services: Service[]
+  mealPlans: MealPlan[]
+  subMealPlans: SubMealPlan[]
+  onRestored: () => void
+  restoreDisabled?: boolean
+}) {
+  const [versions, setVersions] = useState<MenuVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [baseId, setBaseId] = useState<string>("")
+  const [compareId, setCompareId] = useState<string>("")
+
+  useEffect(() => {
+    if (!isOpen || !menuId) return
+    setLoading(true)
+    menuVersionsService
+      .getByMenuId(menuId)
+      .then((list) => {
+        setVersions(list)
+        // Default to comparing the previous version against the latest one
+        setCompareId(list[0]?.id || "")
+        setBaseId(list[1]?.id || list[0]?.id || "")
+      })
+      .catch((error) => {
+        console.error("Error loading menu versions:", error)
+        toast({ title: "Error", description: "Failed to load menu versions", variant: "destructive" })
+      })
+      .finally(() => setLoading(false))
+  }, [isOpen, menuId])
+
+  const itemNames = useMemo(() => new Map(menuItems.map((item) => [item.id, item.name])), [menuItems])
+  const itemDetails = useMemo(() => new Map(menuItems.map((item) => [item.id, item])), [menuItems])
+  const serviceNames = useMemo(() => new Map(services.map((s) => [s.id, s.name])), [services])
+  const mealPlanNames = useMemo(() => new Map(mealPlans.map((mp) => [mp.id, mp.name])), [mealPlans])
+  const subMealPlanNames = useMemo(() => new Map(subMealPlans.map((smp) => [smp.id, smp.name])), [subMealPlans])
+
+  const baseVersion = versions.find((v) => v.id === baseId)
+  const compareVersion = versions.find((v) => v.id === compareId)
+
+  const changedCells = useMemo(() => {
+    if (!baseVersion || !compareVersion) return []
+    return detectMenuChanges(baseVersion.menuData, compareVersion.menuData, itemNames, itemDetails).sort(
+      (a, b) => a.date.localeCompare(b.date) || a.serviceId.localeCompare(b.serviceId),
+    )
+  }, [baseVersion, compareVersion, itemNames, itemDetails])
+
+  const handleRestore = async (version: MenuVersion) => {
+    if (!confirm(`Restore this menu to V${version.versionNumber}? The saved grid will be replaced and recorded as a new updation; unsaved edits are discarded.`)) return
+    setRestoring(true)
+    try {
+      const result = await menuVersionsService.restore(version, currentMenuData, meta, itemNames, itemDetails)
+      toast({
+        title: `Restored to V${version.versionNumber}`,
+        description: `Recorded as U${result.updationNumber} (${result.totalChanges} change${result.totalChanges === 1 ? "" : "s"}).`,
+      })
+      onRestored()
+    } catch (error) {
+      console.error("Error restoring menu version:", error)
+      toast({ title: "Error", description: "Failed to restore menu version", variant: "destructive" })
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const versionLabel = (v: MenuVersion) =>
+    `V${v.versionNumber} · ${REASON_LABELS[v.reason]}${v.updationNumber ? ` (U${v.updationNumber})` : ""}${
+      v.restoredFromVersion ? ` from V${v.restoredFromVersion}` : ""
+    }`
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[150] flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-6xl w-full max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="border-b p-4 flex items-center justify-between bg-gradient-to-r from-slate-50 to-white">
+          <div>
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+              <History className="h-5 w-5 text-slate-600" />
+              Menu Versions
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              A snapshot is stored every time changes are saved.
+              {meta.menuType === "combined" && " Restoring a combined menu does not regenerate its company menus."}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" type="button">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-12">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="p-12 text-center text-sm text-gray-500">
+            No versions yet. The first snapshot is taken the next time changes to this menu are saved.
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* Version list */}
+            <div className="w-72 border-r overflow-y-auto p-3 space-y-2">
+              {versions.map((v) => (
+                <div key={v.id} className="border rounded-md p-2 text-sm">
+                  <div className="font-medium">{versionLabel(v)}</div>
+                  <div className="text-xs text-gray-500">{formatVersionDate(v.createdAt)}</div>
+                  <div className="flex items-center gap-1 mt-2">
+                    <Button
+                      size="sm"
+                      variant={baseId === v.id ? "default" : "outline"}
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setBaseId(v.id)}
+                    >
+                      A
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={compareId === v.id ? "default" : "outline"}
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setCompareId(v.id)}
+                    >
+                      B
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2 text-xs ml-auto"
+                      disabled={restoring || restoreDisabled}
+                      onClick={() => handleRestore(v)}
+                    >
+                      {restoring ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3 mr-1" />}
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Side-by-side diff */}
+            <div className="flex-1 overflow-y-auto">
+              <div className="grid grid-cols-[200px_1fr_1fr] sticky top-0 bg-gray-50 border-b text-xs font-semibold text-gray-700">
+                <div className="p-2">Cell</div>
+                <div className="p-2 border-l">A: {baseVersion ? versionLabel(baseVersion) : "-"}</div>
+                <div className="p-2 border-l">B: {compareVersion ? versionLabel(compareVersion) : "-"}</div>
+              </div>
+              {changedCells.length === 0 ? (
+                <div className="p-8 text-center text-sm text-gray-500">
+                  {baseId === compareId ? "Pick two different versions to compare." : "No differences between these versions."}
+                </div>
+              ) : (
+                changedCells.map((cell) => {
+                  const before = getCellItems(baseVersion?.menuData, cell)
+                  const after = getCellItems(compareVersion?.menuData, cell)
+                  return (
+                    <div
+                      key={`${cell.date}|${cell.serviceId}|${cell.subServiceId}|${cell.mealPlanId}|${cell.subMealPlanId}`}
+                      className="grid grid-cols-[200px_1fr_1fr] border-b text-sm"
+                    >
+                      <div className="p-2 text-xs text-gray-600">
+                        <div className="font-medium text-gray-900">
+                          {new Date(cell.date).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+                        </div>
+                        <div>{serviceNames.get(cell.serviceId) || cell.serviceId}</div>
+                        <div>
+                          {mealPlanNames.get(cell.mealPlanId) || cell.mealPlanId} /{" "}
+                          {subMealPlanNames.get(cell.subMealPlanId) || cell.subMealPlanId}
+                        </div>
+                      </div>
+                      <div className="p-2 border-l space-y-1">
+                        {before.map((id) => (
+                          <div key={id} className={after.includes(id) ? "" : "bg-red-50 text-red-700 line-through px-1 rounded"}>
+                            {itemNames.get(id) || "Unknown Item"}
+                          </div>
+                        ))}
+                      </div>
+                      <div className="p-2 border-l space-y-1">
+                        {after.map((id) => (
+                          <div key={id} className={before.includes(id) ? "" : "bg-green-50 text-green-700 px-1 rounded"}>
+                            {itemNames.get(id) || "Unknown Item"}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )
+                })
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+})
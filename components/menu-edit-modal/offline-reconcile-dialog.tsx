@@ -0,0 +1,147 @@
+import { memo, useEffect, useMemo, useState } from "react"
+import { CloudOff, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { parseCellKey } from "@/lib/menu-cells"
+import type { QueuedEditConflict } from "@/lib/offline-menu-queue"
+import type { MealPlan, MenuItem, Service, SubMealPlan } from "@/lib/types"
+
+export type OfflineResolution = "mine" | "server"
+
+/**
+ * Shown after reconnecting when cells edited offline were also changed on the server.
+ * Each cell keeps either the offline copy or the server copy.
+ */
+export const OfflineReconcileDialog = memo(function OfflineReconcileDialog({
+  isOpen,
+  conflicts,
+  menuItems,
+  services,
+  mealPlans,
+  subMealPlans,
+  onResolve,
+  onDefer,
+}: {
+  isOpen: boolean
+  conflicts: QueuedEditConflict[]
+  menuItems: MenuItem[]
+  services: Service[]
+  mealPlans: MealPlan[]
+  subMealPlans: SubMealPlan[]
+  onResolve: (choices: Record<string, OfflineResolution>) => Promise<void>
+  onDefer: () => void
+}) {
+  const [choices, setChoices] = useState<Record<string, OfflineResolution>>({})
+  const [applying, setApplying] = useState(false)
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.cellKey, "mine" as OfflineResolution])))
+  }, [conflicts])
+
+  const itemNames = useMemo(() => new Map(menuItems.map((item) => [item.id, item.name])), [menuItems])
+  const serviceNames = useMemo(() => new Map(services.map((s) => [s.id, s.name])), [services])
+  const mealPlanNames = useMemo(() => new Map(mealPlans.map((mp) => [mp.id, mp.name])), [mealPlans])
+  const subMealPlanNames = useMemo(() => new Map(subMealPlans.map((smp) => [smp.id, smp.name])), [subMealPlans])
+
+  if (!isOpen || conflicts.length === 0) return null
+
+  const setAll = (choice: OfflineResolution) =>
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.cellKey, choice])))
+
+  const handleApply = async () => {
+    setApplying(true)
+    try {
+      await onResolve(choices)
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const renderItems = (ids: string[], other: string[], className: string) =>
+    ids.length === 0 ? (
+      <div className="text-xs text-gray-400 italic">Empty</div>
+    ) : (
+      ids.map((id) => (
+        <div key={id} className={other.includes(id) ? "" : `${className} px-1 rounded`}>
+          {itemNames.get(id) || "Unknown Item"}
+        </div>
+      ))
+    )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[150] flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="border-b p-4 bg-gradient-to-r from-amber-50 to-white">
+          <h3 className="font-semibold text-lg flex items-center gap-2">
+            <CloudOff className="h-5 w-5 text-amber-600" />
+            Reconcile Offline Edits
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {conflicts.length} cell{conflicts.length === 1 ? "" : "s"} you edited offline changed on the server in the
+            meantime. Choose which copy to keep; your other offline edits were already applied.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-[200px_1fr_1fr] bg-gray-50 border-b text-xs font-semibold text-gray-700">
+          <div className="p-2">Cell</div>
+          <div className="p-2 border-l flex items-center justify-between">
+            Your offline copy
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => setAll("mine")}>
+              Keep all
+            </Button>
+          </div>
+          <div className="p-2 border-l flex items-center justify-between">
+            Server copy
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => setAll("server")}>
+              Keep all
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {conflicts.map((conflict) => {
+            const cell = parseCellKey(conflict.cellKey)
+            const mine = conflict.cell?.menuItemIds || []
+            const server = conflict.server?.menuItemIds || []
+            const choice = choices[conflict.cellKey]
+            return (
+              <div key={conflict.cellKey} className="grid grid-cols-[200px_1fr_1fr] border-b text-sm">
+                <div className="p-2 text-xs text-gray-600">
+                  <div className="font-medium text-gray-900">
+                    {new Date(cell.date).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+                  </div>
+                  <div>{serviceNames.get(cell.serviceId) || cell.serviceId}</div>
+                  <div>
+                    {mealPlanNames.get(cell.mealPlanId) || cell.mealPlanId} /{" "}
+                    {subMealPlanNames.get(cell.subMealPlanId) || cell.subMealPlanId}
+                  </div>
+                </div>
+                {(["mine", "server"] as OfflineResolution[]).map((side) => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setChoices((prev) => ({ ...prev, [conflict.cellKey]: side }))}
+                    className={`p-2 border-l space-y-1 text-left ${choice === side ? "bg-blue-50 ring-2 ring-inset ring-blue-400" : "hover:bg-gray-50"}`}
+                  >
+                    {side === "mine"
+                      ? renderItems(mine, server, "bg-green-50 text-green-700")
+                      : renderItems(server, mine, "bg-amber-50 text-amber-700")}
+                  </button>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="border-t p-3 flex justify-end gap-2">
+          <Button variant="outline" onClick={onDefer} disabled={applying}>
+            Decide Later
+          </Button>
+          <Button onClick={handleApply} disabled={applying}>
+            {applying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply Choices
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+})
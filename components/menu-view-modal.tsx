@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useMemo, useCallback } from "react"
+import { useState, useEffect, useMemo, useCallback, type ReactNode } from "react"
 import { Button } from "@/components/ui/button"
 import { doc, getDoc, getDocs, collection, query, where } from "firebase/firestore"
 import { db } from "@/lib/firebase"
@@ -9,14 +9,20 @@ import { servicesService, mealPlansService, subMealPlansService, menuItemsServic
 import { toast } from "@/hooks/use-toast"
 import { useRouter } from "next/navigation"
 import { Input } from "@/components/ui/input"
-import { Loader2, Download, X, History, Edit, Search, ArrowRight, CheckCircle2, AlertCircle, Building2 } from 'lucide-react'
+import { Loader2, Download, X, History, Edit, Search, ArrowRight, ArrowUpDown, Pencil, CheckCircle2, AlertCircle, Building2, MessageSquare } from 'lucide-react'
 
 
 import type { MenuUpdation } from "@/lib/types"
+import { getCommentCellKey } from "@/lib/menu-approval"
 
 interface MenuViewModalProps {
   isOpen: boolean; onClose: () => void; menuId: string; menuType: "combined" | "company";
   preloadedMenuItems?: MenuItem[];
+  // Review mode (client approval): hides Edit and lets reviewers comment on cells
+  readOnly?: boolean;
+  headerActions?: ReactNode;
+  cellCommentCounts?: Record<string, number>;
+  onCellComment?: (cell: { cellKey: string; date: string; serviceId: string; mealPlanId: string; subMealPlanId: string; label: string }) => void;
 }
 
 interface MenuData {
@@ -29,11 +35,14 @@ type SelectedVersion = MenuUpdation | 'oldest' | 'current';
 
 interface CellRenderData {
   itemIds: string[];
-  diffs: Array<{ action: 'added' | 'removed' | 'replaced'; itemId: string; replacedWith?: string; }>;
+  diffs: Array<{
+    action: 'added' | 'removed' | 'replaced' | 'reordered' | 'description-changed'; itemId: string; replacedWith?: string;
+    fromPosition?: number; toPosition?: number; previousDescription?: string; newDescription?: string;
+  }>;
   isAffectedBySelectedUpdation: boolean;
 }
 
-export function MenuViewModal({ isOpen, onClose, menuId, menuType, preloadedMenuItems }: MenuViewModalProps) {
+export function MenuViewModal({ isOpen, onClose, menuId, menuType, preloadedMenuItems, readOnly, headerActions, cellCommentCounts, onCellComment }: MenuViewModalProps) {
   const router = useRouter();
   const [menu, setMenu] = useState<MenuData | null>(null);
   const [loading, setLoading] = useState(false);
@@ -266,6 +275,8 @@ export function MenuViewModal({ isOpen, onClose, menuId, menuType, preloadedMenu
   const applyOrReverseChanges = useCallback((initial: string[], changes: any[], reverse: boolean) => {
     let items = new Set(initial);
     changes.forEach(c => {
+      // Reorders and description edits don't change which items are in the cell
+      if (c.action === "reordered" || c.action === "description-changed") return;
       if (reverse) {
         if (c.action === "added") items.delete(c.itemId);
         else if (c.action === "removed") items.add(c.itemId);
@@ -339,7 +350,8 @@ export function MenuViewModal({ isOpen, onClose, menuId, menuType, preloadedMenu
               <div className="flex gap-2 items-center">
                 <div className="relative w-64 mr-2"><Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" /><Input placeholder="Search meals or items..." className="pl-8 h-9 text-sm" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} /></div>
                 <Button onClick={handleDownloadXLSX} variant="outline" size="sm"><Download className="h-4 w-4 mr-2" /> Download</Button>
-                <Button size="sm" onClick={handleEdit} className="bg-indigo-600 hover:bg-indigo-700 text-white"><Edit className="h-4 w-4 mr-2" /> Edit</Button>
+                {headerActions}
+                {!readOnly && <Button size="sm" onClick={handleEdit} className="bg-indigo-600 hover:bg-indigo-700 text-white"><Edit className="h-4 w-4 mr-2" /> Edit</Button>}
                 <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors ml-2"><X className="h-5 w-5 text-gray-500" /></button>
               </div>
             </div>
@@ -413,15 +425,24 @@ export function MenuViewModal({ isOpen, onClose, menuId, menuType, preloadedMenu
                                   <td className="border-b border-r border-gray-400 p-4 sticky left-0 z-10 bg-white group-hover:bg-slate-50 text-sm font-medium text-slate-600" style={{left: '180px'}}>{subMealPlan.name}</td>
                                   {dateRange.map(({ date }) => {
                                     const { itemIds, diffs, isAffectedBySelectedUpdation } = getEffectiveCellData(date, service.id, mealPlan.id, subMealPlan.id, selectedUpdation);
+                                    const cellKey = getCommentCellKey(date, service.id, mealPlan.id, subMealPlan.id);
+                                    const commentCount = cellCommentCounts?.[cellKey] || 0;
                                     return (
-                                      <td key={date} className={`border-b border-r border-gray-400 p-3 align-top transition-colors ${isAffectedBySelectedUpdation ? "bg-amber-50/30" : ""}`}>
+                                      <td key={date} className={`border-b border-r border-gray-400 p-3 align-top transition-colors ${isAffectedBySelectedUpdation ? "bg-amber-50/30" : ""} ${commentCount > 0 ? "bg-amber-50" : ""}`}>
                                         <div className="flex flex-col gap-2">
+                                          {onCellComment && (
+                                            <button onClick={() => onCellComment({ cellKey, date, serviceId: service.id, mealPlanId: mealPlan.id, subMealPlanId: subMealPlan.id, label: `${service.name} · ${mealPlan.name} / ${subMealPlan.name} · ${date}` })} className={`self-end flex items-center gap-1 text-[10px] font-bold px-1.5 py-0.5 rounded ${commentCount > 0 ? "bg-amber-500 text-white" : "text-slate-400 hover:bg-slate-100"}`} title="Comment on this cell">
+                                              <MessageSquare className="h-3 w-3" />{commentCount > 0 && commentCount}
+                                            </button>
+                                          )}
                                           {diffs.length > 0 && typeof selectedUpdation === 'object' ? (
                                             diffs.map((ch, i) => (
                                               <div key={i} className="flex flex-col gap-1">
                                                 {ch.action === "added" && <div className="p-2.5 rounded-lg bg-green-50 border border-green-200 shadow-sm"><div className="flex items-center justify-between text-[10px] font-black text-green-600 uppercase mb-1"><span>New Item Added</span><CheckCircle2 className="h-3 w-3"/></div><div className="text-sm font-bold text-green-900">{getMenuItemName(ch.itemId)}</div></div>}
                                                 {ch.action === "removed" && <div className="p-2.5 rounded-lg bg-red-50 border border-red-100 opacity-60"><div className="text-[10px] font-black text-red-400 uppercase mb-1">Removed</div><div className="text-sm font-medium text-red-800 line-through">{getMenuItemName(ch.itemId)}</div></div>}
                                                 {ch.action === "replaced" && <div className="p-2.5 rounded-lg bg-white border-2 border-amber-200 shadow-md"><div className="flex items-center justify-between text-[10px] font-black text-amber-600 uppercase mb-1"><span>Item Replaced</span><AlertCircle className="h-3 w-3"/></div><div className="text-xs text-red-500 line-through opacity-50 mb-1">{getMenuItemName(ch.itemId)}</div><div className="flex items-center gap-2"><ArrowRight className="h-3 w-3 text-amber-500" /><div className="text-sm font-black text-slate-800">{getMenuItemName(ch.replacedWith)}</div></div></div>}
+                                                {ch.action === "reordered" && <div className="p-2.5 rounded-lg bg-blue-50 border border-blue-100"><div className="flex items-center justify-between text-[10px] font-black text-blue-500 uppercase mb-1"><span>Moved</span><ArrowUpDown className="h-3 w-3"/></div><div className="text-sm font-bold text-slate-800">{getMenuItemName(ch.itemId)}</div><div className="text-[10px] text-blue-600">Position {(ch.fromPosition ?? 0) + 1} → {(ch.toPosition ?? 0) + 1}</div></div>}
+                                                {ch.action === "description-changed" && <div className="p-2.5 rounded-lg bg-purple-50 border border-purple-100"><div className="flex items-center justify-between text-[10px] font-black text-purple-500 uppercase mb-1"><span>Description Changed</span><Pencil className="h-3 w-3"/></div><div className="text-sm font-bold text-slate-800">{getMenuItemName(ch.itemId)}</div><div className="text-[10px] text-red-500 line-through opacity-60">{ch.previousDescription || "No description"}</div><div className="text-[10px] text-purple-700">{ch.newDescription || "No description"}</div></div>}
                                               </div>
                                             ))
                                           ) : (
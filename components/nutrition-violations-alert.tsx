@@ -0,0 +1,60 @@
+import React from "react"
+import { AlertCircle } from "lucide-react"
+import type { NutritionViolation } from "@/lib/nutrition-rollup"
+
+interface NutritionViolationsAlertProps {
+  violations: NutritionViolation[]
+}
+
+const METRIC_UNITS: Record<string, string> = {
+  calories: "kcal",
+  protein: "g",
+  carbs: "g",
+  fat: "g",
+}
+
+export function NutritionViolationsAlert({ violations }: NutritionViolationsAlertProps) {
+  if (violations.length === 0) return null
+
+  return (
+    <div className="px-6 py-3 bg-orange-50 border-b border-orange-200">
+      <div className="flex items-start gap-3">
+        <AlertCircle className="h-5 w-5 text-orange-600 mt-0.5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-orange-900 text-sm">
+            {violations.length === 1
+              ? "1 Nutrition Target Not Met"
+              : `${violations.length} Nutrition Targets Not Met`}
+          </h3>
+          <div className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+            {violations.map((violation, idx) => (
+              <p key={`${violation.date}-${violation.serviceId || "day"}-${violation.metric}-${idx}`} className="text-xs text-orange-700">
+                <span className="font-medium">
+                  {new Date(violation.date).toLocaleDateString("en-US", { month: "short", day: "numeric" })} ·{" "}
+                  {violation.scopeName}
+                </span>
+                :{" "}
+                {violation.kind === "excluded" ? (
+                  <>
+                    contains excluded allergen <span className="font-semibold text-orange-900">{violation.actual}</span>
+                  </>
+                ) : (
+                  <>
+                    <span className="font-semibold text-orange-900">
+                      {violation.actual} {METRIC_UNITS[violation.metric]}
+                    </span>{" "}
+                    {violation.metric} ({violation.kind === "max" ? "max" : "min"}:{" "}
+                    <span className="font-semibold">{violation.limit}</span>)
+                  </>
+                )}
+              </p>
+            ))}
+          </div>
+          <p className="text-[11px] text-orange-600 mt-2 font-medium">
+            You can continue, but these days are outside the building's nutrition targets.
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
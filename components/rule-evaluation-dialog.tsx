@@ -0,0 +1,235 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, Play } from "lucide-react"
+import { toast } from "@/hooks/use-toast"
+import { companyMenusService, menuItemsService } from "@/lib/services"
+import {
+  compareRuleEvaluations,
+  evaluateRule,
+  filterMenusForRule,
+  getEvaluationWindow,
+  type RuleEvaluationCell,
+  type RuleEvaluationReport,
+} from "@/lib/rule-evaluation"
+import type { MealPlan, MenuPlanningRule, SubMealPlan } from "@/lib/types"
+
+interface RuleEvaluationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  savedRule: MenuPlanningRule | null
+  draftRule: MenuPlanningRule
+  mealPlans: MealPlan[]
+  subMealPlans: SubMealPlan[]
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+function Delta({ value, higherIsBetter }: { value: number; higherIsBetter: boolean }) {
+  const points = Math.round(value * 100)
+  if (points === 0) return <span className="text-gray-400">±0</span>
+  const good = higherIsBetter ? points > 0 : points < 0
+  return <span className={good ? "text-green-700" : "text-red-600"}>{points > 0 ? `+${points}` : points}</span>
+}
+
+function CellStats({ cell }: { cell?: RuleEvaluationCell }) {
+  if (!cell) return <span className="text-gray-300">—</span>
+  return (
+    <span className="text-xs">
+      {percent(cell.coverageRate)} covered · {percent(cell.violationRate)} violating
+      <span className="text-gray-400"> ({cell.itemViolations}/{cell.itemsChecked})</span>
+    </span>
+  )
+}
+
+/**
+ * Replays the last N weeks of company menus against the saved rule and the draft in the
+ * editor, so a rule (e.g. one inferred by AI) can be judged before it is saved.
+ */
+export function RuleEvaluationDialog({ open, onOpenChange, savedRule, draftRule, mealPlans, subMealPlans }: RuleEvaluationDialogProps) {
+  const [weeks, setWeeks] = useState(8)
+  const [running, setRunning] = useState(false)
+  const [saved, setSaved] = useState<RuleEvaluationReport | null>(null)
+  const [draft, setDraft] = useState<RuleEvaluationReport | null>(null)
+
+  // Results belong to the rule they were run for
+  useEffect(() => {
+    setSaved(null)
+    setDraft(null)
+  }, [draftRule.serviceId, draftRule.subServiceId, draftRule.companyId])
+
+  const cellName = (mealPlanId: string, subMealPlanId: string) =>
+    `${mealPlans.find((m) => m.id === mealPlanId)?.name || mealPlanId} / ${
+      subMealPlans.find((s) => s.id === subMealPlanId)?.name || subMealPlanId
+    }`
+
+  const runEvaluation = async () => {
+    try {
+      setRunning(true)
+      const window = getEvaluationWindow(weeks, new Date().toISOString().split("T")[0])
+      const [menus, items] = await Promise.all([
+        companyMenusService.getInDateRange(window.from, window.to),
+        menuItemsService.getAll(),
+      ])
+      const itemsById = new Map(items.map((item) => [item.id, item]))
+      const scoped = filterMenusForRule(menus, draftRule)
+      setDraft(evaluateRule(draftRule, scoped, itemsById, window))
+      setSaved(savedRule ? evaluateRule(savedRule, scoped, itemsById, window) : null)
+    } catch (error) {
+      console.error(error)
+      toast({ title: "Error", description: "Failed to evaluate rules", variant: "destructive" })
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const comparison = useMemo(() => {
+    if (!draft) return []
+    return compareRuleEvaluations(saved || { ...draft, cells: [] }, draft)
+  }, [saved, draft])
+
+  const dayRuleRows = useMemo(() => {
+    const rules = new Set([...(saved?.dayRules || []), ...(draft?.dayRules || [])].map((r) => r.rule))
+    return Array.from(rules).map((rule) => ({
+      rule,
+      saved: saved?.dayRules.find((r) => r.rule === rule),
+      draft: draft?.dayRules.find((r) => r.rule === rule),
+    }))
+  }, [saved, draft])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Evaluate Rules Against Past Menus</DialogTitle>
+          <DialogDescription>
+            Coverage is the share of served cells the rule constrains; violation rate is the share of items in those
+            cells whose tags fall outside the rule. Compares the saved rule with the unsaved draft in the editor.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Weeks to replay</Label>
+            <Input
+              type="number"
+              min={1}
+              max={52}
+              value={weeks}
+              onChange={(e) => setWeeks(Math.min(52, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-24 h-9"
+            />
+          </div>
+          <Button onClick={runEvaluation} disabled={running} className="h-9">
+            {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+            Run Evaluation
+          </Button>
+          {draft && (
+            <span className="text-xs text-gray-500">
+              {draft.from} → {draft.to} · {draft.menusReplayed} menus · {draft.servedDays} days
+            </span>
+          )}
+        </div>
+
+        {draft && draft.menusReplayed === 0 && (
+          <div className="text-sm text-gray-500 italic">No company menus in this window for this service / sub-service.</div>
+        )}
+
+        {draft && draft.menusReplayed > 0 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                { label: "Saved rule", report: saved },
+                { label: "Draft (editor)", report: draft },
+              ].map(({ label, report }) => (
+                <div key={label} className="border rounded-lg p-3 bg-gray-50">
+                  <div className="text-sm font-semibold text-gray-800 mb-1">{label}</div>
+                  {report ? (
+                    <div className="text-xs text-gray-600 space-y-0.5">
+                      <div>Coverage: <strong>{percent(report.totals.coverageRate)}</strong> ({report.totals.coveredCells}/{report.totals.servedCells} cells)</div>
+                      <div>Cell-rule violations: <strong>{percent(report.totals.violationRate)}</strong> ({report.totals.itemViolations}/{report.totals.itemsChecked} items)</div>
+                      <div>Day-rule violations: {report.counts["day-rule"]} · Cooldown violations: {report.counts.cooldown}</div>
+                      {report.untaggedItemIds.length > 0 && (
+                        <div className="text-amber-700">{report.untaggedItemIds.length} untagged items couldn't be checked</div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="text-xs text-gray-400 italic">No saved rule for this scope</div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Cell</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>Draft</TableHead>
+                  <TableHead className="text-right">Coverage Δ</TableHead>
+                  <TableHead className="text-right">Violation Δ</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.map((row) => (
+                  <TableRow key={row.cellKey}>
+                    <TableCell className="text-sm font-medium">{cellName(row.mealPlanId, row.subMealPlanId)}</TableCell>
+                    <TableCell><CellStats cell={saved ? row.a : undefined} /></TableCell>
+                    <TableCell><CellStats cell={row.b} /></TableCell>
+                    <TableCell className="text-right text-xs">
+                      {saved ? <Delta value={row.coverageDelta} higherIsBetter /> : "—"}
+                    </TableCell>
+                    <TableCell className="text-right text-xs">
+                      {saved ? <Delta value={row.violationDelta} higherIsBetter={false} /> : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {dayRuleRows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day / grand rule</TableHead>
+                    <TableHead>Saved</TableHead>
+                    <TableHead>Draft</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dayRuleRows.map(({ rule, saved: s, draft: d }) => (
+                    <TableRow key={rule}>
+                      <TableCell className="text-sm">
+                        {rule}
+                        {!(s || d)?.checked && (
+                          <Badge variant="outline" className="ml-2 text-[10px] text-gray-500">AI prompt only</Badge>
+                        )}
+                      </TableCell>
+                      {[s, d].map((r, i) => (
+                        <TableCell key={i} className="text-xs">
+                          {!r ? (
+                            <span className="text-gray-300">—</span>
+                          ) : r.checked ? (
+                            `${percent(r.violationRate)} of ${r.days} days broken`
+                          ) : (
+                            <span className="text-gray-400">not checked</span>
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { getRuleVersionStatus, type MenuPlanningRuleVersion, type RuleVersionStatus } from "@/lib/rule-versions"
+
+interface RuleHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  versions: MenuPlanningRuleVersion[]
+  onLoad: (version: MenuPlanningRuleVersion) => void
+  onCancelScheduled: (version: MenuPlanningRuleVersion) => void
+}
+
+const STATUS_STYLES: Record<RuleVersionStatus, string> = {
+  scheduled: "bg-blue-50 text-blue-700 border-blue-200",
+  active: "bg-green-50 text-green-700 border-green-200",
+  superseded: "text-gray-500",
+}
+
+const countCellRules = (version: MenuPlanningRuleVersion) =>
+  Object.values(version.dayRules || {}).reduce((sum, day) => sum + Object.keys(day?.cellRules || {}).length, 0)
+
+function formatTimestamp(value: any) {
+  const date = value?.toDate ? value.toDate() : value ? new Date(value) : null
+  return date ? date.toLocaleString() : "—"
+}
+
+export function RuleHistoryDialog({ open, onOpenChange, versions, onLoad, onCancelScheduled }: RuleHistoryDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rule History</DialogTitle>
+          <DialogDescription>
+            Each save is a version that applies from its effective week. Menus are validated against the version in
+            force for their week.
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length === 0 ? (
+          <div className="text-sm text-gray-500 italic py-6 text-center">No versions saved yet for this scope.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Effective from</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Rules</TableHead>
+                <TableHead>Saved</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => {
+                const status = getRuleVersionStatus(version, versions)
+                return (
+                  <TableRow key={version.id}>
+                    <TableCell className="font-medium">v{version.version}</TableCell>
+                    <TableCell>{version.effectiveFrom || "Before versioning"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`capitalize ${STATUS_STYLES[status]}`}>{status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600">
+                      {(version.grandRules || []).length} grand · {countCellRules(version)} cell
+                      {version.cooldownDays ? ` · ${version.cooldownDays}d cooldown` : ""}
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-500">{formatTimestamp(version.createdAt)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button size="sm" variant="ghost" className="h-7" onClick={() => onLoad(version)}>
+                        Load
+                      </Button>
+                      {status === "scheduled" && (
+                        <Button size="sm" variant="ghost" className="h-7 text-red-600" onClick={() => onCancelScheduled(version)}>
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
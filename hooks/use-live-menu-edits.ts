@@ -1,62 +1,136 @@
 import { useEffect, useState, useRef, useCallback } from "react"
-import { ref, update, onValue, get, remove } from "firebase/database"
+import { ref, update, onValue, remove, push } from "firebase/database"
 import { rtdb } from "@/lib/firebase"
+import {
+  createCellOp,
+  findCellConflict,
+  mergeCellOps,
+  mergeClocks,
+  type DraftCellOp,
+  type VectorClock,
+} from "@/lib/menu-draft-ops"
 
 /**
  * useLiveMenuEdits
- * 
+ *
  * Synchronizes real-time draft changes directly over the Firebase Realtime Database.
  * This is used so other users can see live updates to the grid without incurring
  * expensive Firestore document writes on every cell edit.
+ *
+ * Edits are stored as per-cell operations under `menu-drafts/{menuId}/{cellKey}/{opId}`
+ * and merged with vector clock ordering (see lib/menu-draft-ops), so simultaneous edits
+ * to the same cell are combined instead of overwriting each other. Cells edited
+ * concurrently by two editors are reported in `conflicts` until dismissed.
  */
-export function useLiveMenuEdits(menuId: string | undefined, onRemoteChange?: (newData: Record<string, any>) => void) {
+export function useLiveMenuEdits(
+  menuId: string | undefined,
+  userName: string | undefined,
+  onRemoteChange?: (newData: Record<string, any>) => void
+) {
   const [draftChanges, setDraftChanges] = useState<Record<string, any>>({});
-  const lastLocalUpdateRef = useRef<number>(0);
+  const [conflicts, setConflicts] = useState<Record<string, string[]>>({});
   const onRemoteChangeRef = useRef(onRemoteChange);
+  // One client per tab, so the same user in two tabs still merges correctly
+  const clientIdRef = useRef(`c${Math.random().toString(36).slice(2, 10)}`);
+  const clockRef = useRef<VectorClock>({});
+  const seenOpsRef = useRef<Set<string>>(new Set());
+  const opsByCellRef = useRef<Record<string, DraftCellOp[]>>({});
+  const dismissedRef = useRef<Record<string, number>>({}); // cellKey -> op count when dismissed
 
   // Keep ref updated without triggering re-renders
   useEffect(() => {
     onRemoteChangeRef.current = onRemoteChange;
   }, [onRemoteChange]);
-  
+
   useEffect(() => {
     if (!menuId) return;
 
+    seenOpsRef.current = new Set();
+    opsByCellRef.current = {};
+    dismissedRef.current = {};
+    clockRef.current = {};
     const draftsRef = ref(rtdb, `menu-drafts/${menuId}`);
 
     const unsubscribe = onValue(draftsRef, (snapshot) => {
-      const data = snapshot.val();
-      if (data) {
-        setDraftChanges(data);
-        
-        // Notify the UI to merge these changes into `menuData`
-        // We only notify if it's been a little while since OUR last broadcast,
-        // otherwise we might overwrite our own optimistic state.
-        if (Date.now() - lastLocalUpdateRef.current > 500) {
-          onRemoteChangeRef.current?.(data);
-        }
+      const data: Record<string, Record<string, DraftCellOp>> = snapshot.val() || {};
+      const remoteCells = new Set<string>();
+
+      Object.entries(data).forEach(([cellKey, ops]) => {
+        Object.entries(ops || {}).forEach(([opId, op]) => {
+          if (seenOpsRef.current.has(opId)) return;
+          seenOpsRef.current.add(opId);
+          const entry = { ...op, opId, cellKey };
+          opsByCellRef.current[cellKey] = [...(opsByCellRef.current[cellKey] || []), entry];
+          clockRef.current = mergeClocks(clockRef.current, op.clock || {});
+          if (op.clientId !== clientIdRef.current) remoteCells.add(cellKey);
+        });
+      });
+
+      // Drafts were cleared (menu saved)
+      if (Object.keys(data).length === 0) {
+        seenOpsRef.current = new Set();
+        opsByCellRef.current = {};
+        dismissedRef.current = {};
+      }
+
+      const merged: Record<string, any> = {};
+      const nextConflicts: Record<string, string[]> = {};
+      Object.entries(opsByCellRef.current).forEach(([cellKey, ops]) => {
+        merged[cellKey] = mergeCellOps(ops);
+        const editors = findCellConflict(ops);
+        if (editors.length > 1 && (dismissedRef.current[cellKey] || 0) < ops.length) nextConflicts[cellKey] = editors;
+      });
+      setDraftChanges(merged);
+      setConflicts(nextConflicts);
+
+      // Our own ops are already in local state; only hand over cells someone else touched
+      if (remoteCells.size > 0) {
+        const changed: Record<string, any> = {};
+        remoteCells.forEach((cellKey) => {
+          changed[cellKey] = merged[cellKey];
+        });
+        onRemoteChangeRef.current?.(changed);
       }
     });
 
     return () => unsubscribe();
   }, [menuId]);
 
-  // Push an update to RTDB
-  const broadcastEdit = useCallback(async (cellId: string, cellData: any) => {
+  // Push one cell edit to RTDB as an operation
+  const broadcastEdit = useCallback(async (cellId: string, before: any, after: any) => {
     if (!menuId) return;
-    
-    lastLocalUpdateRef.current = Date.now();
-    const draftsRef = ref(rtdb, `menu-drafts/${menuId}`);
-    
-    // Partially update the RTDB node with just this cell's changes
+
+    const clientId = clientIdRef.current;
+    const opRef = push(ref(rtdb, `menu-drafts/${menuId}/${cellId}`));
+    const clock = { ...clockRef.current, [clientId]: (clockRef.current[clientId] || 0) + 1 };
+    const op = createCellOp(before, after, {
+      opId: opRef.key as string,
+      cellKey: cellId,
+      clientId,
+      userName: userName || "Unknown User",
+      clock,
+      at: Date.now(),
+    });
+    if (!op) return;
+    clockRef.current = clock;
+
     try {
-      await update(draftsRef, {
-        [cellId]: cellData
-      });
+      const { opId: _opId, cellKey: _cellKey, ...payload } = op;
+      await update(ref(rtdb, `menu-drafts/${menuId}/${cellId}`), { [op.opId]: payload });
     } catch (e) {
       console.error("Failed to broadcast edit:", e);
     }
-  }, [menuId]);
+  }, [menuId, userName]);
+
+  // Hide a cell's conflict marker until it is edited concurrently again
+  const dismissConflict = useCallback((cellId: string) => {
+    dismissedRef.current[cellId] = opsByCellRef.current[cellId]?.length || 0;
+    setConflicts((prev) => {
+      const next = { ...prev };
+      delete next[cellId];
+      return next;
+    });
+  }, []);
 
   // Clean up all drafts upon successful save
   const clearDrafts = useCallback(async () => {
@@ -65,6 +139,7 @@ export function useLiveMenuEdits(menuId: string | undefined, onRemoteChange?: (n
       const draftsRef = ref(rtdb, `menu-drafts/${menuId}`);
       await remove(draftsRef);
       setDraftChanges({});
+      setConflicts({});
     } catch (e) {
       console.error("Failed to clear drafts:", e);
     }
@@ -72,7 +147,9 @@ export function useLiveMenuEdits(menuId: string | undefined, onRemoteChange?: (n
 
   return {
     draftChanges,
+    conflicts,
     broadcastEdit,
+    dismissConflict,
     clearDrafts
   };
 }
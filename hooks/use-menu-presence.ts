@@ -9,6 +9,23 @@ export interface EditorPresence {
   timestamp: number;
 }
 
+// A cell selection older than this no longer counts as a soft lock (e.g. an idle tab)
+const CELL_LOCK_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * The other editor holding a soft lock on a cell: whoever selected it first, ignoring
+ * stale selections. Soft locks only warn; they never block the edit.
+ */
+export function getCellLockHolder(
+  editors: Record<string, EditorPresence>,
+  cellId: string,
+  now = Date.now()
+): EditorPresence | null {
+  return Object.values(editors)
+    .filter((e) => e.activeCell === cellId && now - e.timestamp < CELL_LOCK_TTL_MS)
+    .sort((a, b) => a.timestamp - b.timestamp)[0] || null;
+}
+
 export function useMenuPresence(
   menuId: string, 
   userId: string | undefined, 
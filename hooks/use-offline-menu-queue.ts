@@ -0,0 +1,70 @@
+import { useEffect, useState, useCallback } from "react"
+import { offlineMenuQueue } from "@/lib/offline-menu-queue"
+import type { MenuCellData } from "@/lib/types"
+
+/**
+ * useOfflineMenuQueue
+ *
+ * Tracks browser connectivity for the menu editor and exposes the IndexedDB queue that
+ * holds cell edits made while offline (see lib/offline-menu-queue).
+ */
+export function useOfflineMenuQueue(menuId: string | undefined) {
+  const [isOnline, setIsOnline] = useState(typeof navigator === "undefined" ? true : navigator.onLine);
+  const [queuedCount, setQueuedCount] = useState(0);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  const refreshCount = useCallback(async () => {
+    if (!menuId) {
+      setQueuedCount(0);
+      return;
+    }
+    try {
+      setQueuedCount((await offlineMenuQueue.getQueuedEdits(menuId)).length);
+    } catch (e) {
+      console.error("Failed to read offline queue:", e);
+    }
+  }, [menuId]);
+
+  useEffect(() => {
+    refreshCount();
+  }, [refreshCount]);
+
+  const queueEdit = useCallback(async (cellKey: string, base: MenuCellData | undefined, after: MenuCellData | undefined) => {
+    if (!menuId) return;
+    try {
+      await offlineMenuQueue.queueCellEdit(menuId, cellKey, base, after);
+      await refreshCount();
+    } catch (e) {
+      console.error("Failed to queue offline edit:", e);
+    }
+  }, [menuId, refreshCount]);
+
+  const getQueuedEdits = useCallback(async () => {
+    if (!menuId) return [];
+    return offlineMenuQueue.getQueuedEdits(menuId);
+  }, [menuId]);
+
+  const clearQueuedEdits = useCallback(async (cellKeys?: string[]) => {
+    if (!menuId) return;
+    await offlineMenuQueue.clearQueuedEdits(menuId, cellKeys);
+    await refreshCount();
+  }, [menuId, refreshCount]);
+
+  return {
+    isOnline,
+    queuedCount,
+    queueEdit,
+    getQueuedEdits,
+    clearQueuedEdits
+  };
+}
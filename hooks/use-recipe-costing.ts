@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  recipesService,
+  ingredientsService,
+  taxTemplatesService,
+  suppliersService,
+  ingredientPricesService,
+  type Recipe,
+  type Ingredient,
+  type TaxTemplate,
+  type Supplier,
+  type IngredientPrice,
+} from "@/lib/firestore"
+import { buildCostingContext, calculateMenuCostings, type ItemCosting } from "@/lib/recipe-costing"
+
+/**
+ * useRecipeCosting
+ *
+ * Loads recipes, ingredients, tax templates, suppliers and supplier prices once,
+ * and returns a map of menuItemId -> per-portion costing for the given items.
+ */
+export function useRecipeCosting(menuItems: Array<{ id: string; price?: number }>, enabled = true) {
+  const [recipes, setRecipes] = useState<Recipe[]>([])
+  const [ingredients, setIngredients] = useState<Ingredient[]>([])
+  const [taxTemplates, setTaxTemplates] = useState<TaxTemplate[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [prices, setPrices] = useState<IngredientPrice[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+
+    async function load() {
+      setLoading(true)
+      try {
+        const [recipesData, ingredientsData, taxData, suppliersData, pricesData] = await Promise.all([
+          recipesService.getAll(),
+          ingredientsService.getAll(),
+          taxTemplatesService.getAll(),
+          suppliersService.getAll(),
+          ingredientPricesService.getAll(),
+        ])
+        if (cancelled) return
+        setRecipes(recipesData)
+        setIngredients(ingredientsData)
+        setTaxTemplates(taxData)
+        setSuppliers(suppliersData)
+        setPrices(pricesData)
+      } catch (error) {
+        console.error("Error loading recipe costing data:", error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [enabled])
+
+  const costings = useMemo<Map<string, ItemCosting>>(() => {
+    if (recipes.length === 0) return new Map()
+    const context = buildCostingContext(ingredients, taxTemplates, suppliers, prices)
+    return calculateMenuCostings(menuItems, recipes, context)
+  }, [menuItems, recipes, ingredients, taxTemplates, suppliers, prices])
+
+  return { costings, loading }
+}
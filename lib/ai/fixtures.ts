@@ -0,0 +1,25 @@
+// Recorded model responses replayed by the mock provider (AI_PROVIDER=mock).
+// Add recordings by hand or run a real provider with AI_RECORD_FIXTURES=true.
+import menuSuggest from "@/lib/ai/fixtures/menu-suggest.json"
+import menuCategorize from "@/lib/ai/fixtures/menu-categorize.json"
+import inferRules from "@/lib/ai/fixtures/infer-rules.json"
+import gradeExam from "@/lib/ai/fixtures/grade-exam.json"
+import suggestQuestions from "@/lib/ai/fixtures/suggest-questions.json"
+import train from "@/lib/ai/fixtures/train.json"
+import smoke from "@/lib/ai/fixtures/smoke.json"
+
+export interface AiFixture {
+  match?: string // substring of the prompt this recording answers; omit for the task default
+  response: string
+  usage?: { promptTokens: number; completionTokens: number }
+}
+
+export const AI_FIXTURES: Record<string, AiFixture[]> = {
+  "menu-suggest": menuSuggest,
+  "menu-categorize": menuCategorize,
+  "infer-rules": inferRules,
+  "grade-exam": gradeExam,
+  "suggest-questions": suggestQuestions,
+  train,
+  smoke,
+}
@@ -0,0 +1,279 @@
+/**
+ * AI Provider Layer (server-only)
+ *
+ * Every /api/ai route calls the model through `generateText` / `generateJson` instead of
+ * building its own OpenAI client. The layer adds:
+ * - one provider chosen from env: the OpenAI-compatible endpoint (Bedrock Mantle by default)
+ *   or a mock that replays recorded fixtures from lib/ai/fixtures, so routes run offline
+ * - a per-attempt timeout and retries with backoff on timeouts, 429 / 5xx and output that
+ *   fails its zod schema
+ * - token and cost accounting per call, stored in the `aiUsage` collection
+ *
+ * Env: AI_PROVIDER ("openai" | "mock"), AWS_BEARER_TOKEN_BEDROCK or OPENAI_API_KEY,
+ * OPENAI_BASE_URL, BEDROCK_MANTLE_MODEL, AI_TIMEOUT_MS (default 60000), AI_MAX_RETRIES
+ * (default 2), AI_PRICE_INPUT_PER_1M / AI_PRICE_OUTPUT_PER_1M (USD, override the price table),
+ * AI_RECORD_FIXTURES=true to append real responses to the fixture files.
+ */
+import OpenAI from "openai"
+import type { ZodType, ZodTypeDef } from "zod"
+import { aiUsageService } from "@/lib/firestore/aiUsageService"
+import { AI_FIXTURES, type AiFixture } from "@/lib/ai/fixtures"
+
+export type AiTask =
+  | "menu-suggest"
+  | "menu-categorize"
+  | "infer-rules"
+  | "grade-exam"
+  | "suggest-questions"
+  | "train"
+  | "smoke"
+
+export interface AiMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface AiRequest {
+  task: AiTask
+  messages: AiMessage[]
+  temperature?: number
+  // Ask the endpoint for a JSON object (response_format); arrays still need the prompt to say so
+  jsonObject?: boolean
+}
+
+export interface AiUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface AiCompletion {
+  text: string
+  usage: AiUsage
+}
+
+export interface AiProvider {
+  name: string
+  model: string
+  baseURL?: string
+  complete(request: AiRequest, signal: AbortSignal): Promise<AiCompletion>
+}
+
+export interface AiResult<T> {
+  data: T
+  text: string
+  usage: AiUsage
+  costUsd: number
+  attempts: number
+  provider: string
+  model: string
+}
+
+const DEFAULT_BASE_URL = "https://bedrock-mantle.ap-south-1.api.aws/v1"
+const DEFAULT_MODEL = "openai.gpt-oss-120b"
+
+// USD per 1M tokens
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "openai.gpt-oss-120b": { input: 0.15, output: 0.6 },
+  "openai.gpt-oss-20b": { input: 0.07, output: 0.3 },
+}
+
+export function getEnv(name: string): string | undefined {
+  const v = process.env[name]
+  if (!v) return undefined
+  const t = v.trim()
+  return t.length ? t : undefined
+}
+
+export function createOpenAiProvider(config: { apiKey: string; baseURL?: string; model?: string }): AiProvider {
+  const model = config.model || DEFAULT_MODEL
+  const baseURL = config.baseURL || DEFAULT_BASE_URL
+  // Retries are handled here (so schema failures retry too), not by the SDK
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL, maxRetries: 0 })
+  return {
+    name: "openai",
+    model,
+    baseURL,
+    async complete(request, signal) {
+      const response = await client.chat.completions.create(
+        {
+          model,
+          messages: request.messages,
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.jsonObject && { response_format: { type: "json_object" as const } }),
+        },
+        { signal },
+      )
+      return {
+        text: response.choices?.[0]?.message?.content ?? "",
+        usage: {
+          promptTokens: response.usage?.prompt_tokens || 0,
+          completionTokens: response.usage?.completion_tokens || 0,
+        },
+      }
+    },
+  }
+}
+
+/**
+ * Replays recorded fixtures: the first recording whose `match` appears in the prompt,
+ * otherwise the task's first recording without a `match`
+ */
+export function createMockProvider(fixtures: Partial<Record<AiTask, AiFixture[]>> = AI_FIXTURES): AiProvider {
+  return {
+    name: "mock",
+    model: "mock",
+    async complete(request) {
+      const prompt = request.messages.map((m) => m.content).join("\n")
+      const recordings = fixtures[request.task] || []
+      const recording =
+        recordings.find((r) => r.match && prompt.includes(r.match)) || recordings.find((r) => !r.match)
+      if (!recording) throw new Error(`No mock fixture recorded for AI task "${request.task}"`)
+      return {
+        text: recording.response,
+        usage: recording.usage || { promptTokens: 0, completionTokens: 0 },
+      }
+    },
+  }
+}
+
+/**
+ * Provider from env; null when a real provider is selected but no API key is configured.
+ * `defaults.baseURL` replaces DEFAULT_BASE_URL when OPENAI_BASE_URL is unset.
+ */
+export function getAiProvider(defaults: { baseURL?: string } = {}): AiProvider | null {
+  if (getEnv("AI_PROVIDER") === "mock") return createMockProvider()
+  const apiKey = getEnv("AWS_BEARER_TOKEN_BEDROCK") ?? getEnv("OPENAI_API_KEY")
+  if (!apiKey) return null
+  return createOpenAiProvider({
+    apiKey,
+    baseURL: getEnv("OPENAI_BASE_URL") ?? defaults.baseURL,
+    model: getEnv("BEDROCK_MANTLE_MODEL"),
+  })
+}
+
+export function estimateCostUsd(model: string, usage: AiUsage): number {
+  const inputOverride = getEnv("AI_PRICE_INPUT_PER_1M")
+  const outputOverride = getEnv("AI_PRICE_OUTPUT_PER_1M")
+  const price = MODEL_PRICES[model] || { input: 0, output: 0 }
+  const input = inputOverride ? Number(inputOverride) : price.input
+  const output = outputOverride ? Number(outputOverride) : price.output
+  return (usage.promptTokens * input + usage.completionTokens * output) / 1_000_000
+}
+
+/**
+ * Parses model output as JSON, tolerating markdown fences and prose around the payload
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/```$/, "").trim()
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    const match = trimmed.match(/[[{][\s\S]*[\]}]/)
+    if (!match) throw new Error(`AI response is not JSON: ${text.substring(0, 200)}`)
+    return JSON.parse(match[0])
+  }
+}
+
+const isRetryable = (error: any) =>
+  error?.name === "AbortError" ||
+  error?.retryable === true ||
+  error?.status === 429 ||
+  (typeof error?.status === "number" && error.status >= 500) ||
+  error?.code === "ECONNRESET" ||
+  error?.code === "ETIMEDOUT"
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function recordFixture(task: AiTask, messages: AiMessage[], completion: AiCompletion) {
+  try {
+    const fs = await import("fs/promises")
+    const path = await import("path")
+    const file = path.join(process.cwd(), "lib", "ai", "fixtures", `${task}.json`)
+    const existing: AiFixture[] = JSON.parse(await fs.readFile(file, "utf8").catch(() => "[]"))
+    const lastUser = [...messages].reverse().find((m) => m.role === "user")?.content || ""
+    existing.push({ match: lastUser.substring(0, 120), response: completion.text, usage: completion.usage })
+    await fs.writeFile(file, `${JSON.stringify(existing, null, 2)}\n`)
+  } catch (error) {
+    console.error("Failed to record AI fixture:", error)
+  }
+}
+
+async function run<T>(
+  request: AiRequest,
+  parse: (text: string) => T,
+  options: { provider?: AiProvider; timeoutMs?: number; maxRetries?: number } = {},
+): Promise<AiResult<T>> {
+  const provider = options.provider || getAiProvider()
+  if (!provider) throw new Error("Missing AWS_BEARER_TOKEN_BEDROCK (or OPENAI_API_KEY).")
+  const timeoutMs = options.timeoutMs ?? Number(getEnv("AI_TIMEOUT_MS") || 60000)
+  const maxRetries = options.maxRetries ?? Number(getEnv("AI_MAX_RETRIES") || 2)
+
+  const usage: AiUsage = { promptTokens: 0, completionTokens: 0 }
+  const startedAt = Date.now()
+  let attempts = 0
+  let lastError: any = null
+  let result: AiResult<T> | null = null
+
+  while (attempts <= maxRetries && !result) {
+    if (attempts > 0) await sleep(500 * 2 ** (attempts - 1))
+    attempts++
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+    try {
+      const completion = await provider.complete(request, controller.signal)
+      usage.promptTokens += completion.usage.promptTokens
+      usage.completionTokens += completion.usage.completionTokens
+      let data: T
+      try {
+        data = parse(completion.text)
+      } catch (parseError: any) {
+        throw Object.assign(new Error(`Invalid AI output: ${parseError?.message || parseError}`), { retryable: true })
+      }
+      if (provider.name !== "mock" && getEnv("AI_RECORD_FIXTURES") === "true") {
+        await recordFixture(request.task, request.messages, completion)
+      }
+      result = { data, text: completion.text, usage, costUsd: 0, attempts, provider: provider.name, model: provider.model }
+    } catch (error: any) {
+      lastError = controller.signal.aborted ? Object.assign(new Error(`AI request timed out after ${timeoutMs}ms`), { name: "AbortError" }) : error
+      if (!isRetryable(lastError)) break
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  const costUsd = estimateCostUsd(provider.model, usage)
+  if (provider.name !== "mock") {
+    await aiUsageService
+      .record({
+        task: request.task,
+        provider: provider.name,
+        model: provider.model,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        costUsd,
+        durationMs: Date.now() - startedAt,
+        attempts,
+        ok: !!result,
+        ...(!result && { error: String(lastError?.message || lastError).substring(0, 500) }),
+      })
+      .catch((error) => console.error("Failed to record AI usage:", error))
+  }
+
+  if (!result) throw lastError || new Error("AI request failed")
+  return { ...result, costUsd }
+}
+
+export function generateText(request: AiRequest, options?: Parameters<typeof run>[2]): Promise<AiResult<string>> {
+  return run(request, (text) => {
+    if (!text.trim()) throw new Error("Empty response from AI")
+    return text.trim()
+  }, options)
+}
+
+export function generateJson<T>(
+  request: AiRequest & { schema: ZodType<T, ZodTypeDef, unknown> },
+  options?: Parameters<typeof run>[2],
+): Promise<AiResult<T>> {
+  const { schema, ...rest } = request
+  return run(rest, (text) => schema.parse(extractJson(text)), options)
+}
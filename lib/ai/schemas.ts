@@ -0,0 +1,90 @@
+/**
+ * Request / response schemas for the /api/ai routes
+ *
+ * Model output is validated against these before a route uses it; a response that
+ * doesn't parse counts as a failed attempt and is retried by the provider layer.
+ */
+import { z } from "zod"
+
+// ─── menu-categorize ────────────────────────────────────────────────────────
+
+export const menuCategorizeRequestSchema = z.object({
+  items: z.array(z.object({ id: z.string(), name: z.string() })),
+})
+
+export const menuCategorizeResponseSchema = z.array(
+  z.object({
+    name: z.string().optional(),
+    color: z.string().optional(),
+    cuisine: z.string().optional(),
+    primaryIngredient: z.string().optional(),
+    flavorProfile: z.string().optional(),
+    submealCategory: z.string().optional(),
+    heavyLight: z.string().optional(),
+    confidence: z.coerce.number().min(0).max(1).optional().catch(undefined),
+  }),
+)
+
+// ─── infer-rules ────────────────────────────────────────────────────────────
+
+export const inferRulesRequestSchema = z.object({
+  serviceId: z.string().min(1),
+  subServiceId: z.string().min(1),
+  companyId: z.string().min(1).optional(),
+  // Replay this many weeks of company menus against the inferred and the saved rule
+  evaluateWeeks: z.number().int().min(1).max(52).optional(),
+})
+
+const inferredCellRuleSchema = z.object({
+  allowedColors: z.array(z.string()).optional(),
+  allowedCuisines: z.array(z.string()).optional(),
+  allowedIngredients: z.array(z.string()).optional(),
+  allowedFlavorProfiles: z.array(z.string()).optional(),
+  heavyLight: z.string().optional(),
+})
+
+export const inferRulesResponseSchema = z.object({
+  grandRules: z.array(z.string()).default([]),
+  dayRules: z
+    .record(
+      z.string(),
+      z.object({
+        globalDayRule: z.string().optional(),
+        cellRules: z.record(z.string(), inferredCellRuleSchema).default({}),
+      }),
+    )
+    .default({}),
+})
+
+export type InferredRules = z.infer<typeof inferRulesResponseSchema>
+
+// ─── grade-exam ─────────────────────────────────────────────────────────────
+
+export const gradeExamRequestSchema = z.object({
+  candidateId: z.string().min(1),
+  roundId: z.string().min(1),
+  answers: z.record(z.string(), z.string()),
+})
+
+// ─── suggest-questions ──────────────────────────────────────────────────────
+
+export const suggestQuestionsRequestSchema = z.object({
+  topic: z.string().min(1),
+})
+
+export const suggestQuestionsResponseSchema = z.array(
+  z.object({
+    type: z.enum(["code", "multiple_choice"]),
+    prompt: z.string(),
+    options: z.array(z.string()).optional(),
+    idealAnswer: z.string(),
+  }),
+)
+
+// ─── menu-suggest ───────────────────────────────────────────────────────────
+
+// The model sometimes drops the {"menuData": ...} wrapper; accept both shapes
+export const menuSuggestResponseSchema = z.union([
+  z.object({ menuData: z.record(z.string(), z.any()) }),
+  z.record(z.string(), z.any()).transform((menuData) => ({ menuData })),
+])
@@ -0,0 +1,217 @@
+/**
+ * Monthly Client Billing
+ *
+ * Computes the billable amount for a company/building and month. Every day of the
+ * month that has services in the building's StructureAssignment (and is not a
+ * corporate-calendar holiday) is billed as headcount x rate, where the rate comes
+ * from the structure and falls back to the base rate of the VendorContract covering
+ * that date (a month can span a contract and its auto-renewal). GST is applied only
+ * when the vendor is GST registered.
+ */
+import type {
+  Building,
+  Company,
+  Holiday,
+  Invoice,
+  InvoiceLine,
+  StructureAssignment,
+  TaxTemplate,
+  Vendor,
+  VendorContract,
+} from "@/lib/firestore"
+import { getDayKey } from "@/lib/menu-cells"
+import { resolveHeadcount, type HeadcountSources } from "@/lib/procurement-planner"
+
+export interface BillingInput {
+  month: string // YYYY-MM
+  company: Company
+  building: Building
+  structure: StructureAssignment
+  contracts: VendorContract[] // every contract covering part of the month, see findContractsForBuilding
+  vendor?: Vendor
+  holidays: Holiday[]
+  headcountSources: HeadcountSources
+  taxTemplate?: TaxTemplate
+  interState?: boolean
+}
+
+export interface BillingIssue {
+  date: string
+  subServiceName: string
+  message: string
+}
+
+export interface BillingResult {
+  invoice: Omit<Invoice, "id">
+  issues: BillingIssue[]
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Returns every YYYY-MM-DD date of a YYYY-MM month
+ */
+export function getMonthDates(month: string): string[] {
+  const [year, monthIndex] = month.split("-").map(Number)
+  const daysInMonth = new Date(year, monthIndex, 0).getDate()
+  return Array.from({ length: daysInMonth }, (_, i) => `${month}-${String(i + 1).padStart(2, "0")}`)
+}
+
+/**
+ * National holidays apply everywhere, company holidays to all of the company's
+ * buildings and building holidays only to that building
+ */
+export function isHolidayFor(holiday: Holiday, date: string, companyId: string, buildingId: string): boolean {
+  if (holiday.date !== date) return false
+  if (holiday.type === "national") return true
+  if (holiday.companyId !== companyId) return false
+  return holiday.type === "company" || holiday.buildingId === buildingId
+}
+
+/**
+ * Finds the contracts that cover a building for at least part of the month, oldest
+ * first: a contract ending mid-month and its renewal both bill their own days.
+ * Expired contracts still bill the days inside their term; terminated ones never do.
+ */
+export function findContractsForBuilding(
+  contracts: VendorContract[],
+  companyId: string,
+  buildingId: string,
+  month: string,
+): VendorContract[] {
+  const dates = getMonthDates(month)
+  const monthStart = dates[0]
+  const monthEnd = dates[dates.length - 1]
+  return contracts
+    .filter(
+      (c) =>
+        c.status !== "terminated" &&
+        c.companyId === companyId &&
+        (c.buildingIds || []).includes(buildingId) &&
+        c.startDate <= monthEnd &&
+        c.endDate >= monthStart,
+    )
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+}
+
+export function calculateMonthlyBilling(input: BillingInput): BillingResult {
+  const { month, company, building, structure, contracts, vendor, holidays, headcountSources } = input
+  if (contracts.length === 0) throw new Error("No contract covers this month")
+
+  const contractRates = new Map<string, Map<string, number>>()
+  contracts.forEach((contract) => {
+    const rates = new Map<string, number>()
+    contract.servicesOffered.forEach((service) => {
+      service.subServices.forEach((sub) => rates.set(`${service.serviceId}|${sub.subServiceId}`, sub.baseRate))
+    })
+    contractRates.set(contract.id, rates)
+  })
+  const billedContracts = new Set<VendorContract>()
+
+  const linesByKey = new Map<string, InvoiceLine>()
+  const skippedHolidays: string[] = []
+  const issues: BillingIssue[] = []
+
+  getMonthDates(month).forEach((date) => {
+    // Latest start wins if terms ever overlap
+    const contract = [...contracts].reverse().find((c) => date >= c.startDate && date <= c.endDate)
+    if (!contract) return
+
+    const daySchedule = structure.weekStructure[getDayKey(date)] || []
+    if (daySchedule.length === 0) return
+
+    if (holidays.some((h) => isHolidayFor(h, date, company.id, building.id))) {
+      skippedHolidays.push(date)
+      return
+    }
+
+    daySchedule.forEach((service) => {
+      service.subServices.forEach((sub) => {
+        const subServiceName = sub.subServiceName || sub.subServiceId
+        const contractRate = contractRates.get(contract.id)?.get(`${service.serviceId}|${sub.subServiceId}`)
+        const rate = sub.rate > 0 ? sub.rate : contractRate || 0
+        if (rate <= 0) {
+          issues.push({ date, subServiceName, message: "No rate in structure or contract" })
+          return
+        }
+
+        const headcount = resolveHeadcount(
+          building.id,
+          { date, serviceId: service.serviceId, subServiceId: sub.subServiceId },
+          headcountSources,
+        )
+        if (headcount <= 0) {
+          issues.push({ date, subServiceName, message: "No headcount" })
+          return
+        }
+
+        billedContracts.add(contract)
+        const rateSource = sub.rate > 0 ? "structure" : "contract"
+        const key = `${service.serviceId}|${sub.subServiceId}|${rate}`
+        const existing = linesByKey.get(key)
+        if (existing) {
+          existing.servedDays++
+          existing.portions += headcount
+          existing.amount = round2(existing.portions * rate)
+        } else {
+          linesByKey.set(key, {
+            serviceId: service.serviceId,
+            serviceName: service.serviceName || service.serviceId,
+            subServiceId: sub.subServiceId,
+            subServiceName,
+            servedDays: 1,
+            portions: headcount,
+            rate,
+            rateSource,
+            amount: round2(headcount * rate),
+          })
+        }
+      })
+    })
+  })
+
+  const lines = Array.from(linesByKey.values()).sort(
+    (a, b) => a.serviceName.localeCompare(b.serviceName) || a.subServiceName.localeCompare(b.subServiceName),
+  )
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.amount, 0))
+
+  // Unregistered vendors cannot charge GST
+  const taxRate = vendor?.gstNumber && input.taxTemplate ? input.taxTemplate.rate : 0
+  const interState = !!input.interState
+  // The invoice points at the current contract and names every term it billed
+  const contract = contracts[contracts.length - 1]
+  const contractNumbers = contracts.filter((c) => billedContracts.has(c)).map((c) => c.contractNumber)
+  const totalTax = round2((subtotal * taxRate) / 100)
+  const igst = interState ? totalTax : 0
+  const cgst = interState ? 0 : round2(totalTax / 2)
+  const sgst = interState ? 0 : round2(totalTax - cgst)
+
+  return {
+    invoice: {
+      invoiceNumber: `INV-${month.replace("-", "")}-${company.code || company.id}-${building.code || building.id}`,
+      month,
+      vendorId: contract.vendorId,
+      vendorName: vendor?.name || contract.vendorName,
+      vendorGstNumber: vendor?.gstNumber || "",
+      contractId: contract.id,
+      contractNumber: contractNumbers.length > 0 ? contractNumbers.join(", ") : contract.contractNumber,
+      companyId: company.id,
+      companyName: company.name,
+      buildingId: building.id,
+      buildingName: building.name,
+      lines,
+      skippedHolidays,
+      subtotal,
+      taxTemplateId: taxRate > 0 ? input.taxTemplate?.id : "",
+      taxRate,
+      interState,
+      cgst,
+      sgst,
+      igst,
+      totalTax,
+      total: round2(subtotal + totalTax),
+      status: "draft",
+    },
+    issues,
+  }
+}
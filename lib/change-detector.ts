@@ -1,4 +1,7 @@
-import type { CellChange, MenuItemChange, MenuUpdation } from "@/lib/types"
+import type { CellChange, MenuItem, MenuItemChange, MenuUpdation } from "@/lib/types"
+
+// Category / AI-tag details used to pair removed and added items as replacements
+export type ChangeItemDetails = Map<string, Pick<MenuItem, "category" | "aiTags">>
 
 /**
  * Detects changes between original and updated menu data
@@ -8,6 +11,7 @@ export function detectMenuChanges(
   originalData: any,
   updatedData: any,
   menuItemsMap: Map<string, string>,
+  itemDetails?: ChangeItemDetails,
 ): CellChange[] {
   const changedCells: CellChange[] = []
 
@@ -46,13 +50,26 @@ export function detectMenuChanges(
           ])
 
           for (const subMealPlanId of allSubMealPlans) {
-            const originalItems =
-              originalMealPlanData[subMealPlanId]?.menuItemIds || []
-            const updatedItems = updatedMealPlanData[subMealPlanId]?.menuItemIds || []
+            const originalCell = originalMealPlanData[subMealPlanId]
+            const updatedCell = updatedMealPlanData[subMealPlanId]
+            const originalItems = originalCell?.menuItemIds || []
+            const updatedItems = updatedCell?.menuItemIds || []
+            const originalDescriptions = originalCell?.selectedDescriptions || {}
+            const updatedDescriptions = updatedCell?.selectedDescriptions || {}
 
             // Check if this cell has changes
-            if (JSON.stringify(originalItems) !== JSON.stringify(updatedItems)) {
-              const changes = detectItemChanges(originalItems, updatedItems, menuItemsMap)
+            if (
+              JSON.stringify(originalItems) !== JSON.stringify(updatedItems) ||
+              JSON.stringify(originalDescriptions) !== JSON.stringify(updatedDescriptions)
+            ) {
+              const changes = detectItemChanges(
+                originalItems,
+                updatedItems,
+                menuItemsMap,
+                itemDetails,
+                originalDescriptions,
+                updatedDescriptions,
+              )
 
               if (changes.length > 0) {
                 changedCells.push({
@@ -74,45 +91,120 @@ export function detectMenuChanges(
   return changedCells
 }
 
+/**
+ * Scores how likely an added item is the replacement for a removed one.
+ * Same sub-meal category counts most, then same menu category, then same slot in the cell.
+ */
+function replacementScore(
+  removed: { id: string; index: number },
+  added: { id: string; index: number },
+  itemDetails?: ChangeItemDetails,
+): number {
+  let score = 0
+  const removedDetails = itemDetails?.get(removed.id)
+  const addedDetails = itemDetails?.get(added.id)
+  const removedSubmeal = removedDetails?.aiTags?.submealCategory?.trim().toLowerCase()
+  const addedSubmeal = addedDetails?.aiTags?.submealCategory?.trim().toLowerCase()
+  if (removedSubmeal && removedSubmeal === addedSubmeal) score += 4
+  const removedCategory = removedDetails?.category?.trim().toLowerCase()
+  const addedCategory = addedDetails?.category?.trim().toLowerCase()
+  if (removedCategory && removedCategory === addedCategory) score += 2
+  if (removed.index === added.index) score += 1
+  return score
+}
+
+/**
+ * Indexes of the longest increasing subsequence of `positions`
+ */
+function longestInOrderRun(positions: number[]): Set<number> {
+  const lengths = positions.map(() => 1)
+  const previous = positions.map(() => -1)
+  let best = -1
+  positions.forEach((position, i) => {
+    for (let j = 0; j < i; j++) {
+      if (positions[j] < position && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1
+        previous[i] = j
+      }
+    }
+    if (best === -1 || lengths[i] > lengths[best]) best = i
+  })
+
+  const run = new Set<number>()
+  for (let i = best; i !== -1; i = previous[i]) run.add(i)
+  return run
+}
+
 /**
  * Detects changes in menu items for a single cell
- * Enhanced to detect item replacements (old item removed, new item added)
+ * Removed and added items are paired as replacements by sub-meal category, category and
+ * position; reorders of kept items and description changes are reported separately.
  */
 function detectItemChanges(
   originalItems: string[],
   updatedItems: string[],
   menuItemsMap: Map<string, string>,
+  itemDetails?: ChangeItemDetails,
+  originalDescriptions: Record<string, string> = {},
+  updatedDescriptions: Record<string, string> = {},
 ): MenuItemChange[] {
   const changes: MenuItemChange[] = []
   const originalSet = new Set(originalItems)
   const updatedSet = new Set(updatedItems)
+  const nameOf = (id: string) => menuItemsMap.get(id) || "Unknown Item"
 
-  // First, identify removed and added items
-  const removedItems = Array.from(originalSet).filter((id) => !updatedSet.has(id))
-  const addedItems = Array.from(updatedSet).filter((id) => !originalSet.has(id))
+  // First, identify removed and added items (with their slot in the cell)
+  const removedItems = originalItems
+    .map((id, index) => ({ id, index }))
+    .filter(({ id }) => !updatedSet.has(id))
+  const addedItems = updatedItems
+    .map((id, index) => ({ id, index }))
+    .filter(({ id }) => !originalSet.has(id))
 
   // Try to pair removed items with added items as replacements
   const replacementPairs: Array<[string, string]> = []
-  const remainingRemoved = new Set(removedItems)
-  const remainingAdded = new Set(addedItems)
+  const remainingRemoved = new Set(removedItems.map((item) => item.id))
+  const remainingAdded = new Set(addedItems.map((item) => item.id))
 
-  // For now, if there's exactly one removed and one added, mark it as a replacement
   if (removedItems.length === 1 && addedItems.length === 1) {
-    const removedId = removedItems[0]
-    const addedId = addedItems[0]
-    replacementPairs.push([removedId, addedId])
+    // A single swap is always a replacement
+    replacementPairs.push([removedItems[0].id, addedItems[0].id])
+  } else if (removedItems.length > 0 && addedItems.length > 0) {
+    // Greedy best-first matching; pairs with nothing in common stay as add/remove
+    const candidates: Array<{ removedId: string; addedId: string; score: number; distance: number }> = []
+    removedItems.forEach((removed) => {
+      addedItems.forEach((added) => {
+        const score = replacementScore(removed, added, itemDetails)
+        if (score > 0) {
+          candidates.push({ removedId: removed.id, addedId: added.id, score, distance: Math.abs(removed.index - added.index) })
+        }
+      })
+    })
+    candidates.sort((a, b) => b.score - a.score || a.distance - b.distance)
+
+    const pairedRemoved = new Set<string>()
+    const pairedAdded = new Set<string>()
+    candidates.forEach(({ removedId, addedId }) => {
+      if (pairedRemoved.has(removedId) || pairedAdded.has(addedId)) return
+      pairedRemoved.add(removedId)
+      pairedAdded.add(addedId)
+      replacementPairs.push([removedId, addedId])
+    })
+  }
+
+  replacementPairs.forEach(([removedId, addedId]) => {
     remainingRemoved.delete(removedId)
     remainingAdded.delete(addedId)
-  }
+  })
 
   // Add replacement changes
   for (const [oldItemId, newItemId] of replacementPairs) {
     changes.push({
       itemId: oldItemId,
-      itemName: menuItemsMap.get(oldItemId) || "Unknown Item",
+      itemName: nameOf(oldItemId),
       action: "replaced",
       replacedWith: newItemId,
-      replacedWithName: menuItemsMap.get(newItemId) || "Unknown Item",
+      replacedWithName: nameOf(newItemId),
     })
   }
 
@@ -120,7 +212,7 @@ function detectItemChanges(
   for (const itemId of remainingRemoved) {
     changes.push({
       itemId,
-      itemName: menuItemsMap.get(itemId) || "Unknown Item",
+      itemName: nameOf(itemId),
       action: "removed",
     })
   }
@@ -129,11 +221,40 @@ function detectItemChanges(
   for (const itemId of remainingAdded) {
     changes.push({
       itemId,
-      itemName: menuItemsMap.get(itemId) || "Unknown Item",
+      itemName: nameOf(itemId),
       action: "added",
     })
   }
 
+  // Reorders: kept items outside the longest run that stayed in order are the ones that moved
+  const keptBefore = originalItems.filter((id) => updatedSet.has(id))
+  const keptAfter = updatedItems.filter((id) => originalSet.has(id))
+  const inOrder = longestInOrderRun(keptAfter.map((id) => keptBefore.indexOf(id)))
+  keptAfter.forEach((itemId, keptIndex) => {
+    if (inOrder.has(keptIndex)) return
+    changes.push({
+      itemId,
+      itemName: nameOf(itemId),
+      action: "reordered",
+      fromPosition: originalItems.indexOf(itemId),
+      toPosition: updatedItems.indexOf(itemId),
+    })
+  })
+
+  // Description changes on items that stayed in the cell
+  keptAfter.forEach((itemId) => {
+    const previousDescription = originalDescriptions[itemId] || ""
+    const newDescription = updatedDescriptions[itemId] || ""
+    if (previousDescription === newDescription) return
+    changes.push({
+      itemId,
+      itemName: nameOf(itemId),
+      action: "description-changed",
+      previousDescription,
+      newDescription,
+    })
+  })
+
   return changes
 }
 
@@ -145,17 +266,23 @@ export function createChangeSummary(changedCells: CellChange[]): {
   addedCount: number
   removedCount: number
   replacedCount: number
+  reorderedCount: number
+  descriptionChangedCount: number
   cellsChanged: number
 } {
   let addedCount = 0
   let removedCount = 0
   let replacedCount = 0
+  let reorderedCount = 0
+  let descriptionChangedCount = 0
 
   for (const cell of changedCells) {
     for (const change of cell.changes) {
       if (change.action === "added") addedCount++
       else if (change.action === "removed") removedCount++
       else if (change.action === "replaced") replacedCount++
+      else if (change.action === "reordered") reorderedCount++
+      else if (change.action === "description-changed") descriptionChangedCount++
     }
   }
 
@@ -164,6 +291,8 @@ export function createChangeSummary(changedCells: CellChange[]): {
     addedCount,
     removedCount,
     replacedCount,
+    reorderedCount,
+    descriptionChangedCount,
     cellsChanged: changedCells.length,
   }
 }
@@ -0,0 +1,140 @@
+/**
+ * Client Change Digest
+ *
+ * Turns the changed cells of a MenuUpdation into the per-building digest that is sent to
+ * client companies (email and in-app): one row per change with date, service and
+ * old → new item. Also works out which company buildings a combined-menu change reaches,
+ * using the buildings' meal plan structure assignments.
+ */
+import type { CellChange, MenuItemChange } from "@/lib/types"
+import type { MealPlanStructureAssignment } from "@/lib/services"
+import type { ClientNotificationRule, DigestRow } from "@/lib/firestore/clientNotificationsService"
+import { getDayKey } from "@/lib/menu-cells"
+
+export interface AffectedBuilding {
+  companyId: string
+  buildingId: string
+}
+
+export interface DigestEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * Whether a building's meal plan structure serves the cell on that weekday
+ */
+export function isCellServedToBuilding(
+  assignment: MealPlanStructureAssignment,
+  cell: Pick<CellChange, "date" | "serviceId" | "subServiceId" | "mealPlanId" | "subMealPlanId">,
+): boolean {
+  const dayStructure = assignment.weekStructure?.[getDayKey(cell.date)] || []
+  const service = dayStructure.find((s) => s.serviceId === cell.serviceId)
+  const subService: any = service?.subServices?.find((ss: any) => ss.subServiceId === cell.subServiceId)
+  const mealPlan = subService?.mealPlans?.find((mp: any) => mp.mealPlanId === cell.mealPlanId)
+  return !!mealPlan?.subMealPlans?.some((smp: any) => smp.subMealPlanId === cell.subMealPlanId)
+}
+
+/**
+ * Company buildings reached by any of the changed cells (active assignments only)
+ */
+export function getAffectedBuildings(
+  changedCells: CellChange[],
+  assignments: MealPlanStructureAssignment[],
+): AffectedBuilding[] {
+  return assignments
+    .filter((assignment) => assignment.status === "active")
+    .filter((assignment) => changedCells.some((cell) => isCellServedToBuilding(assignment, cell)))
+    .map((assignment) => ({ companyId: assignment.companyId, buildingId: assignment.buildingId }))
+}
+
+function describeChange(change: MenuItemChange): string {
+  switch (change.action) {
+    case "replaced":
+      return `${change.itemName} → ${change.replacedWithName || "Unknown Item"}`
+    case "added":
+      return `Added ${change.itemName}`
+    case "removed":
+      return `Removed ${change.itemName}`
+    case "reordered":
+      return `Moved ${change.itemName}`
+    case "description-changed":
+      return `${change.itemName}: "${change.previousDescription || "-"}" → "${change.newDescription || "-"}"`
+    default:
+      return change.itemName
+  }
+}
+
+/**
+ * Digest rows sorted by date, then service name. Reorders are left out since they
+ * don't change what is served.
+ */
+export function buildChangeDigest(changedCells: CellChange[], serviceNames: Map<string, string>): DigestRow[] {
+  const rows: DigestRow[] = []
+  changedCells.forEach((cell) => {
+    cell.changes
+      .filter((change) => change.action !== "reordered")
+      .forEach((change) => {
+        rows.push({
+          date: cell.date,
+          serviceName: serviceNames.get(cell.serviceId) || "Service",
+          change: describeChange(change),
+        })
+      })
+  })
+  return rows.sort((a, b) => a.date.localeCompare(b.date) || a.serviceName.localeCompare(b.serviceName))
+}
+
+/**
+ * Recipient emails for one building under a company's rule (deduplicated, lowercase)
+ */
+export function resolveEmailRecipients(
+  rule: ClientNotificationRule,
+  companyUserEmails: string[],
+  buildingContactEmails: string[],
+): string[] {
+  const emails = [
+    ...(rule.notifyCompanyUsers ? companyUserEmails : []),
+    ...(rule.notifyBuildingContacts ? buildingContactEmails : []),
+    ...(rule.extraEmails || []),
+  ]
+  return Array.from(new Set(emails.map((email) => email.trim().toLowerCase()).filter((email) => email.includes("@"))))
+}
+
+/**
+ * Whether a rule allows a digest for this building and change count
+ */
+export function ruleAppliesTo(rule: ClientNotificationRule | null, buildingId: string, changeCount: number): boolean {
+  if (!rule?.enabled) return false
+  if (rule.buildingIds?.length > 0 && !rule.buildingIds.includes(buildingId)) return false
+  return changeCount >= (rule.minChanges || 1)
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+export function renderDigestEmail(
+  companyName: string,
+  buildingName: string,
+  period: { startDate: string; endDate: string },
+  rows: DigestRow[],
+): DigestEmail {
+  const subject = `Menu update for ${companyName} - ${buildingName} (${period.startDate} to ${period.endDate})`
+  const intro = `The menu for ${buildingName} (${period.startDate} to ${period.endDate}) has ${rows.length} change${rows.length === 1 ? "" : "s"}:`
+
+  const text = [intro, "", ...rows.map((row) => `${row.date}  ${row.serviceName}: ${row.change}`)].join("\n")
+
+  const html = `<p>${escapeHtml(intro)}</p>
+<table cellpadding="6" cellspacing="0" border="1" style="border-collapse:collapse;font-family:sans-serif;font-size:13px">
+<tr style="background:#f3f4f6"><th align="left">Date</th><th align="left">Service</th><th align="left">Change</th></tr>
+${rows
+  .map(
+    (row) =>
+      `<tr><td>${escapeHtml(row.date)}</td><td>${escapeHtml(row.serviceName)}</td><td>${escapeHtml(row.change)}</td></tr>`,
+  )
+  .join("\n")}
+</table>`
+
+  return { subject, text, html }
+}
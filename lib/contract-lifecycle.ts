@@ -0,0 +1,221 @@
+/**
+ * Contract Lifecycle Engine
+ *
+ * Flags vendor contracts that are close to (or past) their end date, expires the
+ * ones that lapsed, and auto-renews contracts with `autoRenewal` by creating the next
+ * term with every base rate escalated by the contract's escalationPercent. Each rate
+ * change is appended to the contractRateRevisions history.
+ *
+ * The run happens whenever an admin opens the contracts page, so several can overlap: a
+ * renewal is claimed in a transaction that only succeeds while the lapsed contract is still
+ * active and has no renewedToId.
+ */
+import { collection, doc, runTransaction, serverTimestamp, Timestamp } from "firebase/firestore"
+import { db } from "@/lib/firebase"
+import { requireAuth } from "@/lib/auth-guard"
+import { vendorContractsService, type VendorContract } from "@/lib/firestore"
+import type { ContractRateRevision } from "@/lib/firestore/contractRateRevisionsService"
+
+export const CONTRACT_EXPIRY_WINDOW_DAYS = 30
+
+export interface ContractAlert {
+  contract: VendorContract
+  daysLeft: number
+  severity: "overdue" | "critical" | "warning"
+}
+
+export interface LifecycleRunResult {
+  renewed: { from: string; to: string }[]
+  expired: string[]
+  // Auto-renewal contracts that can't be renewed until an admin fixes their dates
+  invalid: string[]
+}
+
+type RateRevisionInput = Omit<ContractRateRevision, "id" | "createdAt">
+type ContractInput = Omit<VendorContract, "id" | "createdAt" | "updatedAt">
+
+export function toDateString(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, "0")
+  const d = String(date.getDate()).padStart(2, "0")
+  return `${y}-${m}-${d}`
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00`)
+  d.setDate(d.getDate() + days)
+  return toDateString(d)
+}
+
+export function daysBetween(from: string, to: string): number {
+  const ms = new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()
+  return Math.round(ms / (1000 * 60 * 60 * 24))
+}
+
+/**
+ * Active contracts ending within the window, most urgent first. Contracts whose end
+ * date already passed but that the engine has not processed yet are "overdue".
+ */
+export function getContractAlerts(
+  contracts: VendorContract[],
+  today: string = toDateString(new Date()),
+  windowDays: number = CONTRACT_EXPIRY_WINDOW_DAYS,
+): ContractAlert[] {
+  return contracts
+    .filter((c) => c.status === "active" && c.endDate)
+    .map((contract) => {
+      const daysLeft = daysBetween(today, contract.endDate)
+      const severity: ContractAlert["severity"] = daysLeft < 0 ? "overdue" : daysLeft <= 7 ? "critical" : "warning"
+      return { contract, daysLeft, severity }
+    })
+    .filter((alert) => alert.daysLeft <= windowDays)
+    .sort((a, b) => a.daysLeft - b.daysLeft)
+}
+
+/**
+ * Compares two rate cards and returns one revision per subService whose base rate is
+ * new or changed. Pass `previous = null` to record the initial rates of a contract.
+ */
+export function buildRateRevisions(
+  contract: Pick<VendorContract, "id" | "contractNumber" | "servicesOffered">,
+  previous: VendorContract["servicesOffered"] | null,
+  reason: ContractRateRevision["reason"],
+  effectiveDate: string,
+  extra: { escalationPercent?: number; changedBy?: string; includeUnchanged?: boolean } = {},
+): RateRevisionInput[] {
+  const previousRates = new Map<string, number>()
+  ;(previous || []).forEach((service) => {
+    service.subServices.forEach((sub) => previousRates.set(`${service.serviceId}|${sub.subServiceId}`, sub.baseRate))
+  })
+
+  const revisions: RateRevisionInput[] = []
+  contract.servicesOffered.forEach((service) => {
+    service.subServices.forEach((sub) => {
+      const previousRate = previousRates.get(`${service.serviceId}|${sub.subServiceId}`)
+      if (previousRate === sub.baseRate && !extra.includeUnchanged) return
+
+      revisions.push({
+        contractId: contract.id,
+        contractNumber: contract.contractNumber,
+        serviceId: service.serviceId,
+        serviceName: service.serviceName,
+        subServiceId: sub.subServiceId,
+        subServiceName: sub.subServiceName,
+        previousRate: previousRate ?? null,
+        newRate: sub.baseRate,
+        effectiveDate,
+        reason,
+        ...(extra.escalationPercent !== undefined && { escalationPercent: extra.escalationPercent }),
+        ...(extra.changedBy && { changedBy: extra.changedBy }),
+      })
+    })
+  })
+  return revisions
+}
+
+/**
+ * Next term of a contract: same length, starting the day after it ends, with every
+ * base rate escalated. Contract numbers get an -R<n> suffix per renewal.
+ */
+export function buildRenewedContract(contract: VendorContract): ContractInput {
+  const escalation = contract.escalationPercent || 0
+  const termDays = daysBetween(contract.startDate, contract.endDate)
+  if (!(termDays > 0)) {
+    throw new Error(`Contract ${contract.contractNumber} must end after it starts to be renewed`)
+  }
+  const startDate = addDays(contract.endDate, 1)
+
+  const match = contract.contractNumber.match(/^(.*)-R(\d+)$/)
+  const contractNumber = match
+    ? `${match[1]}-R${Number(match[2]) + 1}`
+    : `${contract.contractNumber}-R1`
+
+  const { id, createdAt, updatedAt, renewedToId, ...rest } = contract
+
+  return {
+    ...rest,
+    contractNumber,
+    startDate,
+    endDate: addDays(startDate, termDays),
+    status: "active",
+    renewedFromId: id,
+    servicesOffered: contract.servicesOffered.map((service) => ({
+      ...service,
+      subServices: service.subServices.map((sub) => ({
+        ...sub,
+        baseRate: Math.round(sub.baseRate * (1 + escalation / 100) * 100) / 100,
+      })),
+    })),
+  }
+}
+
+/**
+ * Creates the renewal, expires the lapsed contract and records the new rate card in one
+ * transaction. Returns null when another run already renewed or expired the contract.
+ */
+async function claimRenewal(current: VendorContract, renewal: ContractInput, changedBy?: string): Promise<string | null> {
+  requireAuth() // Security: ensure user is authenticated before write
+  const currentRef = doc(db, "vendorContracts", current.id)
+  const renewalRef = doc(collection(db, "vendorContracts"))
+
+  return runTransaction(db, async (tx) => {
+    const snap = await tx.get(currentRef)
+    const latest = snap.data() as VendorContract | undefined
+    if (!latest || latest.status !== "active" || latest.renewedToId) return null
+
+    const now = Timestamp.now()
+    tx.set(renewalRef, { ...renewal, createdAt: now, updatedAt: now })
+    tx.update(currentRef, { status: "expired", renewedToId: renewalRef.id, updatedAt: now })
+    buildRateRevisions(
+      { id: renewalRef.id, contractNumber: renewal.contractNumber, servicesOffered: renewal.servicesOffered },
+      current.servicesOffered,
+      "auto-renewal",
+      renewal.startDate,
+      // A renewal starts a new contract, so its full rate card goes into the history
+      { escalationPercent: renewal.escalationPercent || 0, changedBy, includeUnchanged: true },
+    ).forEach((revision) => {
+      tx.set(doc(collection(db, "contractRateRevisions")), { ...revision, createdAt: serverTimestamp() })
+    })
+    return renewalRef.id
+  })
+}
+
+/**
+ * Expires lapsed contracts and renews the auto-renewal ones, chaining renewals until
+ * the new term covers today.
+ */
+export async function runContractLifecycle(
+  contracts: VendorContract[],
+  today: string = toDateString(new Date()),
+  changedBy?: string,
+): Promise<LifecycleRunResult> {
+  const result: LifecycleRunResult = { renewed: [], expired: [], invalid: [] }
+
+  for (const contract of contracts) {
+    if (contract.status !== "active" || !contract.endDate || contract.endDate >= today) continue
+
+    if (!contract.autoRenewal) {
+      await vendorContractsService.update(contract.id, { status: "expired" })
+      result.expired.push(contract.contractNumber)
+      continue
+    }
+
+    // Without a positive term the next end date would never pass today
+    if (!contract.startDate || !(daysBetween(contract.startDate, contract.endDate) > 0)) {
+      result.invalid.push(contract.contractNumber)
+      continue
+    }
+
+    let current = contract
+    while (current.endDate < today) {
+      const renewal = buildRenewedContract(current)
+      const renewalId = await claimRenewal(current, renewal, changedBy)
+      if (!renewalId) break
+
+      result.renewed.push({ from: current.contractNumber, to: renewal.contractNumber })
+      current = { ...renewal, id: renewalId }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,106 @@
+/**
+ * Dietary Conflict Matcher
+ *
+ * Checks each cell of a company menu against the preferences of the employees
+ * subscribed to that service. An employee has a gap in a cell when none of the
+ * cell's items is safe for them (allergen hit, unmet dietary restriction, or
+ * spicier than their tolerance).
+ */
+import type { Employee } from "@/lib/firestore"
+import type { MenuGridData, MenuItem } from "@/lib/types"
+import { forEachMenuCell, getCellKey } from "@/lib/menu-cells"
+import { getSubscribedEmployees } from "@/lib/procurement-planner"
+
+export type DietaryPreferences = Employee["preferences"]
+
+export interface DietaryGapEmployee {
+  employeeId: string
+  name: string
+  reasons: string[]
+}
+
+export interface DietaryGap {
+  subscribedCount: number
+  affected: DietaryGapEmployee[]
+}
+
+const SPICE_RANK: Record<string, number> = { mild: 0, medium: 1, hot: 2, "extra-hot": 3 }
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[^a-z]/g, "")
+
+// Singular form so "Nuts" matches "nut" and "peanuts"
+const stem = (value: string) => normalize(value).replace(/s$/, "")
+
+function hasAllergen(item: MenuItem, allergy: string): boolean {
+  const target = stem(allergy)
+  if (!target) return false
+  return (item.allergens || []).some((allergen) => {
+    const a = stem(allergen)
+    return a.includes(target) || target.includes(a)
+  })
+}
+
+/**
+ * Returns why an item is unsafe for someone, or an empty list when it is safe.
+ * Restrictions the item has no data for (e.g. "jain") are not treated as conflicts.
+ */
+export function getItemConflicts(item: MenuItem, prefs: DietaryPreferences | undefined): string[] {
+  if (!prefs) return []
+  const reasons: string[] = []
+
+  ;(prefs.allergies || []).forEach((allergy) => {
+    if (hasAllergen(item, allergy)) reasons.push(`contains ${allergy.trim()}`)
+  })
+
+  ;(prefs.dietaryRestrictions || []).forEach((restriction) => {
+    const r = normalize(restriction)
+    if ((r === "vegetarian" || r === "veg") && !item.isVegetarian && !item.isVegan) reasons.push("not vegetarian")
+    else if (r === "vegan" && !item.isVegan) reasons.push("not vegan")
+    else if ((r === "glutenfree" || r === "celiac" || r === "coeliac") && !item.isGlutenFree) reasons.push("contains gluten")
+    else if (r === "eggless" && hasAllergen(item, "egg")) reasons.push("contains egg")
+  })
+
+  const tolerance = SPICE_RANK[prefs.spiceLevel?.toLowerCase() || ""]
+  const spice = SPICE_RANK[item.spiceLevel || ""]
+  if (tolerance !== undefined && spice !== undefined && spice > tolerance) reasons.push(`too spicy (${item.spiceLevel})`)
+
+  return reasons
+}
+
+/**
+ * Gaps for every non-empty cell of a building's menu, keyed by getCellKey(). Cells
+ * where every subscribed employee has a safe option are left out.
+ */
+export function findDietaryGaps(
+  menuData: MenuGridData | undefined | null,
+  buildingId: string,
+  employees: Employee[],
+  menuItemsMap: Map<string, MenuItem>,
+): Map<string, DietaryGap> {
+  const gaps = new Map<string, DietaryGap>()
+  if (employees.length === 0) return gaps
+
+  forEachMenuCell(menuData, (ref, cell) => {
+    const items = cell.menuItemIds.map((id) => menuItemsMap.get(id)).filter((item): item is MenuItem => !!item)
+    if (items.length === 0) return
+
+    const subscribed = getSubscribedEmployees(employees, buildingId, ref)
+    const affected: DietaryGapEmployee[] = []
+
+    subscribed.forEach((emp) => {
+      const conflicts = items.map((item) => getItemConflicts(item, emp.preferences))
+      if (conflicts.some((reasons) => reasons.length === 0)) return
+      affected.push({
+        employeeId: emp.id,
+        name: emp.name,
+        reasons: Array.from(new Set(conflicts.flat())),
+      })
+    })
+
+    if (affected.length > 0) {
+      gaps.set(getCellKey(ref), { subscribedCount: subscribed.length, affected })
+    }
+  })
+
+  return gaps
+}
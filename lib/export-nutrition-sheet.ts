@@ -0,0 +1,95 @@
+import * as XLSX from "xlsx"
+import type { CompanyMenu, MenuItem, NutritionTarget, Service } from "@/lib/types"
+import { checkNutritionTargets, rollupMenuNutrition, type NutritionTotals } from "@/lib/nutrition-rollup"
+import { forEachMenuCell } from "@/lib/menu-cells"
+import { APPROVAL_STATUS_LABELS, getApprovalStatus, isMenuServed } from "@/lib/menu-approval"
+
+export async function exportNutritionSheet(
+  menu: CompanyMenu,
+  menuItems: MenuItem[],
+  services: Service[],
+  targets: NutritionTarget[] = [],
+) {
+  const workbook = XLSX.utils.book_new()
+  const menuItemsMap = new Map(menuItems.map((item) => [item.id, item]))
+  const serviceNames = new Map(services.map((s) => [s.id, s.name]))
+  const serviceOrder = new Map(services.map((s, idx) => [s.id, s.order ?? idx]))
+
+  const days = rollupMenuNutrition(menu.menuData, menuItemsMap)
+
+  // Item names per date/service for the sheet
+  const itemNames = new Map<string, string[]>()
+  forEachMenuCell(menu.menuData, (ref, cell) => {
+    const key = `${ref.date}|${ref.serviceId}`
+    const list = itemNames.get(key) || []
+    cell.menuItemIds.forEach((id) => {
+      const name = menuItemsMap.get(id)?.name
+      if (name && !list.includes(name)) list.push(name)
+    })
+    itemNames.set(key, list)
+  })
+
+  const totalsRow = (totals: NutritionTotals) => [
+    Math.round(totals.calories),
+    Math.round(totals.protein),
+    Math.round(totals.carbs),
+    Math.round(totals.fat),
+    totals.allergens.join(", "),
+    totals.missingNutritionCount > 0 ? `${totals.missingNutritionCount} item(s) without data` : "",
+  ]
+
+  const sheetData: any[] = []
+
+  // Header section
+  sheetData.push([`NUTRITION SHEET - ${menu.companyName || ""} / ${menu.buildingName || ""}`])
+  sheetData.push([`Period: ${menu.startDate} to ${menu.endDate}`])
+  if (!isMenuServed(menu)) {
+    sheetData.push([`DRAFT - ${APPROVAL_STATUS_LABELS[getApprovalStatus(menu)]}, not yet approved by the client`])
+  }
+  sheetData.push([])
+
+  sheetData.push(["Date", "Day", "Service", "Items", "Calories (kcal)", "Protein (g)", "Carbs (g)", "Fat (g)", "Allergens", "Notes"])
+
+  days.forEach((day) => {
+    const dayName = new Date(`${day.date}T00:00:00`).toLocaleDateString("en-US", { weekday: "long" })
+    const serviceIds = Object.keys(day.services).sort(
+      (a, b) => (serviceOrder.get(a) ?? 999) - (serviceOrder.get(b) ?? 999),
+    )
+
+    serviceIds.forEach((serviceId) => {
+      sheetData.push([
+        day.date,
+        dayName,
+        serviceNames.get(serviceId) || serviceId,
+        (itemNames.get(`${day.date}|${serviceId}`) || []).join(", "),
+        ...totalsRow(day.services[serviceId]),
+      ])
+    })
+    sheetData.push([day.date, dayName, "DAY TOTAL", "", ...totalsRow(day.totals)])
+    sheetData.push([])
+  })
+
+  if (days.length > 0) {
+    const avg = (key: "calories" | "protein" | "carbs" | "fat") =>
+      Math.round(days.reduce((sum, d) => sum + d.totals[key], 0) / days.length)
+    sheetData.push(["", "", "DAILY AVERAGE", "", avg("calories"), avg("protein"), avg("carbs"), avg("fat")])
+  }
+
+  const worksheet = XLSX.utils.aoa_to_sheet(sheetData)
+  worksheet["!cols"] = [12, 12, 18, 60, 14, 12, 12, 10, 30, 26].map((width) => ({ wch: width }))
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Nutrition")
+
+  const violations = checkNutritionTargets(days, targets, serviceNames)
+  if (violations.length > 0) {
+    const violationData: any[] = [["Date", "Scope", "Metric", "Actual", "Limit", "Type"]]
+    violations.forEach((v) => {
+      violationData.push([v.date, v.scopeName, v.metric, v.actual, v.limit, v.kind])
+    })
+    const violationSheet = XLSX.utils.aoa_to_sheet(violationData)
+    violationSheet["!cols"] = [12, 18, 12, 14, 12, 10].map((width) => ({ wch: width }))
+    XLSX.utils.book_append_sheet(workbook, violationSheet, "Target Violations")
+  }
+
+  const buildingPart = (menu.buildingName || menu.buildingId).replace(/[^a-z0-9]+/gi, "_")
+  XLSX.writeFile(workbook, `Nutrition_Sheet_${buildingPart}_${menu.startDate}_to_${menu.endDate}.xlsx`)
+}
@@ -0,0 +1,83 @@
+import * as XLSX from "xlsx"
+import type { ProcurementPlan } from "@/lib/procurement-planner"
+
+export async function exportProcurementPlan(plan: ProcurementPlan) {
+  const workbook = XLSX.utils.book_new()
+
+  // Group lines by supplier - one sheet per supplier
+  const groupedBySupplier = new Map<string, ProcurementPlan["lines"]>()
+  plan.lines.forEach((line) => {
+    const list = groupedBySupplier.get(line.supplierId) || []
+    list.push(line)
+    groupedBySupplier.set(line.supplierId, list)
+  })
+
+  const usedSheetNames = new Set<string>()
+
+  groupedBySupplier.forEach((lines) => {
+    const supplierName = lines[0].supplierName
+    let sheetName = supplierName.replace(/[\\/?*[\]:]/g, " ").substring(0, 31)
+    let suffix = 2
+    while (usedSheetNames.has(sheetName)) {
+      sheetName = `${supplierName.substring(0, 27)} (${suffix++})`
+    }
+    usedSheetNames.add(sheetName)
+
+    const sheetData: any[] = []
+
+    // Header section
+    sheetData.push([`PURCHASE LIST - ${supplierName}`])
+    sheetData.push([`Period: ${plan.startDate} to ${plan.endDate}`])
+    sheetData.push([])
+
+    sheetData.push(["Delivery Date", "Ingredient", "Quantity", "Unit", "Frequency", "Buildings"])
+
+    let currentDate = ""
+    lines.forEach((line) => {
+      // Blank row between delivery days for readability
+      if (currentDate && currentDate !== line.deliveryDate) sheetData.push([])
+      currentDate = line.deliveryDate
+
+      sheetData.push([
+        line.deliveryDate,
+        line.ingredientName,
+        Math.round(line.quantity * 1000) / 1000,
+        line.unit,
+        line.frequency === "weekly" ? "Weekly (batched)" : "Daily",
+        line.buildings.join(", "),
+      ])
+    })
+
+    const worksheet = XLSX.utils.aoa_to_sheet(sheetData)
+
+    const colWidths = [14, 36, 12, 10, 18, 50]
+    worksheet["!cols"] = colWidths.map((width) => ({ wch: width }))
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetName)
+  })
+
+  // Items that could not be planned, so purchasing knows what is missing
+  if (plan.unplannedItems.length > 0) {
+    const sheetData: any[] = [["Date", "Building", "Menu Item", "Reason"]]
+    plan.unplannedItems.forEach((item) => {
+      sheetData.push([
+        item.date,
+        item.buildingName,
+        item.menuItemName,
+        item.reason === "no-recipe" ? "No recipe" : "No headcount",
+      ])
+    })
+    const worksheet = XLSX.utils.aoa_to_sheet(sheetData)
+    worksheet["!cols"] = [14, 30, 30, 16].map((width) => ({ wch: width }))
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Not Planned")
+  }
+
+  const fileName = `Procurement_Plan_${plan.startDate}_to_${plan.endDate}.xlsx`
+
+  if (workbook.SheetNames.length === 0) {
+    const emptySheet = XLSX.utils.aoa_to_sheet([["No data available"]])
+    XLSX.utils.book_append_sheet(workbook, emptySheet, "Empty")
+  }
+
+  XLSX.writeFile(workbook, fileName)
+}
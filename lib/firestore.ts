@@ -1,6 +1,7 @@
 import { collection, addDoc, updateDoc, deleteDoc, doc, getDocs, query, orderBy, Timestamp, where } from "firebase/firestore"
 import { db } from "./firebase"
 import { requireAuth } from "./auth-guard"
+import type { NutritionTarget } from "./types"
 
 export interface BaseEntity {
   id: string
@@ -156,6 +157,31 @@ export const taxTemplatesService = new FirestoreService<TaxTemplate>("taxTemplat
 export const suppliersService = new FirestoreService<Supplier>("suppliers")
 export const ingredientsService = new FirestoreService<Ingredient>("ingredients")
 
+export interface RecipeLine {
+  ingredientId: string
+  quantity: number // per portion
+  unit: string
+  wastagePercent?: number
+}
+
+export interface Recipe extends BaseEntity {
+  menuItemId: string
+  menuItemName?: string
+  lines: RecipeLine[]
+  notes?: string
+}
+
+export interface IngredientPrice extends BaseEntity {
+  ingredientId: string
+  supplierId: string
+  price: number // excluding tax
+  quantity: number // price is for `quantity` of `unit`, e.g. ₹1200 per 25 kg
+  unit: string
+}
+
+export const recipesService = new FirestoreService<Recipe>("recipes")
+export const ingredientPricesService = new FirestoreService<IngredientPrice>("ingredientPrices")
+
 export interface Type extends BaseEntity {
   name: string
   description?: string
@@ -200,6 +226,8 @@ export interface Building extends BaseEntity {
   address?: string
   floor?: string
   capacity?: number
+  contactName?: string
+  contactEmail?: string   // receives client menu change digests when the company opts in
   status: string
   attendanceSettings?: {
     checkFrequencyMinutes: number
@@ -210,6 +238,7 @@ export interface Building extends BaseEntity {
     startTime: string
     endTime: string
   }[]
+  nutritionTargets?: NutritionTarget[]
 }
 
 export const typesService = new FirestoreService<Type>("types")
@@ -417,6 +446,9 @@ export interface VendorContract extends BaseEntity {
     penaltyClause: string
   }
   autoRenewal: boolean
+  escalationPercent?: number // applied to every base rate on auto-renewal
+  renewedFromId?: string
+  renewedToId?: string
 }
 export interface Employee extends BaseEntity {
   employeeId: string
@@ -462,6 +494,46 @@ export const vendorsService = new FirestoreService<Vendor>("vendors")
 
 export const categoriesService = new FirestoreService<Category>("categories")
 
+export interface InvoiceLine {
+  serviceId: string
+  serviceName: string
+  subServiceId: string
+  subServiceName: string
+  servedDays: number
+  portions: number
+  rate: number
+  rateSource: "structure" | "contract"
+  amount: number
+}
+
+export interface Invoice extends BaseEntity {
+  invoiceNumber: string
+  month: string // YYYY-MM
+  vendorId: string
+  vendorName: string
+  vendorGstNumber?: string
+  contractId: string
+  contractNumber: string
+  companyId: string
+  companyName: string
+  buildingId: string
+  buildingName: string
+  lines: InvoiceLine[]
+  skippedHolidays: string[]
+  subtotal: number
+  taxTemplateId?: string
+  taxRate: number
+  interState: boolean
+  cgst: number
+  sgst: number
+  igst: number
+  totalTax: number
+  total: number
+  status: "draft" | "issued" | "paid" | "cancelled"
+}
+
+export const invoicesService = new FirestoreService<Invoice>("invoices")
+
 // --- State-Based Attendance Engine Types ---
 
 export type EmployeeState =
@@ -0,0 +1,202 @@
+import { db } from "@/lib/firebase"
+import {
+  collection,
+  getDocs,
+  doc,
+  query,
+  where,
+  orderBy,
+  limit,
+  writeBatch,
+  runTransaction,
+  serverTimestamp,
+} from "firebase/firestore"
+import type { AiTagField, AiTags } from "@/lib/types"
+
+export const AI_TAG_FIELDS: AiTagField[] = [
+  "color",
+  "cuisine",
+  "primaryIngredient",
+  "flavorProfile",
+  "submealCategory",
+  "heavyLight",
+]
+
+export type AiTagDecision = "accepted" | "rejected"
+
+// "locked": the field was corrected by hand after the proposal was queued, so it was left alone
+export type AiTagFieldStatus = "pending" | AiTagDecision | "locked"
+
+export interface AiTagFieldProposal {
+  current?: string;
+  proposed: string;
+  status: AiTagFieldStatus;
+  decidedById?: string;
+  decidedByName?: string;
+  decidedAt?: any;
+}
+
+// One document per item per categorisation run; only fields that differ from the item's tags are kept
+export interface AiTagProposal {
+  id: string;
+  menuItemId: string;
+  itemName: string;
+  confidence?: number;    // 0-1 as reported by the model
+  model?: string;
+  fields: Partial<Record<AiTagField, AiTagFieldProposal>>;
+  status: "pending" | "resolved" | "superseded";
+  createdAt?: any;
+  resolvedAt?: any;
+}
+
+export interface AiTagReviewer {
+  id: string;
+  name: string;
+}
+
+export interface AiTagDecisionEntry {
+  proposal: AiTagProposal;
+  field: AiTagField;
+  decision: AiTagDecision;
+}
+
+const proposalsCollection = collection(db, "aiTagProposals")
+
+/**
+ * Builds the per-field diff between proposed and current tags, skipping locked fields,
+ * "Unknown" guesses and values that are already set. Returns null when nothing changes.
+ */
+export function diffAiTags(current: AiTags | undefined, proposed: Partial<Record<AiTagField, string>>) {
+  const locked = new Set(current?.locked || [])
+  const fields: Partial<Record<AiTagField, AiTagFieldProposal>> = {}
+  for (const field of AI_TAG_FIELDS) {
+    const value = proposed[field]?.trim()
+    if (!value || value === "Unknown" || locked.has(field)) continue
+    const existing = current?.[field]
+    if (existing && existing.trim().toLowerCase() === value.toLowerCase()) continue
+    fields[field] = { ...(existing ? { current: existing } : {}), proposed: value, status: "pending" }
+  }
+  return Object.keys(fields).length > 0 ? fields : null
+}
+
+export const aiTagReviewService = {
+  /**
+   * Queues proposals for review. A still-pending proposal for the same item is superseded
+   * so the queue only ever holds the latest run.
+   */
+  submit: async (proposals: Omit<AiTagProposal, "id" | "status" | "createdAt" | "resolvedAt">[]) => {
+    if (proposals.length === 0) return 0;
+    const itemIds = new Set(proposals.map(p => p.menuItemId));
+    const pending = await getDocs(query(proposalsCollection, where("status", "==", "pending")));
+    const stale = pending.docs.filter(d => itemIds.has(d.data().menuItemId));
+
+    const writes = [
+      ...stale.map(d => ({ ref: d.ref, data: { status: "superseded", resolvedAt: serverTimestamp() }, update: true })),
+      ...proposals.map(p => ({
+        ref: doc(proposalsCollection),
+        data: {
+          ...p,
+          confidence: p.confidence ?? null,
+          model: p.model ?? null,
+          status: "pending",
+          createdAt: serverTimestamp(),
+        },
+        update: false,
+      })),
+    ];
+
+    for (let i = 0; i < writes.length; i += 400) {
+      const batch = writeBatch(db);
+      writes.slice(i, i + 400).forEach(w => (w.update ? batch.update(w.ref, w.data) : batch.set(w.ref, w.data)));
+      await batch.commit();
+    }
+    return proposals.length;
+  },
+
+  getPending: async (): Promise<AiTagProposal[]> => {
+    const snapshot = await getDocs(query(proposalsCollection, where("status", "==", "pending")));
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as AiTagProposal))
+      .sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0));
+  },
+
+  getResolved: async (count = 200): Promise<AiTagProposal[]> => {
+    const q = query(proposalsCollection, where("status", "==", "resolved"), orderBy("resolvedAt", "desc"), limit(count));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AiTagProposal));
+  },
+
+  /**
+   * Applies accept / reject decisions. Each proposal is re-read inside a transaction, so a
+   * proposal superseded by a newer run, or a field another reviewer already decided, is
+   * skipped rather than overwritten. Accepted values come from the stored proposal and are
+   * written to the item's aiTags unless the field has been locked since the proposal was
+   * queued. A proposal is resolved once none of its fields are pending.
+   */
+  decide: async (entries: AiTagDecisionEntry[], reviewer: AiTagReviewer) => {
+    const byProposal = new Map<string, Map<AiTagField, AiTagDecision>>();
+    for (const { proposal, field, decision } of entries) {
+      const decisions = byProposal.get(proposal.id) || new Map<AiTagField, AiTagDecision>();
+      decisions.set(field, decision);
+      byProposal.set(proposal.id, decisions);
+    }
+
+    let applied = 0;
+    let rejected = 0;
+    let skipped = 0;
+    for (const [proposalId, requested] of Array.from(byProposal.entries())) {
+      const counts = await runTransaction(db, async (tx) => {
+        const proposalRef = doc(db, "aiTagProposals", proposalId);
+        const proposalSnap = await tx.get(proposalRef);
+        if (!proposalSnap.exists() || proposalSnap.data().status !== "pending") {
+          return { applied: 0, rejected: 0, skipped: requested.size };
+        }
+        const proposal = { id: proposalSnap.id, ...proposalSnap.data() } as AiTagProposal;
+        const itemRef = doc(db, "menuItems", proposal.menuItemId);
+        const itemSnap = await tx.get(itemRef);
+        const locked = new Set<AiTagField>(itemSnap.exists() ? itemSnap.data().aiTags?.locked || [] : []);
+
+        const result = { applied: 0, rejected: 0, skipped: 0 };
+        const decisions = new Map<AiTagField, AiTagDecision>();
+        requested.forEach((decision, field) => {
+          if (proposal.fields[field]?.status === "pending") decisions.set(field, decision);
+          else result.skipped++;
+        });
+        if (decisions.size === 0) return result;
+
+        const itemUpdate: Record<string, any> = {};
+        const proposalUpdate: Record<string, any> = {};
+        decisions.forEach((decision, field) => {
+          const status: AiTagFieldStatus = decision === "accepted" && locked.has(field) ? "locked" : decision;
+          if (status === "accepted" && itemSnap.exists()) {
+            itemUpdate[`aiTags.${field}`] = proposal.fields[field]!.proposed;
+            result.applied++;
+          }
+          if (status === "rejected") result.rejected++;
+          proposalUpdate[`fields.${field}.status`] = status;
+          proposalUpdate[`fields.${field}.decidedById`] = reviewer.id;
+          proposalUpdate[`fields.${field}.decidedByName`] = reviewer.name;
+          proposalUpdate[`fields.${field}.decidedAt`] = serverTimestamp();
+        });
+
+        const stillPending = (Object.keys(proposal.fields) as AiTagField[]).some(
+          f => proposal.fields[f]?.status === "pending" && !decisions.has(f),
+        );
+        if (!stillPending) {
+          proposalUpdate.status = "resolved";
+          proposalUpdate.resolvedAt = serverTimestamp();
+        }
+
+        if (Object.keys(itemUpdate).length > 0) {
+          tx.update(itemRef, { ...itemUpdate, "aiTags.updatedAt": serverTimestamp(), updatedAt: serverTimestamp() });
+        }
+        tx.update(proposalRef, proposalUpdate);
+        return result;
+      });
+      applied += counts.applied;
+      rejected += counts.rejected;
+      skipped += counts.skipped;
+    }
+    return { applied, rejected, skipped };
+  },
+}
@@ -0,0 +1,38 @@
+import { db } from "@/lib/firebase"
+import { collection, addDoc, getDocs, query, orderBy, limit, serverTimestamp } from "firebase/firestore"
+
+// One document per AI call, written by lib/ai/provider (mock calls are not recorded)
+export interface AiUsageRecord {
+  id: string;
+  task: string;           // e.g. "menu-categorize"
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  durationMs: number;
+  attempts: number;
+  ok: boolean;
+  error?: string;
+  createdAt?: any;
+}
+
+const usageCollection = collection(db, "aiUsage")
+
+export const aiUsageService = {
+  record: async (entry: Omit<AiUsageRecord, "id" | "createdAt">) => {
+    const { error, ...rest } = entry;
+    const docRef = await addDoc(usageCollection, {
+      ...rest,
+      ...(error ? { error } : {}),
+      createdAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  getRecent: async (count = 200): Promise<AiUsageRecord[]> => {
+    const q = query(usageCollection, orderBy("createdAt", "desc"), limit(count));
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AiUsageRecord));
+  },
+}
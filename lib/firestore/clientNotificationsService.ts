@@ -0,0 +1,129 @@
+import { auth, db } from "@/lib/firebase"
+import {
+  collection,
+  getDocs,
+  getDoc,
+  doc,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  writeBatch,
+  serverTimestamp,
+} from "firebase/firestore"
+
+export interface DigestRow {
+  date: string
+  serviceName: string
+  change: string        // e.g. "Dal Makhani → Rajma"
+}
+
+// Per-company opt-in. Nothing is sent for companies without an enabled rule.
+export interface ClientNotificationRule {
+  id: string;             // same as companyId
+  companyId: string;
+  companyName?: string;
+  enabled: boolean;
+  emailEnabled: boolean;
+  inAppEnabled: boolean;
+  notifyCompanyUsers: boolean;
+  notifyBuildingContacts: boolean;
+  buildingIds: string[];  // empty = every building of the company
+  extraEmails: string[];
+  minChanges: number;     // skip digests smaller than this
+  updatedAt?: any;
+}
+
+export interface ClientNotification {
+  id: string;
+  userId: string;
+  companyId: string;
+  buildingId: string;
+  buildingName?: string;
+  updationId: string;
+  updationNumber?: number;
+  title: string;
+  rows: DigestRow[];
+  read: boolean;
+  createdAt?: any;
+}
+
+export const DEFAULT_NOTIFICATION_RULE: Omit<ClientNotificationRule, "id" | "companyId"> = {
+  enabled: false,
+  emailEnabled: true,
+  inAppEnabled: true,
+  notifyCompanyUsers: true,
+  notifyBuildingContacts: true,
+  buildingIds: [],
+  extraEmails: [],
+  minChanges: 1,
+}
+
+const rulesCollection = collection(db, "clientNotificationRules")
+const notificationsCollection = collection(db, "clientNotifications")
+
+export const clientNotificationRulesService = {
+  getAll: async (): Promise<ClientNotificationRule[]> => {
+    const snapshot = await getDocs(rulesCollection);
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ClientNotificationRule));
+  },
+
+  getByCompany: async (companyId: string): Promise<ClientNotificationRule | null> => {
+    const snapshot = await getDoc(doc(db, "clientNotificationRules", companyId));
+    return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as ClientNotificationRule) : null;
+  },
+
+  save: async (rule: Omit<ClientNotificationRule, "id" | "updatedAt">) => {
+    await setDoc(doc(db, "clientNotificationRules", rule.companyId), {
+      ...rule,
+      updatedAt: serverTimestamp(),
+    });
+  },
+}
+
+export const clientNotificationsService = {
+  getForUser: async (userId: string): Promise<ClientNotification[]> => {
+    const q = query(notificationsCollection, where("userId", "==", userId));
+    const snapshot = await getDocs(q);
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as ClientNotification))
+      .sort((a, b) => (b.createdAt?.seconds || 0) - (a.createdAt?.seconds || 0));
+  },
+
+  addMany: async (notifications: Omit<ClientNotification, "id" | "createdAt" | "read">[]) => {
+    if (notifications.length === 0) return;
+    const batch = writeBatch(db);
+    notifications.forEach((notification) => {
+      batch.set(doc(notificationsCollection), {
+        ...notification,
+        read: false,
+        createdAt: serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  },
+
+  markRead: async (id: string) => {
+    await updateDoc(doc(db, "clientNotifications", id), { read: true });
+  },
+
+  // Fire-and-forget: the API route applies the opt-in rules and sends email + in-app.
+  // The route only accepts signed-in callers, so the user's ID token goes along as a Bearer token.
+  dispatchForUpdation: (updationId: string) => {
+    const user = auth.currentUser;
+    if (!user) {
+      console.error("Error dispatching client notifications: not signed in");
+      return;
+    }
+    user
+      .getIdToken()
+      .then((token) =>
+        fetch("/api/notifications/menu-updation", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+          body: JSON.stringify({ updationId }),
+        }),
+      )
+      .catch((error) => console.error("Error dispatching client notifications:", error));
+  },
+}
@@ -0,0 +1,54 @@
+import { db } from "@/lib/firebase"
+import {
+  collection,
+  getDocs,
+  addDoc,
+  serverTimestamp,
+  query,
+  where,
+  writeBatch,
+  doc,
+} from "firebase/firestore"
+
+export interface ContractRateRevision {
+  id: string;
+  contractId: string;
+  contractNumber: string;
+  serviceId: string;
+  serviceName: string;
+  subServiceId: string;
+  subServiceName: string;
+  previousRate: number | null; // null for the first rate on a contract
+  newRate: number;
+  effectiveDate: string;       // YYYY-MM-DD
+  reason: 'initial' | 'manual' | 'auto-renewal';
+  escalationPercent?: number;
+  changedBy?: string;
+  createdAt?: any;
+}
+
+const revisionsCollection = collection(db, 'contractRateRevisions')
+
+// Rate history is append-only: there is deliberately no update or delete here
+export const contractRateRevisionsService = {
+  getByContract: async (contractId: string): Promise<ContractRateRevision[]> => {
+    const q = query(revisionsCollection, where("contractId", "==", contractId));
+    const snapshot = await getDocs(q);
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as ContractRateRevision))
+      .sort((a, b) => (a.createdAt?.seconds || 0) - (b.createdAt?.seconds || 0));
+  },
+
+  add: async (data: Omit<ContractRateRevision, 'id' | 'createdAt'>) => {
+    return await addDoc(revisionsCollection, { ...data, createdAt: serverTimestamp() });
+  },
+
+  addMany: async (revisions: Omit<ContractRateRevision, 'id' | 'createdAt'>[]) => {
+    if (revisions.length === 0) return;
+    const batch = writeBatch(db);
+    revisions.forEach((revision) => {
+      batch.set(doc(revisionsCollection), { ...revision, createdAt: serverTimestamp() });
+    });
+    await batch.commit();
+  },
+}
@@ -0,0 +1,108 @@
+import { db } from "@/lib/firebase"
+import {
+  collection,
+  getDocs,
+  getDoc,
+  addDoc,
+  doc,
+  updateDoc,
+  query,
+  where,
+  arrayUnion,
+  serverTimestamp,
+} from "firebase/firestore"
+import type { CompanyMenu, MenuApprovalEvent } from "@/lib/types"
+import {
+  canTransition,
+  getApprovalStatus,
+  opensNewCycle,
+  APPROVAL_STATUS_LABELS,
+  type ApprovalActor,
+  type MenuApprovalStatus,
+} from "@/lib/menu-approval"
+
+export interface MenuCellComment {
+  id: string;
+  menuId: string;
+  cellKey: string;        // see getCommentCellKey
+  date: string;
+  serviceId: string;
+  mealPlanId: string;
+  subMealPlanId: string;
+  cycle: number;
+  text: string;
+  authorId: string;
+  authorName: string;
+  authorType: ApprovalActor;
+  resolved: boolean;
+  createdAt?: any;
+}
+
+export interface ApprovalActorInfo {
+  id: string;
+  name: string;
+  type: ApprovalActor;
+}
+
+const commentsCollection = collection(db, "menuCellComments")
+
+export const menuApprovalService = {
+  /**
+   * Moves a company menu to the next workflow status. Throws when the actor isn't allowed
+   * to make that transition from the menu's current status.
+   */
+  transition: async (menuId: string, to: MenuApprovalStatus, actor: ApprovalActorInfo, note?: string) => {
+    const menuRef = doc(db, "companyMenus", menuId);
+    const snapshot = await getDoc(menuRef);
+    if (!snapshot.exists()) throw new Error("Company menu not found");
+
+    const menu = snapshot.data() as CompanyMenu;
+    const from = getApprovalStatus(menu);
+    if (!canTransition(from, to, actor.type)) {
+      throw new Error(`Cannot move menu from ${APPROVAL_STATUS_LABELS[from]} to ${APPROVAL_STATUS_LABELS[to]}`);
+    }
+
+    // Legacy menus (no approvalStatus yet) enter the workflow in their first cycle
+    const cycle = (menu.approvalCycle || 1) + (menu.approvalStatus && opensNewCycle(from, to) ? 1 : 0);
+    const event: MenuApprovalEvent = {
+      from,
+      to,
+      cycle,
+      actorId: actor.id,
+      actorName: actor.name,
+      actorType: actor.type,
+      at: new Date().toISOString(),
+      ...(note ? { note } : {}),
+    };
+
+    await updateDoc(menuRef, {
+      approvalStatus: to,
+      approvalCycle: cycle,
+      approvalHistory: arrayUnion(event),
+      ...(to === "published" ? { status: "active" } : {}),
+      updatedAt: serverTimestamp(),
+    });
+    return event;
+  },
+
+  getComments: async (menuId: string): Promise<MenuCellComment[]> => {
+    const q = query(commentsCollection, where("menuId", "==", menuId));
+    const snapshot = await getDocs(q);
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as MenuCellComment))
+      .sort((a, b) => (a.createdAt?.seconds || 0) - (b.createdAt?.seconds || 0));
+  },
+
+  addComment: async (comment: Omit<MenuCellComment, "id" | "createdAt" | "resolved">) => {
+    const docRef = await addDoc(commentsCollection, {
+      ...comment,
+      resolved: false,
+      createdAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  setCommentResolved: async (id: string, resolved: boolean) => {
+    await updateDoc(doc(db, "menuCellComments", id), { resolved });
+  },
+}
@@ -0,0 +1,41 @@
+import { db } from "@/lib/firebase"
+import { collection, getDocs, addDoc, deleteDoc, doc, query, orderBy } from "firebase/firestore"
+import type { MenuTemplateWeek } from "@/lib/menu-templates"
+
+export interface MenuTemplate {
+  id: string;
+  name: string;
+  menuType: "combined" | "company";
+  cycleWeeks: number;        // weeks.length; >1 means the template repeats as a cycle
+  weeks: MenuTemplateWeek[];
+  sourceMenuId?: string;
+  sourceWeekStart: string;   // Monday of the first copied week
+  companyId?: string;
+  companyName?: string;
+  buildingId?: string;
+  buildingName?: string;
+  createdAt: any;
+  createdBy?: string;
+}
+
+const templatesCollection = collection(db, "menuTemplates")
+
+export const menuTemplatesService = {
+  getAll: async (): Promise<MenuTemplate[]> => {
+    const snapshot = await getDocs(query(templatesCollection, orderBy("createdAt", "desc")));
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as MenuTemplate));
+  },
+
+  create: async (template: Omit<MenuTemplate, "id" | "createdAt">): Promise<string> => {
+    // Weeks go through JSON so undefined values (rejected by Firestore) are dropped
+    const docRef = await addDoc(templatesCollection, {
+      ...JSON.parse(JSON.stringify(template)),
+      createdAt: new Date(),
+    });
+    return docRef.id;
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await deleteDoc(doc(db, "menuTemplates", id));
+  },
+};
@@ -0,0 +1,177 @@
+import { db } from "@/lib/firebase"
+import {
+  collection,
+  getDocs,
+  addDoc,
+  doc,
+  updateDoc,
+  query,
+  where,
+} from "firebase/firestore"
+import { detectMenuChanges, createChangeSummary, type ChangeItemDetails } from "@/lib/change-detector"
+import { clientNotificationsService } from "@/lib/firestore/clientNotificationsService"
+import type { MenuGridData } from "@/lib/types"
+
+export interface MenuVersion {
+  id: string;
+  menuId: string;
+  menuType: "combined" | "company";
+  versionNumber: number;
+  updationNumber?: number;    // U# this snapshot was taken after (absent for the baseline)
+  reason: "baseline" | "save" | "restore";
+  restoredFromVersion?: number;
+  menuData: MenuGridData;
+  startDate: string;
+  endDate: string;
+  createdAt: any;
+  createdBy?: string;
+}
+
+export interface MenuSnapshotMeta {
+  menuType: "combined" | "company";
+  startDate: string;
+  endDate: string;
+  menuName?: string;
+  companyId?: string;
+  companyName?: string;
+  buildingId?: string;
+  buildingName?: string;
+}
+
+const versionsCollection = collection(db, "menuVersions")
+
+// Menu data goes through JSON so undefined values (rejected by Firestore) are dropped
+const cloneMenuData = (menuData: any): MenuGridData => JSON.parse(JSON.stringify(menuData || {}))
+
+export const menuVersionsService = {
+  getByMenuId: async (menuId: string): Promise<MenuVersion[]> => {
+    const q = query(versionsCollection, where("menuId", "==", menuId));
+    const snapshot = await getDocs(q);
+    return snapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as MenuVersion))
+      .sort((a, b) => b.versionNumber - a.versionNumber);
+  },
+
+  /**
+   * Stores the menu as it is after a save. The first snapshot of a menu is preceded
+   * by a baseline of the pre-edit data so the very first edit can be rolled back too.
+   */
+  recordSnapshot: async (
+    menuId: string,
+    menuData: any,
+    meta: MenuSnapshotMeta,
+    options: { baselineMenuData?: any; updationNumber?: number; createdBy?: string } = {},
+  ): Promise<number> => {
+    const existing = await menuVersionsService.getByMenuId(menuId);
+    let nextNumber = (existing[0]?.versionNumber || 0) + 1;
+
+    if (existing.length === 0 && options.baselineMenuData) {
+      await addDoc(versionsCollection, {
+        menuId,
+        menuType: meta.menuType,
+        versionNumber: nextNumber++,
+        reason: "baseline",
+        menuData: cloneMenuData(options.baselineMenuData),
+        startDate: meta.startDate,
+        endDate: meta.endDate,
+        createdAt: new Date(),
+        createdBy: options.createdBy || "user",
+      });
+    }
+
+    await addDoc(versionsCollection, {
+      menuId,
+      menuType: meta.menuType,
+      versionNumber: nextNumber,
+      reason: "save",
+      ...(options.updationNumber !== undefined && { updationNumber: options.updationNumber }),
+      menuData: cloneMenuData(menuData),
+      startDate: meta.startDate,
+      endDate: meta.endDate,
+      createdAt: new Date(),
+      createdBy: options.createdBy || "user",
+    });
+    return nextNumber;
+  },
+
+  /**
+   * Writes a version's menuData back onto the menu, records the rollback as a normal
+   * updation (so the tracker shows what changed) and snapshots the result.
+   */
+  restore: async (
+    version: MenuVersion,
+    currentMenuData: any,
+    meta: MenuSnapshotMeta,
+    menuItemsMap: Map<string, string>,
+    itemDetails?: ChangeItemDetails,
+    createdBy = "user",
+  ): Promise<{ updationNumber: number; versionNumber: number; totalChanges: number }> => {
+    const collectionName = meta.menuType === "combined" ? "combinedMenus" : "companyMenus";
+    const restoredData = cloneMenuData(version.menuData);
+    const changedCells = detectMenuChanges(currentMenuData, restoredData, menuItemsMap, itemDetails);
+
+    await updateDoc(doc(db, collectionName, version.menuId), {
+      menuData: restoredData,
+      updatedAt: new Date(),
+    });
+
+    const updationsSnap = await getDocs(query(collection(db, "updations"), where("menuId", "==", version.menuId)));
+    let latestUpdation = 0;
+    updationsSnap.forEach((doc) => {
+      latestUpdation = Math.max(latestUpdation, doc.data().updationNumber || 0);
+    });
+    const updationNumber = latestUpdation + 1;
+    const { totalChanges } = createChangeSummary(changedCells);
+
+    const updationRef = await addDoc(collection(db, "updations"), {
+      menuId: version.menuId,
+      menuType: meta.menuType,
+      menuName: meta.menuName || `${meta.menuType} Menu`,
+      updationNumber,
+      changedCells: JSON.parse(JSON.stringify(changedCells)),
+      totalChanges,
+      menuStartDate: meta.startDate,
+      menuEndDate: meta.endDate,
+      createdAt: new Date(),
+      createdBy,
+      notes: `Restored to version V${version.versionNumber}`,
+      ...(meta.menuType === "company" && Object.fromEntries(
+        Object.entries({
+          companyId: meta.companyId,
+          companyName: meta.companyName,
+          buildingId: meta.buildingId,
+          buildingName: meta.buildingName,
+        }).filter(([, value]) => value !== undefined),
+      )),
+      ...(meta.menuType === "company" && meta.companyId && meta.buildingId && {
+        affectedCompanies: [{
+          companyId: meta.companyId,
+          companyName: meta.companyName || "Company",
+          buildingId: meta.buildingId,
+          buildingName: meta.buildingName || "Building",
+        }],
+      }),
+    });
+    if (meta.menuType === "company") {
+      clientNotificationsService.dispatchForUpdation(updationRef.id);
+    }
+
+    const existing = await menuVersionsService.getByMenuId(version.menuId);
+    const versionNumber = (existing[0]?.versionNumber || 0) + 1;
+    await addDoc(versionsCollection, {
+      menuId: version.menuId,
+      menuType: meta.menuType,
+      versionNumber,
+      updationNumber,
+      reason: "restore",
+      restoredFromVersion: version.versionNumber,
+      menuData: restoredData,
+      startDate: meta.startDate,
+      endDate: meta.endDate,
+      createdAt: new Date(),
+      createdBy,
+    });
+
+    return { updationNumber, versionNumber, totalChanges };
+  },
+}
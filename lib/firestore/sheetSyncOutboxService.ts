@@ -0,0 +1,75 @@
+import { collection, doc, getDoc, getDocs, query, where, orderBy, limit, setDoc, runTransaction, Timestamp } from 'firebase/firestore'
+import { db } from '../firebase'
+
+// One pending push per ticket (doc id = ticketId); removed once the sheet has it
+export interface SheetSyncOutboxEntry {
+  id: string
+  ticketId: string
+  reason: string
+  queuedAt: Timestamp
+  nextAttemptAt: Timestamp
+  attempts: number
+  lastError?: string
+}
+
+const COLLECTION_NAME = 'sheetSyncOutbox'
+// Fresh entries are pushed right away by the caller; the scheduled flush picks them up after this
+const FLUSH_DELAY_MS = 60 * 1000
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000
+
+export const sheetSyncOutboxService = {
+  async enqueue(ticketId: string, reason: string): Promise<void> {
+    const now = Timestamp.now()
+    await setDoc(doc(db, COLLECTION_NAME, ticketId), {
+      ticketId,
+      reason,
+      queuedAt: now,
+      nextAttemptAt: Timestamp.fromMillis(now.toMillis() + FLUSH_DELAY_MS)
+    }, { merge: true })
+  },
+
+  async getDue(max = 50): Promise<SheetSyncOutboxEntry[]> {
+    const q = query(
+      collection(db, COLLECTION_NAME),
+      where('nextAttemptAt', '<=', Timestamp.now()),
+      orderBy('nextAttemptAt', 'asc'),
+      limit(max)
+    )
+    const snap = await getDocs(q)
+    return snap.docs.map(d => ({ id: d.id, attempts: 0, ...d.data() } as SheetSyncOutboxEntry))
+  },
+
+  async get(ticketId: string): Promise<SheetSyncOutboxEntry | null> {
+    const snap = await getDoc(doc(db, COLLECTION_NAME, ticketId))
+    return snap.exists() ? ({ id: snap.id, attempts: 0, ...snap.data() } as SheetSyncOutboxEntry) : null
+  },
+
+  async getAll(): Promise<SheetSyncOutboxEntry[]> {
+    const snap = await getDocs(collection(db, COLLECTION_NAME))
+    return snap.docs.map(d => ({ id: d.id, attempts: 0, ...d.data() } as SheetSyncOutboxEntry))
+  },
+
+  /**
+   * Drops the entry unless the ticket was queued again while it was being pushed
+   */
+  async markSynced(ticketId: string, queuedAt?: Timestamp): Promise<void> {
+    const ref = doc(db, COLLECTION_NAME, ticketId)
+    await runTransaction(db, async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists()) return
+      const current = snap.data().queuedAt as Timestamp | undefined
+      if (queuedAt && current && current.toMillis() !== queuedAt.toMillis()) return
+      tx.delete(ref)
+    })
+  },
+
+  async markFailed(ticketId: string, attempts: number, error: string): Promise<void> {
+    const backoff = Math.min(MAX_BACKOFF_MS, 2 ** attempts * 60 * 1000)
+    await setDoc(doc(db, COLLECTION_NAME, ticketId), {
+      ticketId,
+      attempts,
+      lastError: error.slice(0, 500),
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + backoff)
+    }, { merge: true })
+  }
+}
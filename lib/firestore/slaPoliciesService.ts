@@ -0,0 +1,57 @@
+import { collection, doc, updateDoc, getDocs, addDoc, deleteDoc, Timestamp } from 'firebase/firestore'
+import { db } from '../firebase'
+import type { TicketPriority } from './ticketService'
+
+export interface SlaBusinessHours {
+  enabled: boolean      // false = the SLA clock runs around the clock
+  start: string         // HH:MM, local to utcOffsetMinutes
+  end: string           // HH:MM
+  workDays: number[]    // 0 = Sunday ... 6 = Saturday
+}
+
+export interface SlaPolicy {
+  id: string
+  name: string
+  companyId: string     // '' = every company
+  companyName?: string
+  category: string      // '' = every category
+  resolutionHours: Record<TicketPriority, number>
+  businessHours: SlaBusinessHours
+  excludeHolidays: boolean          // corporate-calendar holidays stop the clock
+  pauseWhileAwaitingClient: boolean
+  escalationAfterHours: number[]    // level N fires this many SLA hours after the breach
+  utcOffsetMinutes: number
+  active: boolean
+  createdAt?: Timestamp
+  updatedAt?: Timestamp
+}
+
+const COLLECTION_NAME = 'slaPolicies'
+
+export const slaPoliciesService = {
+  async getAll(): Promise<SlaPolicy[]> {
+    const snap = await getDocs(collection(db, COLLECTION_NAME))
+    return snap.docs.map(d => ({ id: d.id, ...d.data() } as SlaPolicy))
+  },
+
+  async create(data: Omit<SlaPolicy, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const now = Timestamp.now()
+    const docRef = await addDoc(collection(db, COLLECTION_NAME), {
+      ...JSON.parse(JSON.stringify(data)),
+      createdAt: now,
+      updatedAt: now
+    })
+    return docRef.id
+  },
+
+  async update(id: string, data: Partial<Omit<SlaPolicy, 'id' | 'createdAt'>>): Promise<void> {
+    await updateDoc(doc(db, COLLECTION_NAME, id), {
+      ...JSON.parse(JSON.stringify(data)),
+      updatedAt: Timestamp.now()
+    })
+  },
+
+  async delete(id: string): Promise<void> {
+    await deleteDoc(doc(db, COLLECTION_NAME, id))
+  }
+}
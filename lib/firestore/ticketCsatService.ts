@@ -0,0 +1,38 @@
+import { collection, getDocs, addDoc, query, where, orderBy, Timestamp } from 'firebase/firestore'
+import { db } from '../firebase'
+
+// One survey answer per ticket resolution
+export interface TicketCsatResponse {
+  id: string
+  ticketId: string
+  rating: number                 // 1-5
+  comment: string
+  assigneeId?: string
+  assigneeName?: string
+  companyId: string
+  companyName: string
+  buildingId?: string
+  buildingName?: string
+  category?: string
+  resolvedAtMs: number           // which resolution was rated
+  lowScoreAction?: 'reopened' | 'notified' | 'reopened+notified' | null
+  submittedAt: Timestamp
+}
+
+const COLLECTION_NAME = 'ticket_csat'
+
+export const ticketCsatService = {
+  async create(data: Omit<TicketCsatResponse, 'id' | 'submittedAt'>, submittedAt: Timestamp): Promise<string> {
+    const docRef = await addDoc(collection(db, COLLECTION_NAME), {
+      ...JSON.parse(JSON.stringify(data)),
+      submittedAt
+    })
+    return docRef.id
+  },
+
+  async getSince(since: Timestamp): Promise<TicketCsatResponse[]> {
+    const q = query(collection(db, COLLECTION_NAME), where('submittedAt', '>=', since), orderBy('submittedAt', 'desc'))
+    const snap = await getDocs(q)
+    return snap.docs.map(d => ({ id: d.id, ...d.data() } as TicketCsatResponse))
+  }
+}
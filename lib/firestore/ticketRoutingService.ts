@@ -0,0 +1,61 @@
+import { collection, doc, updateDoc, getDocs, addDoc, deleteDoc, setDoc, Timestamp } from 'firebase/firestore'
+import { db } from '../firebase'
+
+export interface TicketRoutingRule {
+  id: string
+  name: string
+  order: number                 // lower runs first; the first matching active rule wins
+  companyId: string             // '' = every company
+  companyName?: string
+  category: string              // '' = every category
+  roleKeys: string[]            // [] = any vendor staff role
+  requireSkillMatch: boolean    // only people whose skillTags include the ticket category
+  requireOnShift: boolean       // only people on one of their assignedShifts right now
+  maxOpenTickets: number        // 0 = no cap
+  active: boolean
+  createdAt?: Timestamp
+  updatedAt?: Timestamp
+}
+
+const COLLECTION_NAME = 'ticketRoutingRules'
+// Round-robin cursor per rule id ('default' when no rule matched): the last person picked
+const STATE_COLLECTION = 'ticketRoutingState'
+
+export const ticketRoutingService = {
+  async getAll(): Promise<TicketRoutingRule[]> {
+    const snap = await getDocs(collection(db, COLLECTION_NAME))
+    return snap.docs
+      .map(d => ({ id: d.id, ...d.data() } as TicketRoutingRule))
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+  },
+
+  async create(data: Omit<TicketRoutingRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+    const now = Timestamp.now()
+    const docRef = await addDoc(collection(db, COLLECTION_NAME), {
+      ...JSON.parse(JSON.stringify(data)),
+      createdAt: now,
+      updatedAt: now
+    })
+    return docRef.id
+  },
+
+  async update(id: string, data: Partial<Omit<TicketRoutingRule, 'id' | 'createdAt'>>): Promise<void> {
+    await updateDoc(doc(db, COLLECTION_NAME, id), {
+      ...JSON.parse(JSON.stringify(data)),
+      updatedAt: Timestamp.now()
+    })
+  },
+
+  async getRoundRobinCursors(): Promise<Record<string, string>> {
+    const snap = await getDocs(collection(db, STATE_COLLECTION))
+    return Object.fromEntries(snap.docs.map(d => [d.id, d.data().lastAssigneeId || '']))
+  },
+
+  async setRoundRobinCursor(ruleId: string, lastAssigneeId: string): Promise<void> {
+    await setDoc(doc(db, STATE_COLLECTION, ruleId || 'default'), { lastAssigneeId, updatedAt: Timestamp.now() })
+  },
+
+  async delete(id: string): Promise<void> {
+    await deleteDoc(doc(db, COLLECTION_NAME, id))
+  }
+}
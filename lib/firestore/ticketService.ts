@@ -1,8 +1,38 @@
-import { collection, doc, updateDoc, query, where, getDocs, Timestamp, orderBy, addDoc, getDoc } from 'firebase/firestore'
+import { collection, doc, updateDoc, query, where, getDocs, Timestamp, orderBy, addDoc, getDoc, arrayUnion, writeBatch, type WriteBatch } from 'firebase/firestore'
 import { db } from '../firebase'
+import { holidaysService } from '@/lib/firestore'
+import { slaPoliciesService, type SlaPolicy } from './slaPoliciesService'
+import { ticketRoutingService } from './ticketRoutingService'
+import { sheetSyncOutboxService } from './sheetSyncOutboxService'
+import { ticketCsatService, type TicketCsatResponse } from './ticketCsatService'
+import { usersService } from './usersService'
+import { cafeteriasService } from './cafeteriasService'
+import { globalShiftsService } from './globalShiftsService'
+import {
+  addSlaTime,
+  buildSlaCalendar,
+  computeSlaBreachAt,
+  resolveSlaPolicy,
+  slaTimeBetween,
+  DEFAULT_SLA_POLICY,
+  type SlaCalendar
+} from '@/lib/sla-engine'
+import { routeTicket, shiftKey, type ShiftWindow, type TicketRoutingDecision } from '@/lib/ticket-routing'
+import type { PushedSheetValues } from '@/lib/ticket-sheet-sync'
+import { hashReporterToken } from '@/lib/ticket-csat'
 
 export type TicketPriority = 'Low' | 'Medium' | 'High' | 'Critical'
-export type TicketStatus = 'Open' | 'In Progress' | 'Resolved' | 'Closed'
+export type TicketStatus = 'Open' | 'In Progress' | 'Awaiting Client' | 'Resolved' | 'Closed'
+
+// SLA / escalation timeline entry stored on the ticket
+export interface TicketSlaEvent {
+  type: 'breached' | 'escalated' | 'paused' | 'resumed'
+  at: Timestamp
+  level?: number
+  toUserId?: string
+  toUserName?: string
+  note?: string
+}
 
 export interface Ticket {
   id: string
@@ -21,7 +51,56 @@ export interface Ticket {
   assigneeName?: string
   slaBreachAt: Timestamp
   category?: string
+  buildingId?: string
   buildingName?: string
+  cafeId?: string
+  routing?: TicketRoutingDecision  // how the assignee was picked by auto-routing
+  slaPolicyId?: string
+  slaPausedAt?: Timestamp | null   // set while the SLA clock is paused (Awaiting Client)
+  slaPausedMs?: number             // total SLA time spent paused
+  slaBreachedAt?: Timestamp | null
+  slaClockStartAt?: Timestamp      // when the current SLA clock started (creation, or the last reopen)
+  escalationLevel?: number
+  slaTimeline?: TicketSlaEvent[]
+  firstResponseAt?: Timestamp      // first staff comment or status change
+  firstResponseMs?: number
+  resolvedAt?: Timestamp | null    // latest resolution; cleared on reopen
+  resolutionMs?: number            // creation to latest resolution
+  reopenCount?: number
+  lastReopenedAt?: Timestamp
+  sheetSync?: { pushed: PushedSheetValues, syncedAt: Timestamp }  // last row written to the ticket sheet
+  reporterTokenHash?: string       // SHA-256 of the reporter's survey token
+  csat?: TicketCsat | null         // latest satisfaction rating
+}
+
+export interface TicketCsat {
+  rating: number
+  comment: string
+  resolvedAtMs: number             // the resolution this rating is for
+  submittedAt: Timestamp
+  lowScoreAction?: TicketCsatResponse['lowScoreAction']
+}
+
+export type TicketEventType = 'created' | 'status' | 'assignee' | 'priority' | 'category' | 'reopened' | 'csat'
+
+// Append-only lifecycle entry in ticket_events
+export interface TicketEvent {
+  id: string
+  ticketId: string
+  type: TicketEventType
+  from?: string | null
+  to?: string | null
+  reason?: string
+  actorId: string
+  actorName: string
+  actorRole?: string
+  timestamp: Timestamp
+}
+
+export interface TicketActor {
+  id: string
+  name: string
+  role?: string
 }
 
 export interface TicketComment {
@@ -37,57 +116,168 @@ export interface TicketComment {
 
 const TICKETS_COLLECTION = 'tickets'
 const COMMENTS_COLLECTION = 'ticket_comments'
+const EVENTS_COLLECTION = 'ticket_events'
+
+export const SYSTEM_ACTOR: TicketActor = { id: 'system', name: 'System', role: 'System' }
+const ROUTING_ACTOR: TicketActor = { id: 'auto-routing', name: 'Auto-routing', role: 'System' }
+// Roles whose activity doesn't count as a response to the reporter
+const NON_RESPONDER_ROLES = ['System', 'Client', 'Company Admin']
+
+const isClosedStatus = (status: TicketStatus) => status === 'Resolved' || status === 'Closed'
 
-const SLA_HOURS: Record<TicketPriority, number> = {
-  'Low': 72,
-  'Medium': 48,
-  'High': 24,
-  'Critical': 4
+function appendTicketEvents(
+  batch: WriteBatch,
+  ticketId: string,
+  actor: TicketActor,
+  timestamp: Timestamp,
+  events: Pick<TicketEvent, 'type' | 'from' | 'to' | 'reason'>[]
+) {
+  events.forEach(event => {
+    batch.set(doc(collection(db, EVENTS_COLLECTION)), {
+      ...JSON.parse(JSON.stringify({ ...event, ticketId, actorId: actor.id, actorName: actor.name, actorRole: actor.role })),
+      timestamp
+    })
+  })
+}
+
+/**
+ * Queues the ticket for the Google Sheets outbox and, in the browser, asks the sync route to
+ * push it now. Anything that fails here is retried by the scheduled outbox flush.
+ */
+async function queueSheetSync(ticketId: string, reason: string) {
+  try {
+    await sheetSyncOutboxService.enqueue(ticketId, reason)
+    if (typeof window !== 'undefined') {
+      fetch('/api/tickets/sync-to-sheets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ticketId })
+      }).catch(err => console.error('Failed to sync ticket to sheets:', err))
+    }
+  } catch (err) {
+    console.error('Failed to queue sheet sync:', err)
+  }
+}
+
+// First-response metric fields when `actor` is the first staff member to act on the ticket
+function firstResponseUpdate(ticket: Ticket, actor: TicketActor, at: Timestamp) {
+  if (ticket.firstResponseAt || actor.id === ticket.creatorId || NON_RESPONDER_ROLES.includes(actor.role || '')) return {}
+  return { firstResponseAt: at, firstResponseMs: at.toMillis() - ticket.createdAt.toMillis() }
+}
+
+// Policy + calendar for a ticket; falls back to the default policy if they can't be read
+async function loadSlaContext(companyId: string, category?: string, buildingId?: string): Promise<{ policy: SlaPolicy, calendar: SlaCalendar }> {
+  try {
+    const [policies, holidays] = await Promise.all([slaPoliciesService.getAll(), holidaysService.getAll()])
+    const policy = resolveSlaPolicy(policies, companyId, category)
+    return { policy, calendar: buildSlaCalendar(policy, holidays, companyId, buildingId) }
+  } catch (err) {
+    console.error('Failed to load SLA policies, using defaults:', err)
+    return { policy: DEFAULT_SLA_POLICY, calendar: buildSlaCalendar(DEFAULT_SLA_POLICY, [], companyId, buildingId) }
+  }
+}
+
+// Picks an assignee with the routing rules and stores the decision on the ticket
+async function routeAndAssign(ticketId: string): Promise<TicketRoutingDecision | null> {
+  const ticket = await ticketService.getTicketById(ticketId)
+  if (!ticket) return null
+
+  const [rules, users, cafeterias, globalShifts, openTickets, cursors] = await Promise.all([
+    ticketRoutingService.getAll(),
+    usersService.getByCompany(ticket.companyId),
+    cafeteriasService.getAll(),
+    globalShiftsService.getAll(),
+    ticketService.getOpenTickets(),
+    ticketRoutingService.getRoundRobinCursors()
+  ])
+
+  const shifts = new Map<string, ShiftWindow>()
+  globalShifts.forEach(s => shifts.set(shiftKey('global', s.id), s))
+  cafeterias.forEach(c => (c.shifts || []).forEach(s => shifts.set(shiftKey(c.id, s.id), s)))
+
+  const openTicketCounts: Record<string, number> = {}
+  openTickets.forEach(t => {
+    if (t.assigneeId && t.id !== ticketId) openTicketCounts[t.assigneeId] = (openTicketCounts[t.assigneeId] || 0) + 1
+  })
+
+  const decision = routeTicket({ ticket, rules, users, openTicketCounts, shifts, roundRobinCursors: cursors })
+  const now = Timestamp.now()
+  const batch = writeBatch(db)
+  batch.update(doc(db, TICKETS_COLLECTION, ticketId), {
+    ...(decision.assigneeId && { assigneeId: decision.assigneeId, assigneeName: decision.assigneeName }),
+    routing: JSON.parse(JSON.stringify(decision)),
+    updatedAt: now
+  })
+  if (decision.assigneeId && decision.assigneeId !== ticket.assigneeId) {
+    appendTicketEvents(batch, ticketId, ROUTING_ACTOR, now, [{
+      type: 'assignee',
+      from: ticket.assigneeName || null,
+      to: decision.assigneeName,
+      reason: decision.pickReason
+    }])
+  }
+  await batch.commit()
+  if (decision.assigneeId) await ticketRoutingService.setRoundRobinCursor(decision.ruleId, decision.assigneeId)
+  return decision
 }
 
 export const ticketService = {
-  async createTicket(data: Omit<Ticket, 'id' | 'createdAt' | 'updatedAt' | 'slaBreachAt' | 'status'>): Promise<string> {
+  async createTicket(
+    data: Omit<Ticket, 'id' | 'createdAt' | 'updatedAt' | 'slaBreachAt' | 'status'>,
+    options: { reporterToken?: string } = {}
+  ): Promise<string> {
     const now = Timestamp.now()
-    const slaMs = SLA_HOURS[data.priority] * 60 * 60 * 1000
-    const slaBreachAt = Timestamp.fromMillis(now.toMillis() + slaMs)
+    const reporterTokenHash = options.reporterToken ? await hashReporterToken(options.reporterToken) : undefined
+    const { policy, calendar } = await loadSlaContext(data.companyId, data.category, data.buildingId)
+    const slaBreachAt = Timestamp.fromMillis(computeSlaBreachAt(now.toMillis(), data.priority, policy, calendar))
 
     const docRef = await addDoc(collection(db, TICKETS_COLLECTION), {
       ...data,
       status: 'Open',
       createdAt: now,
       updatedAt: now,
-      slaBreachAt
+      slaBreachAt,
+      slaClockStartAt: now,
+      slaPolicyId: policy.id,
+      escalationLevel: 0,
+      slaTimeline: [],
+      reopenCount: 0,
+      ...(reporterTokenHash && { reporterTokenHash })
     })
+
+    const batch = writeBatch(db)
+    appendTicketEvents(batch, docRef.id, { id: data.creatorId, name: data.creatorName, role: 'Client' }, now, [
+      { type: 'created', to: 'Open' }
+    ])
+    await batch.commit()
     
-    // Sync to Google Sheets asynchronously (fire-and-forget)
+    // Routing must never block the ticket itself
     try {
-      fetch('/api/tickets/sync-to-sheets', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          ticketId: docRef.id,
-          date: now.toDate().toISOString(),
-          priority: data.priority,
-          category: data.category || '',
-          status: 'Open',
-          companyName: data.companyName,
-          buildingName: data.buildingName || '',
-          creatorName: data.creatorName,
-          title: data.title,
-          description: data.description,
-          photos: data.photos || []
-        }),
-      }).catch(err => console.error('Failed to sync ticket to sheets:', err));
+      await routeAndAssign(docRef.id)
     } catch (err) {
-      console.error('Error initiating sync to sheets:', err);
+      console.error('Failed to auto-route ticket:', err)
     }
+    await queueSheetSync(docRef.id, 'created')
 
     return docRef.id
   },
 
-  async updateTicketStatus(ticketId: string, status: TicketStatus, assigneeId?: string, assigneeName?: string): Promise<void> {
+  /**
+   * Re-runs routing for an existing ticket (creation routes automatically)
+   */
+  async autoRouteTicket(ticketId: string): Promise<TicketRoutingDecision | null> {
+    const decision = await routeAndAssign(ticketId)
+    if (decision?.assigneeId) await queueSheetSync(ticketId, 'assignee')
+    return decision
+  },
+
+  async updateTicketStatus(
+    ticketId: string,
+    status: TicketStatus,
+    assigneeId?: string,
+    assigneeName?: string,
+    actor: TicketActor = SYSTEM_ACTOR
+  ): Promise<void> {
     const docRef = doc(db, TICKETS_COLLECTION, ticketId)
     const updateData: any = {
       status,
@@ -97,7 +287,199 @@ export const ticketService = {
       updateData.assigneeId = assigneeId
       updateData.assigneeName = assigneeName
     }
-    await updateDoc(docRef, updateData)
+
+    const snap = await getDoc(docRef)
+    const ticket = snap.exists() ? ({ id: snap.id, ...snap.data() } as Ticket) : null
+    const events: Pick<TicketEvent, 'type' | 'from' | 'to' | 'reason'>[] = []
+    if (ticket) {
+      if (ticket.status !== status) events.push({ type: 'status', from: ticket.status, to: status })
+      if (updateData.assigneeId && updateData.assigneeId !== ticket.assigneeId) {
+        events.push({ type: 'assignee', from: ticket.assigneeName || null, to: assigneeName })
+      }
+      if (events.length > 0) Object.assign(updateData, firstResponseUpdate(ticket, actor, updateData.updatedAt))
+      if (isClosedStatus(status) && !isClosedStatus(ticket.status)) {
+        updateData.resolvedAt = updateData.updatedAt
+        updateData.resolutionMs = updateData.updatedAt.toMillis() - ticket.createdAt.toMillis()
+      }
+    }
+
+    // Pause / resume the SLA clock around "Awaiting Client"
+    if (ticket && status === 'Awaiting Client' && !ticket.slaPausedAt) {
+      const { policy } = await loadSlaContext(ticket.companyId, ticket.category, ticket.buildingId)
+      if (policy.pauseWhileAwaitingClient) {
+        updateData.slaPausedAt = updateData.updatedAt
+        updateData.slaTimeline = arrayUnion({ type: 'paused', at: updateData.updatedAt, note: 'Awaiting client' })
+      }
+    } else if (ticket && status !== 'Awaiting Client' && ticket.slaPausedAt) {
+      const { calendar } = await loadSlaContext(ticket.companyId, ticket.category, ticket.buildingId)
+      const pausedMs = slaTimeBetween(ticket.slaPausedAt.toMillis(), updateData.updatedAt.toMillis(), calendar)
+      updateData.slaBreachAt = Timestamp.fromMillis(addSlaTime(ticket.slaBreachAt.toMillis(), pausedMs, calendar))
+      updateData.slaPausedMs = (ticket.slaPausedMs || 0) + pausedMs
+      updateData.slaPausedAt = null
+      updateData.slaTimeline = arrayUnion({
+        type: 'resumed',
+        at: updateData.updatedAt,
+        note: `Deadline extended by ${Math.round(pausedMs / 60000)} min of paused SLA time`
+      })
+    }
+
+    const batch = writeBatch(db)
+    batch.update(docRef, updateData)
+    appendTicketEvents(batch, ticketId, actor, updateData.updatedAt, events)
+    await batch.commit()
+    await queueSheetSync(ticketId, 'status')
+  },
+
+  /**
+   * Changes priority, category and/or assignee; priority and category changes re-run the
+   * SLA deadline from the current clock start
+   */
+  async updateTicketDetails(
+    ticketId: string,
+    changes: Partial<Pick<Ticket, 'priority' | 'category' | 'assigneeId' | 'assigneeName'>>,
+    actor: TicketActor
+  ): Promise<void> {
+    const ticket = await ticketService.getTicketById(ticketId)
+    if (!ticket) throw new Error('Ticket not found')
+
+    const now = Timestamp.now()
+    const updateData: any = { updatedAt: now }
+    const events: Pick<TicketEvent, 'type' | 'from' | 'to' | 'reason'>[] = []
+    if (changes.priority && changes.priority !== ticket.priority) {
+      updateData.priority = changes.priority
+      events.push({ type: 'priority', from: ticket.priority, to: changes.priority })
+    }
+    if (changes.category !== undefined && changes.category !== (ticket.category || '')) {
+      updateData.category = changes.category
+      events.push({ type: 'category', from: ticket.category || null, to: changes.category })
+    }
+    if (changes.assigneeId && changes.assigneeId !== ticket.assigneeId) {
+      updateData.assigneeId = changes.assigneeId
+      updateData.assigneeName = changes.assigneeName || ''
+      events.push({ type: 'assignee', from: ticket.assigneeName || null, to: changes.assigneeName || '' })
+    }
+    if (events.length === 0) return
+
+    if ((updateData.priority || updateData.category !== undefined) && !isClosedStatus(ticket.status)) {
+      const priority: TicketPriority = updateData.priority || ticket.priority
+      const category: string = updateData.category ?? ticket.category
+      const { policy, calendar } = await loadSlaContext(ticket.companyId, category, ticket.buildingId)
+      const clockStart = (ticket.slaClockStartAt || ticket.createdAt).toMillis()
+      const base = computeSlaBreachAt(clockStart, priority, policy, calendar)
+      updateData.slaBreachAt = Timestamp.fromMillis(addSlaTime(base, ticket.slaPausedMs || 0, calendar))
+      updateData.slaPolicyId = policy.id
+    }
+    Object.assign(updateData, firstResponseUpdate(ticket, actor, now))
+
+    const batch = writeBatch(db)
+    batch.update(doc(db, TICKETS_COLLECTION, ticketId), updateData)
+    appendTicketEvents(batch, ticketId, actor, now, events)
+    await batch.commit()
+    await queueSheetSync(ticketId, 'details')
+  },
+
+  /**
+   * Client-initiated reopen of a resolved/closed ticket: back to Open with a fresh SLA clock
+   */
+  async reopenTicket(ticketId: string, reason: string, actor: TicketActor): Promise<void> {
+    const ticket = await ticketService.getTicketById(ticketId)
+    if (!ticket) throw new Error('Ticket not found')
+    if (!isClosedStatus(ticket.status)) throw new Error('Only resolved or closed tickets can be reopened')
+    if (!reason.trim()) throw new Error('A reason is required to reopen a ticket')
+
+    const now = Timestamp.now()
+    const { policy, calendar } = await loadSlaContext(ticket.companyId, ticket.category, ticket.buildingId)
+    const batch = writeBatch(db)
+    batch.update(doc(db, TICKETS_COLLECTION, ticketId), {
+      status: 'Open',
+      updatedAt: now,
+      resolvedAt: null,
+      reopenCount: (ticket.reopenCount || 0) + 1,
+      lastReopenedAt: now,
+      slaClockStartAt: now,
+      slaBreachAt: Timestamp.fromMillis(computeSlaBreachAt(now.toMillis(), ticket.priority, policy, calendar)),
+      slaPolicyId: policy.id,
+      slaPausedAt: null,
+      slaPausedMs: 0,
+      slaBreachedAt: null,
+      escalationLevel: 0
+    })
+    appendTicketEvents(batch, ticketId, actor, now, [
+      { type: 'reopened', from: ticket.status, to: 'Open', reason: reason.trim() }
+    ])
+    batch.set(doc(collection(db, COMMENTS_COLLECTION)), {
+      ticketId,
+      userId: actor.id,
+      userName: actor.name,
+      userRole: actor.role || null,
+      text: `REOPENED: ${reason.trim()}`,
+      photos: [],
+      timestamp: now
+    })
+    await batch.commit()
+    await queueSheetSync(ticketId, 'reopened')
+  },
+
+  /**
+   * Stores the reporter's rating for the ticket's current resolution, on the ticket, in
+   * ticket_csat (per assignee/building trends) and in the event history
+   */
+  async recordCsat(
+    ticket: Ticket,
+    rating: number,
+    comment: string,
+    lowScoreAction: TicketCsatResponse['lowScoreAction'] = null
+  ): Promise<void> {
+    const now = Timestamp.now()
+    const resolvedAtMs = ticket.resolvedAt?.toMillis() ?? 0
+    await ticketCsatService.create({
+      ticketId: ticket.id,
+      rating,
+      comment,
+      assigneeId: ticket.assigneeId,
+      assigneeName: ticket.assigneeName,
+      companyId: ticket.companyId,
+      companyName: ticket.companyName,
+      buildingId: ticket.buildingId,
+      buildingName: ticket.buildingName,
+      category: ticket.category,
+      resolvedAtMs,
+      lowScoreAction
+    }, now)
+
+    const batch = writeBatch(db)
+    batch.update(doc(db, TICKETS_COLLECTION, ticket.id), {
+      csat: { rating, comment, resolvedAtMs, submittedAt: now, lowScoreAction },
+      updatedAt: now
+    })
+    appendTicketEvents(batch, ticket.id, { id: ticket.creatorId, name: ticket.creatorName, role: 'Client' }, now, [
+      { type: 'csat', to: `${rating}/5`, reason: comment || undefined }
+    ])
+    await batch.commit()
+  },
+
+  async getTicketEvents(ticketId: string): Promise<TicketEvent[]> {
+    const q = query(collection(db, EVENTS_COLLECTION), where('ticketId', '==', ticketId), orderBy('timestamp', 'asc'))
+    const snap = await getDocs(q)
+    return snap.docs.map(d => ({ id: d.id, ...d.data() } as TicketEvent))
+  },
+
+  /**
+   * Tickets the escalation engine still has to watch
+   */
+  async getOpenTickets(): Promise<Ticket[]> {
+    const q = query(collection(db, TICKETS_COLLECTION), where('status', 'in', ['Open', 'In Progress', 'Awaiting Client']))
+    const snap = await getDocs(q)
+    return snap.docs.map(d => ({ id: d.id, ...d.data() } as Ticket))
+  },
+
+  async recordSlaEvents(ticketId: string, events: TicketSlaEvent[], updates: Partial<Pick<Ticket, 'escalationLevel' | 'slaBreachedAt'>>): Promise<void> {
+    if (events.length === 0) return
+    await updateDoc(doc(db, TICKETS_COLLECTION, ticketId), {
+      ...updates,
+      slaTimeline: arrayUnion(...events),
+      updatedAt: Timestamp.now()
+    })
   },
 
   async addTicketComment(ticketId: string, userId: string, userName: string, text: string, photos: string[] = [], userRole?: string): Promise<string> {
@@ -114,10 +496,13 @@ export const ticketService = {
       timestamp: now
     })
 
-    // Update ticket timestamp
+    // Update ticket timestamp (and the first-response metric on the first staff reply)
+    const ticket = await ticketService.getTicketById(ticketId)
     await updateDoc(doc(db, TICKETS_COLLECTION, ticketId), {
-      updatedAt: now
+      updatedAt: now,
+      ...(ticket && firstResponseUpdate(ticket, { id: userId, name: userName, role: userRole }, now))
     })
+    await queueSheetSync(ticketId, 'comment')
 
     return docRef.id
   },
@@ -144,6 +529,16 @@ export const ticketService = {
     return snap.docs.map(d => ({ id: d.id, ...d.data() } as TicketComment))
   },
 
+  async getTicketsByIds(ticketIds: string[]): Promise<Ticket[]> {
+    const tickets = await Promise.all(ticketIds.map(id => ticketService.getTicketById(id)))
+    return tickets.filter((t): t is Ticket => !!t)
+  },
+
+  async recordSheetSync(ticketId: string, pushed: PushedSheetValues): Promise<void> {
+    // Deliberately leaves updatedAt alone: syncing isn't a change to the ticket
+    await updateDoc(doc(db, TICKETS_COLLECTION, ticketId), { sheetSync: { pushed, syncedAt: Timestamp.now() } })
+  },
+
   async getTicketById(ticketId: string): Promise<Ticket | null> {
     const docRef = doc(db, TICKETS_COLLECTION, ticketId)
     const snap = await getDoc(docRef)
@@ -26,6 +26,7 @@ export interface User {
   companyIds: string[];
   buildingIds: string[];  // NEW
   cafeteriaIds: string[]; // NEW
+  skillTags?: string[];  // ticket categories this person can handle (used by ticket routing)
   officeLocation?: {
     address: string;
     latitude: number;
@@ -0,0 +1,62 @@
+import { google } from "googleapis"
+import { InMemorySheetBackend, SHEET_RANGE, type SheetBackend } from "@/lib/ticket-sheet-sync"
+
+// Shared across requests in one server process so offline runs keep their rows
+let memoryBackend: InMemorySheetBackend | null = null
+
+/**
+ * The ticket sheet backend for this deployment: Google Sheets when the service account is
+ * configured, the in-memory sheet when TICKET_SHEET_BACKEND=memory, otherwise null.
+ */
+export function createSheetBackend(): SheetBackend | null {
+  if (process.env.TICKET_SHEET_BACKEND === "memory") {
+    memoryBackend = memoryBackend || new InMemorySheetBackend()
+    return memoryBackend
+  }
+
+  const credentialsEmail = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL
+  const privateKey = process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, "\n")
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID
+  if (!credentialsEmail || !privateKey || !spreadsheetId) return null
+
+  const auth = new google.auth.GoogleAuth({
+    credentials: {
+      client_email: credentialsEmail,
+      private_key: privateKey,
+    },
+    scopes: ["https://www.googleapis.com/auth/spreadsheets"],
+  })
+  const sheets = google.sheets({ version: "v4", auth })
+  // Optional tab name; without it Sheets uses the first tab, like the original export
+  const tab = process.env.GOOGLE_SHEET_TAB ? `'${process.env.GOOGLE_SHEET_TAB}'!` : ""
+
+  return {
+    async readRows() {
+      const res = await sheets.spreadsheets.values.get({ spreadsheetId, range: `${tab}${SHEET_RANGE}` })
+      return (res.data.values || []).map((row) => row.map((cell) => String(cell ?? "")))
+    },
+
+    async updateRows(updates) {
+      await sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          valueInputOption: "RAW",
+          data: updates.map(({ rowNumber, values }) => ({
+            range: `${tab}A${rowNumber}`,
+            values: [values],
+          })),
+        },
+      })
+    },
+
+    async appendRows(rows) {
+      await sheets.spreadsheets.values.append({
+        spreadsheetId,
+        range: `${tab}A1`,
+        valueInputOption: "RAW",
+        insertDataOption: "INSERT_ROWS",
+        requestBody: { values: rows },
+      })
+    },
+  }
+}
@@ -0,0 +1,123 @@
+import type { Invoice, Vendor } from "@/lib/firestore"
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+export async function generateInvoicePdf(invoice: Invoice | Omit<Invoice, "id">, vendor?: Vendor) {
+  const { jsPDF } = await import("jspdf")
+
+  const pdf = new jsPDF({ orientation: "p", unit: "mm", format: "a4", compress: true })
+  const pageW = pdf.internal.pageSize.getWidth()
+  const pageH = pdf.internal.pageSize.getHeight()
+  const margin = 14
+
+  // Header band
+  pdf.setFillColor(245, 247, 250)
+  pdf.rect(0, 0, pageW, 34, "F")
+  pdf.setTextColor(15, 23, 42)
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(16)
+  pdf.text(invoice.status === "draft" ? "DRAFT TAX INVOICE" : "TAX INVOICE", margin, 16)
+  pdf.setFont("helvetica", "normal")
+  pdf.setFontSize(10)
+  pdf.setTextColor(71, 85, 105)
+  pdf.text(`${invoice.invoiceNumber}  |  Billing month: ${invoice.month}`, margin, 26)
+
+  // Parties
+  let y = 46
+  pdf.setTextColor(15, 23, 42)
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(10)
+  pdf.text("From", margin, y)
+  pdf.text("Bill To", pageW / 2, y)
+  pdf.setFont("helvetica", "normal")
+  pdf.setFontSize(9)
+
+  const fromLines = [
+    invoice.vendorName,
+    vendor?.address || "",
+    invoice.vendorGstNumber ? `GSTIN: ${invoice.vendorGstNumber}` : "Unregistered under GST",
+  ].filter(Boolean)
+  const toLines = [invoice.companyName, invoice.buildingName, `Contract: ${invoice.contractNumber}`]
+
+  fromLines.forEach((line, i) => {
+    pdf.text(pdf.splitTextToSize(line, pageW / 2 - margin - 4)[0], margin, y + 6 + i * 5)
+  })
+  toLines.forEach((line, i) => pdf.text(line, pageW / 2, y + 6 + i * 5))
+
+  // Line items table
+  y += 30
+  const cols = [
+    { label: "Service", x: margin },
+    { label: "Days", x: 100, align: "right" as const },
+    { label: "Portions", x: 125, align: "right" as const },
+    { label: "Rate", x: 155, align: "right" as const },
+    { label: "Amount", x: pageW - margin, align: "right" as const },
+  ]
+
+  pdf.setFillColor(226, 232, 240)
+  pdf.rect(margin, y - 5, pageW - margin * 2, 8, "F")
+  pdf.setFont("helvetica", "bold")
+  cols.forEach((col) => pdf.text(col.label, col.x, y, { align: col.align }))
+  pdf.setFont("helvetica", "normal")
+  y += 8
+
+  invoice.lines.forEach((line) => {
+    if (y > pageH - 60) {
+      pdf.addPage()
+      y = 20
+    }
+    pdf.text(`${line.serviceName} - ${line.subServiceName}`, margin, y)
+    pdf.text(String(line.servedDays), cols[1].x, y, { align: "right" })
+    pdf.text(String(line.portions), cols[2].x, y, { align: "right" })
+    pdf.text(formatAmount(line.rate), cols[3].x, y, { align: "right" })
+    pdf.text(formatAmount(line.amount), cols[4].x, y, { align: "right" })
+    y += 6
+  })
+
+  // Totals
+  y += 4
+  pdf.setDrawColor(226, 232, 240)
+  pdf.line(margin, y, pageW - margin, y)
+  y += 7
+
+  const totals: [string, number][] = [["Subtotal", invoice.subtotal]]
+  if (invoice.taxRate > 0) {
+    if (invoice.interState) {
+      totals.push([`IGST @ ${invoice.taxRate}%`, invoice.igst])
+    } else {
+      totals.push([`CGST @ ${invoice.taxRate / 2}%`, invoice.cgst])
+      totals.push([`SGST @ ${invoice.taxRate / 2}%`, invoice.sgst])
+    }
+  }
+  totals.forEach(([label, value]) => {
+    pdf.text(label, cols[3].x, y, { align: "right" })
+    pdf.text(formatAmount(value), cols[4].x, y, { align: "right" })
+    y += 6
+  })
+  pdf.setFont("helvetica", "bold")
+  pdf.text("Total (INR)", cols[3].x, y, { align: "right" })
+  pdf.text(formatAmount(invoice.total), cols[4].x, y, { align: "right" })
+  pdf.setFont("helvetica", "normal")
+
+  if (invoice.skippedHolidays.length > 0) {
+    y += 12
+    pdf.setFontSize(8)
+    pdf.setTextColor(100, 116, 139)
+    pdf.text(`Not billed (holidays): ${invoice.skippedHolidays.join(", ")}`, margin, y, {
+      maxWidth: pageW - margin * 2,
+    })
+  }
+
+  if (vendor?.bankDetails?.accountNumber) {
+    pdf.setFontSize(8)
+    pdf.setTextColor(71, 85, 105)
+    pdf.text(
+      `Bank: ${vendor.bankDetails.bankName}  |  A/C: ${vendor.bankDetails.accountNumber}  |  IFSC: ${vendor.bankDetails.ifscCode}`,
+      margin,
+      pageH - 14,
+    )
+  }
+
+  pdf.save(`${invoice.invoiceNumber}.pdf`)
+}
@@ -0,0 +1,97 @@
+/**
+ * Company Menu Approval Workflow
+ *
+ * draft → submitted → client-approved → published
+ *
+ * The vendor submits a building's week for review; the client (company_user) either approves it
+ * or sends it back with "changes-requested". Once approved the menu is locked until the vendor
+ * publishes it and, later, opens a new updation cycle (which puts it back into draft).
+ *
+ * `approvalStatus` is tracked separately from `status` ("draft" / "active"): an active menu can
+ * still be awaiting the client, so anything that needs the menu actually being served (purchasing,
+ * feedback, client-facing views) must check `isMenuServed`. New company menus start in "draft".
+ * Menus created before the workflow existed have no `approvalStatus`; they are shown as published
+ * but stay editable until they enter the workflow.
+ */
+import type { CompanyMenu } from "@/lib/types"
+
+export type MenuApprovalStatus = "draft" | "submitted" | "changes-requested" | "client-approved" | "published"
+
+export type ApprovalActor = "vendor" | "client"
+
+export const APPROVAL_STATUS_LABELS: Record<MenuApprovalStatus, string> = {
+  draft: "Draft",
+  submitted: "Awaiting Client",
+  "changes-requested": "Changes Requested",
+  "client-approved": "Client Approved",
+  published: "Published",
+}
+
+export const APPROVAL_STATUS_COLORS: Record<MenuApprovalStatus, string> = {
+  draft: "bg-gray-100 text-gray-700 border-gray-200",
+  submitted: "bg-blue-100 text-blue-700 border-blue-200",
+  "changes-requested": "bg-amber-100 text-amber-700 border-amber-200",
+  "client-approved": "bg-emerald-100 text-emerald-700 border-emerald-200",
+  published: "bg-indigo-100 text-indigo-700 border-indigo-200",
+}
+
+// Who may move a menu from one status to the next
+const TRANSITIONS: Record<MenuApprovalStatus, Partial<Record<MenuApprovalStatus, ApprovalActor>>> = {
+  draft: { submitted: "vendor" },
+  "changes-requested": { submitted: "vendor" },
+  submitted: { "client-approved": "client", "changes-requested": "client", draft: "vendor" },
+  "client-approved": { published: "vendor", draft: "vendor" },
+  published: { draft: "vendor" },
+}
+
+export const TRANSITION_LABELS: Partial<Record<MenuApprovalStatus, string>> = {
+  submitted: "Submit for Approval",
+  "client-approved": "Approve",
+  "changes-requested": "Request Changes",
+  published: "Publish",
+}
+
+export function getApprovalStatus(menu: Pick<CompanyMenu, "approvalStatus"> | null | undefined): MenuApprovalStatus {
+  return menu?.approvalStatus || "published"
+}
+
+export function getApprovalActor(userType: string | null | undefined): ApprovalActor {
+  return userType === "company_user" ? "client" : "vendor"
+}
+
+export function canTransition(from: MenuApprovalStatus, to: MenuApprovalStatus, actor: ApprovalActor): boolean {
+  return TRANSITIONS[from]?.[to] === actor
+}
+
+export function getAvailableTransitions(from: MenuApprovalStatus, actor: ApprovalActor): MenuApprovalStatus[] {
+  return (Object.keys(TRANSITIONS[from] || {}) as MenuApprovalStatus[]).filter((to) => TRANSITIONS[from][to] === actor)
+}
+
+/**
+ * Moving an approved or published menu back to draft starts a new updation cycle
+ */
+export function opensNewCycle(from: MenuApprovalStatus, to: MenuApprovalStatus): boolean {
+  return to === "draft" && (from === "client-approved" || from === "published")
+}
+
+/**
+ * Approved and published menus can't be edited until a new updation cycle is opened
+ */
+export function isMenuLocked(menu: Pick<CompanyMenu, "approvalStatus"> | null | undefined): boolean {
+  return menu?.approvalStatus === "client-approved" || menu?.approvalStatus === "published"
+}
+
+/**
+ * Active and signed off by the client; drafts and menus under review aren't served yet
+ */
+export function isMenuServed(menu: Pick<CompanyMenu, "status" | "approvalStatus">): boolean {
+  const approval = getApprovalStatus(menu)
+  return menu.status === "active" && (approval === "client-approved" || approval === "published")
+}
+
+/**
+ * Comment key for a cell of the company view (sub-services are merged there)
+ */
+export function getCommentCellKey(date: string, serviceId: string, mealPlanId: string, subMealPlanId: string): string {
+  return `${date}|${serviceId}|${mealPlanId}|${subMealPlanId}`
+}
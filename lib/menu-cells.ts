@@ -0,0 +1,55 @@
+import type { MenuCellData, MenuGridData } from "@/lib/types"
+
+export interface MenuCellRef {
+  date: string
+  serviceId: string
+  subServiceId: string
+  mealPlanId: string
+  subMealPlanId: string
+}
+
+/**
+ * Builds the pipe-delimited cell key used by live drafts and presence
+ * (date|serviceId|subServiceId|mealPlanId|subMealPlanId)
+ */
+export function getCellKey(ref: MenuCellRef): string {
+  return `${ref.date}|${ref.serviceId}|${ref.subServiceId || ""}|${ref.mealPlanId}|${ref.subMealPlanId}`
+}
+
+export function parseCellKey(key: string): MenuCellRef {
+  const [date, serviceId, subServiceId, mealPlanId, subMealPlanId] = key.split("|")
+  return { date, serviceId, subServiceId, mealPlanId, subMealPlanId }
+}
+
+/**
+ * Walks every date -> service -> subService -> mealPlan -> subMealPlan cell of a menu
+ */
+export function forEachMenuCell(
+  menuData: MenuGridData | undefined | null,
+  callback: (ref: MenuCellRef, cell: MenuCellData) => void,
+): void {
+  Object.entries(menuData || {}).forEach(([date, dateData]) => {
+    Object.entries(dateData || {}).forEach(([serviceId, serviceData]) => {
+      Object.entries(serviceData || {}).forEach(([subServiceId, subServiceData]) => {
+        Object.entries(subServiceData || {}).forEach(([mealPlanId, mealPlanData]) => {
+          Object.entries(mealPlanData || {}).forEach(([subMealPlanId, cell]) => {
+            if (!cell || !Array.isArray(cell.menuItemIds)) return
+            callback({ date, serviceId, subServiceId, mealPlanId, subMealPlanId }, cell)
+          })
+        })
+      })
+    })
+  })
+}
+
+export function getMenuCell(menuData: MenuGridData | undefined | null, ref: MenuCellRef): MenuCellData | undefined {
+  return menuData?.[ref.date]?.[ref.serviceId]?.[ref.subServiceId]?.[ref.mealPlanId]?.[ref.subMealPlanId]
+}
+
+/**
+ * Returns the lowercase weekday ("monday" ... "sunday") for a YYYY-MM-DD date
+ */
+export function getDayKey(date: string): string {
+  const days = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+  return days[new Date(`${date}T00:00:00`).getDay()]
+}
@@ -0,0 +1,352 @@
+/**
+ * Menu Constraint Engine
+ *
+ * One deterministic validator for a menu grid, shared by the menu editor and the AI
+ * suggestion route. It checks:
+ * - frequency: sub-meal plan served on more days per week than its structure's maxFrequency
+ * - cell rules: item aiTags outside a planning rule's allowed colors / cuisines / ingredients /
+ *   flavor profiles / heavy-light for that weekday and cell
+ * - day rules: grandRules and globalDayRule text that maps to a known check
+ *   (e.g. "No repeated main ingredients in a day"); other rule text is reported as unchecked
+ * - cooldowns: the same item served again within N days in the same service / sub-service
+ *
+ * Items without aiTags can't be checked against tag rules; they are listed in
+ * `untaggedItemIds` instead of being reported as violations.
+ */
+import type { MenuGridData, MenuItem, MenuPlanningRule } from "@/lib/types"
+import type { MealPlanStructureAssignment } from "@/lib/services"
+import { forEachMenuCell, getDayKey } from "@/lib/menu-cells"
+
+export type ConstraintKind = "frequency" | "cell-rule" | "day-rule" | "cooldown"
+
+export interface ConstraintViolation {
+  kind: ConstraintKind
+  severity: "error" | "warning"
+  message: string
+  date: string
+  serviceId: string
+  subServiceId?: string
+  mealPlanId?: string
+  subMealPlanId?: string
+  itemIds: string[]
+  rule?: string
+}
+
+export interface ConstraintReport {
+  violations: ConstraintViolation[]
+  counts: Record<ConstraintKind, number>
+  uncheckedRules: string[]
+  untaggedItemIds: string[]
+}
+
+export type ConstraintItem = Pick<MenuItem, "id" | "name" | "aiTags" | "isVegetarian" | "isVegan">
+
+export interface ConstraintInput {
+  menuData: MenuGridData
+  menuItems: Map<string, ConstraintItem>
+  // Merged planning rules, at most one per service / sub-service
+  rules?: MenuPlanningRule[]
+  // serviceId|subServiceId|mealPlanId|subMealPlanId -> max days per week (see getFrequencyLimits)
+  frequencyLimits?: Record<string, number>
+  // Served before the menu starts; only used to look back for cooldowns
+  historyMenuData?: MenuGridData
+  // Per-item cooldowns; override the rule's cooldownDays
+  itemCooldowns?: Record<string, number>
+  // Sub-meal plans allowed to repeat (isRepeatPlan) are exempt from cooldowns
+  repeatSubMealPlanIds?: Set<string>
+  // Only validate this service / sub-service
+  scope?: { serviceId: string; subServiceId: string }
+}
+
+export type DayRuleCheck =
+  | { type: "unique"; attribute: "primaryIngredient" | "color" | "cuisine" | "flavorProfile" | "item" }
+  | { type: "requireVegetarian" }
+  | { type: "maxHeavy"; max: number }
+
+const ATTRIBUTE_LABELS: Record<string, string> = {
+  primaryIngredient: "primary ingredient",
+  color: "color",
+  cuisine: "cuisine",
+  flavorProfile: "flavor profile",
+  item: "item",
+}
+
+/**
+ * Maps free-text day rules to a deterministic check; null when the text isn't understood
+ */
+export function parseDayRule(text: string): DayRuleCheck | null {
+  const t = (text || "").toLowerCase()
+  if (!t.trim()) return null
+
+  const heavy = t.match(/(?:max(?:imum)?|at most|no more than|up to)\s+(\d+)\s+heavy/)
+  if (heavy) return { type: "maxHeavy", max: Number(heavy[1]) }
+  if (/\bno heavy\b/.test(t)) return { type: "maxHeavy", max: 0 }
+
+  if (/\b(at least|always|must|includes?|one)\b.*\b(veg|vegetarian|veggie)\b/.test(t) && !/non[- ]?veg/.test(t)) {
+    return { type: "requireVegetarian" }
+  }
+
+  const wantsUnique =
+    /\b(no|avoid|never|without|don'?t)\b.*\b(repeat|repeated|repeating|repetition|duplicate|duplicated|same)\b/.test(t) ||
+    /\b(unique|different|distinct)\b/.test(t)
+  if (!wantsUnique) return null
+  if (/ingredient/.test(t)) return { type: "unique", attribute: "primaryIngredient" }
+  if (/colou?r/.test(t)) return { type: "unique", attribute: "color" }
+  if (/cuisine/.test(t)) return { type: "unique", attribute: "cuisine" }
+  if (/flavou?r/.test(t)) return { type: "unique", attribute: "flavorProfile" }
+  if (/\b(item|dish|dishes|items)\b/.test(t)) return { type: "unique", attribute: "item" }
+  return null
+}
+
+/**
+ * Strictest maxFrequency per structure cell across the given (active) assignments
+ */
+export function getFrequencyLimits(assignments: MealPlanStructureAssignment[]): Record<string, number> {
+  const limits: Record<string, number> = {}
+  assignments
+    .filter((assignment) => !assignment.status || assignment.status === "active")
+    .forEach((assignment) => {
+      Object.values(assignment.weekStructure || {}).forEach((day) => {
+        ;(day || []).forEach((service) => {
+          ;(service.subServices || []).forEach((subService) => {
+            ;(subService.mealPlans || []).forEach((mealPlan) => {
+              ;(mealPlan.subMealPlans || []).forEach((smp) => {
+                if (smp.maxFrequency === undefined || smp.maxFrequency === null) return
+                const key = `${service.serviceId}|${subService.subServiceId}|${mealPlan.mealPlanId}|${smp.subMealPlanId}`
+                limits[key] = Math.min(limits[key] ?? Infinity, smp.maxFrequency)
+              })
+            })
+          })
+        })
+      })
+    })
+  return limits
+}
+
+export type CellRule = MenuPlanningRule["dayRules"][string]["cellRules"][string]
+
+export interface CellRuleCheck {
+  label: string
+  allowed: string[]
+  tag: keyof NonNullable<ConstraintItem["aiTags"]>
+}
+
+/**
+ * The tag restrictions a cell rule actually sets (empty allowed-lists are skipped)
+ */
+export function getCellRuleChecks(cellRule: CellRule): CellRuleCheck[] {
+  const checks: Array<{ label: string; allowed?: string[]; tag: CellRuleCheck["tag"] }> = [
+    { label: "color", allowed: cellRule.allowedColors, tag: "color" },
+    { label: "cuisine", allowed: cellRule.allowedCuisines, tag: "cuisine" },
+    { label: "ingredient", allowed: cellRule.allowedIngredients, tag: "primaryIngredient" },
+    { label: "flavor", allowed: cellRule.allowedFlavorProfiles, tag: "flavorProfile" },
+    { label: "heavy/light", allowed: cellRule.heavyLight ? [cellRule.heavyLight] : undefined, tag: "heavyLight" },
+  ]
+  return checks.filter((check): check is CellRuleCheck => !!check.allowed?.length)
+}
+
+export const normalize = (value: string | undefined) => (value || "").trim().toLowerCase()
+
+const daysBetween = (a: string, b: string) =>
+  Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / 86400000)
+
+function emptyReport(): ConstraintReport {
+  return {
+    violations: [],
+    counts: { frequency: 0, "cell-rule": 0, "day-rule": 0, cooldown: 0 },
+    uncheckedRules: [],
+    untaggedItemIds: [],
+  }
+}
+
+/**
+ * Validates a menu against every configured constraint. Violations are sorted by date.
+ */
+export function validateMenu(input: ConstraintInput): ConstraintReport {
+  const { menuData, menuItems, rules = [], frequencyLimits = {}, itemCooldowns = {}, scope } = input
+  const repeatPlans = input.repeatSubMealPlanIds || new Set<string>()
+  const report = emptyReport()
+  const untagged = new Set<string>()
+  const unchecked = new Set<string>()
+  const rulesByScope = new Map(rules.map((rule) => [`${rule.serviceId}|${rule.subServiceId}`, rule]))
+  const inScope = (serviceId: string, subServiceId: string) =>
+    !scope || (scope.serviceId === serviceId && scope.subServiceId === subServiceId)
+  const itemName = (id: string) => menuItems.get(id)?.name || id
+  const push = (violation: ConstraintViolation) => report.violations.push(violation)
+
+  const dates = Object.keys(menuData || {}).sort()
+  const firstDate = dates[0]
+
+  // Group the filled cells once: per scope+date for day rules, per structure cell for frequency
+  const dayGroups = new Map<string, { date: string; serviceId: string; subServiceId: string; itemIds: string[] }>()
+  const filledDaysByCell = new Map<string, string[]>()
+
+  forEachMenuCell(menuData, (ref, cell) => {
+    if (!inScope(ref.serviceId, ref.subServiceId) || cell.menuItemIds.length === 0) return
+    const { date, serviceId, subServiceId, mealPlanId, subMealPlanId } = ref
+
+    const groupKey = `${serviceId}|${subServiceId}|${date}`
+    if (!dayGroups.has(groupKey)) dayGroups.set(groupKey, { date, serviceId, subServiceId, itemIds: [] })
+    dayGroups.get(groupKey)!.itemIds.push(...cell.menuItemIds)
+
+    const structureKey = `${serviceId}|${subServiceId}|${mealPlanId}|${subMealPlanId}`
+    if (!filledDaysByCell.has(structureKey)) filledDaysByCell.set(structureKey, [])
+    filledDaysByCell.get(structureKey)!.push(date)
+
+    // Cell rules
+    const cellRule = rulesByScope.get(`${serviceId}|${subServiceId}`)?.dayRules?.[getDayKey(date)]?.cellRules?.[
+      `${mealPlanId}|${subMealPlanId}`
+    ]
+    if (!cellRule) return
+    const checks = getCellRuleChecks(cellRule)
+    cell.menuItemIds.forEach((itemId) => {
+      const tags = menuItems.get(itemId)?.aiTags
+      checks.forEach(({ label, allowed, tag }) => {
+        const value = tags?.[tag] as string | undefined
+        if (!value) {
+          untagged.add(itemId)
+          return
+        }
+        if (allowed.some((a) => normalize(a) === normalize(value))) return
+        push({
+          kind: "cell-rule",
+          severity: "error",
+          message: `${itemName(itemId)} has ${label} "${value}" (allowed: ${allowed.join(", ")})`,
+          date,
+          serviceId,
+          subServiceId,
+          mealPlanId,
+          subMealPlanId,
+          itemIds: [itemId],
+        })
+      })
+    })
+  })
+
+  // Frequency: days per week (counted from the menu's first date) a structure cell is filled
+  filledDaysByCell.forEach((cellDates, structureKey) => {
+    const max = frequencyLimits[structureKey]
+    if (max === undefined || !firstDate) return
+    const byWeek = new Map<number, string[]>()
+    Array.from(new Set(cellDates)).forEach((date) => {
+      const week = Math.floor(daysBetween(firstDate, date) / 7)
+      byWeek.set(week, [...(byWeek.get(week) || []), date])
+    })
+    const [serviceId, subServiceId, mealPlanId, subMealPlanId] = structureKey.split("|")
+    byWeek.forEach((weekDates) => {
+      if (weekDates.length <= max) return
+      weekDates.sort()
+      push({
+        kind: "frequency",
+        severity: "error",
+        message: `Served on ${weekDates.length} days this week (max ${max})`,
+        date: weekDates[max],
+        serviceId,
+        subServiceId,
+        mealPlanId,
+        subMealPlanId,
+        itemIds: [],
+      })
+    })
+  })
+
+  // Day rules: grandRules apply every day, globalDayRule only on its weekday
+  dayGroups.forEach(({ date, serviceId, subServiceId, itemIds }) => {
+    const rule = rulesByScope.get(`${serviceId}|${subServiceId}`)
+    if (!rule) return
+    const texts = [...(rule.grandRules || []), rule.dayRules?.[getDayKey(date)]?.globalDayRule || ""].filter((t) => t.trim())
+
+    texts.forEach((text) => {
+      const check = parseDayRule(text)
+      if (!check) {
+        unchecked.add(text)
+        return
+      }
+      const base = { kind: "day-rule" as const, date, serviceId, subServiceId, rule: text }
+
+      if (check.type === "requireVegetarian") {
+        if (itemIds.some((id) => menuItems.get(id)?.isVegetarian || menuItems.get(id)?.isVegan)) return
+        push({ ...base, severity: "error", message: "No vegetarian option on this day", itemIds: [] })
+        return
+      }
+
+      if (check.type === "maxHeavy") {
+        const heavyIds = itemIds.filter((id) => normalize(menuItems.get(id)?.aiTags?.heavyLight) === "heavy")
+        if (heavyIds.length <= check.max) return
+        push({ ...base, severity: "error", message: `${heavyIds.length} heavy items (max ${check.max})`, itemIds: heavyIds })
+        return
+      }
+
+      if (check.attribute === "item") {
+        // Same item in two cells of the day
+        const counts = new Map<string, number>()
+        itemIds.forEach((id) => counts.set(id, (counts.get(id) || 0) + 1))
+        counts.forEach((count, id) => {
+          if (count > 1) push({ ...base, severity: "error", message: `${itemName(id)} appears ${count} times`, itemIds: [id] })
+        })
+        return
+      }
+
+      const attribute = check.attribute
+      const byValue = new Map<string, string[]>()
+      Array.from(new Set(itemIds)).forEach((id) => {
+        const value = menuItems.get(id)?.aiTags?.[attribute] as string | undefined
+        if (!value) {
+          untagged.add(id)
+          return
+        }
+        const key = normalize(value)
+        byValue.set(key, [...(byValue.get(key) || []), id])
+      })
+      byValue.forEach((ids, value) => {
+        if (ids.length < 2) return
+        push({
+          ...base,
+          severity: "error",
+          message: `Repeated ${ATTRIBUTE_LABELS[attribute]} "${value}": ${ids.map(itemName).join(", ")}`,
+          itemIds: ids,
+        })
+      })
+    })
+  })
+
+  // Cooldowns: look back into history so the first days of the week are checked too
+  const servedOn = new Map<string, Set<string>>() // serviceId|subServiceId|itemId -> dates
+  const collectServed = (data: MenuGridData | undefined) =>
+    forEachMenuCell(data, (ref, cell) => {
+      if (!inScope(ref.serviceId, ref.subServiceId) || repeatPlans.has(ref.subMealPlanId)) return
+      cell.menuItemIds.forEach((itemId) => {
+        const key = `${ref.serviceId}|${ref.subServiceId}|${itemId}`
+        if (!servedOn.has(key)) servedOn.set(key, new Set())
+        servedOn.get(key)!.add(ref.date)
+      })
+    })
+  collectServed(input.historyMenuData)
+  collectServed(menuData)
+
+  servedOn.forEach((dateSet, key) => {
+    const [serviceId, subServiceId, itemId] = key.split("|")
+    const cooldown = itemCooldowns[itemId] ?? rulesByScope.get(`${serviceId}|${subServiceId}`)?.cooldownDays ?? 0
+    if (!cooldown) return
+    const served = Array.from(dateSet).sort()
+    for (let i = 1; i < served.length; i++) {
+      const gap = daysBetween(served[i - 1], served[i])
+      if (gap > cooldown || !menuData?.[served[i]]) continue
+      push({
+        kind: "cooldown",
+        severity: "warning",
+        message: `${itemName(itemId)} served again ${gap} day${gap === 1 ? "" : "s"} after ${served[i - 1]} (cooldown ${cooldown})`,
+        date: served[i],
+        serviceId,
+        subServiceId,
+        itemIds: [itemId],
+      })
+    }
+  })
+
+  report.violations.sort((a, b) => a.date.localeCompare(b.date) || a.kind.localeCompare(b.kind))
+  report.violations.forEach((v) => report.counts[v.kind]++)
+  report.uncheckedRules = Array.from(unchecked)
+  report.untaggedItemIds = Array.from(untagged)
+  return report
+}
@@ -0,0 +1,118 @@
+/**
+ * Menu Draft Operations
+ *
+ * Live edits are shared as per-cell operations instead of whole cell snapshots, so two
+ * editors changing the same cell at once both keep their changes:
+ * - an operation records the items added / removed in one cell plus the cell's other
+ *   fields (choice metadata, custom assignments) after the edit
+ * - every operation carries the sender's vector clock; ops are replayed in an order that
+ *   respects causality (sum of the clock, then client id), so all editors converge
+ * - two ops on a cell from different clients whose clocks are concurrent (neither had seen
+ *   the other) are reported as a conflict for the editors to check
+ */
+
+export type VectorClock = Record<string, number>
+
+export interface DraftCellOp {
+  opId: string
+  cellKey: string // see getCellKey
+  clientId: string
+  userName: string
+  clock: VectorClock
+  baseItemIds: string[] // cell items before the edit; the first op's base seeds the replay
+  added: string[]
+  removed: string[]
+  rest: Record<string, any> // other cell fields after the edit (last writer wins)
+  at: number
+}
+
+export type ClockOrder = "before" | "after" | "equal" | "concurrent"
+
+export function compareClocks(a: VectorClock, b: VectorClock): ClockOrder {
+  let aAhead = false
+  let bAhead = false
+  new Set([...Object.keys(a), ...Object.keys(b)]).forEach((id) => {
+    const x = a[id] || 0
+    const y = b[id] || 0
+    if (x > y) aAhead = true
+    if (y > x) bAhead = true
+  })
+  if (aAhead && bAhead) return "concurrent"
+  if (aAhead) return "after"
+  if (bAhead) return "before"
+  return "equal"
+}
+
+export function mergeClocks(a: VectorClock, b: VectorClock): VectorClock {
+  const merged = { ...a }
+  Object.entries(b).forEach(([id, n]) => {
+    merged[id] = Math.max(merged[id] || 0, n)
+  })
+  return merged
+}
+
+const clockSum = (clock: VectorClock) => Object.values(clock || {}).reduce((sum, n) => sum + n, 0)
+
+/**
+ * Deterministic replay order: if A happened before B, A's clock sum is smaller
+ */
+export function orderOps(ops: DraftCellOp[]): DraftCellOp[] {
+  return [...ops].sort(
+    (a, b) =>
+      clockSum(a.clock) - clockSum(b.clock) || a.clientId.localeCompare(b.clientId) || a.opId.localeCompare(b.opId),
+  )
+}
+
+/**
+ * Builds the operation for one cell edit; null when nothing changed
+ */
+export function createCellOp(
+  before: Record<string, any> | undefined,
+  after: Record<string, any> | undefined,
+  meta: Pick<DraftCellOp, "opId" | "cellKey" | "clientId" | "userName" | "clock" | "at">,
+): DraftCellOp | null {
+  const baseItemIds: string[] = before?.menuItemIds || []
+  const nextItemIds: string[] = after?.menuItemIds || []
+  const added = nextItemIds.filter((id) => !baseItemIds.includes(id))
+  const removed = baseItemIds.filter((id) => !nextItemIds.includes(id))
+  const { menuItemIds: _before, ...restBefore } = before || {}
+  const { menuItemIds: _after, ...restAfter } = after || {}
+  // RTDB rejects undefined values
+  const rest = JSON.parse(JSON.stringify(restAfter))
+  if (added.length === 0 && removed.length === 0 && JSON.stringify(restBefore) === JSON.stringify(rest)) return null
+  return { ...meta, baseItemIds, added, removed, rest }
+}
+
+/**
+ * Replays a cell's operations into the cell value every editor converges on
+ */
+export function mergeCellOps(ops: DraftCellOp[]): Record<string, any> | undefined {
+  const ordered = orderOps(ops)
+  if (ordered.length === 0) return undefined
+  let items = [...(ordered[0].baseItemIds || [])]
+  ordered.forEach((op) => {
+    const removed = new Set(op.removed || [])
+    items = items.filter((id) => !removed.has(id))
+    ;(op.added || []).forEach((id) => {
+      if (!items.includes(id)) items.push(id)
+    })
+  })
+  return { ...(ordered[ordered.length - 1].rest || {}), menuItemIds: items }
+}
+
+/**
+ * Names of the editors whose edits to this cell were made concurrently; empty when the
+ * cell's history is a single causal chain
+ */
+export function findCellConflict(ops: DraftCellOp[]): string[] {
+  const names = new Set<string>()
+  for (let i = 0; i < ops.length; i++) {
+    for (let j = i + 1; j < ops.length; j++) {
+      if (ops[i].clientId === ops[j].clientId) continue
+      if (compareClocks(ops[i].clock, ops[j].clock) !== "concurrent") continue
+      names.add(ops[i].userName)
+      names.add(ops[j].userName)
+    }
+  }
+  return Array.from(names)
+}
@@ -0,0 +1,269 @@
+/**
+ * Menu Auto-fill Solver
+ *
+ * Deterministic, offline alternative to the LLM menu-suggest route. Fills the empty
+ * structure cells of one service / sub-service so that every hard constraint the
+ * constraint engine checks is satisfied:
+ * - cell rules (allowed aiTags per weekday and cell)
+ * - parsed day rules (unique attribute, vegetarian option, max heavy items)
+ * - cooldowns (item override, then the rule's cooldownDays) against history and the draft
+ * - no repeat of an item in the same cell within the range (unless isRepeatPlan)
+ * - per-week maxFrequency of a structure cell
+ *
+ * Candidates for a cell are items served in that cell before plus items whose
+ * aiTags.submealCategory matches the sub-meal plan name. Candidate order is a weighted
+ * shuffle (history count as weight) driven by a seeded PRNG, so the same seed and
+ * inputs always give the same menu. Each day is solved by backtracking with a node
+ * budget; cells that can't be filled are reported in `unfilled` instead of being forced.
+ */
+import type { MenuGridData, MenuPlanningRule } from "@/lib/types"
+import { forEachMenuCell, getDayKey } from "@/lib/menu-cells"
+import { getCellRuleChecks, normalize, parseDayRule, type ConstraintItem, type DayRuleCheck } from "@/lib/menu-constraints"
+
+export type SolverItem = ConstraintItem & { category?: string; status?: string }
+
+export interface SolverCell {
+  mealPlanId: string
+  subMealPlanId: string
+}
+
+export interface SolverInput {
+  dates: string[]
+  // date -> empty cells to fill
+  cellsByDate: Record<string, SolverCell[]>
+  serviceId: string
+  subServiceId: string
+  menuItems: SolverItem[]
+  // Draft already on the grid; kept as-is and counted for every constraint
+  currentMenuData?: MenuGridData
+  historyMenuData?: MenuGridData
+  rule?: MenuPlanningRule | null
+  itemCooldowns?: Record<string, number>
+  // mealPlanId|subMealPlanId -> max filled days per week
+  frequencyLimits?: Record<string, number>
+  repeatSubMealPlanIds?: Set<string>
+  subMealPlanNames?: Map<string, string>
+  seed: number
+  maxNodesPerDay?: number
+}
+
+export interface SolverResult {
+  menuData: MenuGridData
+  unfilled: Array<SolverCell & { date: string; reason: string }>
+  seed: number
+  nodes: number
+}
+
+/**
+ * mulberry32: tiny seedable PRNG returning floats in [0, 1)
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const daysBetween = (a: string, b: string) =>
+  Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / 86400000)
+
+const isVegetarian = (item?: SolverItem) => !!(item?.isVegetarian || item?.isVegan)
+const isHeavy = (item?: SolverItem) => normalize(item?.aiTags?.heavyLight) === "heavy"
+
+export function solveMenu(input: SolverInput): SolverResult {
+  const { dates, cellsByDate, serviceId, subServiceId, rule, seed } = input
+  const maxNodesPerDay = input.maxNodesPerDay ?? 5000
+  const repeatPlans = input.repeatSubMealPlanIds || new Set<string>()
+  const itemCooldowns = input.itemCooldowns || {}
+  const frequencyLimits = input.frequencyLimits || {}
+  const rng = createRng(seed)
+  const itemsById = new Map(input.menuItems.map((item) => [item.id, item]))
+  const activeItems = input.menuItems.filter((item) => !item.status || item.status === "active")
+  const inScope = (ref: { serviceId: string; subServiceId: string }) =>
+    ref.serviceId === serviceId && ref.subServiceId === subServiceId
+
+  // History: per-cell counts for candidate weights, served dates for cooldowns
+  const historyCounts = new Map<string, Map<string, number>>() // mp|smp -> itemId -> count
+  const servedDates = new Map<string, string[]>() // itemId -> dates (repeat plans excluded)
+  const markServed = (itemId: string, date: string) => servedDates.set(itemId, [...(servedDates.get(itemId) || []), date])
+  forEachMenuCell(input.historyMenuData, (ref, cell) => {
+    if (!inScope(ref)) return
+    const cellKey = `${ref.mealPlanId}|${ref.subMealPlanId}`
+    if (!historyCounts.has(cellKey)) historyCounts.set(cellKey, new Map())
+    const counts = historyCounts.get(cellKey)!
+    cell.menuItemIds.forEach((itemId) => {
+      counts.set(itemId, (counts.get(itemId) || 0) + 1)
+      if (!repeatPlans.has(ref.subMealPlanId)) markServed(itemId, ref.date)
+    })
+  })
+
+  // Draft: what's already placed in the target range
+  const usedInCell = new Map<string, Set<string>>() // mp|smp -> itemIds in range
+  const dayItems = new Map<string, string[]>() // date -> itemIds already on that day
+  const filledDays = new Map<string, Set<string>>() // mp|smp -> filled dates
+  const useItem = (date: string, cell: SolverCell, itemId: string) => {
+    const cellKey = `${cell.mealPlanId}|${cell.subMealPlanId}`
+    if (!usedInCell.has(cellKey)) usedInCell.set(cellKey, new Set())
+    usedInCell.get(cellKey)!.add(itemId)
+    dayItems.set(date, [...(dayItems.get(date) || []), itemId])
+    if (!filledDays.has(cellKey)) filledDays.set(cellKey, new Set())
+    filledDays.get(cellKey)!.add(date)
+    if (!repeatPlans.has(cell.subMealPlanId)) markServed(itemId, date)
+  }
+  forEachMenuCell(input.currentMenuData, (ref, cell) => {
+    if (!inScope(ref) || !dates.includes(ref.date)) return
+    cell.menuItemIds.forEach((itemId) => useItem(ref.date, ref, itemId))
+  })
+
+  const dayChecks = (date: string): DayRuleCheck[] =>
+    [...(rule?.grandRules || []), rule?.dayRules?.[getDayKey(date)]?.globalDayRule || ""]
+      .map((text) => parseDayRule(text))
+      .filter((check): check is DayRuleCheck => !!check)
+
+  const candidatesFor = (date: string, cell: SolverCell): string[] => {
+    const cellKey = `${cell.mealPlanId}|${cell.subMealPlanId}`
+    const counts = historyCounts.get(cellKey) || new Map<string, number>()
+    const category = normalize(input.subMealPlanNames?.get(cell.subMealPlanId))
+    const pool = new Set<string>(Array.from(counts.keys()).filter((id) => itemsById.has(id)))
+    if (category) {
+      activeItems.forEach((item) => {
+        if (normalize(item.aiTags?.submealCategory) === category) pool.add(item.id)
+      })
+    }
+
+    const checks = getCellRuleChecks(rule?.dayRules?.[getDayKey(date)]?.cellRules?.[cellKey] || {})
+    const allowed = Array.from(pool).filter((id) => {
+      const tags = itemsById.get(id)?.aiTags
+      return checks.every(({ allowed, tag }) => {
+        const value = tags?.[tag] as string | undefined
+        return !!value && allowed.some((a) => normalize(a) === normalize(value))
+      })
+    })
+
+    // Weighted shuffle: items served often in this cell tend to come first
+    return allowed
+      .map((id) => ({ id, key: Math.pow(rng(), 1 / (1 + (counts.get(id) || 0))) }))
+      .sort((a, b) => b.key - a.key || a.id.localeCompare(b.id))
+      .map(({ id }) => id)
+  }
+
+  const violatesCooldown = (itemId: string, date: string) => {
+    const cooldown = itemCooldowns[itemId] ?? rule?.cooldownDays ?? 0
+    if (!cooldown) return false
+    return (servedDates.get(itemId) || []).some((served) => served !== date && Math.abs(daysBetween(served, date)) <= cooldown)
+  }
+
+  // Day-level checks that can be decided as soon as an item is added
+  const violatesDayRules = (checks: DayRuleCheck[], placed: string[], itemId: string) => {
+    const item = itemsById.get(itemId)
+    return checks.some((check) => {
+      if (check.type === "maxHeavy") return isHeavy(item) && placed.filter((id) => isHeavy(itemsById.get(id))).length >= check.max
+      if (check.type !== "unique") return false
+      if (check.attribute === "item") return placed.includes(itemId)
+      const attribute = check.attribute
+      const value = normalize(item?.aiTags?.[attribute] as string | undefined)
+      // Untagged items can't prove uniqueness
+      if (!value) return true
+      return placed.some((id) => normalize(itemsById.get(id)?.aiTags?.[attribute] as string | undefined) === value)
+    })
+  }
+
+  const menuData: MenuGridData = {}
+  const unfilled: SolverResult["unfilled"] = []
+  let nodes = 0
+  const weekOf = (date: string) => Math.floor(daysBetween(dates[0], date) / 7)
+
+  dates.forEach((date) => {
+    const checks = dayChecks(date)
+    const needsVeg = checks.some((check) => check.type === "requireVegetarian")
+
+    // Frequency: cells at their weekly limit stay empty
+    const cells = (cellsByDate[date] || []).filter((cell) => {
+      const cellKey = `${cell.mealPlanId}|${cell.subMealPlanId}`
+      const max = frequencyLimits[cellKey]
+      if (max === undefined) return true
+      const week = weekOf(date)
+      const filledThisWeek = Array.from(filledDays.get(cellKey) || []).filter((d) => weekOf(d) === week).length
+      if (filledThisWeek < max) {
+        // Reserve the slot so later cells of the same structure key respect the limit
+        if (!filledDays.has(cellKey)) filledDays.set(cellKey, new Set())
+        filledDays.get(cellKey)!.add(date)
+        return true
+      }
+      unfilled.push({ date, ...cell, reason: `Frequency limit reached (${max} per week)` })
+      return false
+    })
+
+    const candidates = cells.map((cell) => {
+      const cellKey = `${cell.mealPlanId}|${cell.subMealPlanId}`
+      const repeatAllowed = repeatPlans.has(cell.subMealPlanId)
+      return candidatesFor(date, cell).filter(
+        (id) => repeatAllowed || (!usedInCell.get(cellKey)?.has(id) && !violatesCooldown(id, date)),
+      )
+    })
+
+    // Most constrained cells first
+    const order = cells.map((_, i) => i).sort((a, b) => candidates[a].length - candidates[b].length)
+    const assignment: Array<string | null> = cells.map(() => null)
+    const existing = dayItems.get(date) || []
+    let dayNodes = 0
+
+    const search = (depth: number, placed: string[]): boolean => {
+      if (depth === order.length) return !needsVeg || placed.some((id) => isVegetarian(itemsById.get(id)))
+      const index = order[depth]
+      for (const id of candidates[index]) {
+        if (++dayNodes > maxNodesPerDay) return false
+        if (violatesDayRules(checks, placed, id)) continue
+        assignment[index] = id
+        if (search(depth + 1, [...placed, id])) return true
+      }
+      assignment[index] = null
+      return false
+    }
+
+    if (!search(0, existing)) {
+      // No complete assignment within budget: keep the greedy prefix that fits, report the rest
+      assignment.fill(null)
+      const placed = [...existing]
+      order.forEach((index) => {
+        const pick = candidates[index].find((id) => !violatesDayRules(checks, placed, id))
+        if (pick) {
+          assignment[index] = pick
+          placed.push(pick)
+        }
+      })
+      // Without a vegetarian option every pick would break the day rule
+      if (needsVeg && !placed.some((id) => isVegetarian(itemsById.get(id)))) assignment.fill(null)
+    }
+    nodes += dayNodes
+
+    cells.forEach((cell, index) => {
+      const itemId = assignment[index]
+      const cellKey = `${cell.mealPlanId}|${cell.subMealPlanId}`
+      if (!itemId) {
+        filledDays.get(cellKey)?.delete(date)
+        unfilled.push({
+          date,
+          ...cell,
+          reason:
+            candidates[index].length === 0
+              ? "No candidate satisfies the cell rule, cooldown and repeat limits"
+              : "No combination satisfies the day rules",
+        })
+        return
+      }
+      useItem(date, cell, itemId)
+      if (!menuData[date]) menuData[date] = {}
+      if (!menuData[date][serviceId]) menuData[date][serviceId] = {}
+      if (!menuData[date][serviceId][subServiceId]) menuData[date][serviceId][subServiceId] = {}
+      if (!menuData[date][serviceId][subServiceId][cell.mealPlanId]) menuData[date][serviceId][subServiceId][cell.mealPlanId] = {}
+      menuData[date][serviceId][subServiceId][cell.mealPlanId][cell.subMealPlanId] = { menuItemIds: [itemId] }
+    })
+  })
+
+  return { menuData, unfilled, seed, nodes }
+}
@@ -0,0 +1,162 @@
+/**
+ * Menu Templates
+ *
+ * A template is one or more consecutive weeks of a combined or company menu stored by
+ * weekday, so it can be laid onto any date range:
+ * - weeks are keyed by weekday ("monday" ... "sunday"); applying a template maps each
+ *   target date to the template day with the same weekday
+ * - a multi-week template is a cycle: the target range's first week uses template week 1,
+ *   the next week 2, and so on, wrapping around
+ * - holidays are skipped, and cells missing from the building structure(s) for that
+ *   weekday are dropped and listed in the report
+ * Only menu items (and their chosen descriptions) are copied; company choice data and
+ * custom assignments belong to the source menu.
+ */
+import { forEachMenuCell, getCellKey, getDayKey } from "@/lib/menu-cells"
+import type { MealPlanStructureAssignment } from "@/lib/services"
+import type { MenuCellData, MenuGridData } from "@/lib/types"
+
+// dayKey -> serviceId -> subServiceId -> mealPlanId -> subMealPlanId -> cell
+export type MenuTemplateWeek = Record<string, MenuGridData[string]>
+
+export interface DroppedTemplateCell {
+  date: string
+  serviceId: string
+  subServiceId: string
+  mealPlanId: string
+  subMealPlanId: string
+  itemCount: number
+}
+
+export interface TemplateApplyReport {
+  appliedCells: number
+  appliedDates: string[]
+  skippedHolidays: string[]
+  emptyDates: string[] // no template content for that weekday
+  droppedCells: DroppedTemplateCell[]
+}
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split("T")[0]
+}
+
+const mondayOf = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`)
+  return addDays(date, -((d.getUTCDay() + 6) % 7))
+}
+
+const templateCell = (cell: MenuCellData): MenuCellData => {
+  const copy: MenuCellData = { menuItemIds: [...cell.menuItemIds] }
+  if (cell.selectedDescriptions && Object.keys(cell.selectedDescriptions).length > 0) {
+    copy.selectedDescriptions = { ...cell.selectedDescriptions }
+  }
+  return copy
+}
+
+/**
+ * Copies `cycleWeeks` weeks of a menu, starting on `weekStart`, into template weeks
+ */
+export function extractTemplateWeeks(menuData: MenuGridData, weekStart: string, cycleWeeks: number): MenuTemplateWeek[] {
+  const weeks: MenuTemplateWeek[] = []
+  for (let w = 0; w < cycleWeeks; w++) {
+    const week: any = {}
+    for (let d = 0; d < 7; d++) {
+      const date = addDays(weekStart, w * 7 + d)
+      const dayKey = getDayKey(date)
+      forEachMenuCell({ [date]: menuData[date] || {} }, (ref, cell) => {
+        if (cell.menuItemIds.length === 0) return
+        week[dayKey] ??= {}
+        week[dayKey][ref.serviceId] ??= {}
+        week[dayKey][ref.serviceId][ref.subServiceId] ??= {}
+        week[dayKey][ref.serviceId][ref.subServiceId][ref.mealPlanId] ??= {}
+        week[dayKey][ref.serviceId][ref.subServiceId][ref.mealPlanId][ref.subMealPlanId] = templateCell(cell)
+      })
+    }
+    weeks.push(week)
+  }
+  return weeks
+}
+
+/**
+ * dayKey -> cell keys (service|subService|mealPlan|subMealPlan) served by any of the
+ * given active structure assignments
+ */
+export function getStructureCells(assignments: MealPlanStructureAssignment[]): Map<string, Set<string>> {
+  const cells = new Map<string, Set<string>>()
+  assignments
+    .filter((assignment) => !assignment.status || assignment.status === "active")
+    .forEach((assignment) => {
+      Object.entries(assignment.weekStructure || {}).forEach(([dayKey, services]) => {
+        const day = cells.get(dayKey.toLowerCase()) || new Set<string>()
+        ;(services || []).forEach((service) => {
+          ;(service.subServices || []).forEach((subService) => {
+            ;(subService.mealPlans || []).forEach((mealPlan) => {
+              ;(mealPlan.subMealPlans || []).forEach((smp) => {
+                day.add(`${service.serviceId}|${subService.subServiceId || ""}|${mealPlan.mealPlanId}|${smp.subMealPlanId}`)
+              })
+            })
+          })
+        })
+        cells.set(dayKey.toLowerCase(), day)
+      })
+    })
+  return cells
+}
+
+/**
+ * Lays the template weeks onto `dates`. Returns only the cells the template fills; the
+ * caller merges them into the grid.
+ */
+export function applyMenuTemplate(
+  weeks: MenuTemplateWeek[],
+  dates: string[],
+  options: {
+    isHoliday: (date: string) => boolean
+    structureCells: Map<string, Set<string>>
+  },
+): { menuData: MenuGridData; report: TemplateApplyReport } {
+  const menuData: MenuGridData = {}
+  const report: TemplateApplyReport = { appliedCells: 0, appliedDates: [], skippedHolidays: [], emptyDates: [], droppedCells: [] }
+  if (weeks.length === 0 || dates.length === 0) return { menuData, report }
+
+  const sorted = [...dates].sort()
+  const firstMonday = mondayOf(sorted[0])
+
+  sorted.forEach((date) => {
+    if (options.isHoliday(date)) {
+      report.skippedHolidays.push(date)
+      return
+    }
+    const weekOffset = Math.round(
+      (new Date(`${mondayOf(date)}T00:00:00Z`).getTime() - new Date(`${firstMonday}T00:00:00Z`).getTime()) / (7 * 86400000),
+    )
+    const dayKey = getDayKey(date)
+    const templateDay = weeks[weekOffset % weeks.length]?.[dayKey]
+    if (!templateDay) {
+      report.emptyDates.push(date)
+      return
+    }
+
+    const allowed = options.structureCells.get(dayKey) || new Set<string>()
+    let applied = 0
+    forEachMenuCell({ [date]: templateDay }, (ref, cell) => {
+      const structureKey = getCellKey(ref).split("|").slice(1).join("|")
+      if (!allowed.has(structureKey)) {
+        report.droppedCells.push({ ...ref, itemCount: cell.menuItemIds.length })
+        return
+      }
+      const day: any = (menuData[date] ??= {})
+      day[ref.serviceId] ??= {}
+      day[ref.serviceId][ref.subServiceId] ??= {}
+      day[ref.serviceId][ref.subServiceId][ref.mealPlanId] ??= {}
+      day[ref.serviceId][ref.subServiceId][ref.mealPlanId][ref.subMealPlanId] = templateCell(cell)
+      applied++
+    })
+    report.appliedCells += applied
+    if (applied > 0) report.appliedDates.push(date)
+  })
+
+  return { menuData, report }
+}
@@ -0,0 +1,156 @@
+/**
+ * Nutrition & Allergen Rollup
+ *
+ * Aggregates MenuItem.nutritionalInfo and allergens over a menu grid, per day and per
+ * service within the day, and checks the totals against a building's nutrition targets.
+ * The items in a cell are alternatives (the procurement planner splits headcount across
+ * them the same way), so each contributes 1 / items-in-cell of a portion: the totals are
+ * what an average employee eats. Allergens are listed if any option in the cell has them.
+ */
+import type { MenuGridData, MenuItem, NutritionInfo, NutritionTarget } from "@/lib/types"
+import { forEachMenuCell } from "@/lib/menu-cells"
+
+export interface NutritionTotals {
+  calories: number
+  protein: number
+  carbs: number
+  fat: number
+  allergens: string[]
+  itemCount: number
+  // Items without nutritionalInfo, so clients know the totals are partial
+  missingNutritionCount: number
+}
+
+export interface DayNutrition {
+  date: string
+  totals: NutritionTotals
+  services: Record<string, NutritionTotals>
+}
+
+export interface NutritionViolation {
+  date: string
+  serviceId?: string
+  scopeName: string
+  metric: "calories" | "protein" | "carbs" | "fat" | "allergen"
+  actual: number | string
+  limit: number | string
+  kind: "max" | "min" | "excluded"
+}
+
+const NUTRIENTS: (keyof NutritionInfo)[] = ["calories", "protein", "carbs", "fat"]
+
+function emptyTotals(): NutritionTotals {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0, allergens: [], itemCount: 0, missingNutritionCount: 0 }
+}
+
+function addItem(totals: NutritionTotals, item: MenuItem, portion: number) {
+  totals.itemCount++
+  if (!item.nutritionalInfo) {
+    totals.missingNutritionCount++
+  } else {
+    NUTRIENTS.forEach((key) => {
+      totals[key] += (Number(item.nutritionalInfo?.[key]) || 0) * portion
+    })
+  }
+  ;(item.allergens || []).forEach((allergen) => {
+    const normalized = allergen.trim().toLowerCase()
+    if (normalized && !totals.allergens.includes(normalized)) totals.allergens.push(normalized)
+  })
+}
+
+/**
+ * Returns one entry per date (sorted), each with day totals and per-service totals
+ */
+export function rollupMenuNutrition(
+  menuData: MenuGridData | undefined | null,
+  menuItemsMap: Map<string, MenuItem>,
+): DayNutrition[] {
+  const days = new Map<string, DayNutrition>()
+
+  forEachMenuCell(menuData, (ref, cell) => {
+    const portion = 1 / cell.menuItemIds.length
+    cell.menuItemIds.forEach((itemId) => {
+      const item = menuItemsMap.get(itemId)
+      if (!item) return
+
+      let day = days.get(ref.date)
+      if (!day) {
+        day = { date: ref.date, totals: emptyTotals(), services: {} }
+        days.set(ref.date, day)
+      }
+      if (!day.services[ref.serviceId]) day.services[ref.serviceId] = emptyTotals()
+
+      addItem(day.totals, item, portion)
+      addItem(day.services[ref.serviceId], item, portion)
+    })
+  })
+
+  days.forEach((day) => {
+    day.totals.allergens.sort()
+    Object.values(day.services).forEach((totals) => totals.allergens.sort())
+  })
+
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function checkTotals(
+  totals: NutritionTotals,
+  target: NutritionTarget,
+  base: Pick<NutritionViolation, "date" | "serviceId" | "scopeName">,
+): NutritionViolation[] {
+  const violations: NutritionViolation[] = []
+  const limits: [NutritionViolation["metric"], number | undefined, "max" | "min"][] = [
+    ["calories", target.maxCalories, "max"],
+    ["protein", target.minProtein, "min"],
+    ["carbs", target.maxCarbs, "max"],
+    ["fat", target.maxFat, "max"],
+  ]
+
+  limits.forEach(([metric, limit, kind]) => {
+    if (limit === undefined || limit === null || !(limit > 0)) return
+    const actual = Math.round(totals[metric as keyof NutritionInfo] as number)
+    if ((kind === "max" && actual > limit) || (kind === "min" && actual < limit)) {
+      violations.push({ ...base, metric, actual, limit, kind })
+    }
+  })
+
+  const excluded = (target.excludedAllergens || []).map((a) => a.trim().toLowerCase())
+  totals.allergens
+    .filter((allergen) => excluded.includes(allergen))
+    .forEach((allergen) => {
+      violations.push({ ...base, metric: "allergen", actual: allergen, limit: "excluded", kind: "excluded" })
+    })
+
+  return violations
+}
+
+/**
+ * Checks every day (and each targeted service) against the building targets
+ */
+export function checkNutritionTargets(
+  days: DayNutrition[],
+  targets: NutritionTarget[] | undefined,
+  serviceNames: Map<string, string> = new Map(),
+): NutritionViolation[] {
+  if (!targets || targets.length === 0) return []
+
+  const violations: NutritionViolation[] = []
+  days.forEach((day) => {
+    targets.forEach((target) => {
+      if (!target.serviceId) {
+        violations.push(...checkTotals(day.totals, target, { date: day.date, scopeName: "Whole day" }))
+        return
+      }
+      const totals = day.services[target.serviceId]
+      if (!totals) return
+      violations.push(
+        ...checkTotals(totals, target, {
+          date: day.date,
+          serviceId: target.serviceId,
+          scopeName: serviceNames.get(target.serviceId) || "Service",
+        }),
+      )
+    })
+  })
+  return violations
+}
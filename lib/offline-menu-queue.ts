@@ -0,0 +1,151 @@
+/**
+ * Offline Menu Queue
+ *
+ * Cell edits made in the menu editor while the browser is offline are persisted to
+ * IndexedDB so they survive a reload or a closed tab:
+ * - one entry per menu cell, holding the cell as it was before the first offline edit
+ *   (`base`) and the latest local value (`cell`)
+ * - on reconnect the queue is compared with the server copy of the menu using
+ *   detectMenuChanges: cells the server didn't touch meanwhile replay cleanly, the rest
+ *   need the planner to choose between their copy and the server's
+ */
+import { detectMenuChanges } from "@/lib/change-detector"
+import { getCellKey, getMenuCell, parseCellKey } from "@/lib/menu-cells"
+import type { MenuCellData, MenuGridData } from "@/lib/types"
+
+const DB_NAME = "cookhouse-offline"
+const STORE = "menuEdits"
+
+export interface QueuedCellEdit {
+  id: string // `${menuId}::${cellKey}`
+  menuId: string
+  cellKey: string // see getCellKey
+  base: MenuCellData | null
+  cell: MenuCellData | null
+  updatedAt: number
+}
+
+export interface QueuedEditConflict extends QueuedCellEdit {
+  server: MenuCellData | null
+}
+
+export interface QueueReconciliation {
+  clean: QueuedCellEdit[]
+  conflicts: QueuedEditConflict[]
+}
+
+function openQueueDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" })
+      store.createIndex("menuId", "menuId")
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openQueueDb()
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode)
+      const request = run(tx.objectStore(STORE))
+      tx.oncomplete = () => resolve(request ? request.result : undefined)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// IndexedDB clones values structurally; strip undefined and class instances the same way RTDB/Firestore would
+const toPlain = (cell: MenuCellData | undefined | null): MenuCellData | null =>
+  cell === undefined || cell === null ? null : JSON.parse(JSON.stringify(cell))
+
+export const offlineMenuQueue = {
+  /**
+   * Records a cell edit. `base` is the cell as last loaded from the server; the first queued
+   * edit's base is kept, so only changes made on the server meanwhile count as conflicts.
+   */
+  async queueCellEdit(menuId: string, cellKey: string, base: MenuCellData | undefined, after: MenuCellData | undefined) {
+    const id = `${menuId}::${cellKey}`
+    await withStore("readwrite", (store) => {
+      const get = store.get(id)
+      get.onsuccess = () => {
+        const existing = get.result as QueuedCellEdit | undefined
+        const entry: QueuedCellEdit = {
+          id,
+          menuId,
+          cellKey,
+          base: existing ? existing.base : toPlain(base),
+          cell: toPlain(after),
+          updatedAt: Date.now(),
+        }
+        store.put(entry)
+      }
+    })
+  },
+
+  async getQueuedEdits(menuId: string): Promise<QueuedCellEdit[]> {
+    const edits = await withStore<QueuedCellEdit[]>("readonly", (store) => store.index("menuId").getAll(menuId))
+    return (edits || []).sort((a, b) => a.updatedAt - b.updatedAt)
+  },
+
+  async clearQueuedEdits(menuId: string, cellKeys?: string[]) {
+    const keys = cellKeys || (await this.getQueuedEdits(menuId)).map((edit) => edit.cellKey)
+    if (keys.length === 0) return
+    await withStore("readwrite", (store) => {
+      keys.forEach((cellKey) => store.delete(`${menuId}::${cellKey}`))
+    })
+  },
+}
+
+function buildTree(cells: { cellKey: string; cell: MenuCellData | null }[]): MenuGridData {
+  const tree: any = {}
+  cells.forEach(({ cellKey, cell }) => {
+    const ref = parseCellKey(cellKey)
+    tree[ref.date] ??= {}
+    tree[ref.date][ref.serviceId] ??= {}
+    tree[ref.date][ref.serviceId][ref.subServiceId] ??= {}
+    tree[ref.date][ref.serviceId][ref.subServiceId][ref.mealPlanId] ??= {}
+    tree[ref.date][ref.serviceId][ref.subServiceId][ref.mealPlanId][ref.subMealPlanId] = cell || { menuItemIds: [] }
+  })
+  return tree
+}
+
+/**
+ * Splits queued edits into those whose cell is unchanged on the server since the edit's
+ * base (safe to replay) and those the server changed meanwhile
+ */
+export function reconcileQueuedEdits(edits: QueuedCellEdit[], serverMenuData: MenuGridData | undefined | null): QueueReconciliation {
+  const serverCells = edits.map((edit) => ({
+    cellKey: edit.cellKey,
+    cell: toPlain(getMenuCell(serverMenuData, parseCellKey(edit.cellKey))),
+  }))
+  const changedOnServer = new Set(
+    detectMenuChanges(buildTree(edits.map(({ cellKey, base }) => ({ cellKey, cell: base }))), buildTree(serverCells), new Map()).map(
+      (change) => getCellKey({ ...change, subServiceId: change.subServiceId || "" }),
+    ),
+  )
+
+  const reconciliation: QueueReconciliation = { clean: [], conflicts: [] }
+  edits.forEach((edit, i) => {
+    if (!changedOnServer.has(edit.cellKey)) {
+      reconciliation.clean.push(edit)
+      return
+    }
+    // The server already has exactly what we queued
+    if (detectMenuChanges(buildTree([{ cellKey: edit.cellKey, cell: edit.cell }]), buildTree([serverCells[i]]), new Map()).length === 0) {
+      reconciliation.clean.push(edit)
+      return
+    }
+    reconciliation.conflicts.push({ ...edit, server: serverCells[i].cell })
+  })
+  return reconciliation
+}
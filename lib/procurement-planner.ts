@@ -0,0 +1,207 @@
+/**
+ * Procurement Planner
+ *
+ * Walks the cells of published company menus, multiplies each item's recipe by the
+ * expected headcount for that building, and rolls the result up into a per-supplier,
+ * per-day purchase list. Ingredients with frequency "weekly" are batched onto the
+ * first delivery day of their week.
+ */
+import type { Employee, Ingredient, Recipe, Supplier } from "@/lib/firestore"
+import type { Cafeteria } from "@/lib/firestore/cafeteriasService"
+import type { CompanyMenu } from "@/lib/types"
+import { forEachMenuCell, getDayKey, type MenuCellRef } from "@/lib/menu-cells"
+import { convertQuantity, normalizeUnit } from "@/lib/recipe-costing"
+
+export interface ProcurementLine {
+  supplierId: string
+  supplierName: string
+  deliveryDate: string
+  ingredientId: string
+  ingredientName: string
+  quantity: number
+  unit: string
+  frequency: "daily" | "weekly"
+  buildings: string[]
+}
+
+export interface UnplannedItem {
+  menuItemId: string
+  menuItemName: string
+  date: string
+  buildingName: string
+  reason: "no-recipe" | "no-headcount"
+}
+
+export interface ProcurementPlan {
+  startDate: string
+  endDate: string
+  lines: ProcurementLine[]
+  unplannedItems: UnplannedItem[]
+  supplierIds: string[]
+}
+
+export interface HeadcountSources {
+  cafeterias: Cafeteria[]
+  employees: Employee[]
+}
+
+/**
+ * Active employees of a building subscribed to the service/subService on that date
+ */
+export function getSubscribedEmployees(
+  employees: Employee[],
+  buildingId: string,
+  ref: Pick<MenuCellRef, "date" | "serviceId" | "subServiceId">,
+): Employee[] {
+  const dayKey = getDayKey(ref.date)
+  return employees.filter(
+    (emp) =>
+      emp.buildingId === buildingId &&
+      emp.status === "active" &&
+      (emp.activeSubscriptions || []).some(
+        (sub) =>
+          sub.serviceId === ref.serviceId &&
+          sub.subServiceId === ref.subServiceId &&
+          (sub.daysOfWeek || []).map((d) => d.toLowerCase()).includes(dayKey) &&
+          (!sub.startDate || sub.startDate <= ref.date) &&
+          (!sub.endDate || sub.endDate >= ref.date),
+      ),
+  )
+}
+
+/**
+ * Expected headcount for a building on a given service day. Active employee
+ * subscriptions win when any exist for the cell; otherwise the building's
+ * cafeterias' expectedManpower is used.
+ */
+export function resolveHeadcount(
+  buildingId: string,
+  ref: Pick<MenuCellRef, "date" | "serviceId" | "subServiceId">,
+  sources: HeadcountSources,
+): number {
+  const subscribed = getSubscribedEmployees(sources.employees, buildingId, ref).length
+  if (subscribed > 0) return subscribed
+
+  return sources.cafeterias
+    .filter((c) => c.buildingId === buildingId && c.status === "active")
+    .reduce((sum, c) => sum + (c.expectedManpower || 0), 0)
+}
+
+/**
+ * Returns the Monday (YYYY-MM-DD) of the week a date falls in
+ */
+export function getWeekStart(date: string): string {
+  const d = new Date(`${date}T00:00:00`)
+  const day = d.getDay()
+  d.setDate(d.getDate() - day + (day === 0 ? -6 : 1))
+  const y = d.getFullYear()
+  const m = String(d.getMonth() + 1).padStart(2, "0")
+  const dd = String(d.getDate()).padStart(2, "0")
+  return `${y}-${m}-${dd}`
+}
+
+export function buildProcurementPlan(
+  menus: CompanyMenu[],
+  startDate: string,
+  endDate: string,
+  recipes: Recipe[],
+  ingredients: Ingredient[],
+  suppliers: Supplier[],
+  headcountSources: HeadcountSources,
+  menuItemNames: Map<string, string> = new Map(),
+): ProcurementPlan {
+  const recipeByItem = new Map(recipes.map((r) => [r.menuItemId, r]))
+  const ingredientById = new Map(ingredients.map((i) => [i.id, i]))
+  const supplierById = new Map(suppliers.map((s) => [s.id, s]))
+
+  const linesByKey = new Map<string, ProcurementLine>()
+  const unplannedItems: UnplannedItem[] = []
+
+  // Weekly items are delivered on the first in-range date of their week
+  const firstDateOfWeek = new Map<string, string>()
+  menus.forEach((menu) => {
+    Object.keys(menu.menuData || {}).forEach((date) => {
+      if (date < startDate || date > endDate) return
+      const week = getWeekStart(date)
+      const current = firstDateOfWeek.get(week)
+      if (!current || date < current) firstDateOfWeek.set(week, date)
+    })
+  })
+
+  menus.forEach((menu) => {
+    const buildingName = menu.buildingName || menu.buildingId
+
+    forEachMenuCell(menu.menuData, (ref, cell) => {
+      if (ref.date < startDate || ref.date > endDate || cell.menuItemIds.length === 0) return
+
+      const headcount = resolveHeadcount(menu.buildingId, ref, headcountSources)
+      // Items in one sub-meal-plan cell are alternatives, so the headcount is split between them
+      const portionsPerItem = headcount / cell.menuItemIds.length
+
+      cell.menuItemIds.forEach((menuItemId) => {
+        const recipe = recipeByItem.get(menuItemId)
+        const menuItemName = menuItemNames.get(menuItemId) || "Unknown Item"
+        if (!recipe) {
+          unplannedItems.push({ menuItemId, menuItemName, date: ref.date, buildingName, reason: "no-recipe" })
+          return
+        }
+        if (headcount <= 0) {
+          unplannedItems.push({ menuItemId, menuItemName, date: ref.date, buildingName, reason: "no-headcount" })
+          return
+        }
+
+        recipe.lines.forEach((line) => {
+          const ingredient = ingredientById.get(line.ingredientId)
+          if (!ingredient) return
+
+          const frequency = ingredient.frequency === "weekly" ? "weekly" : "daily"
+          const deliveryDate =
+            frequency === "weekly" ? firstDateOfWeek.get(getWeekStart(ref.date)) || ref.date : ref.date
+
+          const required = line.quantity * (1 + (line.wastagePercent || 0) / 100) * portionsPerItem
+          // Order in the ingredient's purchase unit (u1) when the recipe unit can be converted
+          const purchaseUnit = normalizeUnit(ingredient.u1) ? ingredient.u1 : line.unit
+          const converted = convertQuantity(required, line.unit, purchaseUnit, ingredient)
+          const quantity = converted ?? required
+          const unit = converted !== null ? purchaseUnit : line.unit
+
+          const supplierId = ingredient.supplier1Id || ""
+          const key = `${supplierId}|${deliveryDate}|${ingredient.id}|${normalizeUnit(unit)}`
+          const existing = linesByKey.get(key)
+
+          if (existing) {
+            existing.quantity += quantity
+            if (!existing.buildings.includes(buildingName)) existing.buildings.push(buildingName)
+          } else {
+            linesByKey.set(key, {
+              supplierId,
+              supplierName: supplierById.get(supplierId)?.name || "Unassigned Supplier",
+              deliveryDate,
+              ingredientId: ingredient.id,
+              ingredientName: ingredient.variantName || ingredient.name,
+              quantity,
+              unit,
+              frequency,
+              buildings: [buildingName],
+            })
+          }
+        })
+      })
+    })
+  })
+
+  const lines = Array.from(linesByKey.values()).sort(
+    (a, b) =>
+      a.supplierName.localeCompare(b.supplierName) ||
+      a.deliveryDate.localeCompare(b.deliveryDate) ||
+      a.ingredientName.localeCompare(b.ingredientName),
+  )
+
+  return {
+    startDate,
+    endDate,
+    lines,
+    unplannedItems,
+    supplierIds: Array.from(new Set(lines.map((l) => l.supplierId))),
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Recipe Costing Engine
+ *
+ * Turns a menu item's recipe (per-portion ingredient lines) into a food cost
+ * per portion, using the preferred supplier's price for each ingredient and
+ * rolling up tax from the ingredient's tax template.
+ */
+import type { Ingredient, IngredientPrice, Recipe, Supplier, TaxTemplate } from "@/lib/firestore"
+
+// Standard units mapped onto a base unit of the same dimension
+const STANDARD_UNITS: Record<string, { base: string; factor: number }> = {
+  mg: { base: "g", factor: 0.001 },
+  g: { base: "g", factor: 1 },
+  gm: { base: "g", factor: 1 },
+  gms: { base: "g", factor: 1 },
+  gram: { base: "g", factor: 1 },
+  grams: { base: "g", factor: 1 },
+  kg: { base: "g", factor: 1000 },
+  kgs: { base: "g", factor: 1000 },
+  ml: { base: "ml", factor: 1 },
+  l: { base: "ml", factor: 1000 },
+  ltr: { base: "ml", factor: 1000 },
+  litre: { base: "ml", factor: 1000 },
+  liter: { base: "ml", factor: 1000 },
+  pc: { base: "pc", factor: 1 },
+  pcs: { base: "pc", factor: 1 },
+  piece: { base: "pc", factor: 1 },
+  pieces: { base: "pc", factor: 1 },
+  no: { base: "pc", factor: 1 },
+  nos: { base: "pc", factor: 1 },
+  unit: { base: "pc", factor: 1 },
+  dozen: { base: "pc", factor: 12 },
+}
+
+export type CostingIssue = "missing-ingredient" | "no-price" | "unit-mismatch"
+
+export interface RecipeLineCost {
+  ingredientId: string
+  ingredientName: string
+  quantity: number
+  unit: string
+  supplierId?: string
+  supplierName?: string
+  netCost: number
+  taxAmount: number
+  totalCost: number
+  issue?: CostingIssue
+}
+
+export interface ItemCosting {
+  menuItemId: string
+  sellingPrice: number
+  netCost: number
+  taxAmount: number
+  foodCost: number // net + tax, per portion
+  margin: number
+  marginPercent: number | null // null when the item has no selling price
+  lines: RecipeLineCost[]
+  isComplete: boolean // false if any line could not be costed
+}
+
+export interface CellCosting {
+  sellingPrice: number
+  foodCost: number
+  margin: number
+  marginPercent: number | null
+  costedItems: number
+  uncostedItems: number
+}
+
+export interface CostingContext {
+  ingredients: Map<string, Ingredient>
+  taxTemplates: Map<string, TaxTemplate>
+  suppliers: Map<string, Supplier>
+  pricesByIngredient: Map<string, IngredientPrice[]>
+}
+
+export function normalizeUnit(unit: string | undefined): string {
+  return (unit || "").trim().toLowerCase().replace(/\.$/, "")
+}
+
+function convertStandard(quantity: number, fromUnit: string, toUnit: string): number | null {
+  const from = normalizeUnit(fromUnit)
+  const to = normalizeUnit(toUnit)
+  if (from === to) return quantity
+
+  const fromDef = STANDARD_UNITS[from]
+  const toDef = STANDARD_UNITS[to]
+  if (!fromDef || !toDef || fromDef.base !== toDef.base) return null
+  return (quantity * fromDef.factor) / toDef.factor
+}
+
+/**
+ * An ingredient's u1/u2/u3 describe the same pack in different units
+ * (e.g. 1 bag = 25 kg), so defaultQ1 u1 == defaultQ2 u2 == defaultQ3 u3.
+ */
+function getUnitLadder(ingredient: Ingredient): Array<{ quantity: number; unit: string }> {
+  return [
+    { quantity: ingredient.defaultQ1, unit: ingredient.u1 },
+    { quantity: ingredient.defaultQ2, unit: ingredient.u2 },
+    { quantity: ingredient.defaultQ3, unit: ingredient.u3 },
+  ].filter((rung) => rung.quantity > 0 && normalizeUnit(rung.unit) !== "")
+}
+
+/**
+ * Converts a quantity between units. Falls back to the ingredient's own
+ * unit ladder when the units are not standard equivalents (e.g. "bag" -> "kg").
+ * Returns null if no conversion path exists.
+ */
+export function convertQuantity(
+  quantity: number,
+  fromUnit: string,
+  toUnit: string,
+  ingredient?: Ingredient,
+): number | null {
+  const direct = convertStandard(quantity, fromUnit, toUnit)
+  if (direct !== null) return direct
+  if (!ingredient) return null
+
+  const ladder = getUnitLadder(ingredient)
+
+  let packs: number | null = null
+  for (const rung of ladder) {
+    const inRungUnit = convertStandard(quantity, fromUnit, rung.unit)
+    if (inRungUnit !== null) {
+      packs = inRungUnit / rung.quantity
+      break
+    }
+  }
+  if (packs === null) return null
+
+  for (const rung of ladder) {
+    const converted = convertStandard(packs * rung.quantity, rung.unit, toUnit)
+    if (converted !== null) return converted
+  }
+  return null
+}
+
+export function buildCostingContext(
+  ingredients: Ingredient[],
+  taxTemplates: TaxTemplate[],
+  suppliers: Supplier[],
+  prices: IngredientPrice[],
+): CostingContext {
+  const pricesByIngredient = new Map<string, IngredientPrice[]>()
+  prices.forEach((price) => {
+    const list = pricesByIngredient.get(price.ingredientId) || []
+    list.push(price)
+    pricesByIngredient.set(price.ingredientId, list)
+  })
+
+  return {
+    ingredients: new Map(ingredients.map((i) => [i.id, i])),
+    taxTemplates: new Map(taxTemplates.map((t) => [t.id, t])),
+    suppliers: new Map(suppliers.map((s) => [s.id, s])),
+    pricesByIngredient,
+  }
+}
+
+/**
+ * Picks the price from the preferred supplier (supplier1 -> supplier2 -> supplier3).
+ * Prices are expected newest-first, as returned by FirestoreService.getAll.
+ */
+export function getPreferredPrice(ingredient: Ingredient, context: CostingContext): IngredientPrice | null {
+  const prices = context.pricesByIngredient.get(ingredient.id) || []
+  const supplierOrder = [ingredient.supplier1Id, ingredient.supplier2Id, ingredient.supplier3Id].filter(Boolean)
+
+  for (const supplierId of supplierOrder) {
+    const price = prices.find((p) => p.supplierId === supplierId)
+    if (price) return price
+  }
+  return null
+}
+
+export function costRecipeLine(line: Recipe["lines"][number], context: CostingContext): RecipeLineCost {
+  const ingredient = context.ingredients.get(line.ingredientId)
+  const base: RecipeLineCost = {
+    ingredientId: line.ingredientId,
+    ingredientName: ingredient?.variantName || ingredient?.name || "Unknown Ingredient",
+    quantity: line.quantity,
+    unit: line.unit,
+    netCost: 0,
+    taxAmount: 0,
+    totalCost: 0,
+  }
+  if (!ingredient) return { ...base, issue: "missing-ingredient" }
+
+  const price = getPreferredPrice(ingredient, context)
+  if (!price || !price.quantity) return { ...base, issue: "no-price" }
+
+  const supplier = context.suppliers.get(price.supplierId)
+  const withSupplier = { ...base, supplierId: price.supplierId, supplierName: supplier?.name }
+
+  const usedQuantity = line.quantity * (1 + (line.wastagePercent || 0) / 100)
+  const inPriceUnit = convertQuantity(usedQuantity, line.unit, price.unit, ingredient)
+  if (inPriceUnit === null) return { ...withSupplier, issue: "unit-mismatch" }
+
+  const netCost = (inPriceUnit / price.quantity) * price.price
+  const taxRate = context.taxTemplates.get(ingredient.taxTemplateId)?.rate || 0
+  const taxAmount = (netCost * taxRate) / 100
+
+  return { ...withSupplier, netCost, taxAmount, totalCost: netCost + taxAmount }
+}
+
+/**
+ * Calculates the food cost per portion and margin for a single menu item
+ */
+export function calculateItemCosting(
+  menuItem: { id: string; price?: number },
+  recipe: Recipe,
+  context: CostingContext,
+): ItemCosting {
+  const lines = (recipe.lines || []).map((line) => costRecipeLine(line, context))
+  const netCost = lines.reduce((sum, l) => sum + l.netCost, 0)
+  const taxAmount = lines.reduce((sum, l) => sum + l.taxAmount, 0)
+  const foodCost = netCost + taxAmount
+  const sellingPrice = menuItem.price || 0
+  const margin = sellingPrice - foodCost
+
+  return {
+    menuItemId: menuItem.id,
+    sellingPrice,
+    netCost,
+    taxAmount,
+    foodCost,
+    margin,
+    marginPercent: sellingPrice > 0 ? (margin / sellingPrice) * 100 : null,
+    lines,
+    isComplete: lines.length > 0 && lines.every((l) => !l.issue),
+  }
+}
+
+/**
+ * Costs every menu item that has a recipe. Items without a recipe are left out.
+ */
+export function calculateMenuCostings(
+  menuItems: Array<{ id: string; price?: number }>,
+  recipes: Recipe[],
+  context: CostingContext,
+): Map<string, ItemCosting> {
+  const recipeByItem = new Map(recipes.map((r) => [r.menuItemId, r]))
+  const costings = new Map<string, ItemCosting>()
+
+  menuItems.forEach((item) => {
+    const recipe = recipeByItem.get(item.id)
+    if (recipe) costings.set(item.id, calculateItemCosting(item, recipe, context))
+  })
+
+  return costings
+}
+
+/**
+ * Rolls up the costing of all items in a menu grid cell
+ */
+export function calculateCellCosting(menuItemIds: string[], costings: Map<string, ItemCosting>): CellCosting {
+  let sellingPrice = 0
+  let foodCost = 0
+  let costedItems = 0
+  let uncostedItems = 0
+
+  menuItemIds.forEach((id) => {
+    const costing = costings.get(id)
+    if (!costing) {
+      uncostedItems++
+      return
+    }
+    costedItems++
+    sellingPrice += costing.sellingPrice
+    foodCost += costing.foodCost
+  })
+
+  const margin = sellingPrice - foodCost
+  return {
+    sellingPrice,
+    foodCost,
+    margin,
+    marginPercent: sellingPrice > 0 ? (margin / sellingPrice) * 100 : null,
+    costedItems,
+    uncostedItems,
+  }
+}
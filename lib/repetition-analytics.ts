@@ -0,0 +1,156 @@
+/**
+ * Repetition Analytics
+ *
+ * Counts how often each item was served per building over rolling windows, flags items
+ * served above a threshold and suggests under-used alternatives from the same
+ * aiTags.submealCategory. An item counts once per date, however many cells it was in.
+ */
+import type { CompanyMenu, MenuGridData, MenuItem } from "@/lib/types"
+import { forEachMenuCell } from "@/lib/menu-cells"
+
+export const ROLLING_WINDOWS = [7, 28, 90] as const
+
+// itemId -> sorted distinct dates the item was served
+export type ServedDatesIndex = Map<string, string[]>
+
+export interface ItemFrequencyRow {
+  itemId: string
+  itemName: string
+  submealCategory?: string
+  cooldownDays?: number
+  counts: Record<number, number> // windowDays -> distinct served dates
+  lastServed: string | null
+  overThreshold: boolean
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split("T")[0]
+}
+
+function dayDiff(a: string, b: string): number {
+  return Math.round((new Date(`${b}T00:00:00Z`).getTime() - new Date(`${a}T00:00:00Z`).getTime()) / 86400000)
+}
+
+/**
+ * Indexes served dates per building from company menus. Menus for the same building
+ * may overlap; dates are de-duplicated.
+ */
+export function buildServedDatesIndex(menus: Pick<CompanyMenu, "buildingId" | "menuData">[]): Map<string, ServedDatesIndex> {
+  const sets = new Map<string, Map<string, Set<string>>>()
+  menus.forEach((menu) => {
+    if (!menu.buildingId) return
+    if (!sets.has(menu.buildingId)) sets.set(menu.buildingId, new Map())
+    const byItem = sets.get(menu.buildingId)!
+    forEachMenuCell(menu.menuData, ({ date }, cell) => {
+      cell.menuItemIds.forEach((itemId) => {
+        if (!byItem.has(itemId)) byItem.set(itemId, new Set())
+        byItem.get(itemId)!.add(date)
+      })
+    })
+  })
+
+  const index = new Map<string, ServedDatesIndex>()
+  sets.forEach((byItem, buildingId) => {
+    const dates: ServedDatesIndex = new Map()
+    byItem.forEach((set, itemId) => dates.set(itemId, Array.from(set).sort()))
+    index.set(buildingId, dates)
+  })
+  return index
+}
+
+/**
+ * Number of served dates in the window of `windowDays` days ending on `endDate` (inclusive)
+ */
+export function countInWindow(dates: string[], endDate: string, windowDays: number): number {
+  const start = addDays(endDate, -(windowDays - 1))
+  return dates.filter((d) => d >= start && d <= endDate).length
+}
+
+export function computeItemFrequency(
+  served: ServedDatesIndex,
+  menuItems: MenuItem[],
+  options: { endDate: string; windows?: readonly number[]; flagWindow: number; threshold: number },
+): ItemFrequencyRow[] {
+  const { endDate, windows = ROLLING_WINDOWS, flagWindow, threshold } = options
+  const itemsById = new Map(menuItems.map((item) => [item.id, item]))
+
+  const rows: ItemFrequencyRow[] = []
+  served.forEach((dates, itemId) => {
+    const pastDates = dates.filter((d) => d <= endDate)
+    if (pastDates.length === 0) return
+    const item = itemsById.get(itemId)
+    const counts: Record<number, number> = {}
+    new Set([...windows, flagWindow]).forEach((w) => (counts[w] = countInWindow(pastDates, endDate, w)))
+    if (windows.every((w) => counts[w] === 0)) return
+
+    rows.push({
+      itemId,
+      itemName: item?.name || "Unknown item",
+      submealCategory: item?.aiTags?.submealCategory,
+      cooldownDays: item?.cooldownDays,
+      counts,
+      lastServed: pastDates[pastDates.length - 1],
+      overThreshold: threshold > 0 && counts[flagWindow] > threshold,
+    })
+  })
+
+  return rows.sort((a, b) => b.counts[flagWindow] - a.counts[flagWindow] || a.itemName.localeCompare(b.itemName))
+}
+
+/**
+ * Active items from the same aiTags.submealCategory that were served less often than
+ * the given item, least-served first. Items without a category get no suggestions.
+ */
+export function suggestUnderusedItems(
+  item: Pick<ItemFrequencyRow, "itemId" | "submealCategory">,
+  menuItems: MenuItem[],
+  countsByItem: Map<string, number>,
+  limit = 3,
+): Array<{ item: MenuItem; count: number }> {
+  const category = item.submealCategory?.trim().toLowerCase()
+  if (!category) return []
+  const itemCount = countsByItem.get(item.itemId) || 0
+
+  return menuItems
+    .filter(
+      (candidate) =>
+        candidate.id !== item.itemId &&
+        candidate.status === "active" &&
+        candidate.aiTags?.submealCategory?.trim().toLowerCase() === category,
+    )
+    .map((candidate) => ({ item: candidate, count: countsByItem.get(candidate.id) || 0 }))
+    .filter(({ count }) => count < itemCount)
+    .sort((a, b) => a.count - b.count || a.item.name.localeCompare(b.item.name))
+    .slice(0, limit)
+}
+
+/**
+ * Returns the nearest date within `cooldownDays` of `date` on which the item was already
+ * served in the same service / sub-service, or null when the add is allowed.
+ */
+export function findCooldownConflict(
+  sources: Array<MenuGridData | undefined | null>,
+  itemId: string,
+  date: string,
+  serviceId: string,
+  subServiceId: string,
+  cooldownDays: number,
+): string | null {
+  if (!cooldownDays || cooldownDays <= 0) return null
+  let nearest: string | null = null
+  sources.forEach((menuData) => {
+    Object.entries(menuData || {}).forEach(([servedDate, dateData]) => {
+      if (servedDate === date) return
+      const gap = Math.abs(dayDiff(servedDate, date))
+      if (gap > cooldownDays) return
+      const mealPlans = dateData?.[serviceId]?.[subServiceId] || {}
+      const served = Object.values(mealPlans).some((subMealPlans) =>
+        Object.values(subMealPlans || {}).some((cell) => cell?.menuItemIds?.includes(itemId)),
+      )
+      if (served && (!nearest || gap < Math.abs(dayDiff(nearest, date)))) nearest = servedDate
+    })
+  })
+  return nearest
+}
@@ -0,0 +1,237 @@
+/**
+ * Planning Rule Evaluation
+ *
+ * Replays saved company menus against a candidate MenuPlanningRule to show how well the
+ * rule describes what was actually served:
+ * - coverage: share of served cells (date × meal plan × sub-meal plan) that the rule
+ *   constrains with at least one cell rule for that weekday
+ * - violation rate: share of items in covered cells whose aiTags fall outside the cell rule
+ * - day rules: share of served days that break each grand / weekday rule the constraint
+ *   engine understands
+ *
+ * Rates count per replayed menu: the same date in three buildings' menus is checked three times.
+ *
+ * Violations come from validateMenu, so the numbers match what the editor would flag.
+ */
+import type { CompanyMenu, MenuPlanningRule } from "@/lib/types"
+import { forEachMenuCell, getDayKey } from "@/lib/menu-cells"
+import { addDays } from "@/lib/repetition-analytics"
+import {
+  getCellRuleChecks,
+  parseDayRule,
+  validateMenu,
+  type ConstraintItem,
+  type ConstraintKind,
+} from "@/lib/menu-constraints"
+
+export interface RuleEvaluationCell {
+  cellKey: string // mealPlanId|subMealPlanId
+  mealPlanId: string
+  subMealPlanId: string
+  servedCells: number
+  coveredCells: number
+  itemsChecked: number
+  itemViolations: number
+  coverageRate: number
+  violationRate: number
+}
+
+export interface RuleEvaluationDayRule {
+  rule: string
+  checked: boolean // false when the constraint engine can't interpret the text
+  days: number
+  violatedDays: number
+  violationRate: number
+}
+
+export interface RuleEvaluationReport {
+  from: string
+  to: string
+  menusReplayed: number
+  servedDays: number
+  cells: RuleEvaluationCell[]
+  dayRules: RuleEvaluationDayRule[]
+  totals: {
+    servedCells: number
+    coveredCells: number
+    itemsChecked: number
+    itemViolations: number
+    coverageRate: number
+    violationRate: number
+  }
+  counts: Record<ConstraintKind, number>
+  untaggedItemIds: string[]
+}
+
+export interface RuleComparisonRow {
+  cellKey: string
+  mealPlanId: string
+  subMealPlanId: string
+  a?: RuleEvaluationCell
+  b?: RuleEvaluationCell
+  coverageDelta: number // b - a
+  violationDelta: number // b - a
+}
+
+const rate = (part: number, whole: number) => (whole > 0 ? part / whole : 0)
+
+/**
+ * The window replayed for "the last N weeks" ending on (and including) endDate
+ */
+export function getEvaluationWindow(weeks: number, endDate: string) {
+  return { from: addDays(endDate, -(weeks * 7) + 1), to: endDate }
+}
+
+/**
+ * Company menus that a rule applies to: its company's menus for an override,
+ * every company's menus for the base rule
+ */
+export function filterMenusForRule(menus: CompanyMenu[], rule: Pick<MenuPlanningRule, "companyId">) {
+  return rule.companyId ? menus.filter((m) => m.companyId === rule.companyId) : menus
+}
+
+export function evaluateRule(
+  rule: MenuPlanningRule,
+  menus: Pick<CompanyMenu, "menuData">[],
+  menuItems: Map<string, ConstraintItem>,
+  window: { from: string; to: string },
+): RuleEvaluationReport {
+  const { serviceId, subServiceId } = rule
+  const scope = { serviceId, subServiceId }
+  const cells = new Map<string, RuleEvaluationCell>()
+  const violationsByCell = new Map<string, Set<string>>() // cellKey -> menu|date|itemId
+  const dayRuleDays = new Map<string, number>()
+  const dayRuleViolations = new Map<string, Set<string>>()
+  const counts: Record<ConstraintKind, number> = { frequency: 0, "cell-rule": 0, "day-rule": 0, cooldown: 0 }
+  const untagged = new Set<string>()
+  const servedDates = new Set<string>()
+  let menusReplayed = 0
+
+  const grandRules = (rule.grandRules || []).filter((t) => t.trim())
+  grandRules.forEach((text) => dayRuleDays.set(text, 0))
+  Object.values(rule.dayRules || {}).forEach((day) => {
+    if (day?.globalDayRule?.trim()) dayRuleDays.set(day.globalDayRule, 0)
+  })
+
+  menus.forEach((menu, menuIndex) => {
+    // Only the window, and only this service / sub-service
+    const menuData: CompanyMenu["menuData"] = {}
+    Object.entries(menu.menuData || {}).forEach(([date, dateData]) => {
+      if (date < window.from || date > window.to) return
+      const subServiceData = dateData?.[serviceId]?.[subServiceId]
+      if (subServiceData) menuData[date] = { [serviceId]: { [subServiceId]: subServiceData } }
+    })
+
+    const menuDates = new Set<string>()
+    forEachMenuCell(menuData, (ref, cell) => {
+      if (cell.menuItemIds.length === 0) return
+      menuDates.add(ref.date)
+      const cellKey = `${ref.mealPlanId}|${ref.subMealPlanId}`
+      if (!cells.has(cellKey)) {
+        cells.set(cellKey, {
+          cellKey,
+          mealPlanId: ref.mealPlanId,
+          subMealPlanId: ref.subMealPlanId,
+          servedCells: 0,
+          coveredCells: 0,
+          itemsChecked: 0,
+          itemViolations: 0,
+          coverageRate: 0,
+          violationRate: 0,
+        })
+      }
+      const stats = cells.get(cellKey)!
+      stats.servedCells++
+      const cellRule = rule.dayRules?.[getDayKey(ref.date)]?.cellRules?.[cellKey]
+      if (cellRule && getCellRuleChecks(cellRule).length > 0) {
+        stats.coveredCells++
+        stats.itemsChecked += cell.menuItemIds.length
+      }
+    })
+    if (menuDates.size === 0) return
+    menusReplayed++
+
+    menuDates.forEach((date) => {
+      servedDates.add(date)
+      grandRules.forEach((text) => dayRuleDays.set(text, (dayRuleDays.get(text) || 0) + 1))
+      const dayRule = rule.dayRules?.[getDayKey(date)]?.globalDayRule
+      if (dayRule?.trim()) dayRuleDays.set(dayRule, (dayRuleDays.get(dayRule) || 0) + 1)
+    })
+
+    const report = validateMenu({ menuData, menuItems, rules: [rule], scope })
+    report.untaggedItemIds.forEach((id) => untagged.add(id))
+    report.violations.forEach((violation) => {
+      counts[violation.kind]++
+      if (violation.kind === "cell-rule") {
+        const cellKey = `${violation.mealPlanId}|${violation.subMealPlanId}`
+        if (!violationsByCell.has(cellKey)) violationsByCell.set(cellKey, new Set())
+        // Keyed per menu: itemsChecked counts every menu, so the same item on the same date in
+        // another building is a separate violation
+        violation.itemIds.forEach((id) => violationsByCell.get(cellKey)!.add(`${menuIndex}|${violation.date}|${id}`))
+      }
+      if (violation.kind === "day-rule" && violation.rule) {
+        if (!dayRuleViolations.has(violation.rule)) dayRuleViolations.set(violation.rule, new Set())
+        dayRuleViolations.get(violation.rule)!.add(`${menuIndex}|${violation.date}`)
+      }
+    })
+  })
+
+  cells.forEach((stats, cellKey) => {
+    stats.itemViolations = violationsByCell.get(cellKey)?.size || 0
+    stats.coverageRate = rate(stats.coveredCells, stats.servedCells)
+    stats.violationRate = rate(stats.itemViolations, stats.itemsChecked)
+  })
+
+  const cellList = Array.from(cells.values()).sort((a, b) => a.cellKey.localeCompare(b.cellKey))
+  const totals = cellList.reduce(
+    (acc, c) => ({
+      servedCells: acc.servedCells + c.servedCells,
+      coveredCells: acc.coveredCells + c.coveredCells,
+      itemsChecked: acc.itemsChecked + c.itemsChecked,
+      itemViolations: acc.itemViolations + c.itemViolations,
+    }),
+    { servedCells: 0, coveredCells: 0, itemsChecked: 0, itemViolations: 0 },
+  )
+
+  return {
+    from: window.from,
+    to: window.to,
+    menusReplayed,
+    servedDays: servedDates.size,
+    cells: cellList,
+    dayRules: Array.from(dayRuleDays.entries()).map(([text, days]) => {
+      const violatedDays = dayRuleViolations.get(text)?.size || 0
+      return { rule: text, checked: !!parseDayRule(text), days, violatedDays, violationRate: rate(violatedDays, days) }
+    }),
+    totals: {
+      ...totals,
+      coverageRate: rate(totals.coveredCells, totals.servedCells),
+      violationRate: rate(totals.itemViolations, totals.itemsChecked),
+    },
+    counts,
+    untaggedItemIds: Array.from(untagged),
+  }
+}
+
+/**
+ * Lines up two evaluations of the same menus cell by cell (e.g. saved rule vs AI-inferred rule)
+ */
+export function compareRuleEvaluations(a: RuleEvaluationReport, b: RuleEvaluationReport): RuleComparisonRow[] {
+  const byKeyA = new Map(a.cells.map((c) => [c.cellKey, c]))
+  const byKeyB = new Map(b.cells.map((c) => [c.cellKey, c]))
+  const keys = Array.from(new Set([...Array.from(byKeyA.keys()), ...Array.from(byKeyB.keys())])).sort()
+  return keys.map((cellKey) => {
+    const cellA = byKeyA.get(cellKey)
+    const cellB = byKeyB.get(cellKey)
+    const [mealPlanId, subMealPlanId] = cellKey.split("|")
+    return {
+      cellKey,
+      mealPlanId,
+      subMealPlanId,
+      a: cellA,
+      b: cellB,
+      coverageDelta: (cellB?.coverageRate || 0) - (cellA?.coverageRate || 0),
+      violationDelta: (cellB?.violationRate || 0) - (cellA?.violationRate || 0),
+    }
+  })
+}
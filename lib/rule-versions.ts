@@ -0,0 +1,68 @@
+/**
+ * Planning Rule Versions
+ *
+ * Every save of a planning rule adds a version with an effective-from date (the Monday
+ * of a menu week), so a past week's menu is validated against the rule that applied then
+ * and a new rule set can be scheduled for a future week. A rule saved before versioning
+ * existed becomes the first version with effectiveFrom "" (applies to all earlier weeks).
+ */
+import type { MenuPlanningRule } from "@/lib/types"
+
+export interface MenuPlanningRuleVersion extends MenuPlanningRule {
+  id: string
+  effectiveFrom: string // YYYY-MM-DD Monday, or "" for the pre-versioning rule
+  version: number
+}
+
+export type RuleVersionStatus = "scheduled" | "active" | "superseded"
+
+export const todayKey = () => new Date().toISOString().split("T")[0]
+
+/**
+ * Monday of the week containing the given YYYY-MM-DD date
+ */
+export function getWeekStart(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7))
+  return d.toISOString().split("T")[0]
+}
+
+/**
+ * The next `count` Mondays strictly after the given date
+ */
+export function getUpcomingMondays(from: string, count: number): string[] {
+  const mondays: string[] = []
+  const d = new Date(`${getWeekStart(from)}T00:00:00Z`)
+  for (let i = 0; i < count; i++) {
+    d.setUTCDate(d.getUTCDate() + 7)
+    mondays.push(d.toISOString().split("T")[0])
+  }
+  return mondays
+}
+
+/**
+ * Newest first: later effective date, then higher version number
+ */
+export function sortRuleVersions<T extends Pick<MenuPlanningRuleVersion, "effectiveFrom" | "version">>(versions: T[]): T[] {
+  return [...versions].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.version - a.version)
+}
+
+/**
+ * The version in force on a date: the latest-saved version among those with the latest
+ * effectiveFrom on or before it. Null when every version starts later.
+ */
+export function resolveRuleVersion<T extends Pick<MenuPlanningRuleVersion, "effectiveFrom" | "version">>(
+  versions: T[],
+  asOf: string,
+): T | null {
+  return sortRuleVersions(versions).find((v) => v.effectiveFrom <= asOf) || null
+}
+
+export function getRuleVersionStatus(
+  version: MenuPlanningRuleVersion,
+  versions: MenuPlanningRuleVersion[],
+  today = todayKey(),
+): RuleVersionStatus {
+  if (version.effectiveFrom > today) return "scheduled"
+  return resolveRuleVersion(versions, today)?.id === version.id ? "active" : "superseded"
+}
@@ -1,6 +1,6 @@
 import { getDocs, collection, query, where } from "firebase/firestore"
 import { db } from "@/lib/firebase"
-import type { Service, MealPlan, SubMealPlan, MenuItem, MenuUpdation, MenuPlanningRule } from "@/lib/types"
+import type { Service, MealPlan, SubMealPlan, MenuItem, MenuUpdation, MenuPlanningRule, CompanyMenu, NutritionTarget } from "@/lib/types"
 
 export interface Company {
   id: string
@@ -15,6 +15,7 @@ export interface Building {
   name: string
   status?: string
   order?: number
+  nutritionTargets?: NutritionTarget[]
 }
 
 interface StructureAssignment {
@@ -38,9 +39,10 @@ export interface MealPlanStructureAssignment {
     [day: string]: Array<{
       serviceId: string
       subServices: Array<{
+        subServiceId?: string
         mealPlans: Array<{
           mealPlanId: string
-          subMealPlans: Array<{ subMealPlanId: string }>
+          subMealPlans: Array<{ subMealPlanId: string; maxFrequency?: number }>
         }>
       }>
     }>
@@ -231,6 +233,28 @@ export const menuItemsService = {
       )
       .slice(0, limit)
   },
+
+  // Per-item cooldown; 0 / empty clears it so the planning rule's cooldownDays applies again
+  async setCooldownDays(itemId: string, days: number | null): Promise<void> {
+    await updateDoc(doc(db, "menuItems", itemId), {
+      cooldownDays: days && days > 0 ? days : deleteField(),
+      updatedAt: serverTimestamp(),
+    })
+    clearCacheKey("menuItems-")
+  },
+}
+
+// Company Menus Service
+export const companyMenusService = {
+  async getAll(): Promise<CompanyMenu[]> {
+    return batchFetch<CompanyMenu>("companyMenus")
+  },
+
+  // Menus whose week overlaps the given date range (YYYY-MM-DD strings compare lexically)
+  async getInDateRange(startDate: string, endDate: string): Promise<CompanyMenu[]> {
+    const all = await this.getAll()
+    return all.filter((m) => m.status !== "archived" && m.startDate <= endDate && m.endDate >= startDate)
+  },
 }
 
 // Utility to clear cache (useful when data updates)
@@ -298,54 +322,105 @@ export const updationService = {
   },
 }
 
-import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore"
+import { doc, getDoc, setDoc, updateDoc, addDoc, deleteDoc, deleteField, serverTimestamp } from "firebase/firestore"
+import {
+  getWeekStart,
+  resolveRuleVersion,
+  sortRuleVersions,
+  todayKey,
+  type MenuPlanningRuleVersion,
+} from "@/lib/rule-versions"
+
+const getRuleDocId = (serviceId: string, subServiceId: string, companyId?: string | null) =>
+  companyId ? `rule_${serviceId}_${subServiceId}_${companyId}` : `rule_${serviceId}_${subServiceId}_base`
+
+async function getRuleVersionsByDocId(docId: string): Promise<MenuPlanningRuleVersion[]> {
+  const snapshot = await getDocs(collection(db, "menuPlanningRules", docId, "versions"))
+  return sortRuleVersions(snapshot.docs.map((d) => ({ id: d.id, ...d.data() } as MenuPlanningRuleVersion)))
+}
+
+// Rule in force on `asOf` (default today); rules saved before versioning only have the main document
+async function getRuleAsOf(docId: string, asOf?: string): Promise<MenuPlanningRule | null> {
+  const versions = await getRuleVersionsByDocId(docId)
+  if (versions.length > 0) return resolveRuleVersion(versions, asOf || todayKey())
+
+  const snap = await getDoc(doc(db, "menuPlanningRules", docId))
+  if (snap.exists()) return { id: snap.id, ...snap.data() } as MenuPlanningRule
+  return null
+}
 
 export const menuPlanningRulesService = {
-  // Get the base rule (no companyId) for a service/subService
-  async getBaseRule(serviceId: string, subServiceId: string): Promise<MenuPlanningRule | null> {
-    const docId = `rule_${serviceId}_${subServiceId}_base`
-    const docRef = doc(db, "menuPlanningRules", docId)
-    const snap = await getDoc(docRef)
-    if (snap.exists()) return { id: snap.id, ...snap.data() } as MenuPlanningRule
-    return null
+  // Get the base rule (no companyId) for a service/subService, as it applied on asOf (YYYY-MM-DD)
+  async getBaseRule(serviceId: string, subServiceId: string, asOf?: string): Promise<MenuPlanningRule | null> {
+    return getRuleAsOf(getRuleDocId(serviceId, subServiceId), asOf)
   },
 
-  // Get the company override rule for a service/subService
-  async getCompanyRule(serviceId: string, subServiceId: string, companyId: string): Promise<MenuPlanningRule | null> {
-    const docId = `rule_${serviceId}_${subServiceId}_${companyId}`
-    const docRef = doc(db, "menuPlanningRules", docId)
-    const snap = await getDoc(docRef)
-    if (snap.exists()) return { id: snap.id, ...snap.data() } as MenuPlanningRule
-    return null
+  // Get the company override rule for a service/subService, as it applied on asOf (YYYY-MM-DD)
+  async getCompanyRule(serviceId: string, subServiceId: string, companyId: string, asOf?: string): Promise<MenuPlanningRule | null> {
+    return getRuleAsOf(getRuleDocId(serviceId, subServiceId, companyId), asOf)
   },
 
-  // Save or update a rule (creates new if doesn't exist)
-  async saveRule(rule: Omit<MenuPlanningRule, "id">): Promise<void> {
-    const docId = rule.companyId
-      ? `rule_${rule.serviceId}_${rule.subServiceId}_${rule.companyId}`
-      : `rule_${rule.serviceId}_${rule.subServiceId}_base`
-      
+  // Every saved version, newest first
+  async getVersions(serviceId: string, subServiceId: string, companyId?: string | null): Promise<MenuPlanningRuleVersion[]> {
+    return getRuleVersionsByDocId(getRuleDocId(serviceId, subServiceId, companyId))
+  },
+
+  // Cancels a scheduled version; versions already in force are kept as history
+  async deleteScheduledVersion(serviceId: string, subServiceId: string, companyId: string | null | undefined, versionId: string): Promise<void> {
+    const docId = getRuleDocId(serviceId, subServiceId, companyId)
+    const versionRef = doc(db, "menuPlanningRules", docId, "versions", versionId)
+    const snap = await getDoc(versionRef)
+    if (!snap.exists()) return
+    if ((snap.data().effectiveFrom || "") <= todayKey()) throw new Error("Only scheduled rule versions can be cancelled")
+    await deleteDoc(versionRef)
+  },
+
+  /**
+   * Saves a rule as a new version effective from `effectiveFrom` (a Monday; defaults to the
+   * current week's Monday). The main document keeps the latest version already in force.
+   */
+  async saveRule(rule: Omit<MenuPlanningRule, "id">, effectiveFrom?: string): Promise<void> {
+    const docId = getRuleDocId(rule.serviceId, rule.subServiceId, rule.companyId)
     const docRef = doc(db, "menuPlanningRules", docId)
+    const versionsRef = collection(db, "menuPlanningRules", docId, "versions")
     const snap = await getDoc(docRef)
+    const today = todayKey()
+    const startsOn = effectiveFrom || getWeekStart(today)
     
-    const cleanedRule = { ...rule }
+    const { id: _id, version: _version, effectiveFrom: _from, createdAt: _created, updatedAt: _updated, ...cleanedRule } =
+      rule as MenuPlanningRule
     if (cleanedRule.companyId === undefined) {
       delete cleanedRule.companyId
     }
-    
+    if (cleanedRule.cooldownDays === undefined) {
+      delete cleanedRule.cooldownDays
+    }
+
+    // The first versioned save keeps the rule that applied until now as version 1
+    const versions = await getRuleVersionsByDocId(docId)
+    let nextVersion = Math.max(0, ...versions.map((v) => v.version || 0)) + 1
+    if (versions.length === 0 && snap.exists()) {
+      const { id: _legacyId, createdAt: _legacyCreated, updatedAt: legacyUpdated, ...legacyRule } = snap.data() as MenuPlanningRule
+      await addDoc(versionsRef, { ...legacyRule, effectiveFrom: "", version: 1, createdAt: legacyUpdated || serverTimestamp() })
+      nextVersion = 2
+    }
+    await addDoc(versionsRef, { ...cleanedRule, effectiveFrom: startsOn, version: nextVersion, createdAt: serverTimestamp() })
+
+    if (startsOn > today) return
     if (snap.exists()) {
-      await updateDoc(docRef, { ...cleanedRule, updatedAt: serverTimestamp() })
+      await updateDoc(docRef, { ...cleanedRule, effectiveFrom: startsOn, version: nextVersion, updatedAt: serverTimestamp() })
     } else {
-      await setDoc(docRef, { ...cleanedRule, createdAt: serverTimestamp(), updatedAt: serverTimestamp() })
+      await setDoc(docRef, { ...cleanedRule, effectiveFrom: startsOn, version: nextVersion, createdAt: serverTimestamp(), updatedAt: serverTimestamp() })
     }
   },
 
   // Helper function to get merged rules (Company rules override Base rules where they exist)
-  async getMergedRule(serviceId: string, subServiceId: string, companyId?: string | null): Promise<MenuPlanningRule | null> {
-    const baseRule = await this.getBaseRule(serviceId, subServiceId)
+  // asOf (YYYY-MM-DD, default today) picks the rule versions that applied on that date
+  async getMergedRule(serviceId: string, subServiceId: string, companyId?: string | null, asOf?: string): Promise<MenuPlanningRule | null> {
+    const baseRule = await this.getBaseRule(serviceId, subServiceId, asOf)
     if (!companyId) return baseRule
 
-    const companyRule = await this.getCompanyRule(serviceId, subServiceId, companyId)
+    const companyRule = await this.getCompanyRule(serviceId, subServiceId, companyId, asOf)
     if (!companyRule) return baseRule
     if (!baseRule) return companyRule
 
@@ -368,6 +443,8 @@ export const menuPlanningRulesService = {
       serviceId,
       subServiceId,
       companyId,
+      grandRules: Array.from(new Set([...(baseRule.grandRules || []), ...(companyRule.grandRules || [])])),
+      cooldownDays: companyRule.cooldownDays ?? baseRule.cooldownDays,
       dayRules: mergedDayRules
     }
   }
@@ -0,0 +1,186 @@
+/**
+ * Ticket SLA Engine
+ *
+ * Deadline and escalation math for support tickets, shared by ticket creation, status
+ * changes and the scheduled escalation route:
+ * - the SLA policy for a ticket is the most specific active one: company + category,
+ *   then company, then category, then the global default
+ * - the SLA clock only runs inside the policy's business hours (in the policy's UTC
+ *   offset) and optionally stops on corporate-calendar holidays
+ * - while a ticket is "Awaiting Client" the clock is paused; on resume the deadline moves
+ *   out by the SLA time spent paused
+ * - escalation level N is due `escalationAfterHours[N - 1]` SLA hours after the breach and
+ *   goes to the Nth manager up the assignee's managerId chain
+ */
+import { isHolidayFor } from "@/lib/billing"
+import type { Holiday } from "@/lib/firestore"
+import type { SlaPolicy } from "@/lib/firestore/slaPoliciesService"
+import type { Ticket, TicketPriority } from "@/lib/firestore/ticketService"
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const MAX_DAYS_SCANNED = 3660
+
+export const DEFAULT_SLA_HOURS: Record<TicketPriority, number> = {
+  Low: 72,
+  Medium: 48,
+  High: 24,
+  Critical: 4,
+}
+
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  id: "",
+  name: "Default",
+  companyId: "",
+  category: "",
+  resolutionHours: DEFAULT_SLA_HOURS,
+  businessHours: { enabled: false, start: "09:00", end: "18:00", workDays: [1, 2, 3, 4, 5] },
+  excludeHolidays: false,
+  pauseWhileAwaitingClient: true,
+  escalationAfterHours: [0, 24],
+  utcOffsetMinutes: 330,
+  active: true,
+}
+
+export interface SlaCalendar {
+  businessHours: SlaPolicy["businessHours"]
+  utcOffsetMinutes: number
+  isHoliday: (date: string) => boolean
+}
+
+export function resolveSlaPolicy(policies: SlaPolicy[], companyId: string, category?: string): SlaPolicy {
+  const active = policies.filter((p) => p.active)
+  const cat = category || ""
+  return (
+    active.find((p) => p.companyId === companyId && p.category && p.category === cat) ||
+    active.find((p) => p.companyId === companyId && !p.category) ||
+    active.find((p) => !p.companyId && p.category && p.category === cat) ||
+    active.find((p) => !p.companyId && !p.category) ||
+    DEFAULT_SLA_POLICY
+  )
+}
+
+export function buildSlaCalendar(policy: SlaPolicy, holidays: Holiday[], companyId: string, buildingId?: string): SlaCalendar {
+  return {
+    businessHours: policy.businessHours,
+    utcOffsetMinutes: policy.utcOffsetMinutes ?? DEFAULT_SLA_POLICY.utcOffsetMinutes,
+    isHoliday: policy.excludeHolidays
+      ? (date) => holidays.some((h) => isHolidayFor(h, date, companyId, buildingId || ""))
+      : () => false,
+  }
+}
+
+const parseTime = (value: string) => {
+  const [h, m] = (value || "0:0").split(":").map(Number)
+  return ((h || 0) * 60 + (m || 0)) * 60 * 1000
+}
+
+/**
+ * The SLA window of the local day starting at `dayStart` (local ms), or null when the
+ * clock doesn't run that day
+ */
+function dayWindow(dayStart: number, calendar: SlaCalendar): [number, number] | null {
+  const day = new Date(dayStart)
+  if (calendar.isHoliday(day.toISOString().split("T")[0])) return null
+  const hours = calendar.businessHours
+  if (!hours?.enabled) return [dayStart, dayStart + DAY_MS]
+  if (!hours.workDays.includes(day.getUTCDay())) return null
+  const start = dayStart + parseTime(hours.start)
+  const end = dayStart + parseTime(hours.end)
+  return end > start ? [start, end] : null
+}
+
+/**
+ * Moves `durationMs` of SLA time forward from `startMs`, skipping time outside the calendar
+ */
+export function addSlaTime(startMs: number, durationMs: number, calendar: SlaCalendar): number {
+  const offset = calendar.utcOffsetMinutes * 60 * 1000
+  let local = startMs + offset
+  let remaining = durationMs
+  if (remaining <= 0) return startMs
+  for (let i = 0; i < MAX_DAYS_SCANNED; i++) {
+    const dayStart = Math.floor(local / DAY_MS) * DAY_MS
+    const window = dayWindow(dayStart, calendar)
+    if (window) {
+      const from = Math.max(local, window[0])
+      if (from < window[1]) {
+        const available = window[1] - from
+        if (available >= remaining) return from + remaining - offset
+        remaining -= available
+      }
+    }
+    local = dayStart + DAY_MS
+  }
+  return local - offset
+}
+
+/**
+ * SLA time that elapsed between two instants
+ */
+export function slaTimeBetween(fromMs: number, toMs: number, calendar: SlaCalendar): number {
+  const offset = calendar.utcOffsetMinutes * 60 * 1000
+  const end = toMs + offset
+  let local = fromMs + offset
+  let total = 0
+  for (let i = 0; i < MAX_DAYS_SCANNED && local < end; i++) {
+    const dayStart = Math.floor(local / DAY_MS) * DAY_MS
+    const window = dayWindow(dayStart, calendar)
+    if (window) total += Math.max(0, Math.min(end, window[1]) - Math.max(local, window[0]))
+    local = dayStart + DAY_MS
+  }
+  return total
+}
+
+export function computeSlaBreachAt(createdMs: number, priority: TicketPriority, policy: SlaPolicy, calendar: SlaCalendar): number {
+  const hours = policy.resolutionHours?.[priority] ?? DEFAULT_SLA_HOURS[priority]
+  return addSlaTime(createdMs, hours * HOUR_MS, calendar)
+}
+
+export const isTicketOpen = (ticket: Pick<Ticket, "status">) => ticket.status !== "Resolved" && ticket.status !== "Closed"
+
+export function isSlaBreached(ticket: Pick<Ticket, "status" | "slaBreachAt" | "slaPausedAt">, now = Date.now()): boolean {
+  return isTicketOpen(ticket) && !ticket.slaPausedAt && ticket.slaBreachAt.toMillis() < now
+}
+
+/**
+ * Highest escalation level due at `now` (0 when none); paused and closed tickets stay put
+ */
+export function getDueEscalationLevel(
+  ticket: Pick<Ticket, "status" | "slaBreachAt" | "slaPausedAt" | "escalationLevel">,
+  policy: SlaPolicy,
+  calendar: SlaCalendar,
+  now = Date.now(),
+): number {
+  const current = ticket.escalationLevel || 0
+  if (!isSlaBreached(ticket, now)) return current
+  const breachMs = ticket.slaBreachAt.toMillis()
+  let due = 0
+  ;(policy.escalationAfterHours || []).forEach((hours, i) => {
+    if (addSlaTime(breachMs, hours * HOUR_MS, calendar) <= now) due = i + 1
+  })
+  return Math.max(current, due)
+}
+
+export interface EscalationContact {
+  id: string
+  name: string
+  email?: string
+  managerId?: string
+}
+
+/**
+ * Managers above a user, nearest first (stops on missing links and cycles)
+ */
+export function getManagerChain(userId: string | undefined, users: Map<string, EscalationContact>): EscalationContact[] {
+  const chain: EscalationContact[] = []
+  const seen = new Set<string>(userId ? [userId] : [])
+  let managerId = userId ? users.get(userId)?.managerId : undefined
+  while (managerId && managerId !== "none" && !seen.has(managerId)) {
+    const manager = users.get(managerId)
+    if (!manager) break
+    chain.push(manager)
+    seen.add(managerId)
+    managerId = manager.managerId
+  }
+  return chain
+}
@@ -0,0 +1,173 @@
+/**
+ * Minimal SMTP transport (server-only)
+ *
+ * Speaks plain SMTP over `net`/`tls` so notification emails can go to any SMTP server,
+ * including a local mock (MailHog, smtp4dev, `python -m aiosmtpd`) during testing.
+ * Supports EHLO, optional AUTH LOGIN and implicit TLS (SMTP_SECURE=true); no STARTTLS.
+ *
+ * Env: SMTP_HOST, SMTP_PORT (default 1025), SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM
+ */
+import net from "net"
+import tls from "tls"
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+  timeoutMs: number
+}
+
+export interface MailMessage {
+  to: string[]
+  subject: string
+  text: string
+  html?: string
+}
+
+function getEnv(name: string): string | undefined {
+  const v = process.env[name]
+  if (!v) return undefined
+  const t = v.trim()
+  return t.length ? t : undefined
+}
+
+/**
+ * Reads the transport settings from env; null when SMTP_HOST is not configured
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = getEnv("SMTP_HOST")
+  if (!host) return null
+  return {
+    host,
+    port: Number(getEnv("SMTP_PORT") || 1025),
+    secure: getEnv("SMTP_SECURE") === "true",
+    user: getEnv("SMTP_USER"),
+    pass: getEnv("SMTP_PASS"),
+    from: getEnv("SMTP_FROM") || "no-reply@cookhouse.local",
+    timeoutMs: Number(getEnv("SMTP_TIMEOUT_MS") || 15000),
+  }
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`
+
+const base64Body = (value: string) =>
+  (Buffer.from(value, "utf8").toString("base64").match(/.{1,76}/g) || []).join("\r\n")
+
+function buildMessage(from: string, message: MailMessage): string {
+  const boundary = `----cookhouse-${Date.now().toString(36)}`
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+  ]
+
+  if (!message.html) {
+    return [
+      ...headers,
+      "Content-Type: text/plain; charset=UTF-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Body(message.text),
+    ].join("\r\n")
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(message.html),
+    `--${boundary}--`,
+  ].join("\r\n")
+}
+
+/**
+ * Sends one message. Rejects with the server's reply when any command is refused.
+ */
+export function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port })
+
+    let buffer = ""
+    let waiting: ((reply: { code: number; text: string }) => void) | null = null
+    let settled = false
+
+    const finish = (error?: Error) => {
+      if (settled) return
+      settled = true
+      if (error) {
+        socket.destroy()
+        reject(error)
+      } else {
+        socket.end("QUIT\r\n")
+        resolve()
+      }
+    }
+
+    socket.setTimeout(config.timeoutMs, () => finish(new Error("SMTP connection timed out")))
+    socket.on("error", (error) => finish(error))
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8")
+      // A reply is complete once its last line has a space after the code ("250 OK")
+      const lines = buffer.split("\r\n").filter(Boolean)
+      const last = lines[lines.length - 1]
+      if (!buffer.endsWith("\r\n") || !last || !/^\d{3} /.test(last)) return
+      const reply = { code: Number(last.slice(0, 3)), text: lines.join("\n") }
+      buffer = ""
+      const callback = waiting
+      waiting = null
+      callback?.(reply)
+    })
+
+    const readReply = () => new Promise<{ code: number; text: string }>((res) => (waiting = res))
+
+    const command = async (line: string | null, expected: number[]) => {
+      const replyPromise = readReply()
+      if (line !== null) socket.write(`${line}\r\n`)
+      const reply = await replyPromise
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP ${line?.split(" ")[0] || "greeting"} failed: ${reply.text}`)
+      }
+      return reply
+    }
+
+    const run = async () => {
+      await command(null, [220])
+      await command(`EHLO ${config.host === "localhost" ? "localhost" : "cookhouse"}`, [250])
+      if (config.user && config.pass) {
+        await command("AUTH LOGIN", [334])
+        await command(Buffer.from(config.user).toString("base64"), [334])
+        await command(Buffer.from(config.pass).toString("base64"), [235])
+      }
+      await command(`MAIL FROM:<${config.from.replace(/^.*<|>.*$/g, "")}>`, [250])
+      for (const recipient of message.to) {
+        await command(`RCPT TO:<${recipient}>`, [250, 251])
+      }
+      await command("DATA", [354])
+      // Dot-stuff lines that start with "." so they aren't read as the terminator
+      const body = buildMessage(config.from, message).replace(/\r\n\./g, "\r\n..")
+      await command(`${body}\r\n.`, [250])
+      finish()
+    }
+
+    socket.once(config.secure ? "secureConnect" : "connect", () => {
+      run().catch((error) => finish(error))
+    })
+  })
+}
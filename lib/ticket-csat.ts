@@ -0,0 +1,105 @@
+/**
+ * Ticket CSAT
+ *
+ * Customer-satisfaction survey helpers shared by the public report/track pages, the CSAT
+ * submission route and the admin trends page:
+ * - the reporter's browser gets a random token when the ticket is raised; only its SHA-256
+ *   hash is stored on the ticket, and the survey link carries the raw token
+ * - a ticket can be rated once per resolution (a reopen and re-resolve asks again)
+ * - ratings at or below CSAT_LOW_SCORE trigger the low-score action (reopen and/or notify
+ *   the assignee's manager)
+ * - trends group responses per assignee or building into ISO-week buckets
+ */
+
+export const CSAT_LOW_SCORE = 2
+export const CSAT_TOKEN_STORAGE_KEY = "cookhouse_ticket_tokens"
+
+export function createReporterToken(): string {
+  const bytes = new Uint8Array(24)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+export async function hashReporterToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")
+}
+
+export const isLowCsat = (rating: number) => rating <= CSAT_LOW_SCORE
+
+/**
+ * Whether the reporter can rate the ticket's current resolution
+ */
+export function isCsatDue(ticket: {
+  status: string
+  resolvedAt?: { toMillis(): number } | null
+  csat?: { resolvedAtMs?: number } | null
+}): boolean {
+  if (ticket.status !== "Resolved" && ticket.status !== "Closed") return false
+  const resolvedAtMs = ticket.resolvedAt?.toMillis() ?? 0
+  return !ticket.csat || ticket.csat.resolvedAtMs !== resolvedAtMs
+}
+
+export interface CsatResponseLike {
+  rating: number
+  submittedAtMs: number
+  assigneeId?: string
+  assigneeName?: string
+  buildingId?: string
+  buildingName?: string
+}
+
+export interface CsatTrendRow {
+  key: string
+  label: string
+  count: number
+  average: number
+  lowCount: number
+  weeks: { weekStart: string; count: number; average: number | null }[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Monday (UTC) of the week containing `ms`, as YYYY-MM-DD
+export const weekStartOf = (ms: number) => {
+  const day = new Date(ms)
+  const offset = (day.getUTCDay() + 6) % 7
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() - offset)).toISOString().split("T")[0]
+}
+
+/**
+ * Average rating per assignee or building, with the last `weeks` ISO weeks up to `now`
+ */
+export function summarizeCsat(
+  responses: CsatResponseLike[],
+  by: "assignee" | "building",
+  weeks = 8,
+  now = Date.now(),
+): CsatTrendRow[] {
+  const weekStarts = Array.from({ length: weeks }, (_, i) => weekStartOf(now - (weeks - 1 - i) * 7 * DAY_MS))
+  const groups = new Map<string, { label: string; ratings: CsatResponseLike[] }>()
+
+  responses.forEach((r) => {
+    const key = (by === "assignee" ? r.assigneeId : r.buildingId) || ""
+    const label = (by === "assignee" ? r.assigneeName : r.buildingName) || (by === "assignee" ? "Unassigned" : "Unknown building")
+    const group = groups.get(key) || { label, ratings: [] }
+    group.ratings.push(r)
+    groups.set(key, group)
+  })
+
+  const average = (list: CsatResponseLike[]) => list.reduce((sum, r) => sum + r.rating, 0) / list.length
+
+  return Array.from(groups.entries())
+    .map(([key, { label, ratings }]) => ({
+      key,
+      label,
+      count: ratings.length,
+      average: Math.round(average(ratings) * 100) / 100,
+      lowCount: ratings.filter((r) => isLowCsat(r.rating)).length,
+      weeks: weekStarts.map((weekStart) => {
+        const inWeek = ratings.filter((r) => weekStartOf(r.submittedAtMs) === weekStart)
+        return { weekStart, count: inWeek.length, average: inWeek.length ? Math.round(average(inWeek) * 10) / 10 : null }
+      }),
+    }))
+    .sort((a, b) => a.average - b.average || b.count - a.count)
+}
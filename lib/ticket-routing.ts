@@ -0,0 +1,228 @@
+/**
+ * Ticket Routing
+ *
+ * Picks an assignee for a new ticket and explains the pick:
+ * - the first active routing rule (by order) matching the ticket's company and category
+ *   decides who is eligible; without one every vendor staff member on the company is
+ * - eligible people are scored on how close their assignment is to where the ticket was
+ *   raised (cafeteria, then building, then company), whether their skillTags cover the
+ *   ticket category, whether they are on shift now and how many open tickets they hold
+ * - rules can turn skill, shift and load into hard requirements; when nobody passes them
+ *   the ticket goes round-robin across everyone the rule would otherwise allow
+ * Every decision keeps a per-candidate breakdown so the dashboard can show why.
+ */
+import type { User } from "@/lib/firestore/usersService"
+import type { TicketRoutingRule } from "@/lib/firestore/ticketRoutingService"
+
+export const ROUTING_WEIGHTS = {
+  cafeteria: 30,
+  building: 20,
+  company: 10,
+  skill: 25,
+  onShift: 20,
+  perOpenTicket: -5,
+}
+
+const MAX_STORED_CANDIDATES = 10
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+export const DEFAULT_ROUTING_RULE: TicketRoutingRule = {
+  id: "",
+  name: "Default",
+  order: 0,
+  companyId: "",
+  category: "",
+  roleKeys: [],
+  requireSkillMatch: false,
+  requireOnShift: false,
+  maxOpenTickets: 0,
+  active: true,
+}
+
+export interface RoutingTicket {
+  companyId: string
+  buildingId?: string
+  cafeId?: string
+  category?: string
+}
+
+export interface ShiftWindow {
+  startTime: string // HH:MM
+  endTime: string
+}
+
+export interface RoutingCandidate {
+  userId: string
+  userName: string
+  location: "cafeteria" | "building" | "company"
+  skillMatch: boolean
+  onShift: boolean
+  openTickets: number
+  score: number
+  excludedReason?: string
+}
+
+export interface TicketRoutingDecision {
+  ruleId: string
+  ruleName: string
+  method: "scored" | "round-robin" | "unassigned"
+  assigneeId?: string
+  assigneeName?: string
+  reasons: string[]
+  pickReason?: string // the line of `reasons` explaining why the assignee was chosen
+  candidates: RoutingCandidate[]
+  routedAt: number
+}
+
+export interface RoutingInput {
+  ticket: RoutingTicket
+  rules: TicketRoutingRule[]
+  users: User[]
+  openTicketCounts: Record<string, number>
+  shifts: Map<string, ShiftWindow> // `${cafeteriaId}:${shiftId}`, cafeteriaId 'global' for global shifts
+  roundRobinCursors: Record<string, string>
+  now?: Date
+}
+
+export const shiftKey = (cafeteriaId: string, shiftId: string) => `${cafeteriaId}:${shiftId}`
+
+const toMinutes = (value: string) => {
+  const [h, m] = (value || "").split(":").map(Number)
+  return (h || 0) * 60 + (m || 0)
+}
+
+/**
+ * Whether `now` (local time) falls inside one of the user's assigned shifts. Shifts without
+ * workDays run every day, matching the attendance tracker; overnight shifts count against
+ * the day they started on.
+ */
+export function isUserOnShift(user: Pick<User, "assignedShifts">, shifts: Map<string, ShiftWindow>, now: Date): boolean {
+  const minute = now.getHours() * 60 + now.getMinutes()
+  const today = DAY_NAMES[now.getDay()]
+  const yesterday = DAY_NAMES[(now.getDay() + 6) % 7]
+  const worksOn = (workDays: string[] | undefined, day: string) => !workDays?.length || workDays.includes(day)
+
+  return (user.assignedShifts || []).some((assignment) => {
+    const shift = shifts.get(shiftKey(assignment.cafeteriaId, assignment.shiftId))
+    if (!shift?.startTime || !shift.endTime) return false
+    const start = toMinutes(shift.startTime)
+    const end = toMinutes(shift.endTime)
+    if (end > start) return worksOn(assignment.workDays, today) && minute >= start && minute < end
+    // Crosses midnight: evening part belongs to today, early-morning part to yesterday
+    return (worksOn(assignment.workDays, today) && minute >= start) || (worksOn(assignment.workDays, yesterday) && minute < end)
+  })
+}
+
+export function findRoutingRule(rules: TicketRoutingRule[], ticket: RoutingTicket): TicketRoutingRule {
+  const category = (ticket.category || "").toLowerCase()
+  return (
+    rules
+      .filter((r) => r.active)
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .find(
+        (r) => (!r.companyId || r.companyId === ticket.companyId) && (!r.category || r.category.toLowerCase() === category),
+      ) || DEFAULT_ROUTING_RULE
+  )
+}
+
+const describe = (c: RoutingCandidate, category?: string) =>
+  [
+    `${c.location} match`,
+    category ? (c.skillMatch ? `handles ${category}` : `no ${category} skill`) : null,
+    c.onShift ? "on shift" : "off shift",
+    `${c.openTickets} open ticket${c.openTickets === 1 ? "" : "s"}`,
+  ]
+    .filter(Boolean)
+    .join(", ")
+
+/**
+ * Next person after `cursor` in a stable (id) order, wrapping around
+ */
+function nextRoundRobin(pool: RoutingCandidate[], cursor?: string): RoutingCandidate | undefined {
+  const ordered = [...pool].sort((a, b) => a.userId.localeCompare(b.userId))
+  return ordered.find((c) => cursor && c.userId > cursor) || ordered[0]
+}
+
+export function routeTicket(input: RoutingInput): TicketRoutingDecision {
+  const { ticket, users, openTicketCounts, shifts, roundRobinCursors } = input
+  const now = input.now || new Date()
+  const rule = findRoutingRule(input.rules, ticket)
+  const category = ticket.category || ""
+  const reasons: string[] = [
+    rule.id ? `Rule "${rule.name}" matched ${rule.companyName || (rule.companyId ? "this company" : "all companies")} / ${rule.category || "all categories"}` : "No routing rule matched; using the default pool",
+  ]
+
+  const pool: RoutingCandidate[] = users
+    .filter(
+      (u) =>
+        u.status !== "inactive" &&
+        u.userType === "vendor_staff" &&
+        (u.companyIds || []).includes(ticket.companyId) &&
+        (rule.roleKeys.length === 0 || rule.roleKeys.includes(u.roleKey)),
+    )
+    .map((u) => {
+      const location: RoutingCandidate["location"] =
+        ticket.cafeId && (u.cafeteriaIds || []).includes(ticket.cafeId)
+          ? "cafeteria"
+          : ticket.buildingId && (u.buildingIds || []).includes(ticket.buildingId)
+            ? "building"
+            : "company"
+      const skillMatch = !!category && (u.skillTags || []).some((t) => t.toLowerCase() === category.toLowerCase())
+      const onShift = isUserOnShift(u, shifts, now)
+      const openTickets = openTicketCounts[u.id] || 0
+      const score =
+        ROUTING_WEIGHTS[location] +
+        (skillMatch ? ROUTING_WEIGHTS.skill : 0) +
+        (onShift ? ROUTING_WEIGHTS.onShift : 0) +
+        openTickets * ROUTING_WEIGHTS.perOpenTicket
+
+      let excludedReason: string | undefined
+      if (rule.requireSkillMatch && category && !skillMatch) excludedReason = `no ${category} skill tag`
+      else if (rule.requireOnShift && !onShift) excludedReason = "not on shift"
+      else if (rule.maxOpenTickets > 0 && openTickets >= rule.maxOpenTickets) excludedReason = `at capacity (${openTickets}/${rule.maxOpenTickets})`
+
+      return { userId: u.id, userName: u.name, location, skillMatch, onShift, openTickets, score, excludedReason }
+    })
+
+  // Best score first; fewer open tickets breaks ties, then the round-robin order
+  const cursor = roundRobinCursors[rule.id || "default"]
+  const rrIndex = (id: string) => (cursor && id > cursor ? 0 : 1)
+  pool.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.openTickets - b.openTickets ||
+      rrIndex(a.userId) - rrIndex(b.userId) ||
+      a.userId.localeCompare(b.userId),
+  )
+  const candidates = pool.slice(0, MAX_STORED_CANDIDATES)
+  const decision = { ruleId: rule.id, ruleName: rule.name, reasons, candidates, routedAt: now.getTime() }
+
+  if (pool.length === 0) {
+    reasons.push(
+      rule.roleKeys.length
+        ? `No active vendor staff with role ${rule.roleKeys.join(" / ")} is assigned to this company`
+        : "No active vendor staff is assigned to this company",
+    )
+    return { ...decision, method: "unassigned" }
+  }
+
+  const eligible = pool.filter((c) => !c.excludedReason)
+  if (eligible.length > 0) {
+    const pick = eligible[0]
+    const pickReason = `Picked ${pick.userName} (score ${pick.score}): ${describe(pick, category)}`
+    reasons.push(pickReason)
+    const runnerUp = eligible[1]
+    if (runnerUp) reasons.push(`Next best ${runnerUp.userName} (score ${runnerUp.score}): ${describe(runnerUp, category)}`)
+    const excluded = pool.length - eligible.length
+    if (excluded > 0) reasons.push(`${excluded} other${excluded === 1 ? "" : "s"} excluded by the rule's requirements`)
+    return { ...decision, method: "scored", assigneeId: pick.userId, assigneeName: pick.userName, pickReason }
+  }
+
+  const pick = nextRoundRobin(pool, cursor)!
+  const pickReason = `Round-robin fallback picked ${pick.userName}: ${describe(pick, category)}`
+  reasons.push(
+    `Nobody met the rule's requirements (${Array.from(new Set(pool.map((c) => c.excludedReason))).join("; ")})`,
+    pickReason,
+  )
+  return { ...decision, method: "round-robin", assigneeId: pick.userId, assigneeName: pick.userName, pickReason }
+}
@@ -0,0 +1,201 @@
+/**
+ * Ticket ↔ Google Sheets Sync
+ *
+ * Row mapping and sync planning for the ticket sheet, independent of where the sheet lives:
+ * - one row per ticket, keyed by the Ticket ID in column A; pushes update that row in place
+ *   (or append it once), so re-sending the same ticket is a no-op
+ * - reading and appending aren't atomic, so only the scheduled outbox flush appends; the
+ *   immediate push after a change defers tickets that have no row yet
+ * - the first eleven columns keep the layout of the original append-only export, newer
+ *   fields are added to the right
+ * - Status and Priority may be edited in the sheet; an edit is a cell that differs from
+ *   what we last pushed, and it only wins if the ticket hasn't changed in the app since
+ * Backends implement `SheetBackend`; `InMemorySheetBackend` stands in for Google Sheets
+ * when running offline.
+ */
+import type { Ticket, TicketComment, TicketPriority, TicketStatus } from "@/lib/firestore/ticketService"
+
+export const SHEET_COLUMNS = [
+  "Ticket ID",
+  "Date",
+  "Priority",
+  "Category",
+  "Status",
+  "Company",
+  "Building",
+  "Reporter",
+  "Title",
+  "Description",
+  "Photos",
+  "Assignee",
+  "Comments",
+  "Last Comment",
+  "Reopens",
+  "Updated At",
+] as const
+
+const col = (name: (typeof SHEET_COLUMNS)[number]) => SHEET_COLUMNS.indexOf(name)
+export const SHEET_RANGE = `A:${String.fromCharCode(64 + SHEET_COLUMNS.length)}`
+
+const TICKET_STATUSES: TicketStatus[] = ["Open", "In Progress", "Awaiting Client", "Resolved", "Closed"]
+const TICKET_PRIORITIES: TicketPriority[] = ["Low", "Medium", "High", "Critical"]
+
+export interface SheetBackend {
+  /** Every row of the sheet, top to bottom (row 1 first) */
+  readRows(): Promise<string[][]>
+  /** Overwrites whole rows; rowNumber is 1-based */
+  updateRows(updates: { rowNumber: number; values: string[] }[]): Promise<void>
+  appendRows(rows: string[][]): Promise<void>
+}
+
+export class InMemorySheetBackend implements SheetBackend {
+  rows: string[][]
+
+  constructor(rows: string[][] = []) {
+    this.rows = rows.map((r) => [...r])
+  }
+
+  async readRows() {
+    return this.rows.map((r) => [...r])
+  }
+
+  async updateRows(updates: { rowNumber: number; values: string[] }[]) {
+    updates.forEach(({ rowNumber, values }) => {
+      while (this.rows.length < rowNumber) this.rows.push([])
+      this.rows[rowNumber - 1] = [...values]
+    })
+  }
+
+  async appendRows(rows: string[][]) {
+    this.rows.push(...rows.map((r) => [...r]))
+  }
+}
+
+export function ticketToSheetRow(ticket: Ticket, comments: TicketComment[]): string[] {
+  const last = comments[comments.length - 1]
+  const row: string[] = new Array(SHEET_COLUMNS.length).fill("")
+  row[col("Ticket ID")] = ticket.id
+  row[col("Date")] = ticket.createdAt.toDate().toISOString()
+  row[col("Priority")] = ticket.priority
+  row[col("Category")] = ticket.category || ""
+  row[col("Status")] = ticket.status
+  row[col("Company")] = ticket.companyName
+  row[col("Building")] = ticket.buildingName || ""
+  row[col("Reporter")] = ticket.creatorName
+  row[col("Title")] = ticket.title
+  row[col("Description")] = ticket.description
+  row[col("Photos")] = (ticket.photos || []).join(", ")
+  row[col("Assignee")] = ticket.assigneeName || ""
+  row[col("Comments")] = String(comments.length)
+  row[col("Last Comment")] = last ? `${last.userName}: ${last.text}` : ""
+  row[col("Reopens")] = String(ticket.reopenCount || 0)
+  row[col("Updated At")] = ticket.updatedAt.toDate().toISOString()
+  return row
+}
+
+const normalize = (row: string[]) => SHEET_COLUMNS.map((_, i) => String(row[i] ?? ""))
+const sameRow = (a: string[], b: string[]) => {
+  const right = normalize(b)
+  return normalize(a).every((v, i) => v === right[i])
+}
+
+/**
+ * Sheet row number (1-based) of each ticket; the first row wins if an old append-only
+ * export left duplicates
+ */
+export function indexSheetRows(existing: string[][]): Map<string, number> {
+  const index = new Map<string, number>()
+  existing.forEach((row, i) => {
+    const id = (row[col("Ticket ID")] || "").trim()
+    if (id && id !== SHEET_COLUMNS[0] && !index.has(id)) index.set(id, i + 1)
+  })
+  return index
+}
+
+export interface SheetUpsertPlan {
+  updates: { rowNumber: number; values: string[] }[]
+  appends: string[][]
+  unchanged: string[]
+  deferred: string[] // not in the sheet yet and appending wasn't allowed
+}
+
+export function planSheetUpsert(existing: string[][], rows: string[][]): SheetUpsertPlan {
+  const index = indexSheetRows(existing)
+  const plan: SheetUpsertPlan = { updates: [], appends: [], unchanged: [], deferred: [] }
+  const appended = new Set<string>()
+  rows.forEach((row) => {
+    const id = row[col("Ticket ID")]
+    const rowNumber = index.get(id)
+    if (rowNumber === undefined) {
+      if (!appended.has(id)) plan.appends.push(row)
+      appended.add(id)
+    } else if (sameRow(existing[rowNumber - 1], row)) {
+      plan.unchanged.push(id)
+    } else {
+      plan.updates.push({ rowNumber, values: row })
+    }
+  })
+  return plan
+}
+
+export async function upsertSheetRows(
+  backend: SheetBackend,
+  rows: string[][],
+  { allowAppend = true }: { allowAppend?: boolean } = {},
+): Promise<SheetUpsertPlan> {
+  const existing = await backend.readRows()
+  const plan = planSheetUpsert(existing, rows)
+  if (!allowAppend) {
+    plan.deferred = plan.appends.map((row) => row[col("Ticket ID")])
+    plan.appends = []
+  }
+  // A brand-new sheet gets a header row first
+  if (existing.length === 0 && plan.appends.length > 0) plan.appends.unshift([...SHEET_COLUMNS])
+  if (plan.updates.length > 0) await backend.updateRows(plan.updates)
+  if (plan.appends.length > 0) await backend.appendRows(plan.appends)
+  return plan
+}
+
+/** Cell values last written to the sheet for the editable columns */
+export interface PushedSheetValues {
+  status: string
+  priority: string
+}
+
+export const pushedValuesOf = (row: string[]): PushedSheetValues => ({
+  status: row[col("Status")],
+  priority: row[col("Priority")],
+})
+
+export interface SheetEdit {
+  ticketId: string
+  field: "status" | "priority"
+  value: string
+  outcome: "apply" | "conflict" | "invalid"
+}
+
+/**
+ * Status / priority cells changed in the sheet since our last push. An edit is applied when
+ * the app still holds the pushed value, and is a conflict (the app wins) when both changed.
+ */
+export function findSheetEdits(
+  existing: string[][],
+  tickets: Map<string, Pick<Ticket, "status" | "priority"> & { pushed?: PushedSheetValues }>,
+): SheetEdit[] {
+  const edits: SheetEdit[] = []
+  indexSheetRows(existing).forEach((rowNumber, ticketId) => {
+    const ticket = tickets.get(ticketId)
+    if (!ticket?.pushed) return
+    const row = existing[rowNumber - 1]
+    const check = (field: SheetEdit["field"], cell: string, allowed: string[]) => {
+      const value = (cell || "").trim()
+      const pushed = ticket.pushed![field]
+      if (value === pushed) return
+      const outcome = !allowed.includes(value) ? "invalid" : ticket[field] === pushed ? "apply" : "conflict"
+      edits.push({ ticketId, field, value, outcome })
+    }
+    check("status", row[col("Status")], TICKET_STATUSES)
+    check("priority", row[col("Priority")], TICKET_PRIORITIES)
+  })
+  return edits
+}
@@ -1,3 +1,5 @@
+export type AiTagField = "color" | "cuisine" | "primaryIngredient" | "flavorProfile" | "submealCategory" | "heavyLight"
+
 export interface AiTags {
   color?: string
   cuisine?: string
@@ -5,9 +7,17 @@ export interface AiTags {
   flavorProfile?: string
   submealCategory?: string
   heavyLight?: "Heavy" | "Light" | "Medium"
+  locked?: AiTagField[] // corrected by hand; AI categorisation never proposes changes to these
   updatedAt?: any
 }
 
+export interface NutritionInfo {
+  calories?: number
+  protein?: number
+  carbs?: number
+  fat?: number
+}
+
 export interface MenuItem {
   id: string
   name: string
@@ -15,6 +25,13 @@ export interface MenuItem {
   order?: number
   status?: string
   aiTags?: AiTags
+  nutritionalInfo?: NutritionInfo
+  allergens?: string[]
+  isVegetarian?: boolean
+  isVegan?: boolean
+  isGlutenFree?: boolean
+  spiceLevel?: "mild" | "medium" | "hot" | "extra-hot"
+  cooldownDays?: number // per-item minimum gap between servings; overrides the planning rule
 }
 
 export interface Service {
@@ -49,12 +66,74 @@ export interface SubMealPlan {
   isRepeatPlan?: boolean; 
 }
 
+// Building-level nutrition limits; a target without serviceId applies to the whole day
+export interface NutritionTarget {
+  serviceId?: string
+  maxCalories?: number
+  minProtein?: number
+  maxCarbs?: number
+  maxFat?: number
+  excludedAllergens?: string[]
+}
+
+export interface MenuCellData {
+  menuItemIds: string[]
+  selectedDescriptions?: Record<string, string>
+  customAssignments?: Record<string, Array<{ companyId: string; buildingId: string }>>
+}
+
+// date -> serviceId -> subServiceId -> mealPlanId -> subMealPlanId -> cell
+export interface MenuGridData {
+  [date: string]: {
+    [serviceId: string]: {
+      [subServiceId: string]: {
+        [mealPlanId: string]: {
+          [subMealPlanId: string]: MenuCellData
+        }
+      }
+    }
+  }
+}
+
+export interface CompanyMenu {
+  id: string
+  companyId: string
+  companyName?: string
+  buildingId: string
+  buildingName?: string
+  combinedMenuId?: string
+  startDate: string
+  endDate: string
+  status: string
+  menuData: MenuGridData
+  approvalStatus?: "draft" | "submitted" | "changes-requested" | "client-approved" | "published"
+  approvalCycle?: number // bumped each time an approved menu is reopened for changes
+  approvalHistory?: MenuApprovalEvent[]
+  createdAt?: any
+  updatedAt?: any
+}
+
+export interface MenuApprovalEvent {
+  from: string
+  to: string
+  cycle: number
+  actorId: string
+  actorName: string
+  actorType: "vendor" | "client"
+  note?: string
+  at: string // ISO timestamp
+}
+
 export interface MenuItemChange {
   itemId: string
   itemName: string
-  action: "added" | "removed" | "replaced" // added/removed/replaced with
+  action: "added" | "removed" | "replaced" | "reordered" | "description-changed"
   replacedWith?: string // ID of item it was replaced with
   replacedWithName?: string
+  fromPosition?: number // 0-based index in the cell, for "reordered"
+  toPosition?: number
+  previousDescription?: string // for "description-changed"
+  newDescription?: string
 }
 
 export interface CellChange {
@@ -83,7 +162,7 @@ export interface MenuUpdation {
   createdAt: Date
   createdBy?: string
   notes?: string
-  affectedCompanies?: Array<{ companyName: string; buildingName: string }>
+  affectedCompanies?: Array<{ companyId?: string; buildingId?: string; companyName: string; buildingName: string }>
 }
 
 export interface MenuPlanningRule {
@@ -92,6 +171,9 @@ export interface MenuPlanningRule {
   subServiceId: string
   companyId?: string // If missing, it's the base global rule. If set, it's a company override.
   grandRules?: string[] // e.g., ["No repeated main ingredients in a day", "Always serve one vegetarian option"]
+  cooldownDays?: number // same item not served again within this many days (0 / missing = off)
+  effectiveFrom?: string // YYYY-MM-DD Monday this version applies from (see lib/rule-versions)
+  version?: number
   dayRules: {
     // e.g., "monday", "tuesday"
     [dayKey: string]: {